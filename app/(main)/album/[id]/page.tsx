@@ -0,0 +1,116 @@
+import { fetchAlbumTracks, fetchMediaDetails, getImageUrl } from "@/app/actions";
+import { SearchBar } from "@/components/search-component";
+import { VibrantAuroraBackground } from "@/components/vibrant-aurora-background";
+import { MusicPlayButton } from "@/components/music-play-button";
+import { TrackList } from "@/components/track-list";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { formatRuntime } from "@/lib/utils";
+
+export default async function AlbumPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  try {
+    const [album, tracks] = await Promise.all([
+      fetchMediaDetails(id),
+      fetchAlbumTracks(id),
+    ]);
+
+    if (!album) {
+      return <div className="p-4">Album not found</div>;
+    }
+
+    const primaryImage = await getImageUrl(id, "Primary", 95, undefined, 600, 600);
+    const totalRunTimeTicks = tracks.reduce(
+      (total, track) => total + (track.RunTimeTicks || 0),
+      0
+    );
+    const artists = album.AlbumArtists?.length
+      ? album.AlbumArtists
+      : album.ArtistItems || [];
+
+    return (
+      <div className="min-h-screen overflow-hidden md:pr-1 pb-16">
+        <VibrantAuroraBackground
+          posterUrl={primaryImage}
+          className="fixed inset-0 z-0 pointer-events-none opacity-30"
+        />
+
+        <div className="relative">
+          <div className="absolute top-8 left-0 right-0 z-20 px-6">
+            <SearchBar />
+          </div>
+        </div>
+
+        <div className="relative z-10 mt-32 px-6 md:pl-8">
+          <div className="flex flex-col md:flex-row gap-8 items-center md:items-end">
+            <img
+              className="w-56 md:w-64 aspect-square object-cover rounded-lg shadow-2xl bg-muted"
+              src={primaryImage}
+              alt={album.Name || "Album Art"}
+              width={600}
+              height={600}
+            />
+
+            <div className="text-center md:text-start">
+              <span className="text-sm uppercase tracking-wide text-muted-foreground">
+                Album
+              </span>
+              <h1 className="text-4xl md:text-5xl font-semibold font-poppins text-foreground mt-1 mb-3">
+                {album.Name}
+              </h1>
+              <div className="text-sm text-muted-foreground">
+                {artists.map((artist, index) => (
+                  <span key={artist.Id}>
+                    {index > 0 && ", "}
+                    <Link
+                      href={`/artist/${artist.Id}`}
+                      className="font-medium text-foreground hover:underline"
+                    >
+                      {artist.Name}
+                    </Link>
+                  </span>
+                ))}
+                {[
+                  album.ProductionYear,
+                  `${tracks.length} ${tracks.length === 1 ? "song" : "songs"}`,
+                  totalRunTimeTicks > 0 && formatRuntime(totalRunTimeTicks),
+                ]
+                  .filter(Boolean)
+                  .map((detail) => (
+                    <span key={String(detail)}> • {detail}</span>
+                  ))}
+              </div>
+
+              <div className="flex flex-wrap justify-center md:justify-start gap-2 mt-6">
+                <MusicPlayButton itemId={id} itemType="MusicAlbum" action="play" variant="default" />
+                <MusicPlayButton itemId={id} itemType="MusicAlbum" action="shuffle" />
+                <MusicPlayButton itemId={id} itemType="MusicAlbum" action="instantMix" />
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-10 max-w-5xl">
+            {tracks.length > 0 ? (
+              <TrackList tracks={tracks} variant="album" />
+            ) : (
+              <p className="text-muted-foreground">This album has no tracks.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  } catch (error: any) {
+    // If authentication expired, redirect to login
+    if (error.message?.includes("Authentication expired")) {
+      redirect("/login");
+    }
+
+    console.error("Error loading album:", error);
+    return <div className="p-4">Error loading album. Please try again.</div>;
+  }
+}
@@ -0,0 +1,104 @@
+import { fetchArtistAlbums, fetchMediaDetails, getImageUrl } from "@/app/actions";
+import { getAuthData } from "@/app/actions/utils";
+import { SearchBar } from "@/components/search-component";
+import { VibrantAuroraBackground } from "@/components/vibrant-aurora-background";
+import { BiographySection } from "@/components/biography-section";
+import { MusicCard } from "@/components/music-card";
+import { MusicPlayButton } from "@/components/music-play-button";
+import { redirect } from "next/navigation";
+
+export default async function ArtistPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  try {
+    const { serverUrl } = await getAuthData();
+    const [artist, albums] = await Promise.all([
+      fetchMediaDetails(id),
+      fetchArtistAlbums(id),
+    ]);
+
+    if (!artist) {
+      return <div className="p-4">Artist not found</div>;
+    }
+
+    const primaryImage = await getImageUrl(id, "Primary", 95, undefined, 600, 600);
+
+    return (
+      <div className="min-h-screen overflow-hidden md:pr-1 pb-16">
+        <VibrantAuroraBackground
+          posterUrl={primaryImage}
+          className="fixed inset-0 z-0 pointer-events-none opacity-30"
+        />
+
+        <div className="relative">
+          <div className="absolute top-8 left-0 right-0 z-20 px-6">
+            <SearchBar />
+          </div>
+        </div>
+
+        <div className="relative z-10 mt-32 px-6 md:pl-8">
+          <div className="flex flex-col md:flex-row gap-8 items-center md:items-end">
+            <img
+              className="w-48 md:w-56 aspect-square object-cover rounded-full shadow-2xl bg-muted"
+              src={primaryImage}
+              alt={artist.Name || "Artist Photo"}
+              width={600}
+              height={600}
+            />
+
+            <div className="text-center md:text-start">
+              <span className="text-sm uppercase tracking-wide text-muted-foreground">
+                Artist
+              </span>
+              <h1 className="text-4xl md:text-5xl font-semibold font-poppins text-foreground mt-1 mb-3">
+                {artist.Name}
+              </h1>
+              <p className="text-sm text-muted-foreground">
+                {albums.length} {albums.length === 1 ? "album" : "albums"}
+                {artist.Genres?.length ? ` • ${artist.Genres.slice(0, 3).join(", ")}` : ""}
+              </p>
+
+              <div className="flex flex-wrap justify-center md:justify-start gap-2 mt-6">
+                <MusicPlayButton itemId={id} itemType="MusicArtist" action="play" variant="default" />
+                <MusicPlayButton itemId={id} itemType="MusicArtist" action="shuffle" />
+                <MusicPlayButton itemId={id} itemType="MusicArtist" action="instantMix" />
+              </div>
+            </div>
+          </div>
+
+          {artist.Overview && (
+            <div className="mt-8 max-w-3xl">
+              <BiographySection
+                biography={artist.Overview}
+                personName={artist.Name || undefined}
+              />
+            </div>
+          )}
+
+          {albums.length > 0 && (
+            <div className="mt-10">
+              <h3 className="text-3xl font-semibold mb-6 font-poppins">Albums</h3>
+              <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6">
+                {albums.map((album) => (
+                  <MusicCard key={album.Id} item={album} serverUrl={serverUrl} />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  } catch (error: any) {
+    // If authentication expired, redirect to login
+    if (error.message?.includes("Authentication expired")) {
+      redirect("/login");
+    }
+
+    console.error("Error loading artist:", error);
+    return <div className="p-4">Error loading artist. Please try again.</div>;
+  }
+}
@@ -0,0 +1,104 @@
+import {
+  fetchCollectionItems,
+  fetchMediaDetails,
+  getImageUrl,
+  getUserWithPolicy,
+} from "@/app/actions";
+import { getAuthData } from "@/app/actions/utils";
+import { SearchBar } from "@/components/search-component";
+import { VibrantAuroraBackground } from "@/components/vibrant-aurora-background";
+import { CollectionItems } from "@/components/collection-items";
+import { ImageEditorDialog } from "@/components/image-editor-dialog";
+import { redirect } from "next/navigation";
+
+export default async function CollectionPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  try {
+    const { serverUrl, user } = await getAuthData();
+    const [collection, items, userWithPolicy] = await Promise.all([
+      fetchMediaDetails(id),
+      fetchCollectionItems(id),
+      getUserWithPolicy(user.Id, id),
+    ]);
+
+    if (!collection) {
+      return <div className="p-4">Collection not found</div>;
+    }
+
+    const primaryImage = await getImageUrl(id, "Primary");
+    const canEdit = Boolean(userWithPolicy?.Policy?.IsAdministrator);
+
+    return (
+      <div className="min-h-screen overflow-hidden md:pr-1 pb-16">
+        <VibrantAuroraBackground
+          posterUrl={primaryImage}
+          className="fixed inset-0 z-0 pointer-events-none opacity-30"
+        />
+
+        <div className="relative">
+          <div className="absolute top-8 left-0 right-0 z-20 px-6">
+            <SearchBar />
+          </div>
+        </div>
+
+        <div className="relative z-10 mt-32 px-6 md:pl-8">
+          <div className="flex flex-col md:flex-row gap-8 items-center md:items-end">
+            <img
+              className="w-48 md:w-56 aspect-[2/3] object-cover rounded-lg shadow-2xl bg-muted"
+              src={primaryImage}
+              alt={collection.Name || "Collection Poster"}
+            />
+
+            <div className="text-center md:text-start">
+              <span className="text-sm uppercase tracking-wide text-muted-foreground">
+                Collection
+              </span>
+              <h1 className="text-4xl md:text-5xl font-semibold font-poppins text-foreground mt-1 mb-3">
+                {collection.Name}
+              </h1>
+              <span className="font-mono text-sm text-muted-foreground">
+                {items.length} {items.length === 1 ? "item" : "items"}
+              </span>
+              {collection.Overview && (
+                <p className="mt-3 max-w-2xl text-sm text-muted-foreground line-clamp-3">
+                  {collection.Overview}
+                </p>
+              )}
+
+              {canEdit && (
+                <div className="flex justify-center md:justify-start gap-2 mt-6">
+                  <ImageEditorDialog
+                    itemId={id}
+                    itemName={collection.Name || "Collection"}
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="mt-10">
+            <CollectionItems
+              collectionId={id}
+              items={items}
+              serverUrl={serverUrl}
+              canEdit={canEdit}
+            />
+          </div>
+        </div>
+      </div>
+    );
+  } catch (error: any) {
+    // If authentication expired, redirect to login
+    if (error.message?.includes("Authentication expired")) {
+      redirect("/login");
+    }
+
+    console.error("Error loading collection:", error);
+    return <div className="p-4">Error loading collection. Please try again.</div>;
+  }
+}
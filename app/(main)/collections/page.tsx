@@ -0,0 +1,41 @@
+import { fetchCollections } from "@/app/actions";
+import { getAuthData } from "@/app/actions/utils";
+import { SearchBar } from "@/components/search-component";
+import { MediaCard } from "@/components/media-card";
+
+export default async function CollectionsPage() {
+  const { serverUrl } = await getAuthData();
+  const collections = await fetchCollections();
+
+  return (
+    <div className="relative px-4 py-6 max-w-full overflow-hidden">
+      <div className="relative z-10">
+        <div className="relative z-[9999] mb-8">
+          <div className="mb-6">
+            <SearchBar />
+          </div>
+        </div>
+        <div className="mb-8">
+          <h2 className="text-3xl font-semibold text-foreground font-poppins mb-2">
+            Collections
+          </h2>
+          <span className="font-mono text-muted-foreground">
+            {collections.length} collections
+          </span>
+        </div>
+
+        {collections.length > 0 ? (
+          <div className="flex flex-wrap gap-4">
+            {collections.map((collection) => (
+              <MediaCard key={collection.Id} item={collection} serverUrl={serverUrl} />
+            ))}
+          </div>
+        ) : (
+          <p className="py-12 text-center text-muted-foreground">
+            No collections yet. Use &quot;Add to Collection&quot; on any movie or show to start one.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { fetchFavorites } from "@/app/actions";
+import { getAuthData } from "@/app/actions/utils";
+import { SearchBar } from "@/components/search-component";
+import { MediaCard } from "@/components/media-card";
+import { PersonCard } from "@/components/person-card";
+import { EpisodeCard } from "@/components/episode-card";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { BaseItemKind } from "@jellyfin/sdk/lib/generated-client/models/base-item-kind";
+import { BaseItemDto } from "@jellyfin/sdk/lib/generated-client/models/base-item-dto";
+import { Heart, Film, Tv, PlayCircle, User } from "lucide-react";
+import { redirect } from "next/navigation";
+
+export default async function FavoritesPage() {
+  try {
+    const { serverUrl } = await getAuthData();
+    const [movies, series, episodes, people] = await Promise.all([
+      fetchFavorites([BaseItemKind.Movie]),
+      fetchFavorites([BaseItemKind.Series]),
+      fetchFavorites([BaseItemKind.Episode]),
+      fetchFavorites([BaseItemKind.Person]),
+    ]);
+
+    const tabs = [
+      { value: "movies", label: "Movies", icon: Film, items: movies },
+      { value: "series", label: "Shows", icon: Tv, items: series },
+      { value: "episodes", label: "Episodes", icon: PlayCircle, items: episodes },
+      { value: "people", label: "People", icon: User, items: people },
+    ];
+    const total = tabs.reduce((sum, tab) => sum + tab.items.length, 0);
+    // Open on the first tab with something in it
+    const defaultTab = tabs.find((tab) => tab.items.length > 0)?.value ?? "movies";
+
+    const renderItems = (items: BaseItemDto[]) => (
+      <div className="flex flex-row flex-wrap gap-8">
+        {items.map((item) => (
+          <div key={item.Id} className="flex-shrink-0">
+            {item.Type === "Person" ? (
+              <PersonCard person={item} serverUrl={serverUrl} />
+            ) : item.Type === "Episode" ? (
+              <EpisodeCard item={item} serverUrl={serverUrl} />
+            ) : (
+              <MediaCard item={item} serverUrl={serverUrl} />
+            )}
+          </div>
+        ))}
+      </div>
+    );
+
+    return (
+      <div className="relative px-4 py-6 max-w-full overflow-hidden">
+        <div className="relative z-10">
+          <div className="relative z-[9999] mb-8">
+            <div className="mb-6">
+              <SearchBar />
+            </div>
+          </div>
+          <div className="mb-8">
+            <h2 className="text-3xl font-semibold text-foreground font-poppins mb-2">
+              Favourites
+            </h2>
+            <span className="font-mono text-muted-foreground">
+              {total} favourites
+            </span>
+          </div>
+
+          <Tabs defaultValue={defaultTab} className="w-full">
+            <TabsList className="mb-6">
+              {tabs.map((tab) => (
+                <TabsTrigger key={tab.value} value={tab.value} className="flex items-center gap-2">
+                  <tab.icon className="h-4 w-4" />
+                  {tab.label} ({tab.items.length})
+                </TabsTrigger>
+              ))}
+            </TabsList>
+
+            {tabs.map((tab) => (
+              <TabsContent key={tab.value} value={tab.value}>
+                {tab.items.length > 0 ? (
+                  renderItems(tab.items)
+                ) : (
+                  <div className="text-center p-8">
+                    <Heart className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                    <p className="text-muted-foreground">
+                      No favourite {tab.label.toLowerCase()} yet. Use the heart on any
+                      card or detail page to add some.
+                    </p>
+                  </div>
+                )}
+              </TabsContent>
+            ))}
+          </Tabs>
+        </div>
+      </div>
+    );
+  } catch (error: any) {
+    // If authentication expired, redirect to login
+    if (error.message?.includes("Authentication expired")) {
+      redirect("/login");
+    }
+
+    console.error("Error loading favourites:", error);
+    return <div className="p-4">Error loading favourites. Please try again.</div>;
+  }
+}
@@ -1,24 +1,32 @@
-import { fetchLibraryItems, getLibraryById } from "@/app/actions";
+import { fetchLibraryItems, fetchMusicLibraryItems, getLibraryById } from "@/app/actions";
 import { getAuthData } from "@/app/actions/utils";
 import { LibraryMediaListVirtual } from "@/components/library-media-list-virtual";
 import { SearchBar } from "@/components/search-component";
 import { ScanLibraryButton } from "@/components/scan-library-button";
+import { QueuePlayButton } from "@/components/queue-play-button";
+import { MusicLibrary } from "@/components/music-library";
+import { parseLibraryFilters } from "@/lib/library-filters";
 
 export default async function LibraryPage({
   params,
+  searchParams,
 }: {
   params: Promise<{ id: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
 }) {
   const { id } = await params;
+  const filters = parseLibraryFilters(await searchParams);
 
   const authData = await getAuthData();
   const { serverUrl, user } = authData;
 
-  // Fetch both library details and initial items (first page only)
-  const [libraryDetails, initialLibraryItems] = await Promise.all([
-    getLibraryById(id),
-    fetchLibraryItems(id, 50, 0), // Load first 50 items only
-  ]);
+  const libraryDetails = await getLibraryById(id);
+  const isMusic = libraryDetails?.CollectionType === "music";
+
+  // Music libraries open on their albums; everything else on movies and shows (first page only)
+  const initialLibraryItems = isMusic
+    ? await fetchMusicLibraryItems(id, "albums")
+    : await fetchLibraryItems(id, 50, 0, filters); // Load first 50 items only
 
   console.log(`Initial items: ${initialLibraryItems.items.length}`)
   console.log(`Total count: ${initialLibraryItems.totalRecordCount}`)
@@ -39,19 +47,38 @@ export default async function LibraryPage({
             <h2 className="text-3xl font-semibold text-foreground font-poppins">
               {libraryName}
             </h2>
-            <ScanLibraryButton libraryId={id} />
+            <div className="flex items-center gap-2">
+              {!isMusic && (
+                <>
+                  <QueuePlayButton itemId={id} itemType="CollectionFolder" action="play" />
+                  <QueuePlayButton itemId={id} itemType="CollectionFolder" action="shuffle" />
+                </>
+              )}
+              <ScanLibraryButton libraryId={id} />
+            </div>
           </div>
-          <span className="font-mono text-muted-foreground">
-            {initialLibraryItems.totalRecordCount} items
-          </span>
+          {!isMusic && (
+            <span className="font-mono text-muted-foreground">
+              {initialLibraryItems.totalRecordCount} items
+            </span>
+          )}
         </div>
 
-        <LibraryMediaListVirtual
-          libraryId={id}
-          mediaItems={initialLibraryItems.items}
-          totalCount={initialLibraryItems.totalRecordCount}
-          serverUrl={serverUrl}
-        />
+        {isMusic ? (
+          <MusicLibrary
+            libraryId={id}
+            serverUrl={serverUrl}
+            initialAlbums={initialLibraryItems.items}
+            totalAlbums={initialLibraryItems.totalRecordCount}
+          />
+        ) : (
+          <LibraryMediaListVirtual
+            libraryId={id}
+            mediaItems={initialLibraryItems.items}
+            totalCount={initialLibraryItems.totalRecordCount}
+            serverUrl={serverUrl}
+          />
+        )}
       </div>
     </div>
   );
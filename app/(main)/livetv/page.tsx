@@ -0,0 +1,31 @@
+import { fetchLiveTvChannels } from "@/app/actions";
+import { getAuthData } from "@/app/actions/utils";
+import { SearchBar } from "@/components/search-component";
+import { LiveTv } from "@/components/live-tv";
+
+export default async function LiveTvPage() {
+  const { serverUrl } = await getAuthData();
+  const channels = await fetchLiveTvChannels();
+
+  return (
+    <div className="relative px-4 py-6 max-w-full overflow-hidden">
+      <div className="relative z-10">
+        <div className="relative z-[9999] mb-8">
+          <div className="mb-6">
+            <SearchBar />
+          </div>
+        </div>
+        <div className="mb-8">
+          <h2 className="text-3xl font-semibold text-foreground font-poppins mb-2">
+            Live TV
+          </h2>
+          <span className="font-mono text-muted-foreground">
+            {channels.length} channels
+          </span>
+        </div>
+
+        <LiveTv channels={channels} serverUrl={serverUrl} />
+      </div>
+    </div>
+  );
+}
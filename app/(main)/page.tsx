@@ -31,8 +31,11 @@ export default async function Home() {
     resumeItems = resumeItemsResult;
     nextUpItems = nextUpItemsResult;
 
-    // Fetch recently added items for each library
-    const libraryPromises = userLibraries.map(async (library) => {
+    // Fetch recently added items for each library; music has its own library page instead
+    const videoLibraries = userLibraries.filter(
+      (library) => library.CollectionType?.toLowerCase() !== "music"
+    );
+    const libraryPromises = videoLibraries.map(async (library) => {
       const items = await fetchRecentlyAddedItems(library.Id, 24);
       return { library, items };
     });
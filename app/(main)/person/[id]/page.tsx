@@ -16,6 +16,7 @@ import { Button } from "@/components/ui/button";
 import { MediaCard } from "@/components/media-card";
 import { getAuthData } from "@/app/actions/utils";
 import { BiographySection } from "@/components/biography-section";
+import { FavoriteButton } from "@/components/favorite-button";
 
 export default async function PersonPage({
   params,
@@ -109,10 +110,11 @@ export default async function PersonPage({
 
             {/* Person information */}
             <div className="w-full md:w-2/3 lg:w-3/4 pt-10 md:pt-8 text-center md:text-start">
-              <div className="mb-4 flex justify-center md:justify-start">
-                <h1 className="text-4xl md:text-5xl font-semibold font-poppins text-foreground md:pl-8">
+              <div className="mb-4 flex items-center justify-center md:justify-start gap-4 md:pl-8">
+                <h1 className="text-4xl md:text-5xl font-semibold font-poppins text-foreground">
                   {person.Name}
                 </h1>
+                <FavoriteButton itemId={person.Id!} isFavorite={person.UserData?.IsFavorite} />
               </div>
 
               {/* Person Details */}
@@ -0,0 +1,113 @@
+import { fetchMediaDetails, fetchPlaylistItems, getImageUrl } from "@/app/actions";
+import { getAuthData } from "@/app/actions/utils";
+import { SearchBar } from "@/components/search-component";
+import { VibrantAuroraBackground } from "@/components/vibrant-aurora-background";
+import { QueuePlayButton } from "@/components/queue-play-button";
+import { MusicPlayButton } from "@/components/music-play-button";
+import { PlaylistEntries } from "@/components/playlist-entries";
+import { PlaylistShareDialog } from "@/components/playlist-share-dialog";
+import { redirect } from "next/navigation";
+import { formatRuntime } from "@/lib/utils";
+
+export default async function PlaylistPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  try {
+    const { serverUrl } = await getAuthData();
+    const [playlist, entries] = await Promise.all([
+      fetchMediaDetails(id),
+      fetchPlaylistItems(id),
+    ]);
+
+    if (!playlist) {
+      return <div className="p-4">Playlist not found</div>;
+    }
+
+    const primaryImage = await getImageUrl(id, "Primary", 95, undefined, 600, 600);
+    const isAudio = playlist.MediaType === "Audio";
+    const totalRunTimeTicks = entries.reduce(
+      (total, entry) => total + (entry.RunTimeTicks || 0),
+      0
+    );
+
+    return (
+      <div className="min-h-screen overflow-hidden md:pr-1 pb-16">
+        <VibrantAuroraBackground
+          posterUrl={primaryImage}
+          className="fixed inset-0 z-0 pointer-events-none opacity-30"
+        />
+
+        <div className="relative">
+          <div className="absolute top-8 left-0 right-0 z-20 px-6">
+            <SearchBar />
+          </div>
+        </div>
+
+        <div className="relative z-10 mt-32 px-6 md:pl-8">
+          <div className="flex flex-col md:flex-row gap-8 items-center md:items-end">
+            <img
+              className="w-56 md:w-64 aspect-square object-cover rounded-lg shadow-2xl bg-muted"
+              src={primaryImage}
+              alt={playlist.Name || "Playlist"}
+              width={600}
+              height={600}
+            />
+
+            <div className="text-center md:text-start">
+              <span className="text-sm uppercase tracking-wide text-muted-foreground">
+                Playlist
+              </span>
+              <h1 className="text-4xl md:text-5xl font-semibold font-poppins text-foreground mt-1 mb-3">
+                {playlist.Name}
+              </h1>
+              <span className="text-sm text-muted-foreground">
+                {[
+                  `${entries.length} ${entries.length === 1 ? "item" : "items"}`,
+                  totalRunTimeTicks > 0 && formatRuntime(totalRunTimeTicks),
+                ]
+                  .filter(Boolean)
+                  .join(" • ")}
+              </span>
+
+              <div className="flex flex-wrap justify-center md:justify-start gap-2 mt-6">
+                {isAudio ? (
+                  <>
+                    <MusicPlayButton itemId={id} itemType="Playlist" action="play" variant="default" />
+                    <MusicPlayButton itemId={id} itemType="Playlist" action="shuffle" />
+                  </>
+                ) : (
+                  <>
+                    <QueuePlayButton itemId={id} itemType="Playlist" action="play" variant="default" />
+                    <QueuePlayButton itemId={id} itemType="Playlist" action="shuffle" />
+                  </>
+                )}
+                <PlaylistShareDialog playlistId={id} playlistName={playlist.Name || "Playlist"} />
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-10 max-w-5xl">
+            <PlaylistEntries
+              playlistId={id}
+              entries={entries}
+              serverUrl={serverUrl}
+              isAudio={isAudio}
+            />
+          </div>
+        </div>
+      </div>
+    );
+  } catch (error: any) {
+    // If authentication expired, redirect to login
+    if (error.message?.includes("Authentication expired")) {
+      redirect("/login");
+    }
+
+    console.error("Error loading playlist:", error);
+    return <div className="p-4">Error loading playlist. Please try again.</div>;
+  }
+}
@@ -0,0 +1,41 @@
+import { fetchPlaylists } from "@/app/actions";
+import { getAuthData } from "@/app/actions/utils";
+import { SearchBar } from "@/components/search-component";
+import { MediaCard } from "@/components/media-card";
+
+export default async function PlaylistsPage() {
+  const { serverUrl } = await getAuthData();
+  const playlists = await fetchPlaylists();
+
+  return (
+    <div className="relative px-4 py-6 max-w-full overflow-hidden">
+      <div className="relative z-10">
+        <div className="relative z-[9999] mb-8">
+          <div className="mb-6">
+            <SearchBar />
+          </div>
+        </div>
+        <div className="mb-8">
+          <h2 className="text-3xl font-semibold text-foreground font-poppins mb-2">
+            Playlists
+          </h2>
+          <span className="font-mono text-muted-foreground">
+            {playlists.length} playlists
+          </span>
+        </div>
+
+        {playlists.length > 0 ? (
+          <div className="flex flex-wrap gap-4">
+            {playlists.map((playlist) => (
+              <MediaCard key={playlist.Id} item={playlist} serverUrl={serverUrl} />
+            ))}
+          </div>
+        ) : (
+          <p className="py-12 text-center text-muted-foreground">
+            No playlists yet. Use &quot;Add to Playlist&quot; on any movie or episode to start one.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import { VibrantAuroraBackground } from "@/components/vibrant-aurora-background"
 import { VibrantLogo } from "@/components/vibrant-logo";
 import { SeasonEpisodes } from "@/components/season-episodes";
 import { SeriesPlayButton } from "@/components/series-play-button";
+import { QueuePlayButton } from "@/components/queue-play-button";
 import { MediaSection } from "@/components/media-section";
 import { Star, Play, TvIcon } from "lucide-react";
 import { redirect } from "next/navigation";
@@ -149,8 +150,9 @@ export default async function SeasonPage({
               </div>
 
               {/* Play button */}
-              <div className="flex justify-center md:justify-start md:pl-8 mt-8">
+              <div className="flex items-center gap-2 justify-center md:justify-start md:pl-8 mt-8">
                 <SeriesPlayButton series={season} />
+                <QueuePlayButton itemId={id} itemType="Season" action="shuffle" size="lg" />
               </div>
 
               <div className="px-8 md:pl-8 md:pt-6 md:pr-16 flex flex-col justify-center md:items-start items-center">
@@ -5,7 +5,9 @@ import {
   getServerUrl,
 } from "@/app/actions";
 import { MediaActions } from "@/components/media-actions";
+import { FavoriteButton } from "@/components/favorite-button";
 import { SeriesPlayButton } from "@/components/series-play-button";
+import { QueuePlayButton } from "@/components/queue-play-button";
 import { SearchBar } from "@/components/search-component";
 import { Badge } from "@/components/ui/badge";
 import { CastScrollArea } from "@/components/cast-scrollarea";
@@ -159,6 +161,12 @@ export default async function Show({
                 {/* Series play/resume button and media actions */}
                 <div className="flex items-center gap-2 mb-4">
                   <SeriesPlayButton series={show} />
+                  <QueuePlayButton itemId={show.Id!} itemType="Series" action="shuffle" size="lg" />
+                  <FavoriteButton
+                    itemId={show.Id!}
+                    isFavorite={show.UserData?.IsFavorite}
+                    className="size-10"
+                  />
                 </div>
                 <MediaActions movie={show} />
 
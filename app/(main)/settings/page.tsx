@@ -16,14 +16,47 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
-import { useSettings } from "@/contexts/settings-context";
-import { Settings2, Ship, Bot, Mic, Captions } from "lucide-react";
+import {
+  useSettings,
+  UP_NEXT_OPTIONS,
+  STILL_WATCHING_OPTIONS,
+  SEGMENT_TYPES,
+  SegmentSkipPolicy,
+  SUBTITLE_FONT_SIZES,
+  SUBTITLE_COLORS,
+  SUBTITLE_BACKGROUNDS,
+  SUBTITLE_EDGE_STYLES,
+  SubtitleStyle,
+} from "@/contexts/settings-context";
+import {
+  Settings2,
+  Ship,
+  Bot,
+  Mic,
+  Captions,
+  Timer,
+  Coffee,
+  FastForward,
+  Palette,
+} from "lucide-react";
 import { AuroraBackground } from "@/components/aurora-background";
 import { SearchBar } from "@/components/search-component";
 import { Label } from "@/components/ui/label";
 import { Gemini, Groq, OpenRouter } from "@lobehub/icons";
 import { Ollama } from "@lobehub/icons";
 import { LANGUAGES } from "@/lib/languages";
+import { getSubtitleCueStyle } from "@/components/subtitle-overlay";
+
+const SUBTITLE_STYLE_FIELDS: {
+  key: keyof SubtitleStyle;
+  label: string;
+  options: { value: string; label: string }[];
+}[] = [
+  { key: "fontSize", label: "Font size", options: SUBTITLE_FONT_SIZES },
+  { key: "color", label: "Text color", options: SUBTITLE_COLORS },
+  { key: "background", label: "Background", options: SUBTITLE_BACKGROUNDS },
+  { key: "edgeStyle", label: "Edge style", options: SUBTITLE_EDGE_STYLES },
+];
 
 export default function SettingsPage() {
   const {
@@ -49,7 +82,18 @@ export default function SettingsPage() {
     setPreferredAudioLanguage,
     preferredSubtitleLanguage,
     setPreferredSubtitleLanguage,
+    autoPlayNextEpisode,
+    setAutoPlayNextEpisode,
+    upNextSeconds,
+    setUpNextSeconds,
+    stillWatchingEpisodes,
+    setStillWatchingEpisodes,
+    segmentSkipPolicies,
+    setSegmentSkipPolicy,
+    subtitleStyle,
+    setSubtitleStyle,
   } = useSettings();
+  const subtitlePreviewStyle = getSubtitleCueStyle(subtitleStyle);
 
   return (
     <div className="relative px-4 py-6 max-w-full overflow-hidden">
@@ -452,6 +496,174 @@ export default function SettingsPage() {
                   available.
                 </p>
               </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <div className="text-base font-medium">
+                    Auto-play Next Episode
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    Show an &quot;Up next&quot; countdown during the end credits
+                    and start the next episode with the same audio and subtitle
+                    languages.
+                  </div>
+                </div>
+                <Switch
+                  checked={autoPlayNextEpisode}
+                  onCheckedChange={setAutoPlayNextEpisode}
+                  className="scale-125"
+                />
+              </div>
+
+              {autoPlayNextEpisode && (
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label
+                      htmlFor="up-next-seconds"
+                      className="text-base font-medium flex items-center gap-2"
+                    >
+                      <Timer className="h-4 w-4" />
+                      Up Next Timing
+                    </Label>
+                    <Select
+                      value={upNextSeconds.toString()}
+                      onValueChange={(value) => setUpNextSeconds(Number(value))}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Select a duration" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {UP_NEXT_OPTIONS.map((seconds) => (
+                          <SelectItem key={seconds} value={seconds.toString()}>
+                            Last {seconds} seconds
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground">
+                      When an episode has no detected outro, the card appears
+                      this long before the end.
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label
+                      htmlFor="still-watching-episodes"
+                      className="text-base font-medium flex items-center gap-2"
+                    >
+                      <Coffee className="h-4 w-4" />
+                      Are You Still Watching?
+                    </Label>
+                    <Select
+                      value={stillWatchingEpisodes.toString()}
+                      onValueChange={(value) =>
+                        setStillWatchingEpisodes(Number(value))
+                      }
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Select a limit" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {STILL_WATCHING_OPTIONS.map((episodes) => (
+                          <SelectItem key={episodes} value={episodes.toString()}>
+                            {episodes === 0 ? "Never ask" : `After ${episodes} episodes`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground">
+                      Pause and ask before continuing once this many episodes
+                      have played in a row without any input.
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-3">
+                <div className="space-y-0.5">
+                  <div className="text-base font-medium flex items-center gap-2">
+                    <FastForward className="h-4 w-4" />
+                    Skip Segments
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    Choose whether to show a skip button, skip automatically, or
+                    do nothing for each kind of segment detected by the server.
+                  </div>
+                </div>
+                {SEGMENT_TYPES.map(({ type, label }) => (
+                  <div
+                    key={type}
+                    className="flex items-center justify-between gap-4"
+                  >
+                    <Label htmlFor={`segment-${type}`} className="text-sm">
+                      {label}
+                    </Label>
+                    <Select
+                      value={segmentSkipPolicies[type]}
+                      onValueChange={(value) =>
+                        setSegmentSkipPolicy(type, value as SegmentSkipPolicy)
+                      }
+                    >
+                      <SelectTrigger id={`segment-${type}`} className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="ask">Show skip button</SelectItem>
+                        <SelectItem value="auto">Skip automatically</SelectItem>
+                        <SelectItem value="ignore">Do nothing</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-3">
+                <div className="space-y-0.5">
+                  <div className="text-base font-medium flex items-center gap-2">
+                    <Palette className="h-4 w-4" />
+                    Subtitle Appearance
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    Style text subtitles such as SRT and WebVTT. ASS/SSA
+                    subtitles keep the styling from their file.
+                  </div>
+                </div>
+                <div className="flex items-center justify-center rounded-md bg-black/80 px-4 py-6 text-center">
+                  <span
+                    className={subtitlePreviewStyle.className}
+                    style={subtitlePreviewStyle.style}
+                  >
+                    The quick brown fox jumps over the lazy dog
+                  </span>
+                </div>
+                {SUBTITLE_STYLE_FIELDS.map(({ key, label, options }) => (
+                  <div
+                    key={key}
+                    className="flex items-center justify-between gap-4"
+                  >
+                    <Label htmlFor={`subtitle-${key}`} className="text-sm">
+                      {label}
+                    </Label>
+                    <Select
+                      value={subtitleStyle[key]}
+                      onValueChange={(value) =>
+                        setSubtitleStyle({ [key]: value })
+                      }
+                    >
+                      <SelectTrigger id={`subtitle-${key}`} className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {options.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
             </CardContent>
           </Card>
         </div>
@@ -0,0 +1,107 @@
+"use server";
+
+import { cookies } from "next/headers";
+import {
+  BaseItemDto,
+  BaseItemKind,
+  ItemFields,
+  ItemSortBy,
+  SortOrder,
+} from "@jellyfin/sdk/lib/generated-client/models";
+import { getCollectionApi } from "@jellyfin/sdk/lib/utils/api/collection-api";
+import { getItemsApi } from "@jellyfin/sdk/lib/utils/api/items-api";
+import { createJellyfinInstance } from "@/lib/utils";
+
+// Helper function to get auth data from cookies
+async function getAuthData() {
+  const cookieStore = await cookies();
+  const authData = cookieStore.get("jellyfin-auth");
+
+  if (!authData?.value) {
+    throw new Error("Not authenticated");
+  }
+
+  const parsed = JSON.parse(authData.value);
+  return { serverUrl: parsed.serverUrl, user: parsed.user };
+}
+
+async function createApi() {
+  const { serverUrl, user } = await getAuthData();
+  const jellyfinInstance = createJellyfinInstance();
+  const api = jellyfinInstance.createApi(serverUrl);
+  api.accessToken = user.AccessToken;
+  return { api, user };
+}
+
+// Every collection the user can see, by name
+export async function fetchCollections(): Promise<BaseItemDto[]> {
+  try {
+    const { api, user } = await createApi();
+
+    const { data } = await getItemsApi(api).getItems({
+      userId: user.Id,
+      includeItemTypes: [BaseItemKind.BoxSet],
+      recursive: true,
+      sortBy: [ItemSortBy.SortName],
+      sortOrder: [SortOrder.Ascending],
+      fields: [ItemFields.ChildCount, ItemFields.Overview, ItemFields.PrimaryImageAspectRatio],
+    });
+
+    return data.Items || [];
+  } catch (error) {
+    console.error("Failed to fetch collections:", error);
+    return [];
+  }
+}
+
+// A collection's items in the order the collection keeps them
+export async function fetchCollectionItems(collectionId: string): Promise<BaseItemDto[]> {
+  try {
+    const { api, user } = await createApi();
+
+    const { data } = await getItemsApi(api).getItems({
+      userId: user.Id,
+      parentId: collectionId,
+      fields: [ItemFields.PrimaryImageAspectRatio, ItemFields.Overview, ItemFields.DateCreated],
+    });
+
+    return data.Items || [];
+  } catch (error) {
+    console.error("Failed to fetch collection items:", error);
+    return [];
+  }
+}
+
+// Returns the id of the new collection
+export async function createCollection(name: string, itemIds: string[]): Promise<string> {
+  try {
+    const { api } = await createApi();
+
+    const { data } = await getCollectionApi(api).createCollection({
+      name,
+      ids: itemIds,
+    });
+
+    return data.Id!;
+  } catch (error) {
+    throw new Error(`Failed to create collection: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function addToCollection(collectionId: string, itemIds: string[]): Promise<void> {
+  try {
+    const { api } = await createApi();
+    await getCollectionApi(api).addToCollection({ collectionId, ids: itemIds });
+  } catch (error) {
+    throw new Error(`Failed to add to collection: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function removeFromCollection(collectionId: string, itemIds: string[]): Promise<void> {
+  try {
+    const { api } = await createApi();
+    await getCollectionApi(api).removeFromCollection({ collectionId, ids: itemIds });
+  } catch (error) {
+    throw new Error(`Failed to remove from collection: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
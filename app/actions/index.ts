@@ -21,8 +21,19 @@ export {
   reportPlaybackProgress,
   reportPlaybackStopped,
   fetchLibraryItems,
+  fetchLibraryFilterOptions,
+  fetchLibraryLetterCounts,
   fetchSimilarItems,
   scanLibrary,
+  refreshItemMetadata,
+  deleteItem,
+  fetchMetadataEditorInfo,
+  updateItemMetadata,
+  searchRemoteMetadata,
+  applyRemoteSearchResult,
+  fetchPlayQueueItems,
+  fetchItemsByIds,
+  fetchFavorites,
 } from './media';
 
 // TV show actions
@@ -46,12 +57,101 @@ export {
   searchPeople,
 } from './search';
 
+// Subtitle actions
+export {
+  searchRemoteSubtitles,
+  downloadRemoteSubtitles,
+  uploadSubtitle,
+  deleteSubtitle,
+} from './subtitles';
+
+// Session actions
+export {
+  fetchControllableSessions,
+  fetchSession,
+  playOnSession,
+  sendSessionPlaystateCommand,
+  sendSessionGeneralCommand,
+  reportSessionCapabilities,
+} from './sessions';
+
+// SyncPlay actions
+export {
+  fetchSyncPlayGroups,
+  createSyncPlayGroup,
+  joinSyncPlayGroup,
+  leaveSyncPlayGroup,
+  setSyncPlayQueue,
+  requestSyncPlayPause,
+  requestSyncPlayUnpause,
+  requestSyncPlaySeek,
+  requestSyncPlayStop,
+  reportSyncPlayBuffering,
+  reportSyncPlayReady,
+  reportSyncPlayPing,
+} from './syncplay';
+
+// Music actions
+export {
+  fetchMusicLibraryItems,
+  fetchAlbumTracks,
+  fetchArtistAlbums,
+  fetchArtistTracks,
+  fetchInstantMix,
+  fetchLyrics,
+  getAudioStreamUrl,
+} from './music';
+
+// Live TV actions
+export {
+  fetchLiveTvChannels,
+  fetchGuidePrograms,
+  fetchRecordings,
+  deleteRecording,
+  fetchTimers,
+  fetchSeriesTimers,
+  scheduleRecording,
+  scheduleSeriesRecording,
+  cancelRecording,
+  cancelSeriesRecording,
+} from './live-tv';
+
+// Collection actions
+export {
+  fetchCollections,
+  fetchCollectionItems,
+  createCollection,
+  addToCollection,
+  removeFromCollection,
+} from './collections';
+
+// Playlist actions
+export {
+  fetchPlaylists,
+  fetchPlaylistItems,
+  createPlaylist,
+  addToPlaylist,
+  removeFromPlaylist,
+  movePlaylistItem,
+  fetchPlaylistAccess,
+  setPlaylistPublic,
+  sharePlaylist,
+  unsharePlaylist,
+  fetchShareableUsers,
+} from './playlists';
+
 // Utility actions
 export {
   getImageUrl,
   getDownloadUrl,
+  getTranscodedDownloadUrl,
   getPlaybackUrl,
+  getLiveStreamUrl,
+  closeLiveStream,
+  stopTranscoding,
+  getActiveTranscodingInfo,
   getSubtitleTracks,
+  getTrickplayManifest,
   getUserLibraries,
   getLibraryById,
   fetchRemoteImages,
@@ -69,4 +169,9 @@ export type {
   CurrentImage,
   UserPolicy,
   UserWithPolicy,
+  TrickplayManifest,
+  ActiveTranscodingInfo,
 } from './utils';
+export type { MusicLibraryView } from './music';
+export type { PlaylistAccess } from './playlists';
+export type { RemoteSearchInfo } from './media';
@@ -0,0 +1,196 @@
+"use server";
+
+import { cookies } from "next/headers";
+import {
+  BaseItemDto,
+  ImageType,
+  ItemFields,
+  ItemSortBy,
+  SeriesTimerInfoDto,
+  SortOrder,
+  TimerInfoDto,
+} from "@jellyfin/sdk/lib/generated-client/models";
+import { getLiveTvApi } from "@jellyfin/sdk/lib/utils/api/live-tv-api";
+import { createJellyfinInstance } from "@/lib/utils";
+
+// Helper function to get auth data from cookies
+async function getAuthData() {
+  const cookieStore = await cookies();
+  const authData = cookieStore.get("jellyfin-auth");
+
+  if (!authData?.value) {
+    throw new Error("Not authenticated");
+  }
+
+  const parsed = JSON.parse(authData.value);
+  return { serverUrl: parsed.serverUrl, user: parsed.user };
+}
+
+async function getLiveTv() {
+  const { serverUrl, user } = await getAuthData();
+  const jellyfinInstance = createJellyfinInstance();
+  const api = jellyfinInstance.createApi(serverUrl);
+  api.accessToken = user.AccessToken;
+  return { liveTvApi: getLiveTvApi(api), user };
+}
+
+// Channels in guide order, each with what's on right now
+export async function fetchLiveTvChannels(): Promise<BaseItemDto[]> {
+  try {
+    const { liveTvApi, user } = await getLiveTv();
+
+    const { data } = await liveTvApi.getLiveTvChannels({
+      userId: user.Id,
+      addCurrentProgram: true,
+      enableFavoriteSorting: true,
+      enableImages: true,
+      imageTypeLimit: 1,
+      enableImageTypes: [ImageType.Primary],
+      fields: [ItemFields.ChannelInfo],
+    });
+
+    return data.Items || [];
+  } catch (error) {
+    console.error("Failed to fetch live TV channels:", error);
+    return [];
+  }
+}
+
+// Programs on the given channels overlapping the window, in start order
+export async function fetchGuidePrograms(
+  channelIds: string[],
+  windowStart: string,
+  windowEnd: string
+): Promise<BaseItemDto[]> {
+  if (channelIds.length === 0) return [];
+
+  try {
+    const { liveTvApi, user } = await getLiveTv();
+
+    const { data } = await liveTvApi.getLiveTvPrograms({
+      userId: user.Id,
+      channelIds,
+      minEndDate: windowStart,
+      maxStartDate: windowEnd,
+      sortBy: [ItemSortBy.StartDate],
+      sortOrder: [SortOrder.Ascending],
+      enableImages: false,
+      enableTotalRecordCount: false,
+    });
+
+    return data.Items || [];
+  } catch (error) {
+    console.error("Failed to fetch guide programs:", error);
+    return [];
+  }
+}
+
+export async function fetchRecordings(): Promise<BaseItemDto[]> {
+  try {
+    const { liveTvApi, user } = await getLiveTv();
+
+    const { data } = await liveTvApi.getRecordings({
+      userId: user.Id,
+      enableImages: true,
+      fields: [ItemFields.Overview, ItemFields.DateCreated, ItemFields.CanDelete],
+      enableTotalRecordCount: false,
+    });
+
+    return data.Items || [];
+  } catch (error) {
+    console.error("Failed to fetch recordings:", error);
+    return [];
+  }
+}
+
+export async function deleteRecording(recordingId: string): Promise<void> {
+  const { liveTvApi } = await getLiveTv();
+
+  try {
+    await liveTvApi.deleteRecording({ recordingId });
+  } catch (error) {
+    throw new Error(`Failed to delete recording: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Upcoming one-off recordings, soonest first
+export async function fetchTimers(): Promise<TimerInfoDto[]> {
+  try {
+    const { liveTvApi } = await getLiveTv();
+
+    const { data } = await liveTvApi.getTimers({ isScheduled: true });
+    return (data.Items || []).sort(
+      (a, b) => Date.parse(a.StartDate ?? "") - Date.parse(b.StartDate ?? "")
+    );
+  } catch (error) {
+    console.error("Failed to fetch timers:", error);
+    return [];
+  }
+}
+
+export async function fetchSeriesTimers(): Promise<SeriesTimerInfoDto[]> {
+  try {
+    const { liveTvApi } = await getLiveTv();
+
+    const { data } = await liveTvApi.getSeriesTimers({
+      sortBy: "SortName",
+      sortOrder: SortOrder.Ascending,
+    });
+    return data.Items || [];
+  } catch (error) {
+    console.error("Failed to fetch series timers:", error);
+    return [];
+  }
+}
+
+// The server's defaults for a program (padding, keep-up-to, etc.) are what a new timer starts from
+async function getTimerDefaults(programId: string): Promise<SeriesTimerInfoDto> {
+  const { liveTvApi } = await getLiveTv();
+
+  const { data } = await liveTvApi.getDefaultTimer({ programId });
+  return data;
+}
+
+export async function scheduleRecording(programId: string): Promise<void> {
+  try {
+    const { liveTvApi } = await getLiveTv();
+    const defaults = await getTimerDefaults(programId);
+
+    await liveTvApi.createTimer({
+      timerInfoDto: { ...defaults, ProgramId: programId } as TimerInfoDto,
+    });
+  } catch (error) {
+    throw new Error(`Failed to schedule recording: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function scheduleSeriesRecording(programId: string): Promise<void> {
+  try {
+    const { liveTvApi } = await getLiveTv();
+    const defaults = await getTimerDefaults(programId);
+
+    await liveTvApi.createSeriesTimer({
+      seriesTimerInfoDto: { ...defaults, ProgramId: programId },
+    });
+  } catch (error) {
+    throw new Error(`Failed to schedule series recording: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function cancelRecording(timerId: string): Promise<void> {
+  try {
+    const { liveTvApi } = await getLiveTv();
+    await liveTvApi.cancelTimer({ timerId });
+  } catch (error) {
+    throw new Error(`Failed to cancel recording: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function cancelSeriesRecording(seriesTimerId: string): Promise<void> {
+  try {
+    const { liveTvApi } = await getLiveTv();
+    await liveTvApi.cancelSeriesTimer({ timerId: seriesTimerId });
+  } catch (error) {
+    throw new Error(`Failed to cancel series recording: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -9,12 +9,34 @@ import { BaseItemKind } from "@jellyfin/sdk/lib/generated-client/models/base-ite
 import { ItemFields } from "@jellyfin/sdk/lib/generated-client/models/item-fields";
 import { ItemSortBy } from "@jellyfin/sdk/lib/generated-client/models/item-sort-by";
 import { SortOrder } from "@jellyfin/sdk/lib/generated-client/models/sort-order";
+import { PlayMethod } from "@jellyfin/sdk/lib/generated-client/models/play-method";
+import { MediaSegmentType } from "@jellyfin/sdk/lib/generated-client/models/media-segment-type";
+import { ItemFilter } from "@jellyfin/sdk/lib/generated-client/models/item-filter";
+import { VideoType } from "@jellyfin/sdk/lib/generated-client/models/video-type";
+import { ItemsApiGetItemsRequest } from "@jellyfin/sdk/lib/generated-client/api/items-api";
 import { UserLibraryApi } from "@jellyfin/sdk/lib/generated-client/api/user-library-api";
 import { LibraryApi } from "@jellyfin/sdk/lib/generated-client/api/library-api";
 import { getItemsApi } from "@jellyfin/sdk/lib/utils/api/items-api";
 import { getLibraryApi } from "@jellyfin/sdk/lib/utils/api/library-api";
 import { getGenresApi } from "@jellyfin/sdk/lib/utils/api/genres-api";
+import { getFilterApi } from "@jellyfin/sdk/lib/utils/api/filter-api";
+import { getStudiosApi } from "@jellyfin/sdk/lib/utils/api/studios-api";
+import { getPlaylistsApi } from "@jellyfin/sdk/lib/utils/api/playlists-api";
+import { getPersonsApi } from "@jellyfin/sdk/lib/utils/api/persons-api";
+import { getItemRefreshApi } from "@jellyfin/sdk/lib/utils/api/item-refresh-api";
+import { getItemUpdateApi } from "@jellyfin/sdk/lib/utils/api/item-update-api";
+import { getItemLookupApi } from "@jellyfin/sdk/lib/utils/api/item-lookup-api";
+import { RemoteSearchResult } from "@jellyfin/sdk/lib/generated-client/models/remote-search-result";
+import { MetadataEditorInfo } from "@jellyfin/sdk/lib/generated-client/models/metadata-editor-info";
+import { MetadataRefreshMode } from "@jellyfin/sdk/lib/generated-client/models/metadata-refresh-mode";
+import { VideoRangeType } from "@jellyfin/sdk/lib/generated-client/models/video-range-type";
 import { createJellyfinInstance } from "@/lib/utils";
+import {
+  LIBRARY_LETTERS,
+  LibraryFilterOptions,
+  LibraryFilters,
+  expandFilterYears,
+} from "@/lib/library-filters";
 
 // Type aliases for easier use
 type JellyfinItem = BaseItemDto;
@@ -23,7 +45,7 @@ type JellyfinItem = BaseItemDto;
 export interface MediaSegment {
   Id: string;
   ItemId: string;
-  Type: "Intro" | "Outro";
+  Type: MediaSegmentType;
   StartTicks: number;
   EndTicks: number;
 }
@@ -288,7 +310,8 @@ export async function fetchResumeItems() {
 export async function reportPlaybackStart(
   itemId: string,
   mediaSourceId: string,
-  playSessionId: string
+  playSessionId: string,
+  playMethod: PlayMethod = PlayMethod.Transcode
 ): Promise<boolean> {
   try {
     const { serverUrl, user } = await getAuthData();
@@ -308,7 +331,7 @@ export async function reportPlaybackStart(
         PlaySessionId: playSessionId,
         CanSeek: true,
         QueueableMediaTypes: ["Video", "Audio"],
-        PlayMethod: "Transcode",
+        PlayMethod: playMethod,
       }),
     });
 
@@ -324,7 +347,8 @@ export async function reportPlaybackProgress(
   mediaSourceId: string,
   playSessionId: string,
   positionTicks: number,
-  isPaused: boolean = false
+  isPaused: boolean = false,
+  playMethod: PlayMethod = PlayMethod.Transcode
 ): Promise<boolean> {
   try {
     const { serverUrl, user } = await getAuthData();
@@ -344,7 +368,7 @@ export async function reportPlaybackProgress(
         PlaySessionId: playSessionId,
         PositionTicks: positionTicks,
         IsPaused: isPaused,
-        PlayMethod: "Transcode",
+        PlayMethod: playMethod,
       }),
     });
 
@@ -359,7 +383,8 @@ export async function reportPlaybackStopped(
   itemId: string,
   mediaSourceId: string,
   playSessionId: string,
-  positionTicks: number
+  positionTicks: number,
+  playMethod: PlayMethod = PlayMethod.Transcode
 ): Promise<boolean> {
   try {
     const { serverUrl, user } = await getAuthData();
@@ -378,7 +403,7 @@ export async function reportPlaybackStopped(
         MediaSourceId: mediaSourceId,
         PlaySessionId: playSessionId,
         PositionTicks: positionTicks,
-        PlayMethod: "Transcode",
+        PlayMethod: playMethod,
       }),
     });
 
@@ -389,10 +414,140 @@ export async function reportPlaybackStopped(
   }
 }
 
+// Library filters as /Items query parameters. HDR has no parameter of its own;
+// fetchFilteredItems applies it from the items' video streams.
+function getFilterQuery(filters?: LibraryFilters): Partial<ItemsApiGetItemsRequest> {
+  if (!filters) return {};
+
+  const years = expandFilterYears(filters);
+  const has = (feature: LibraryFilters["features"][number]) =>
+    filters.features.includes(feature) || undefined;
+
+  return {
+    genres: filters.genres.length ? filters.genres : undefined,
+    years: years.length ? years : undefined,
+    officialRatings: filters.officialRatings.length ? filters.officialRatings : undefined,
+    minCommunityRating: filters.minCommunityRating,
+    studios: filters.studios.length ? filters.studios : undefined,
+    tags: filters.tags.length ? filters.tags : undefined,
+    videoTypes: filters.videoTypes.length
+      ? (filters.videoTypes as VideoType[])
+      : undefined,
+    is4K: has("4K"),
+    isHd: has("HD"),
+    is3D: has("3D"),
+    hasSubtitles: has("Subtitles"),
+    hasTrailer: has("Trailer"),
+    isPlayed: filters.played ? filters.played === "played" : undefined,
+    isFavorite: filters.favorites || undefined,
+    filters: filters.resumable ? [ItemFilter.IsResumable] : undefined,
+  };
+}
+
+// Dolby Vision with an SDR base layer plays as SDR everywhere else, so it doesn't count
+const HDR_RANGE_TYPES: VideoRangeType[] = [
+  VideoRangeType.Hdr10,
+  VideoRangeType.Hdr10Plus,
+  VideoRangeType.Hlg,
+  VideoRangeType.Dovi,
+  VideoRangeType.DoviWithHdr10,
+  VideoRangeType.DoviWithHlg,
+];
+
+// HDR can't be asked of /Items, so matching it means reading every item's video streams.
+// Each scan is kept for a while, so paging through the results and counting letters
+// reuse it instead of reading the whole library again for every page.
+const HDR_SCAN_TTL_MS = 5 * 60 * 1000;
+const HDR_SCAN_CACHE_SIZE = 20;
+const hdrScans = new Map<
+  string,
+  { expiresAt: number; items: Promise<Pick<JellyfinItem, "Id" | "Name" | "SortName">[]> }
+>();
+
+// Items matching the query whose video is HDR, in the query's sort order. Only items with
+// their own video streams can match, so series never do.
+async function fetchHdrItems(
+  itemsApi: ItemsApi,
+  query: ItemsApiGetItemsRequest
+): Promise<Pick<JellyfinItem, "Id" | "Name" | "SortName">[]> {
+  // Paging and fields don't change what matches; the user id in the query keeps users apart
+  const scanQuery = { ...query, startIndex: undefined, limit: undefined, fields: undefined };
+  const key = JSON.stringify(scanQuery);
+  const now = Date.now();
+  const cached = hdrScans.get(key);
+  if (cached && cached.expiresAt > now) return cached.items;
+
+  const items = itemsApi
+    .getItems({
+      ...scanQuery,
+      fields: [ItemFields.MediaStreams, ItemFields.SortName],
+      enableImages: false,
+      enableUserData: false,
+    })
+    .then(({ data }) =>
+      (data.Items || [])
+        .filter((item) =>
+          item.MediaStreams?.some(
+            (stream) =>
+              stream.Type === "Video" &&
+              !!stream.VideoRangeType &&
+              HDR_RANGE_TYPES.includes(stream.VideoRangeType)
+          )
+        )
+        .map(({ Id, Name, SortName }) => ({ Id, Name, SortName }))
+    );
+
+  hdrScans.delete(key);
+  hdrScans.set(key, { expiresAt: now + HDR_SCAN_TTL_MS, items });
+  // Oldest first, so this drops whatever was scanned longest ago
+  for (const staleKey of hdrScans.keys()) {
+    if (hdrScans.size <= HDR_SCAN_CACHE_SIZE) break;
+    hdrScans.delete(staleKey);
+  }
+  // A failed scan shouldn't be handed to the next request
+  items.catch(() => hdrScans.delete(key));
+
+  return items;
+}
+
+// One page of library items, with the filters the /Items query can't express applied here
+async function fetchFilteredItems(
+  itemsApi: ItemsApi,
+  query: ItemsApiGetItemsRequest,
+  filters?: LibraryFilters
+): Promise<{ items: JellyfinItem[]; totalRecordCount: number }> {
+  if (!filters?.features.includes("HDR")) {
+    const { data } = await itemsApi.getItems(query);
+    return {
+      items: data.Items || [],
+      totalRecordCount: data.TotalRecordCount || 0,
+    };
+  }
+
+  const hdrItems = await fetchHdrItems(itemsApi, query);
+  const startIndex = query.startIndex ?? 0;
+  const pageIds = hdrItems
+    .slice(startIndex, startIndex + (query.limit ?? hdrItems.length))
+    .map((item) => item.Id!);
+  if (pageIds.length === 0) {
+    return { items: [], totalRecordCount: hdrItems.length };
+  }
+
+  // Same sort as the scan, so the page comes back in order
+  const { data } = await itemsApi.getItems({
+    ...query,
+    ids: pageIds,
+    startIndex: undefined,
+    limit: undefined,
+  });
+  return { items: data.Items || [], totalRecordCount: hdrItems.length };
+}
+
 export async function fetchLibraryItems(
   libraryId: string,
   limit: number = 50,
-  startIndex: number = 0
+  startIndex: number = 0,
+  filters?: LibraryFilters
 ): Promise<{ items: JellyfinItem[]; totalRecordCount: number }> {
   try {
     const { serverUrl, user } = await getAuthData();
@@ -400,28 +555,28 @@ export async function fetchLibraryItems(
     const api = jellyfinInstance.createApi(serverUrl);
     api.accessToken = user.AccessToken;
 
-    const { data } = await getItemsApi(api).getItems({
-      userId: user.Id,
-      parentId: libraryId,
-      includeItemTypes: [BaseItemKind.Movie, BaseItemKind.Series],
-      recursive: true,
-      sortBy: [ItemSortBy.SortName],
-      sortOrder: [SortOrder.Ascending],
-      limit,
-      startIndex,
-      fields: [
-        ItemFields.CanDelete,
-        ItemFields.PrimaryImageAspectRatio,
-        ItemFields.Overview,
-        ItemFields.DateCreated,
-        ItemFields.Genres,
-      ],
-    });
-
-    return {
-      items: data.Items || [],
-      totalRecordCount: data.TotalRecordCount || 0,
-    };
+    return await fetchFilteredItems(
+      getItemsApi(api),
+      {
+        userId: user.Id,
+        parentId: libraryId,
+        includeItemTypes: [BaseItemKind.Movie, BaseItemKind.Series],
+        recursive: true,
+        sortBy: [ItemSortBy.SortName],
+        sortOrder: [SortOrder.Ascending],
+        limit,
+        startIndex,
+        fields: [
+          ItemFields.CanDelete,
+          ItemFields.PrimaryImageAspectRatio,
+          ItemFields.Overview,
+          ItemFields.DateCreated,
+          ItemFields.Genres,
+        ],
+        ...getFilterQuery(filters),
+      },
+      filters
+    );
   } catch (error) {
     console.error("Failed to fetch library items:", error);
 
@@ -446,8 +601,9 @@ export async function fetchLibraryItemsPage(
   limit: number = 50,
   sortBy?: string,
   sortOrder?: string,
-  searchQuery?: string
-): Promise<JellyfinItem[]> {
+  searchQuery?: string,
+  filters?: LibraryFilters
+): Promise<{ items: JellyfinItem[]; totalRecordCount: number }> {
   try {
     const { serverUrl, user } = await getAuthData();
     const jellyfinInstance = createJellyfinInstance();
@@ -472,26 +628,29 @@ export async function fetchLibraryItemsPage(
       return order === 'desc' ? SortOrder.Descending : SortOrder.Ascending;
     };
 
-    const { data } = await getItemsApi(api).getItems({
-      userId: user.Id,
-      parentId: libraryId,
-      includeItemTypes: [BaseItemKind.Movie, BaseItemKind.Series],
-      recursive: true,
-      sortBy: sortBy ? [getJellyfinSortBy(sortBy)] : [ItemSortBy.SortName],
-      sortOrder: sortOrder ? [getJellyfinSortOrder(sortOrder)] : [SortOrder.Ascending],
-      searchTerm: searchQuery || undefined,
-      limit,
-      startIndex,
-      fields: [
-        ItemFields.CanDelete,
-        ItemFields.PrimaryImageAspectRatio,
-        ItemFields.Overview,
-        ItemFields.DateCreated,
-        ItemFields.Genres,
-      ],
-    });
-
-    return data.Items || [];
+    return await fetchFilteredItems(
+      getItemsApi(api),
+      {
+        userId: user.Id,
+        parentId: libraryId,
+        includeItemTypes: [BaseItemKind.Movie, BaseItemKind.Series],
+        recursive: true,
+        sortBy: sortBy ? [getJellyfinSortBy(sortBy)] : [ItemSortBy.SortName],
+        sortOrder: sortOrder ? [getJellyfinSortOrder(sortOrder)] : [SortOrder.Ascending],
+        searchTerm: searchQuery || undefined,
+        limit,
+        startIndex,
+        fields: [
+          ItemFields.CanDelete,
+          ItemFields.PrimaryImageAspectRatio,
+          ItemFields.Overview,
+          ItemFields.DateCreated,
+          ItemFields.Genres,
+        ],
+        ...getFilterQuery(filters),
+      },
+      filters
+    );
   } catch (error) {
     console.error("Failed to fetch library items page:", error);
 
@@ -504,7 +663,110 @@ export async function fetchLibraryItemsPage(
       throw authError;
     }
 
-    return [];
+    return { items: [], totalRecordCount: 0 };
+  }
+}
+
+// How many items start with each letter, for jumping straight to a letter in a name-sorted view
+export async function fetchLibraryLetterCounts(
+  libraryId: string,
+  searchQuery?: string,
+  filters?: LibraryFilters
+): Promise<Record<string, number>> {
+  try {
+    const { serverUrl, user } = await getAuthData();
+    const jellyfinInstance = createJellyfinInstance();
+    const api = jellyfinInstance.createApi(serverUrl);
+    api.accessToken = user.AccessToken;
+
+    const itemsApi = getItemsApi(api);
+
+    // With HDR on, count what one scan matched instead of asking per letter
+    if (filters?.features.includes("HDR")) {
+      // Sorted like the default view, so this shares its cached scan
+      const hdrItems = await fetchHdrItems(itemsApi, {
+        userId: user.Id,
+        parentId: libraryId,
+        includeItemTypes: [BaseItemKind.Movie, BaseItemKind.Series],
+        recursive: true,
+        sortBy: [ItemSortBy.SortName],
+        sortOrder: [SortOrder.Ascending],
+        searchTerm: searchQuery || undefined,
+        ...getFilterQuery(filters),
+      });
+      const counts: Record<string, number> = Object.fromEntries(
+        LIBRARY_LETTERS.map((letter) => [letter, 0])
+      );
+      hdrItems.forEach((item) => {
+        const first = (item.SortName || item.Name || "").charAt(0).toUpperCase();
+        const letter = first < "A" ? "#" : first;
+        if (letter in counts) counts[letter]++;
+      });
+      return counts;
+    }
+
+    const counts = await Promise.all(
+      LIBRARY_LETTERS.map(async (letter) => {
+        const { data } = await itemsApi.getItems({
+          userId: user.Id,
+          parentId: libraryId,
+          includeItemTypes: [BaseItemKind.Movie, BaseItemKind.Series],
+          recursive: true,
+          searchTerm: searchQuery || undefined,
+          limit: 0,
+          enableTotalRecordCount: true,
+          enableImages: false,
+          enableUserData: false,
+          ...(letter === "#" ? { nameLessThan: "A" } : { nameStartsWith: letter }),
+          ...getFilterQuery(filters),
+        });
+        return [letter, data.TotalRecordCount || 0] as const;
+      })
+    );
+
+    return Object.fromEntries(counts);
+  } catch (error) {
+    console.error("Failed to fetch library letter counts:", error);
+    return {};
+  }
+}
+
+// Values the library's items actually use, for the filter panel
+export async function fetchLibraryFilterOptions(
+  libraryId: string
+): Promise<LibraryFilterOptions> {
+  try {
+    const { serverUrl, user } = await getAuthData();
+    const jellyfinInstance = createJellyfinInstance();
+    const api = jellyfinInstance.createApi(serverUrl);
+    api.accessToken = user.AccessToken;
+
+    const includeItemTypes = [BaseItemKind.Movie, BaseItemKind.Series];
+    const [{ data: filters }, { data: studios }] = await Promise.all([
+      getFilterApi(api).getQueryFiltersLegacy({
+        userId: user.Id,
+        parentId: libraryId,
+        includeItemTypes,
+      }),
+      getStudiosApi(api).getStudios({
+        userId: user.Id,
+        parentId: libraryId,
+        includeItemTypes,
+        enableImages: false,
+        enableTotalRecordCount: false,
+      }),
+    ]);
+
+    return {
+      genres: filters.Genres || [],
+      years: [...(filters.Years || [])].sort((a, b) => b - a),
+      officialRatings: filters.OfficialRatings || [],
+      studios: (studios.Items || []).map((studio) => studio.Name!).filter(Boolean),
+      tags: filters.Tags || [],
+    };
+  } catch (error) {
+    console.error("Failed to fetch library filter options:", error);
+    return { genres: [], years: [], officialRatings: [], studios: [], tags: [] };
   }
 }
 
@@ -540,7 +802,16 @@ export async function fetchSimilarItems(itemId: string, limit: number = 12) {
   }
 }
 
-export async function fetchIntroOutro(
+// Segment types the player knows how to mark and skip
+const SKIPPABLE_SEGMENT_TYPES: MediaSegmentType[] = [
+  MediaSegmentType.Recap,
+  MediaSegmentType.Preview,
+  MediaSegmentType.Commercial,
+  MediaSegmentType.Outro,
+  MediaSegmentType.Intro,
+];
+
+export async function fetchMediaSegments(
   itemId: string
 ): Promise<MediaSegmentsResponse | null> {
   try {
@@ -549,8 +820,13 @@ export async function fetchIntroOutro(
     const api = jellyfinInstance.createApi(serverUrl);
     api.accessToken = user.AccessToken;
 
+    const params = new URLSearchParams();
+    SKIPPABLE_SEGMENT_TYPES.forEach((type) =>
+      params.append("includeSegmentTypes", type)
+    );
+
     const response = await fetch(
-      `${serverUrl}/MediaSegments/${itemId}?includeSegmentTypes=Outro&includeSegmentTypes=Intro`,
+      `${serverUrl}/MediaSegments/${itemId}?${params.toString()}`,
       {
         method: "GET",
         headers: {
@@ -567,7 +843,7 @@ export async function fetchIntroOutro(
     const data = await response.json();
     return data;
   } catch (error) {
-    console.error("Failed to fetch intro/outro segments:", error);
+    console.error("Failed to fetch media segments:", error);
 
     // If it's an authentication error, throw an error with a special flag
     if (isAuthError(error)) {
@@ -622,6 +898,193 @@ export async function scanLibrary(libraryId?: string): Promise<void> {
   }
 }
 
+// Re-reads an item's metadata and images from its providers, keeping anything already set
+export async function refreshItemMetadata(itemId: string): Promise<void> {
+  try {
+    const { serverUrl, user } = await getAuthData();
+    const jellyfinInstance = createJellyfinInstance();
+    const api = jellyfinInstance.createApi(serverUrl);
+    api.accessToken = user.AccessToken;
+
+    await getItemRefreshApi(api).refreshItem({
+      itemId,
+      metadataRefreshMode: MetadataRefreshMode.FullRefresh,
+      imageRefreshMode: MetadataRefreshMode.FullRefresh,
+      replaceAllMetadata: false,
+      replaceAllImages: false,
+    });
+  } catch (error) {
+    console.error("Failed to refresh metadata:", error);
+
+    if (isAuthError(error)) {
+      const authError = new Error(
+        "Authentication expired. Please sign in again."
+      );
+      (authError as any).isAuthError = true;
+      throw authError;
+    }
+
+    throw new Error("Failed to refresh metadata");
+  }
+}
+
+// Removes the item and its files from the server; needs the user to be allowed to delete it
+export async function deleteItem(itemId: string): Promise<void> {
+  try {
+    const { serverUrl, user } = await getAuthData();
+    const jellyfinInstance = createJellyfinInstance();
+    const api = jellyfinInstance.createApi(serverUrl);
+    api.accessToken = user.AccessToken;
+
+    await getLibraryApi(api).deleteItem({ itemId });
+  } catch (error) {
+    console.error("Failed to delete item:", error);
+
+    if (isAuthError(error)) {
+      const authError = new Error(
+        "Authentication expired. Please sign in again."
+      );
+      (authError as any).isAuthError = true;
+      throw authError;
+    }
+
+    throw new Error("Failed to delete item");
+  }
+}
+
+// Rating options and provider ID fields the server offers when editing an item
+export async function fetchMetadataEditorInfo(
+  itemId: string
+): Promise<MetadataEditorInfo | null> {
+  try {
+    const { serverUrl, user } = await getAuthData();
+    const jellyfinInstance = createJellyfinInstance();
+    const api = jellyfinInstance.createApi(serverUrl);
+    api.accessToken = user.AccessToken;
+
+    const { data } = await getItemUpdateApi(api).getMetadataEditorInfo({ itemId });
+    return data;
+  } catch (error) {
+    console.error("Failed to fetch metadata editor info:", error);
+
+    if (isAuthError(error)) {
+      const authError = new Error(
+        "Authentication expired. Please sign in again."
+      );
+      (authError as any).isAuthError = true;
+      throw authError;
+    }
+
+    return null;
+  }
+}
+
+// Saves edited metadata; the server replaces the item's fields with what's sent, so pass the whole item
+export async function updateItemMetadata(
+  itemId: string,
+  item: BaseItemDto
+): Promise<void> {
+  try {
+    const { serverUrl, user } = await getAuthData();
+    const jellyfinInstance = createJellyfinInstance();
+    const api = jellyfinInstance.createApi(serverUrl);
+    api.accessToken = user.AccessToken;
+
+    await getItemUpdateApi(api).updateItem({ itemId, baseItemDto: item });
+  } catch (error) {
+    console.error("Failed to update metadata:", error);
+
+    if (isAuthError(error)) {
+      const authError = new Error(
+        "Authentication expired. Please sign in again."
+      );
+      (authError as any).isAuthError = true;
+      throw authError;
+    }
+
+    throw new Error("Failed to save metadata");
+  }
+}
+
+export interface RemoteSearchInfo {
+  name?: string;
+  year?: number;
+  providerIds?: Record<string, string>;
+}
+
+// Asks the metadata providers for movies or shows matching the search, for identifying an item
+export async function searchRemoteMetadata(
+  itemId: string,
+  itemType: "Movie" | "Series",
+  searchInfo: RemoteSearchInfo
+): Promise<RemoteSearchResult[]> {
+  try {
+    const { serverUrl, user } = await getAuthData();
+    const jellyfinInstance = createJellyfinInstance();
+    const api = jellyfinInstance.createApi(serverUrl);
+    api.accessToken = user.AccessToken;
+
+    const query = {
+      ItemId: itemId,
+      SearchInfo: {
+        Name: searchInfo.name || null,
+        Year: searchInfo.year ?? null,
+        ProviderIds: searchInfo.providerIds,
+      },
+    };
+    const itemLookupApi = getItemLookupApi(api);
+    const { data } =
+      itemType === "Movie"
+        ? await itemLookupApi.getMovieRemoteSearchResults({ movieInfoRemoteSearchQuery: query })
+        : await itemLookupApi.getSeriesRemoteSearchResults({ seriesInfoRemoteSearchQuery: query });
+    return data;
+  } catch (error) {
+    console.error("Failed to search remote metadata:", error);
+
+    if (isAuthError(error)) {
+      const authError = new Error(
+        "Authentication expired. Please sign in again."
+      );
+      (authError as any).isAuthError = true;
+      throw authError;
+    }
+
+    throw new Error("Failed to search metadata providers");
+  }
+}
+
+// Re-identifies an item as the chosen search result and pulls its metadata from there
+export async function applyRemoteSearchResult(
+  itemId: string,
+  result: RemoteSearchResult,
+  replaceAllImages: boolean
+): Promise<void> {
+  try {
+    const { serverUrl, user } = await getAuthData();
+    const jellyfinInstance = createJellyfinInstance();
+    const api = jellyfinInstance.createApi(serverUrl);
+    api.accessToken = user.AccessToken;
+
+    await getItemLookupApi(api).applySearchCriteria({
+      itemId,
+      remoteSearchResult: result,
+      replaceAllImages,
+    });
+  } catch (error) {
+    console.error("Failed to apply search result:", error);
+
+    if (isAuthError(error)) {
+      const authError = new Error(
+        "Authentication expired. Please sign in again."
+      );
+      (authError as any).isAuthError = true;
+      throw authError;
+    }
+
+    throw new Error("Failed to identify item");
+  }
+}
+
 export async function fetchGenres() {
   try {
     const { serverUrl, user } = await getAuthData();
@@ -721,4 +1184,175 @@ export async function fetchRecentlyAddedItems(
 
     return [];
   }
-}
\ No newline at end of file
+}
+const PLAY_QUEUE_LIMIT = 500;
+
+// Resolve an item into the movies and episodes it plays, in playback order
+export async function fetchPlayQueueItems(
+  itemId: string,
+  itemType: string,
+  shuffle: boolean = false
+): Promise<JellyfinItem[]> {
+  try {
+    const { serverUrl, user } = await getAuthData();
+    const jellyfinInstance = createJellyfinInstance();
+    const api = jellyfinInstance.createApi(serverUrl);
+    api.accessToken = user.AccessToken;
+
+    if (itemType === BaseItemKind.Movie || itemType === BaseItemKind.Episode) {
+      const { data } = await getItemsApi(api).getItems({
+        userId: user.Id,
+        ids: [itemId],
+      });
+      return data.Items || [];
+    }
+
+    // Playlists keep their own order; only their videos go to the video player
+    if (itemType === BaseItemKind.Playlist) {
+      const { data } = await getPlaylistsApi(api).getPlaylistItems({
+        playlistId: itemId,
+        userId: user.Id,
+        limit: PLAY_QUEUE_LIMIT,
+      });
+      return (data.Items || []).filter(
+        (entry) => entry.Type === BaseItemKind.Movie || entry.Type === BaseItemKind.Episode
+      );
+    }
+
+    const isGenre =
+      itemType === BaseItemKind.Genre || itemType === BaseItemKind.MusicGenre;
+    const isShow =
+      itemType === BaseItemKind.Series || itemType === BaseItemKind.Season;
+
+    const { data } = await getItemsApi(api).getItems({
+      userId: user.Id,
+      parentId: isGenre ? undefined : itemId,
+      genreIds: isGenre ? [itemId] : undefined,
+      includeItemTypes: isShow
+        ? [BaseItemKind.Episode]
+        : [BaseItemKind.Movie, BaseItemKind.Episode],
+      recursive: true,
+      isMissing: false,
+      sortBy: shuffle
+        ? [ItemSortBy.Random]
+        : [
+            ItemSortBy.SeriesSortName,
+            ItemSortBy.ParentIndexNumber,
+            ItemSortBy.IndexNumber,
+            ItemSortBy.SortName,
+          ],
+      sortOrder: [SortOrder.Ascending],
+      limit: PLAY_QUEUE_LIMIT,
+    });
+
+    return data.Items || [];
+  } catch (error) {
+    console.error("Failed to fetch play queue items:", error);
+
+    // If it's an authentication error, throw an error with a special flag
+    if (isAuthError(error)) {
+      const authError = new Error(
+        "Authentication expired. Please sign in again."
+      );
+      (authError as any).isAuthError = true;
+      throw authError;
+    }
+
+    return [];
+  }
+}
+
+// Look up items by id, in the order they were asked for
+export async function fetchItemsByIds(itemIds: string[]): Promise<JellyfinItem[]> {
+  if (itemIds.length === 0) return [];
+
+  try {
+    const { serverUrl, user } = await getAuthData();
+    const jellyfinInstance = createJellyfinInstance();
+    const api = jellyfinInstance.createApi(serverUrl);
+    api.accessToken = user.AccessToken;
+
+    const { data } = await getItemsApi(api).getItems({
+      userId: user.Id,
+      ids: itemIds,
+      fields: [ItemFields.MediaSources, ItemFields.CanDelete],
+    });
+
+    const items = data.Items || [];
+    return itemIds
+      .map((id) => items.find((item) => item.Id === id))
+      .filter((item): item is JellyfinItem => !!item);
+  } catch (error) {
+    console.error("Failed to fetch items:", error);
+
+    // If it's an authentication error, throw an error with a special flag
+    if (isAuthError(error)) {
+      const authError = new Error(
+        "Authentication expired. Please sign in again."
+      );
+      (authError as any).isAuthError = true;
+      throw authError;
+    }
+
+    return [];
+  }
+}
+
+// Items of the given types the user has marked as a favourite, by name unless asked otherwise
+export async function fetchFavorites(
+  itemTypes: BaseItemKind[],
+  limit?: number,
+  sortBy: ItemSortBy = ItemSortBy.SortName
+): Promise<JellyfinItem[]> {
+  try {
+    const { serverUrl, user } = await getAuthData();
+    const jellyfinInstance = createJellyfinInstance();
+    const api = jellyfinInstance.createApi(serverUrl);
+    api.accessToken = user.AccessToken;
+
+    // People aren't library items, so they come from their own endpoint
+    if (itemTypes.includes(BaseItemKind.Person)) {
+      const { data } = await getPersonsApi(api).getPersons({
+        userId: user.Id,
+        isFavorite: true,
+        limit,
+        fields: [ItemFields.PrimaryImageAspectRatio],
+        enableImages: true,
+      });
+      return data.Items || [];
+    }
+
+    const { data } = await getItemsApi(api).getItems({
+      userId: user.Id,
+      includeItemTypes: itemTypes,
+      recursive: true,
+      isFavorite: true,
+      sortBy: [sortBy],
+      // Dates read newest first, names A to Z
+      sortOrder: [
+        sortBy === ItemSortBy.SortName ? SortOrder.Ascending : SortOrder.Descending,
+      ],
+      limit,
+      fields: [
+        ItemFields.PrimaryImageAspectRatio,
+        ItemFields.Overview,
+        ItemFields.Genres,
+        ItemFields.DateCreated,
+      ],
+    });
+    return data.Items || [];
+  } catch (error) {
+    console.error("Failed to fetch favourites:", error);
+
+    // If it's an authentication error, throw an error with a special flag
+    if (isAuthError(error)) {
+      const authError = new Error(
+        "Authentication expired. Please sign in again."
+      );
+      (authError as any).isAuthError = true;
+      throw authError;
+    }
+
+    return [];
+  }
+}
@@ -0,0 +1,289 @@
+"use server";
+
+import { cookies } from "next/headers";
+import { BaseItemDto } from "@jellyfin/sdk/lib/generated-client/models/base-item-dto";
+import { BaseItemKind } from "@jellyfin/sdk/lib/generated-client/models/base-item-kind";
+import { ItemFields } from "@jellyfin/sdk/lib/generated-client/models/item-fields";
+import { ItemSortBy } from "@jellyfin/sdk/lib/generated-client/models/item-sort-by";
+import { SortOrder } from "@jellyfin/sdk/lib/generated-client/models/sort-order";
+import { LyricDto } from "@jellyfin/sdk/lib/generated-client/models/lyric-dto";
+import { getItemsApi } from "@jellyfin/sdk/lib/utils/api/items-api";
+import { getArtistsApi } from "@jellyfin/sdk/lib/utils/api/artists-api";
+import { getInstantMixApi } from "@jellyfin/sdk/lib/utils/api/instant-mix-api";
+import { getLyricsApi } from "@jellyfin/sdk/lib/utils/api/lyrics-api";
+import { createJellyfinInstance } from "@/lib/utils";
+
+export type MusicLibraryView = "albums" | "artists" | "tracks";
+
+// Helper function to get auth data from cookies
+async function getAuthData() {
+  const cookieStore = await cookies();
+  const authData = cookieStore.get("jellyfin-auth");
+  const deviceId = cookieStore.get("jellyfin-device-id");
+
+  if (!authData?.value) {
+    throw new Error("Not authenticated");
+  }
+
+  const parsed = JSON.parse(authData.value);
+  return {
+    serverUrl: parsed.serverUrl,
+    user: parsed.user,
+    deviceId: deviceId?.value || null,
+  };
+}
+
+// Helper function to check if an error is authentication-related
+function isAuthError(error: any): boolean {
+  return (
+    error?.response?.status === 401 ||
+    error?.response?.status === 403 ||
+    error?.status === 401 ||
+    error?.status === 403
+  );
+}
+
+function toAuthError(error: unknown): unknown {
+  if (!isAuthError(error)) return error;
+
+  const authError = new Error("Authentication expired. Please sign in again.");
+  (authError as any).isAuthError = true;
+  return authError;
+}
+
+async function createApi() {
+  const { serverUrl, user } = await getAuthData();
+  const jellyfinInstance = createJellyfinInstance();
+  const api = jellyfinInstance.createApi(serverUrl);
+  api.accessToken = user.AccessToken;
+  return { api, user };
+}
+
+const MUSIC_FIELDS = [
+  ItemFields.PrimaryImageAspectRatio,
+  ItemFields.DateCreated,
+  ItemFields.Genres,
+];
+
+// Containers the browser can play as-is; anything else is transcoded to AAC
+const AUDIO_CONTAINERS = [
+  "opus",
+  "webm|opus",
+  "mp3",
+  "aac",
+  "m4a|aac",
+  "m4b|aac",
+  "flac",
+  "webma",
+  "webm|webma",
+  "wav",
+  "ogg",
+];
+
+const INSTANT_MIX_LIMIT = 100;
+
+// One page of a music library, as albums, album artists or songs
+export async function fetchMusicLibraryItems(
+  libraryId: string,
+  view: MusicLibraryView,
+  startIndex: number = 0,
+  limit: number = 60,
+  searchTerm?: string
+): Promise<{ items: BaseItemDto[]; totalRecordCount: number }> {
+  try {
+    const { api, user } = await createApi();
+
+    if (view === "artists") {
+      const { data } = await getArtistsApi(api).getAlbumArtists({
+        userId: user.Id,
+        parentId: libraryId,
+        searchTerm: searchTerm || undefined,
+        sortBy: [ItemSortBy.SortName],
+        sortOrder: [SortOrder.Ascending],
+        startIndex,
+        limit,
+        fields: MUSIC_FIELDS,
+      });
+
+      return {
+        items: data.Items || [],
+        totalRecordCount: data.TotalRecordCount || 0,
+      };
+    }
+
+    const { data } = await getItemsApi(api).getItems({
+      userId: user.Id,
+      parentId: libraryId,
+      includeItemTypes: [
+        view === "albums" ? BaseItemKind.MusicAlbum : BaseItemKind.Audio,
+      ],
+      recursive: true,
+      searchTerm: searchTerm || undefined,
+      sortBy:
+        view === "albums"
+          ? [ItemSortBy.SortName]
+          : [ItemSortBy.Album, ItemSortBy.ParentIndexNumber, ItemSortBy.IndexNumber],
+      sortOrder: [SortOrder.Ascending],
+      startIndex,
+      limit,
+      fields: MUSIC_FIELDS,
+    });
+
+    return {
+      items: data.Items || [],
+      totalRecordCount: data.TotalRecordCount || 0,
+    };
+  } catch (error) {
+    console.error("Failed to fetch music library items:", error);
+
+    if (isAuthError(error)) throw toAuthError(error);
+
+    return { items: [], totalRecordCount: 0 };
+  }
+}
+
+// Tracks of an album in disc and track order
+export async function fetchAlbumTracks(albumId: string): Promise<BaseItemDto[]> {
+  try {
+    const { api, user } = await createApi();
+
+    const { data } = await getItemsApi(api).getItems({
+      userId: user.Id,
+      parentId: albumId,
+      includeItemTypes: [BaseItemKind.Audio],
+      recursive: true,
+      sortBy: [ItemSortBy.ParentIndexNumber, ItemSortBy.IndexNumber, ItemSortBy.SortName],
+      sortOrder: [SortOrder.Ascending],
+    });
+
+    return data.Items || [];
+  } catch (error) {
+    console.error("Failed to fetch album tracks:", error);
+
+    if (isAuthError(error)) throw toAuthError(error);
+
+    return [];
+  }
+}
+
+// Albums credited to an artist, newest first
+export async function fetchArtistAlbums(artistId: string): Promise<BaseItemDto[]> {
+  try {
+    const { api, user } = await createApi();
+
+    const { data } = await getItemsApi(api).getItems({
+      userId: user.Id,
+      albumArtistIds: [artistId],
+      includeItemTypes: [BaseItemKind.MusicAlbum],
+      recursive: true,
+      sortBy: [ItemSortBy.PremiereDate, ItemSortBy.ProductionYear, ItemSortBy.SortName],
+      sortOrder: [SortOrder.Descending],
+      fields: MUSIC_FIELDS,
+    });
+
+    return data.Items || [];
+  } catch (error) {
+    console.error("Failed to fetch artist albums:", error);
+
+    if (isAuthError(error)) throw toAuthError(error);
+
+    return [];
+  }
+}
+
+// Every track by an artist, album by album
+export async function fetchArtistTracks(artistId: string): Promise<BaseItemDto[]> {
+  try {
+    const { api, user } = await createApi();
+
+    const { data } = await getItemsApi(api).getItems({
+      userId: user.Id,
+      artistIds: [artistId],
+      includeItemTypes: [BaseItemKind.Audio],
+      recursive: true,
+      sortBy: [
+        ItemSortBy.ProductionYear,
+        ItemSortBy.Album,
+        ItemSortBy.ParentIndexNumber,
+        ItemSortBy.IndexNumber,
+      ],
+      sortOrder: [SortOrder.Ascending],
+    });
+
+    return data.Items || [];
+  } catch (error) {
+    console.error("Failed to fetch artist tracks:", error);
+
+    if (isAuthError(error)) throw toAuthError(error);
+
+    return [];
+  }
+}
+
+// Songs similar to an item (track, album, artist or genre), starting with the item itself
+export async function fetchInstantMix(
+  itemId: string,
+  limit: number = INSTANT_MIX_LIMIT
+): Promise<BaseItemDto[]> {
+  try {
+    const { api, user } = await createApi();
+
+    const { data } = await getInstantMixApi(api).getInstantMixFromItem({
+      itemId,
+      userId: user.Id,
+      limit,
+    });
+
+    return data.Items || [];
+  } catch (error) {
+    console.error("Failed to fetch instant mix:", error);
+
+    if (isAuthError(error)) throw toAuthError(error);
+
+    return [];
+  }
+}
+
+// Lyrics for a track; lines carry a start time in ticks when they are synced
+export async function fetchLyrics(itemId: string): Promise<LyricDto | null> {
+  try {
+    const { api } = await createApi();
+
+    const { data } = await getLyricsApi(api).getLyrics({ itemId });
+    return data;
+  } catch (error) {
+    // Tracks without lyrics answer with a 404
+    if (isAuthError(error)) throw toAuthError(error);
+
+    return null;
+  }
+}
+
+// Universal endpoint URL: the server direct-plays what the browser supports and transcodes the rest
+export async function getAudioStreamUrl(
+  itemId: string,
+  playSessionId: string,
+  maxStreamingBitrate: number = 0
+): Promise<string> {
+  const { serverUrl, user, deviceId } = await getAuthData();
+
+  const params = new URLSearchParams({
+    UserId: user.Id,
+    api_key: user.AccessToken,
+    PlaySessionId: playSessionId,
+    Container: AUDIO_CONTAINERS.join(","),
+    TranscodingContainer: "mp4",
+    TranscodingProtocol: "http",
+    AudioCodec: "aac",
+    EnableRedirection: "true",
+    EnableRemoteMedia: "false",
+  });
+  if (deviceId) {
+    params.set("DeviceId", deviceId);
+  }
+  if (maxStreamingBitrate > 0) {
+    params.set("MaxStreamingBitrate", maxStreamingBitrate.toString());
+  }
+
+  return `${serverUrl}/Audio/${itemId}/universal?${params.toString()}`;
+}
@@ -1,9 +1,10 @@
 "use server";
 import { getPlaystateApi } from "@jellyfin/sdk/lib/utils/api/playstate-api";
+import { getUserLibraryApi } from "@jellyfin/sdk/lib/utils/api/user-library-api";
 import { cookies } from "next/headers";
 import { revalidatePath } from "next/cache";
 import { createJellyfinInstance } from "@/lib/utils";
-import { MediaInfoApiGetPlaybackInfoRequest, MediaInfoApiGetPostedPlaybackInfoRequest, PlaybackInfoResponse } from "@jellyfin/sdk/lib/generated-client";
+import { DeviceProfile, MediaInfoApiGetPlaybackInfoRequest, MediaInfoApiGetPostedPlaybackInfoRequest, PlaybackInfoResponse } from "@jellyfin/sdk/lib/generated-client";
 import { getMediaInfoApi } from "@jellyfin/sdk/lib/utils/api";
 
 // Helper function to get auth data from cookies
@@ -61,6 +62,25 @@ export async function markItemAsUnplayed(itemId: string): Promise<void> {
     }
 }
 
+export async function setItemFavorite(itemId: string, isFavorite: boolean): Promise<void> {
+    try {
+        const { serverUrl, user } = await getAuthData();
+        const jellyfinInstance = createJellyfinInstance();
+        const api = jellyfinInstance.createApi(serverUrl);
+        api.accessToken = user.AccessToken;
+
+        const userLibraryApi = getUserLibraryApi(api);
+        if (isFavorite) {
+            await userLibraryApi.markFavoriteItem({ userId: user.Id, itemId });
+        } else {
+            await userLibraryApi.unmarkFavoriteItem({ userId: user.Id, itemId });
+        }
+    } catch (error) {
+        console.error("Failed to update favourite:", error);
+        throw error;
+    }
+}
+
 export async function removeFromNextUp(seriesId: string): Promise<void> {
     try {
         const { serverUrl, user } = await getAuthData();
@@ -173,6 +193,14 @@ export async function getPlaybackInfo(
 
 export async function postPlaybackInfo(
     itemId: string,
+    options: {
+        deviceProfile: DeviceProfile;
+        mediaSourceId?: string;
+        audioStreamIndex?: number;
+        subtitleStreamIndex?: number;
+        maxStreamingBitrate?: number;
+        startTimeTicks?: number;
+    },
 ): Promise<PlaybackInfoResponse> {
     const { serverUrl, user } = await getAuthData();
     const jellyfinInstance = createJellyfinInstance();
@@ -182,99 +210,26 @@ export async function postPlaybackInfo(
     try {
         const mediaInfoApi = getMediaInfoApi(api);
 
-        // Create device profile for web client
-        const deviceProfile = {
-            MaxStreamingBitrate: 120000000,
-            MaxStaticBitrate: 100000000,
-            MusicStreamingTranscodingBitrate: 384000,
-            DirectPlayProfiles: [
-                { Container: "webm", Type: "Video", VideoCodec: "vp8,vp9,av1", AudioCodec: "vorbis,opus" },
-                { Container: "mp4,m4v", Type: "Video", VideoCodec: "h264,hevc,vp9,av1", AudioCodec: "aac,mp3,mp2,opus,flac,vorbis" },
-                { Container: "mov", Type: "Video", VideoCodec: "h264", AudioCodec: "aac,mp3,mp2,opus,flac,vorbis" },
-                { Container: "opus", Type: "Audio" },
-                { Container: "webm", AudioCodec: "opus", Type: "Audio" },
-                { Container: "ts", AudioCodec: "mp3", Type: "Audio" },
-                { Container: "mp3", Type: "Audio" },
-                { Container: "aac", Type: "Audio" },
-                { Container: "m4a", AudioCodec: "aac", Type: "Audio" },
-                { Container: "m4b", AudioCodec: "aac", Type: "Audio" },
-                { Container: "flac", Type: "Audio" },
-                { Container: "webma", Type: "Audio" },
-                { Container: "webm", AudioCodec: "webma", Type: "Audio" },
-                { Container: "wav", Type: "Audio" },
-                { Container: "ogg", Type: "Audio" },
-                { Container: "hls", Type: "Video", VideoCodec: "av1,hevc,h264,vp9", AudioCodec: "aac,mp2,opus,flac" },
-                { Container: "hls", Type: "Video", VideoCodec: "h264", AudioCodec: "aac,mp3,mp2" }
-            ],
-            TranscodingProfiles: [
-                { Container: "mp4", Type: "Audio", AudioCodec: "aac", Context: "Streaming", Protocol: "hls", MaxAudioChannels: "2", MinSegments: "1", BreakOnNonKeyFrames: true, EnableAudioVbrEncoding: true },
-                { Container: "aac", Type: "Audio", AudioCodec: "aac", Context: "Streaming", Protocol: "http", MaxAudioChannels: "2" },
-                { Container: "mp3", Type: "Audio", AudioCodec: "mp3", Context: "Streaming", Protocol: "http", MaxAudioChannels: "2" },
-                { Container: "opus", Type: "Audio", AudioCodec: "opus", Context: "Streaming", Protocol: "http", MaxAudioChannels: "2" },
-                { Container: "wav", Type: "Audio", AudioCodec: "wav", Context: "Streaming", Protocol: "http", MaxAudioChannels: "2" },
-                { Container: "opus", Type: "Audio", AudioCodec: "opus", Context: "Static", Protocol: "http", MaxAudioChannels: "2" },
-                { Container: "mp3", Type: "Audio", AudioCodec: "mp3", Context: "Static", Protocol: "http", MaxAudioChannels: "2" },
-                { Container: "aac", Type: "Audio", AudioCodec: "aac", Context: "Static", Protocol: "http", MaxAudioChannels: "2" },
-                { Container: "wav", Type: "Audio", AudioCodec: "wav", Context: "Static", Protocol: "http", MaxAudioChannels: "2" },
-                { Container: "mp4", Type: "Video", AudioCodec: "aac,mp2,opus,flac", VideoCodec: "av1,hevc,h264,vp9", Context: "Streaming", Protocol: "hls", MaxAudioChannels: "2", MinSegments: "1", BreakOnNonKeyFrames: true },
-                { Container: "ts", Type: "Video", AudioCodec: "aac,mp3,mp2", VideoCodec: "h264", Context: "Streaming", Protocol: "hls", MaxAudioChannels: "2", MinSegments: "1", BreakOnNonKeyFrames: true }
-            ],
-            ContainerProfiles: [],
-            CodecProfiles: [
-                { Type: "VideoAudio", Codec: "aac", Conditions: [{ Condition: "Equals", Property: "IsSecondaryAudio", Value: "false", IsRequired: false }] },
-                { Type: "VideoAudio", Conditions: [{ Condition: "Equals", Property: "IsSecondaryAudio", Value: "false", IsRequired: false }] },
-                {
-                    Type: "Video", Codec: "h264", Conditions: [
-                        { Condition: "NotEquals", Property: "IsAnamorphic", Value: "true", IsRequired: false },
-                        { Condition: "EqualsAny", Property: "VideoProfile", Value: "high|main|baseline|constrained baseline|high 10", IsRequired: false },
-                        { Condition: "EqualsAny", Property: "VideoRangeType", Value: "SDR", IsRequired: false },
-                        { Condition: "LessThanEqual", Property: "VideoLevel", Value: "52", IsRequired: false },
-                        { Condition: "NotEquals", Property: "IsInterlaced", Value: "true", IsRequired: false }
-                    ]
-                },
-                {
-                    Type: "Video", Codec: "hevc", Conditions: [
-                        { Condition: "NotEquals", Property: "IsAnamorphic", Value: "true", IsRequired: false },
-                        { Condition: "EqualsAny", Property: "VideoProfile", Value: "main|main 10", IsRequired: false },
-                        { Condition: "EqualsAny", Property: "VideoRangeType", Value: "SDR|HDR10|HLG", IsRequired: false },
-                        { Condition: "LessThanEqual", Property: "VideoLevel", Value: "183", IsRequired: false },
-                        { Condition: "NotEquals", Property: "IsInterlaced", Value: "true", IsRequired: false }
-                    ]
-                },
-                {
-                    Type: "Video", Codec: "vp9", Conditions: [
-                        { Condition: "EqualsAny", Property: "VideoRangeType", Value: "SDR|HDR10|HLG", IsRequired: false }
-                    ]
-                },
-                {
-                    Type: "Video", Codec: "av1", Conditions: [
-                        { Condition: "NotEquals", Property: "IsAnamorphic", Value: "true", IsRequired: false },
-                        { Condition: "EqualsAny", Property: "VideoProfile", Value: "main", IsRequired: false },
-                        { Condition: "EqualsAny", Property: "VideoRangeType", Value: "SDR|HDR10|HLG", IsRequired: false },
-                        { Condition: "LessThanEqual", Property: "VideoLevel", Value: "19", IsRequired: false }
-                    ]
-                }
-            ],
-            SubtitleProfiles: [
-                { Format: "vtt", Method: "External" },
-                { Format: "ass", Method: "External" },
-                { Format: "ssa", Method: "External" }
-            ],
-            ResponseProfiles: [
-                { Type: "Video", Container: "m4v", MimeType: "video/mp4" }
-            ]
-        };
-
-        const playbackInfoRequest = {
+        // The device profile comes from the browser's own codec probes (lib/device-profile.ts)
+        const playbackInfoRequest: MediaInfoApiGetPostedPlaybackInfoRequest = {
             itemId: itemId,
-            userId: user.Id,
-            startTimeTicks: 0,
-            isPlayback: true,
-            autoOpenLiveStream: true,
-            maxStreamingBitrate: 1440987877,
-            alwaysBurnInSubtitleWhenTranscoding: false,
-            deviceProfile: deviceProfile
-        } as MediaInfoApiGetPostedPlaybackInfoRequest;
+            playbackInfoDto: {
+                UserId: user.Id,
+                DeviceProfile: options.deviceProfile,
+                MediaSourceId: options.mediaSourceId,
+                AudioStreamIndex: options.audioStreamIndex,
+                SubtitleStreamIndex: options.subtitleStreamIndex,
+                MaxStreamingBitrate: options.maxStreamingBitrate || options.deviceProfile.MaxStreamingBitrate,
+                StartTimeTicks: options.startTimeTicks ?? 0,
+                EnableDirectPlay: true,
+                EnableDirectStream: true,
+                EnableTranscoding: true,
+                AllowVideoStreamCopy: true,
+                AllowAudioStreamCopy: true,
+                AutoOpenLiveStream: true,
+                AlwaysBurnInSubtitleWhenTranscoding: false,
+            },
+        };
 
         const response = await mediaInfoApi.getPostedPlaybackInfo(playbackInfoRequest);
         return response.data;
@@ -0,0 +1,191 @@
+"use server";
+
+import { cookies } from "next/headers";
+import {
+  BaseItemDto,
+  BaseItemKind,
+  ItemFields,
+  ItemSortBy,
+  PlaylistUserPermissions,
+  SortOrder,
+  UserDto,
+} from "@jellyfin/sdk/lib/generated-client/models";
+import { getItemsApi } from "@jellyfin/sdk/lib/utils/api/items-api";
+import { getPlaylistsApi } from "@jellyfin/sdk/lib/utils/api/playlists-api";
+import { getUserApi } from "@jellyfin/sdk/lib/utils/api/user-api";
+import { createJellyfinInstance } from "@/lib/utils";
+
+export interface PlaylistAccess {
+  isPublic: boolean;
+  shares: PlaylistUserPermissions[];
+}
+
+// Helper function to get auth data from cookies
+async function getAuthData() {
+  const cookieStore = await cookies();
+  const authData = cookieStore.get("jellyfin-auth");
+
+  if (!authData?.value) {
+    throw new Error("Not authenticated");
+  }
+
+  const parsed = JSON.parse(authData.value);
+  return { serverUrl: parsed.serverUrl, user: parsed.user };
+}
+
+async function createApi() {
+  const { serverUrl, user } = await getAuthData();
+  const jellyfinInstance = createJellyfinInstance();
+  const api = jellyfinInstance.createApi(serverUrl);
+  api.accessToken = user.AccessToken;
+  return { api, user };
+}
+
+// Playlists the user owns or has been given access to, by name
+export async function fetchPlaylists(): Promise<BaseItemDto[]> {
+  try {
+    const { api, user } = await createApi();
+
+    const { data } = await getItemsApi(api).getItems({
+      userId: user.Id,
+      includeItemTypes: [BaseItemKind.Playlist],
+      recursive: true,
+      sortBy: [ItemSortBy.SortName],
+      sortOrder: [SortOrder.Ascending],
+      fields: [ItemFields.ChildCount, ItemFields.PrimaryImageAspectRatio],
+    });
+
+    return data.Items || [];
+  } catch (error) {
+    console.error("Failed to fetch playlists:", error);
+    return [];
+  }
+}
+
+// Entries in playlist order; each carries the PlaylistItemId used to move or remove it
+export async function fetchPlaylistItems(playlistId: string): Promise<BaseItemDto[]> {
+  try {
+    const { api, user } = await createApi();
+
+    const { data } = await getPlaylistsApi(api).getPlaylistItems({
+      playlistId,
+      userId: user.Id,
+      fields: [ItemFields.PrimaryImageAspectRatio],
+    });
+
+    return data.Items || [];
+  } catch (error) {
+    console.error("Failed to fetch playlist items:", error);
+    return [];
+  }
+}
+
+// Returns the id of the new playlist; the server takes its media type from the first item
+export async function createPlaylist(name: string, itemIds: string[]): Promise<string> {
+  try {
+    const { api, user } = await createApi();
+
+    const { data } = await getPlaylistsApi(api).createPlaylist({
+      createPlaylistDto: { Name: name, Ids: itemIds, UserId: user.Id },
+    });
+
+    return data.Id!;
+  } catch (error) {
+    throw new Error(`Failed to create playlist: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function addToPlaylist(playlistId: string, itemIds: string[]): Promise<void> {
+  try {
+    const { api, user } = await createApi();
+    await getPlaylistsApi(api).addItemToPlaylist({ playlistId, ids: itemIds, userId: user.Id });
+  } catch (error) {
+    throw new Error(`Failed to add to playlist: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function removeFromPlaylist(playlistId: string, entryIds: string[]): Promise<void> {
+  try {
+    const { api } = await createApi();
+    await getPlaylistsApi(api).removeItemFromPlaylist({ playlistId, entryIds });
+  } catch (error) {
+    throw new Error(`Failed to remove from playlist: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function movePlaylistItem(
+  playlistId: string,
+  entryId: string,
+  newIndex: number
+): Promise<void> {
+  try {
+    const { api } = await createApi();
+    await getPlaylistsApi(api).moveItem({ playlistId, itemId: entryId, newIndex });
+  } catch (error) {
+    throw new Error(`Failed to move playlist item: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function fetchPlaylistAccess(playlistId: string): Promise<PlaylistAccess | null> {
+  try {
+    const { api } = await createApi();
+
+    const { data } = await getPlaylistsApi(api).getPlaylist({ playlistId });
+    return { isPublic: Boolean(data.OpenAccess), shares: data.Shares || [] };
+  } catch (error) {
+    console.error("Failed to fetch playlist access:", error);
+    return null;
+  }
+}
+
+export async function setPlaylistPublic(playlistId: string, isPublic: boolean): Promise<void> {
+  try {
+    const { api } = await createApi();
+    await getPlaylistsApi(api).updatePlaylist({
+      playlistId,
+      updatePlaylistDto: { IsPublic: isPublic },
+    });
+  } catch (error) {
+    throw new Error(`Failed to update playlist: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Adds a collaborator, or changes whether an existing one can edit
+export async function sharePlaylist(
+  playlistId: string,
+  userId: string,
+  canEdit: boolean
+): Promise<void> {
+  try {
+    const { api } = await createApi();
+    await getPlaylistsApi(api).updatePlaylistUser({
+      playlistId,
+      userId,
+      updatePlaylistUserDto: { CanEdit: canEdit },
+    });
+  } catch (error) {
+    throw new Error(`Failed to share playlist: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function unsharePlaylist(playlistId: string, userId: string): Promise<void> {
+  try {
+    const { api } = await createApi();
+    await getPlaylistsApi(api).removeUserFromPlaylist({ playlistId, userId });
+  } catch (error) {
+    throw new Error(`Failed to unshare playlist: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Other users a playlist can be shared with; listing users needs an administrator
+export async function fetchShareableUsers(): Promise<UserDto[]> {
+  try {
+    const { api, user } = await createApi();
+
+    const { data } = await getUserApi(api).getUsers({ isDisabled: false });
+    return data.filter((entry) => entry.Id !== user.Id);
+  } catch (error) {
+    console.error("Failed to fetch users:", error);
+    return [];
+  }
+}
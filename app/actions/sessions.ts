@@ -0,0 +1,173 @@
+"use server";
+
+import { cookies } from "next/headers";
+import {
+  GeneralCommandType,
+  PlayCommand,
+  PlaystateCommand,
+  SessionInfoDto,
+} from "@jellyfin/sdk/lib/generated-client/models";
+
+// Helper function to get auth data from cookies
+async function getAuthData() {
+  const cookieStore = await cookies();
+  const authData = cookieStore.get("jellyfin-auth");
+  const deviceId = cookieStore.get("jellyfin-device-id");
+
+  if (!authData?.value) {
+    throw new Error("Not authenticated");
+  }
+
+  const parsed = JSON.parse(authData.value);
+  return {
+    serverUrl: parsed.serverUrl,
+    user: parsed.user,
+    deviceId: deviceId?.value || null,
+  };
+}
+
+// Sessions seen within this window are offered as targets
+const ACTIVE_WITHIN_SECONDS = 960;
+
+// Other clients this user may control, excluding this browser
+export async function fetchControllableSessions(): Promise<SessionInfoDto[]> {
+  const { serverUrl, user, deviceId } = await getAuthData();
+
+  const params = new URLSearchParams({
+    controllableByUserId: user.Id,
+    activeWithinSeconds: ACTIVE_WITHIN_SECONDS.toString(),
+  });
+
+  const response = await fetch(`${serverUrl}/Sessions?${params.toString()}`, {
+    headers: {
+      Authorization: `MediaBrowser Token="${user.AccessToken}"`,
+    },
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch sessions: ${response.statusText}`);
+  }
+
+  const sessions: SessionInfoDto[] = await response.json();
+  return sessions.filter(
+    (session) => session.SupportsRemoteControl && session.DeviceId !== deviceId
+  );
+}
+
+// There's no endpoint for a single session, so pick it out of the controllable ones
+export async function fetchSession(
+  sessionId: string
+): Promise<SessionInfoDto | null> {
+  const sessions = await fetchControllableSessions();
+  return sessions.find((session) => session.Id === sessionId) ?? null;
+}
+
+export async function playOnSession(
+  sessionId: string,
+  itemIds: string[],
+  startPositionTicks?: number
+): Promise<void> {
+  const { serverUrl, user } = await getAuthData();
+
+  const params = new URLSearchParams({
+    playCommand: PlayCommand.PlayNow,
+    itemIds: itemIds.join(","),
+  });
+  if (startPositionTicks) {
+    params.set("startPositionTicks", Math.round(startPositionTicks).toString());
+  }
+
+  const response = await fetch(
+    `${serverUrl}/Sessions/${sessionId}/Playing?${params.toString()}`,
+    {
+      method: "POST",
+      headers: {
+        Authorization: `MediaBrowser Token="${user.AccessToken}"`,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to start playback on session: ${response.statusText}`);
+  }
+}
+
+// Play, pause, seek, stop and track skipping
+export async function sendSessionPlaystateCommand(
+  sessionId: string,
+  command: PlaystateCommand,
+  seekPositionTicks?: number
+): Promise<void> {
+  const { serverUrl, user } = await getAuthData();
+
+  const params = new URLSearchParams({ controllingUserId: user.Id });
+  if (seekPositionTicks !== undefined) {
+    params.set("seekPositionTicks", Math.round(seekPositionTicks).toString());
+  }
+
+  const response = await fetch(
+    `${serverUrl}/Sessions/${sessionId}/Playing/${command}?${params.toString()}`,
+    {
+      method: "POST",
+      headers: {
+        Authorization: `MediaBrowser Token="${user.AccessToken}"`,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to send ${command} command: ${response.statusText}`);
+  }
+}
+
+// Volume, mute and audio/subtitle track changes
+export async function sendSessionGeneralCommand(
+  sessionId: string,
+  name: GeneralCommandType,
+  args?: Record<string, string>
+): Promise<void> {
+  const { serverUrl, user } = await getAuthData();
+
+  const response = await fetch(`${serverUrl}/Sessions/${sessionId}/Command`, {
+    method: "POST",
+    headers: {
+      Authorization: `MediaBrowser Token="${user.AccessToken}"`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      Name: name,
+      ControllingUserId: user.Id,
+      Arguments: args ?? {},
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to send ${name} command: ${response.statusText}`);
+  }
+}
+
+// Registers this browser as a remote-controllable client for the WebSocket commands it handles
+export async function reportSessionCapabilities(
+  supportedCommands: GeneralCommandType[]
+): Promise<void> {
+  const { serverUrl, user } = await getAuthData();
+
+  const response = await fetch(`${serverUrl}/Sessions/Capabilities/Full`, {
+    method: "POST",
+    headers: {
+      Authorization: `MediaBrowser Token="${user.AccessToken}"`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      PlayableMediaTypes: ["Video", "Audio"],
+      SupportedCommands: supportedCommands,
+      SupportsMediaControl: true,
+      SupportsPersistentIdentifier: false,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to report session capabilities: ${response.statusText}`);
+  }
+}
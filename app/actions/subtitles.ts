@@ -3,6 +3,10 @@
 import { cookies } from "next/headers";
 import { UserLibraryApi } from "@jellyfin/sdk/lib/generated-client/api/user-library-api";
 import { createJellyfinInstance } from "@/lib/utils";
+import {
+  RemoteSubtitleInfo,
+  UploadSubtitleDto,
+} from "@jellyfin/sdk/lib/generated-client/models";
 
 // Helper function to get auth data from cookies
 export async function getAuthData() {
@@ -17,8 +21,10 @@ export async function getAuthData() {
   return { serverUrl: parsed.serverUrl, user: parsed.user };
 }
 
-interface SubtitleEntry {
+export interface SubtitleEntry {
   timestamp: number;
+  // When the cue stops showing, in seconds
+  endTimestamp: number;
   timestampFormatted: string;
   text: string;
 }
@@ -53,14 +59,17 @@ function parseJsonSubtitles(jsonContent: string): SubtitleEntry[] {
     const data = JSON.parse(jsonContent);
     const trackEvents = data.TrackEvents || [];
     
-    return trackEvents.map((event: any) => {
+    const entries: SubtitleEntry[] = trackEvents.map((event: any) => {
       const timestampSeconds = ticksToSeconds(event.StartPositionTicks);
       return {
         timestamp: timestampSeconds,
+        endTimestamp: ticksToSeconds(event.EndPositionTicks ?? event.StartPositionTicks),
         timestampFormatted: formatTimestamp(timestampSeconds),
         text: event.Text || '',
       };
     });
+
+    return entries.sort((a, b) => a.timestamp - b.timestamp);
   } catch (error) {
     console.error('Failed to parse JSON subtitle content:', error);
     return [];
@@ -156,3 +165,88 @@ export async function getSubtitleContent(
     };
   }
 }
+
+export async function searchRemoteSubtitles(
+  itemId: string,
+  language: string,
+  isPerfectMatch: boolean = false
+): Promise<RemoteSubtitleInfo[]> {
+  const { serverUrl, user } = await getAuthData();
+
+  const params = new URLSearchParams({
+    isPerfectMatch: isPerfectMatch.toString(),
+  });
+
+  const url = `${serverUrl}/Items/${itemId}/RemoteSearch/Subtitles/${language}?${params.toString()}`;
+
+  const response = await fetch(url, {
+    headers: {
+      Authorization: `MediaBrowser Token="${user.AccessToken}"`,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to search remote subtitles: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export async function downloadRemoteSubtitles(
+  itemId: string,
+  subtitleId: string
+): Promise<void> {
+  const { serverUrl, user } = await getAuthData();
+
+  const url = `${serverUrl}/Items/${itemId}/RemoteSearch/Subtitles/${encodeURIComponent(subtitleId)}`;
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      Authorization: `MediaBrowser Token="${user.AccessToken}"`,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to download remote subtitles: ${response.statusText}`);
+  }
+}
+
+export async function uploadSubtitle(
+  itemId: string,
+  subtitle: UploadSubtitleDto
+): Promise<void> {
+  const { serverUrl, user } = await getAuthData();
+
+  const response = await fetch(`${serverUrl}/Videos/${itemId}/Subtitles`, {
+    method: "POST",
+    headers: {
+      Authorization: `MediaBrowser Token="${user.AccessToken}"`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(subtitle),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to upload subtitle: ${response.statusText}`);
+  }
+}
+
+// Only external subtitle files can be deleted; index is the stream's Index
+export async function deleteSubtitle(
+  itemId: string,
+  index: number
+): Promise<void> {
+  const { serverUrl, user } = await getAuthData();
+
+  const response = await fetch(`${serverUrl}/Videos/${itemId}/Subtitles/${index}`, {
+    method: "DELETE",
+    headers: {
+      Authorization: `MediaBrowser Token="${user.AccessToken}"`,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to delete subtitle: ${response.statusText}`);
+  }
+}
@@ -0,0 +1,116 @@
+"use server";
+
+import { cookies } from "next/headers";
+import {
+  BufferRequestDto,
+  GroupInfoDto,
+  ReadyRequestDto,
+} from "@jellyfin/sdk/lib/generated-client/models";
+
+// Helper function to get auth data from cookies
+async function getAuthData() {
+  const cookieStore = await cookies();
+  const authData = cookieStore.get("jellyfin-auth");
+
+  if (!authData?.value) {
+    throw new Error("Not authenticated");
+  }
+
+  const parsed = JSON.parse(authData.value);
+  return { serverUrl: parsed.serverUrl, user: parsed.user };
+}
+
+// All SyncPlay requests are POSTs of a small JSON body; the outcome arrives over the WebSocket
+async function postSyncPlay(
+  path: string,
+  action: string,
+  body?: object
+): Promise<void> {
+  const { serverUrl, user } = await getAuthData();
+
+  const response = await fetch(`${serverUrl}/SyncPlay/${path}`, {
+    method: "POST",
+    headers: {
+      Authorization: `MediaBrowser Token="${user.AccessToken}"`,
+      "Content-Type": "application/json",
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to ${action}: ${response.statusText}`);
+  }
+}
+
+export async function fetchSyncPlayGroups(): Promise<GroupInfoDto[]> {
+  const { serverUrl, user } = await getAuthData();
+
+  const response = await fetch(`${serverUrl}/SyncPlay/List`, {
+    headers: {
+      Authorization: `MediaBrowser Token="${user.AccessToken}"`,
+    },
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch SyncPlay groups: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export async function createSyncPlayGroup(groupName: string): Promise<void> {
+  await postSyncPlay("New", "create SyncPlay group", { GroupName: groupName });
+}
+
+export async function joinSyncPlayGroup(groupId: string): Promise<void> {
+  await postSyncPlay("Join", "join SyncPlay group", { GroupId: groupId });
+}
+
+export async function leaveSyncPlayGroup(): Promise<void> {
+  await postSyncPlay("Leave", "leave SyncPlay group");
+}
+
+// Replace the group's queue, e.g. when a member starts something new
+export async function setSyncPlayQueue(
+  itemIds: string[],
+  playingItemPosition: number = 0,
+  startPositionTicks: number = 0
+): Promise<void> {
+  await postSyncPlay("SetNewQueue", "set SyncPlay queue", {
+    PlayingQueue: itemIds,
+    PlayingItemPosition: playingItemPosition,
+    StartPositionTicks: Math.round(startPositionTicks),
+  });
+}
+
+export async function requestSyncPlayPause(): Promise<void> {
+  await postSyncPlay("Pause", "pause SyncPlay group");
+}
+
+export async function requestSyncPlayUnpause(): Promise<void> {
+  await postSyncPlay("Unpause", "unpause SyncPlay group");
+}
+
+export async function requestSyncPlaySeek(positionTicks: number): Promise<void> {
+  await postSyncPlay("Seek", "seek SyncPlay group", {
+    PositionTicks: Math.round(positionTicks),
+  });
+}
+
+export async function requestSyncPlayStop(): Promise<void> {
+  await postSyncPlay("Stop", "stop SyncPlay group");
+}
+
+export async function reportSyncPlayBuffering(request: BufferRequestDto): Promise<void> {
+  await postSyncPlay("Buffering", "report SyncPlay buffering", request);
+}
+
+export async function reportSyncPlayReady(request: ReadyRequestDto): Promise<void> {
+  await postSyncPlay("Ready", "report SyncPlay ready", request);
+}
+
+// Round-trip time in milliseconds, which the server uses to schedule commands for this client
+export async function reportSyncPlayPing(ping: number): Promise<void> {
+  await postSyncPlay("Ping", "report SyncPlay ping", { Ping: Math.round(ping) });
+}
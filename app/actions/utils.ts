@@ -5,8 +5,8 @@ import { UserLibraryApi } from "@jellyfin/sdk/lib/generated-client/api/user-libr
 import { getUserViewsApi } from "@jellyfin/sdk/lib/utils/api/user-views-api";
 import { createJellyfinInstance } from "@/lib/utils";
 import { getSystemApi } from "@jellyfin/sdk/lib/utils/api/system-api";
-import { LogFile } from "@jellyfin/sdk/lib/generated-client/models";
-import { getOptimalStreamingParams } from "@/lib/device-detection";
+import { getMediaInfoApi } from "@jellyfin/sdk/lib/utils/api/media-info-api";
+import { DeviceProfile, LogFile, PlayMethod, SessionInfoDto, TranscodingInfo, TrickplayInfo } from "@jellyfin/sdk/lib/generated-client/models";
 import { MediaSourceInfo } from "@/types/jellyfin";
 import { postPlaybackInfo } from "@/app/actions/playback";
 
@@ -71,10 +71,35 @@ export async function getDownloadUrl(itemId: string): Promise<string> {
     return `${serverUrl}/Items/${itemId}/Download?api_key=${user.AccessToken}`;
 }
 
+// A single-file H.264/AAC transcode for saving offline, capped at the given bitrate
+export async function getTranscodedDownloadUrl(
+    itemId: string,
+    mediaSourceId: string,
+    maxStreamingBitrate: number
+): Promise<string> {
+    const { serverUrl, user } = await getAuthData();
+    const audioBitrate = 192000;
+
+    const params = new URLSearchParams({
+        api_key: user.AccessToken,
+        MediaSourceId: mediaSourceId,
+        Container: 'mp4',
+        VideoCodec: 'h264',
+        AudioCodec: 'aac',
+        VideoBitrate: String(Math.max(maxStreamingBitrate - audioBitrate, 500000)),
+        AudioBitrate: String(audioBitrate),
+        MaxAudioChannels: '2',
+        Static: 'false'
+    });
+
+    return `${serverUrl}/Videos/${itemId}/stream.mp4?${params.toString()}`;
+}
+
 async function getDirectPlayUrl(
     itemId: string,
     mediaSourceId: string,
-    playSessionId: string
+    playSessionId: string,
+    liveStreamId?: string
 ): Promise<string> {
     const { serverUrl, user } = await getAuthData();
 
@@ -87,89 +112,42 @@ async function getDirectPlayUrl(
     if (playSessionId) {
         params.set('PlaySessionId', playSessionId);
     }
+    if (liveStreamId) {
+        params.set('LiveStreamId', liveStreamId);
+    }
 
     return `${serverUrl}/Videos/${itemId}/stream?${params.toString()}`;
 }
 
-async function getHlsUrl(
+// The original file served as-is under its own container, for sources the server lets us direct stream
+async function getDirectStreamUrl(
     itemId: string,
-    mediaSource: MediaSourceInfo,
-    streamingParams: ReturnType<typeof getOptimalStreamingParams>,
-    audioStreamIndex: number,
+    source: MediaSourceInfo,
     playSessionId: string
 ): Promise<string> {
-    const { serverUrl, user, deviceId } = await getAuthData();
-    const {
-        videoCodec,
-        audioCodec,
-        videoBitrate,
-        audioBitrate,
-        audioSampleRate,
-        maxVideoBitrate,
-        transcodingMaxAudioChannels,
-        requireAvc,
-        enableAudioVbrEncoding,
-        hevcLevel,
-        hevcVideoBitDepth,
-        hevcProfile,
-        hevcAudioChannels,
-        aacProfile,
-        av1Profile,
-        av1RangeType,
-        av1Level,
-        vp9RangeType,
-        hevcRangeType,
-        hevcDeinterlace,
-        h264Profile,
-        h264RangeType,
-        h264Level,
-        h264Deinterlace,
-        segmentContainer,
-        minSegments,
-    } = streamingParams;
-
-    const videoStream = mediaSource.MediaStreams?.find(
-        (stream) => stream.Type === "Video"
-    );
+    const { serverUrl, user } = await getAuthData();
 
     const params = new URLSearchParams({
-        DeviceId: deviceId ?? "",
         api_key: user.AccessToken,
-        MediaSourceId: mediaSource.Id!,
-        VideoCodec: videoCodec,
-        AudioCodec: audioCodec,
-        AudioStreamIndex: audioStreamIndex.toString(),
-        VideoBitrate: maxVideoBitrate.toString(),
-        AudioBitrate: audioBitrate.toString(),
-        AudioSampleRate: audioSampleRate.toString(),
-        MaxFramerate: videoStream?.AverageFrameRate?.toString() ?? "23.976",
-        PlaySessionId: playSessionId,
-        RequireAvc: requireAvc.toString(),
-        TranscodingMaxAudioChannels: transcodingMaxAudioChannels.toString(),
-        EnableAudioVbrEncoding: enableAudioVbrEncoding.toString(),
-        Tag: mediaSource.ETag!,
-        SegmentContainer: segmentContainer,
-        MinSegments: minSegments.toString(),
-        BreakOnNonKeyFrames: "True",
-        "hevc-level": hevcLevel.toString(),
-        "hevc-videobitdepth": hevcVideoBitDepth.toString(),
-        "hevc-profile": hevcProfile,
-        "hevc-audiochannels": hevcAudioChannels.toString(),
-        "hevc-rangetype": hevcRangeType,
-        "hevc-deinterlace": hevcDeinterlace.toString(),
-        // "aac-profile": aacProfile,
-        "av1-profile": av1Profile,
-        "av1-rangetype": av1RangeType,
-        "av1-level": av1Level.toString(),
-        "vp9-rangetype": vp9RangeType,
-        "h264-profile": h264Profile,
-        "h264-rangetype": h264RangeType,
-        "h264-level": h264Level.toString(),
-        "h264-deinterlace": h264Deinterlace.toString(),
-        TranscodeReasons: "ContainerNotSupported, AudioCodecNotSupported, VideoRangeTypeNotSupported",
+        MediaSourceId: source.Id!,
+        Static: 'true'
     });
 
-    const masterUrl = `${serverUrl}/videos/${itemId}/master.m3u8?${params.toString()}`;
+    if (playSessionId) {
+        params.set('PlaySessionId', playSessionId);
+    }
+
+    // Containers can be listed as aliases, e.g. "mov,mp4,m4a"
+    const container = source.Container?.split(',')[0] || 'mkv';
+    return `${serverUrl}/Videos/${itemId}/stream.${container}?${params.toString()}`;
+}
+
+// Pick the best variant of a master playlist that fits the bitrate cap
+async function resolveHlsVariant(
+    masterUrl: string,
+    maxStreamingBitrate: number
+): Promise<string> {
+    const { user } = await getAuthData();
 
     try {
         // Fetch the master.m3u8 file
@@ -185,9 +163,9 @@ async function getHlsUrl(
 
         const m3u8Content = await response.text();
 
-        // Parse the m3u8 content to find the first stream
+        // Collect every variant, then take the best one that fits the cap
         const lines = m3u8Content.split('\n');
-        let firstStreamUrl = '';
+        const variants: Array<{ bandwidth: number; url: string }> = [];
 
         for (let i = 0; i < lines.length; i++) {
             const line = lines[i].trim();
@@ -196,25 +174,32 @@ async function getHlsUrl(
                 if (i + 1 < lines.length) {
                     const nextLine = lines[i + 1].trim();
                     if (nextLine && !nextLine.startsWith('#')) {
+                        const bandwidth = Number(line.match(/[:,]BANDWIDTH=(\d+)/)?.[1] ?? 0);
                         // This is the stream URL, make it absolute if it's relative
                         if (nextLine.startsWith('http')) {
-                            firstStreamUrl = nextLine;
+                            variants.push({ bandwidth, url: nextLine });
                         } else {
                             // Make it absolute by combining with the base URL
-                            const baseUrl = masterUrl.substring(0, masterUrl.lastIndexOf('/'));
-                            firstStreamUrl = `${baseUrl}/${nextLine}`;
+                            const baseUrl = masterUrl.substring(0, masterUrl.split('?')[0].lastIndexOf('/'));
+                            variants.push({ bandwidth, url: `${baseUrl}/${nextLine}` });
                         }
-                        break;
                     }
                 }
             }
         }
 
-        if (!firstStreamUrl) {
+        if (variants.length === 0) {
             throw new Error('No stream URL found in master.m3u8');
         }
 
-        return firstStreamUrl;
+        const fittingVariants = maxStreamingBitrate > 0
+            ? variants.filter((variant) => variant.bandwidth <= maxStreamingBitrate)
+            : [];
+        const selectedVariant = fittingVariants.length > 0
+            ? fittingVariants.reduce((best, variant) => variant.bandwidth > best.bandwidth ? variant : best)
+            : variants[0];
+
+        return selectedVariant.url;
     } catch (error) {
         console.error('Failed to fetch and parse master.m3u8:', error);
         // Fallback to returning the master URL if parsing fails
@@ -222,33 +207,310 @@ async function getHlsUrl(
     }
 }
 
+export interface PlaybackDecision {
+    streamUrl: string;
+    playSessionId: string;
+    playMethod: PlayMethod;
+    transcodeReasons: string[];
+    // Set for live TV, whose tuner stays open until the stream is closed
+    liveStreamId?: string;
+}
+
 export async function getPlaybackUrl(
     itemId: string,
     mediaSource: MediaSourceInfo,
-    directPlay: boolean,
-    streamingParams: ReturnType<typeof getOptimalStreamingParams>,
-    audioStreamIndex: number
-): Promise<{ streamUrl: string, playSessionId: string }> {
+    deviceProfile: DeviceProfile,
+    audioStreamIndex: number,
+    maxStreamingBitrate: number = 0
+): Promise<PlaybackDecision> {
+    const { serverUrl, user } = await getAuthData();
 
-    const playbackInfo = await postPlaybackInfo(itemId)
+    const playbackInfo = await postPlaybackInfo(itemId, {
+        deviceProfile,
+        mediaSourceId: mediaSource.Id!,
+        audioStreamIndex,
+        maxStreamingBitrate,
+    });
+
+    if (playbackInfo.ErrorCode) {
+        throw new Error(`Playback not allowed: ${playbackInfo.ErrorCode}`);
+    }
 
-    if (!playbackInfo.MediaSources) {
+    // The server re-evaluates the source against our profile; use its copy
+    const source = playbackInfo.MediaSources?.find((ms) => ms.Id === mediaSource.Id)
+        ?? playbackInfo.MediaSources?.[0];
+
+    if (!source) {
         throw new Error("No media sources available in playback info");
     }
 
-    console.log("Server-validated playback info:", playbackInfo);
+    const playSessionId = playbackInfo.PlaySessionId!;
+
+    if (source.SupportsDirectPlay) {
+        return {
+            streamUrl: await getDirectPlayUrl(itemId, source.Id!, playSessionId),
+            playSessionId,
+            playMethod: PlayMethod.DirectPlay,
+            transcodeReasons: [],
+        };
+    }
 
-    if (directPlay) {
-        // Audio track selection during direct play is handled by the client-side player, not the URL.
+    if (source.SupportsDirectStream) {
         return {
-            streamUrl: await getDirectPlayUrl(itemId, mediaSource.Id!, playbackInfo.PlaySessionId!),
-            playSessionId: playbackInfo.PlaySessionId!
+            streamUrl: await getDirectStreamUrl(itemId, source, playSessionId),
+            playSessionId,
+            playMethod: PlayMethod.DirectStream,
+            transcodeReasons: [],
+        };
+    }
+
+    if (!source.TranscodingUrl) {
+        throw new Error("Server did not offer a playable stream for this media");
+    }
+
+    const masterUrl = new URL(`${serverUrl}${source.TranscodingUrl}`);
+    if (!masterUrl.searchParams.has('api_key') && !masterUrl.searchParams.has('ApiKey')) {
+        masterUrl.searchParams.set('api_key', user.AccessToken);
+    }
+
+    const transcodeReasons = (masterUrl.searchParams.get('TranscodeReasons') ?? '')
+        .split(',')
+        .map((reason) => reason.trim())
+        .filter(Boolean);
+
+    return {
+        streamUrl: await resolveHlsVariant(masterUrl.toString(), maxStreamingBitrate),
+        playSessionId,
+        playMethod: PlayMethod.Transcode,
+        transcodeReasons,
+    };
+}
+
+// Live channels have no file to stream: open a tuner first, then play whatever the server offers
+export async function getLiveStreamUrl(
+    channelId: string,
+    mediaSource: MediaSourceInfo,
+    deviceProfile: DeviceProfile,
+    audioStreamIndex?: number,
+    maxStreamingBitrate: number = 0
+): Promise<PlaybackDecision> {
+    const { serverUrl, user } = await getAuthData();
+    const jellyfinInstance = createJellyfinInstance();
+    const api = jellyfinInstance.createApi(serverUrl);
+    api.accessToken = user.AccessToken;
+
+    if (!mediaSource.OpenToken) {
+        throw new Error("This channel can't be opened for streaming");
+    }
+
+    const playSessionId = crypto.randomUUID().replace(/-/g, '');
+    const { data } = await getMediaInfoApi(api).openLiveStream({
+        openLiveStreamDto: {
+            OpenToken: mediaSource.OpenToken,
+            ItemId: channelId,
+            UserId: user.Id,
+            PlaySessionId: playSessionId,
+            DeviceProfile: deviceProfile,
+            MaxStreamingBitrate: maxStreamingBitrate || deviceProfile.MaxStreamingBitrate,
+            AudioStreamIndex: audioStreamIndex,
+            EnableDirectPlay: true,
+            EnableDirectStream: true,
+            AlwaysBurnInSubtitleWhenTranscoding: false,
+        },
+    });
+
+    const source = data.MediaSource;
+    if (!source?.LiveStreamId) {
+        throw new Error("Server did not open a live stream for this channel");
+    }
+
+    if (source.SupportsDirectPlay || !source.TranscodingUrl) {
+        return {
+            streamUrl: await getDirectPlayUrl(channelId, source.Id!, playSessionId, source.LiveStreamId),
+            playSessionId,
+            playMethod: PlayMethod.DirectPlay,
+            transcodeReasons: [],
+            liveStreamId: source.LiveStreamId,
+        };
+    }
+
+    const masterUrl = new URL(`${serverUrl}${source.TranscodingUrl}`);
+    if (!masterUrl.searchParams.has('api_key') && !masterUrl.searchParams.has('ApiKey')) {
+        masterUrl.searchParams.set('api_key', user.AccessToken);
+    }
+
+    return {
+        streamUrl: await resolveHlsVariant(masterUrl.toString(), maxStreamingBitrate),
+        playSessionId,
+        playMethod: source.SupportsDirectStream ? PlayMethod.DirectStream : PlayMethod.Transcode,
+        transcodeReasons: (masterUrl.searchParams.get('TranscodeReasons') ?? '')
+            .split(',')
+            .map((reason) => reason.trim())
+            .filter(Boolean),
+        liveStreamId: source.LiveStreamId,
+    };
+}
+
+// Release the tuner held by a live stream
+export async function closeLiveStream(liveStreamId: string): Promise<void> {
+    const { serverUrl, user } = await getAuthData();
+
+    try {
+        await fetch(`${serverUrl}/LiveStreams/Close?liveStreamId=${encodeURIComponent(liveStreamId)}`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `MediaBrowser Token="${user.AccessToken}"`,
+            },
+        });
+    } catch (error) {
+        console.error('Failed to close live stream:', error);
+    }
+}
+
+// Kill the server-side ffmpeg process of a session we are replacing
+export async function stopTranscoding(playSessionId: string): Promise<void> {
+    const { serverUrl, user, deviceId } = await getAuthData();
+
+    if (!deviceId) return;
+
+    const params = new URLSearchParams({
+        deviceId,
+        playSessionId,
+    });
+
+    try {
+        await fetch(`${serverUrl}/Videos/ActiveEncodings?${params.toString()}`, {
+            method: 'DELETE',
+            headers: {
+                'Authorization': `MediaBrowser Token="${user.AccessToken}"`,
+            },
+        });
+    } catch (error) {
+        console.error('Failed to stop transcoding:', error);
+    }
+}
+
+export interface ActiveTranscodingInfo {
+    playMethod: PlayMethod | null;
+    transcodingInfo: TranscodingInfo | null;
+}
+
+// Server-side view of our playback, looked up from this device's session. The same user
+// may be playing the same item elsewhere, so only our own device id will do.
+export async function getActiveTranscodingInfo(
+    itemId: string,
+    mediaSourceId?: string
+): Promise<ActiveTranscodingInfo | null> {
+    const { serverUrl, user, deviceId } = await getAuthData();
+    if (!deviceId) return null;
+
+    const params = new URLSearchParams({
+        controllableByUserId: user.Id,
+        deviceId,
+        activeWithinSeconds: '60',
+    });
+
+    try {
+        const response = await fetch(`${serverUrl}/Sessions?${params.toString()}`, {
+            headers: {
+                'Authorization': `MediaBrowser Token="${user.AccessToken}"`,
+            },
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to fetch sessions: ${response.status}`);
         }
-    } else {
+
+        const sessions: SessionInfoDto[] = await response.json();
+        const session = sessions.find((candidate) =>
+            candidate.UserId === user.Id &&
+            candidate.DeviceId === deviceId &&
+            candidate.NowPlayingItem?.Id === itemId &&
+            (!mediaSourceId || candidate.PlayState?.MediaSourceId === mediaSourceId)
+        );
+
+        if (!session) return null;
+
         return {
-            streamUrl: await getHlsUrl(itemId, mediaSource, streamingParams, audioStreamIndex, playbackInfo.PlaySessionId!),
-            playSessionId: playbackInfo.PlaySessionId!
+            playMethod: session.PlayState?.PlayMethod ?? null,
+            transcodingInfo: session.TranscodingInfo ?? null,
+        };
+    } catch (error) {
+        console.error('Failed to fetch transcoding info:', error);
+        return null;
+    }
+}
+
+export interface TrickplayManifest {
+    width: number;
+    height: number;
+    tileWidth: number;
+    tileHeight: number;
+    interval: number;
+    thumbnailCount: number;
+    tiles: string[];
+}
+
+export async function getTrickplayManifest(
+    itemId: string,
+    mediaSourceId: string,
+    info: TrickplayInfo
+): Promise<TrickplayManifest | null> {
+    const { serverUrl, user } = await getAuthData();
+
+    if (!info.Width || !info.Height || !info.TileWidth || !info.TileHeight || !info.Interval) {
+        return null;
+    }
+
+    const params = new URLSearchParams({
+        api_key: user.AccessToken,
+        MediaSourceId: mediaSourceId,
+    });
+    const playlistUrl = `${serverUrl}/Videos/${itemId}/Trickplay/${info.Width}/tiles.m3u8?${params.toString()}`;
+
+    try {
+        const response = await fetch(playlistUrl, {
+            headers: {
+                'Authorization': `MediaBrowser Token="${user.AccessToken}"`,
+            },
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to fetch tiles.m3u8: ${response.status} ${response.statusText}`);
         }
+
+        const m3u8Content = await response.text();
+
+        // Every non-comment line is a tile sheet, relative to the playlist
+        const tiles = m3u8Content
+            .split('\n')
+            .map((line) => line.trim())
+            .filter((line) => line && !line.startsWith('#'))
+            .map((line) => {
+                const tileUrl = new URL(line, playlistUrl);
+                // Tiles are loaded through <img>/CSS, so the token has to be in the URL
+                if (!tileUrl.searchParams.has('api_key') && !tileUrl.searchParams.has('ApiKey')) {
+                    tileUrl.searchParams.set('api_key', user.AccessToken);
+                }
+                return tileUrl.toString();
+            });
+
+        if (tiles.length === 0) {
+            throw new Error('No tiles found in tiles.m3u8');
+        }
+
+        return {
+            width: info.Width,
+            height: info.Height,
+            tileWidth: info.TileWidth,
+            tileHeight: info.TileHeight,
+            interval: info.Interval,
+            thumbnailCount: info.ThumbnailCount ?? tiles.length * info.TileWidth * info.TileHeight,
+            tiles,
+        };
+    } catch (error) {
+        console.error('Failed to fetch trickplay manifest:', error);
+        return null;
     }
 }
 
@@ -263,6 +525,8 @@ export async function getSubtitleTracks(
         src: string;
         default?: boolean;
         isForced: boolean;
+        format: string;
+        originalSrc: string;
     }>
 > {
     const { serverUrl, user } = await getAuthData();
@@ -295,6 +559,9 @@ export async function getSubtitleTracks(
                 src: src,
                 default: stream.IsDefault || false,
                 isForced: stream.IsForced || false,
+                format: stream.Codec?.toLowerCase() || "",
+                // Untouched stream for renderers that handle the format natively (ASS/SSA)
+                originalSrc: `${serverUrl}/Videos/${itemId}/${mediaSourceId}/Subtitles/${stream.Index}/Stream.${stream.Codec?.toLowerCase() || "vtt"}?api_key=${user.AccessToken}`,
             };
         });
 
@@ -319,10 +586,10 @@ export async function getUserLibraries(): Promise<any[]> {
             includeExternalContent: false,
         });
 
-        // Filter for movie and TV show libraries only
+        // Filter for movie, TV show and music libraries only
         const supportedLibraries = (data.Items || []).filter((library: any) => {
             const type = library.CollectionType?.toLowerCase();
-            return type === "movies" || type === "tvshows";
+            return type === "movies" || type === "tvshows" || type === "music";
         });
 
         return supportedLibraries;
@@ -0,0 +1,30 @@
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { JotaiProvider } from "@/components/jotai-provider";
+import { DownloadManager } from "@/components/download-manager";
+
+// Kept out of the main layout, whose sidebar, socket and players all call server
+// actions, so downloads can be browsed and played with the Jellyfin server unreachable
+export default function DownloadsLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <JotaiProvider>
+      <DownloadManager />
+      <div className="h-screen overflow-y-auto no-scrollbar">
+        <div className="px-4 pt-6">
+          <Link
+            href="/"
+            className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to library
+          </Link>
+        </div>
+        {children}
+      </div>
+    </JotaiProvider>
+  );
+}
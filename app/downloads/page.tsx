@@ -0,0 +1,20 @@
+import { DownloadsList } from "@/components/downloads-list";
+
+export default function DownloadsPage() {
+  return (
+    <div className="relative px-4 py-6 max-w-full overflow-hidden">
+      <div className="relative z-10">
+        <div className="mb-8 mt-4">
+          <h2 className="text-3xl font-semibold text-foreground font-poppins mb-2">
+            Downloads
+          </h2>
+          <span className="text-muted-foreground">
+            Saved in this browser for watching offline
+          </span>
+        </div>
+
+        <DownloadsList />
+      </div>
+    </div>
+  );
+}
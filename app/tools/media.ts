@@ -9,7 +9,10 @@ import {
   fetchSimilarItems,
   fetchGenres,
   fetchGenre,
+  fetchFavorites,
 } from "@/app/actions/media";
+import { BaseItemKind } from "@jellyfin/sdk/lib/generated-client/models/base-item-kind";
+import { ItemSortBy } from "@jellyfin/sdk/lib/generated-client/models/item-sort-by";
 
 export interface NavigateMediaTool {
   success: boolean;
@@ -326,20 +329,19 @@ export const getGenres = tool({
 
 export const getWatchlist = tool({
   description:
-    "Get user's watchlist or favorites (simulated with highly-rated content)",
+    "Get the user's watchlist: the movies, TV shows and episodes they have marked as favourites",
   inputSchema: z.object({
     limit: z.number().optional().describe("Number of items, default is 20"),
   }),
   execute: async ({ limit = 20 }) => {
     console.log("⭐ [getWatchlist] Tool called with limit:", limit);
     try {
-      // Since there's no direct watchlist API, we'll get popular/recent content
-      const [movies, shows] = await Promise.all([
-        fetchMovies(Math.ceil(limit / 2)),
-        fetchTVShows(Math.ceil(limit / 2)),
-      ]);
-
-      const allItems = [...movies, ...shows].slice(0, limit);
+      // One query across all three types, newest first, so no type crowds out the others
+      const allItems = await fetchFavorites(
+        [BaseItemKind.Movie, BaseItemKind.Series, BaseItemKind.Episode],
+        limit,
+        ItemSortBy.DateCreated
+      );
 
       return {
         success: true,
@@ -347,6 +349,7 @@ export const getWatchlist = tool({
           id: item.Id,
           name: item.Name,
           type: item.Type,
+          seriesName: item.SeriesName,
           year: item.ProductionYear,
           communityRating: item.CommunityRating,
           criticRating: item.CriticRating,
@@ -355,6 +358,7 @@ export const getWatchlist = tool({
             ? Math.round(item.RunTimeTicks / 600000000)
             : null,
           overview: item.Overview?.substring(0, 200) + "...",
+          played: item.UserData?.Played ?? false,
         })),
         count: allItems.length,
       };
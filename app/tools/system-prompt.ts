@@ -23,7 +23,7 @@ AVAILABLE TOOLS AND CAPABILITIES:
 - getMediaDetails: Get detailed information about a specific movie or TV show
 - getSeasons: Get seasons for a TV show
 - getEpisodes: Get episodes for a TV show season
-- getWatchlist: Get user's watchlist or favorites (popular/highly-rated content)
+- getWatchlist: Get user's watchlist, i.e. the movies, TV shows and episodes they have marked as favourites
 - skipToSubtitleContent: Intelligently analyze subtitles and find the best timestamp based on user descriptions (doesn't require exact text matches)
 - explainScene: Analyze subtitles around current timestamp to explain what's happening in the scene
 - analyzeMedia: Analyze the entire movie/episode using subtitles to answer questions about plot, characters, themes, etc.
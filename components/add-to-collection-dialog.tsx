@@ -0,0 +1,149 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { BaseItemDto } from "@jellyfin/sdk/lib/generated-client/models";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Library, Loader2, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { addToCollection, createCollection, fetchCollections } from "@/app/actions";
+
+interface AddToCollectionDialogProps {
+  items: BaseItemDto[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Adds the chosen items to an existing collection or to a new one named here
+export function AddToCollectionDialog({ items, open, onOpenChange }: AddToCollectionDialogProps) {
+  const [collections, setCollections] = useState<BaseItemDto[] | null>(null);
+  const [newName, setNewName] = useState("");
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const itemIds = items.map((item) => item.Id!);
+  const itemsLabel = items.length === 1 ? `"${items[0].Name}"` : `${items.length} items`;
+
+  useEffect(() => {
+    if (open) {
+      fetchCollections().then(setCollections);
+    } else {
+      setCollections(null);
+      setNewName("");
+    }
+  }, [open]);
+
+  const showAddedToast = (collectionId: string, collectionName: string) => {
+    toast.success(`Added ${itemsLabel} to ${collectionName}`, {
+      action: (
+        <Link href={`/collection/${collectionId}`} className="ml-auto text-xs font-medium underline">
+          View
+        </Link>
+      ),
+    });
+  };
+
+  const handleAdd = async (collection: BaseItemDto) => {
+    setSavingId(collection.Id!);
+    try {
+      await addToCollection(collection.Id!, itemIds);
+      showAddedToast(collection.Id!, collection.Name || "collection");
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to add to collection:", error);
+      toast.error("Failed to add to collection");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+
+    setSavingId("new");
+    try {
+      const collectionId = await createCollection(name, itemIds);
+      showAddedToast(collectionId, name);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to create collection:", error);
+      toast.error("Failed to create collection");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add to Collection</DialogTitle>
+          <DialogDescription className="truncate">
+            Choose a collection for {itemsLabel}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <Input
+            placeholder="New collection name"
+            value={newName}
+            onChange={(event) => setNewName(event.target.value)}
+            disabled={savingId !== null}
+          />
+          <Button type="submit" disabled={!newName.trim() || savingId !== null}>
+            {savingId === "new" ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="h-4 w-4" />
+            )}
+            Create
+          </Button>
+        </form>
+
+        <div className="max-h-80 overflow-y-auto">
+          {collections === null ? (
+            <div className="space-y-2">
+              {Array.from({ length: 3 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : collections.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No collections yet. Name one above to create it.
+            </p>
+          ) : (
+            <div className="space-y-1">
+              {collections.map((collection) => (
+                <button
+                  key={collection.Id}
+                  className="flex w-full items-center gap-3 rounded-md px-3 py-2 text-left transition-colors hover:bg-accent disabled:opacity-50 cursor-pointer"
+                  onClick={() => handleAdd(collection)}
+                  disabled={savingId !== null}
+                >
+                  <Library className="h-5 w-5 shrink-0 text-muted-foreground" />
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate text-sm font-medium">{collection.Name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {collection.ChildCount ?? 0} {collection.ChildCount === 1 ? "item" : "items"}
+                    </div>
+                  </div>
+                  {savingId === collection.Id && <Loader2 className="h-4 w-4 animate-spin" />}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
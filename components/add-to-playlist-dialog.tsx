@@ -0,0 +1,149 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { BaseItemDto } from "@jellyfin/sdk/lib/generated-client/models";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ListMusic, Loader2, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { addToPlaylist, createPlaylist, fetchPlaylists } from "@/app/actions";
+
+interface AddToPlaylistDialogProps {
+  items: BaseItemDto[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Adds the chosen items to an existing playlist or to a new one named here
+export function AddToPlaylistDialog({ items, open, onOpenChange }: AddToPlaylistDialogProps) {
+  const [playlists, setPlaylists] = useState<BaseItemDto[] | null>(null);
+  const [newName, setNewName] = useState("");
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const itemIds = items.map((item) => item.Id!);
+  const itemsLabel = items.length === 1 ? `"${items[0].Name}"` : `${items.length} items`;
+
+  useEffect(() => {
+    if (open) {
+      fetchPlaylists().then(setPlaylists);
+    } else {
+      setPlaylists(null);
+      setNewName("");
+    }
+  }, [open]);
+
+  const showAddedToast = (playlistId: string, playlistName: string) => {
+    toast.success(`Added ${itemsLabel} to ${playlistName}`, {
+      action: (
+        <Link href={`/playlist/${playlistId}`} className="ml-auto text-xs font-medium underline">
+          View
+        </Link>
+      ),
+    });
+  };
+
+  const handleAdd = async (playlist: BaseItemDto) => {
+    setSavingId(playlist.Id!);
+    try {
+      await addToPlaylist(playlist.Id!, itemIds);
+      showAddedToast(playlist.Id!, playlist.Name || "playlist");
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to add to playlist:", error);
+      toast.error("Failed to add to playlist");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+
+    setSavingId("new");
+    try {
+      const playlistId = await createPlaylist(name, itemIds);
+      showAddedToast(playlistId, name);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to create playlist:", error);
+      toast.error("Failed to create playlist");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add to Playlist</DialogTitle>
+          <DialogDescription className="truncate">
+            Choose a playlist for {itemsLabel}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <Input
+            placeholder="New playlist name"
+            value={newName}
+            onChange={(event) => setNewName(event.target.value)}
+            disabled={savingId !== null}
+          />
+          <Button type="submit" disabled={!newName.trim() || savingId !== null}>
+            {savingId === "new" ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="h-4 w-4" />
+            )}
+            Create
+          </Button>
+        </form>
+
+        <div className="max-h-80 overflow-y-auto">
+          {playlists === null ? (
+            <div className="space-y-2">
+              {Array.from({ length: 3 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : playlists.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No playlists yet. Name one above to create it.
+            </p>
+          ) : (
+            <div className="space-y-1">
+              {playlists.map((playlist) => (
+                <button
+                  key={playlist.Id}
+                  className="flex w-full items-center gap-3 rounded-md px-3 py-2 text-left transition-colors hover:bg-accent disabled:opacity-50 cursor-pointer"
+                  onClick={() => handleAdd(playlist)}
+                  disabled={savingId !== null}
+                >
+                  <ListMusic className="h-5 w-5 shrink-0 text-muted-foreground" />
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate text-sm font-medium">{playlist.Name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {playlist.ChildCount ?? 0} {playlist.ChildCount === 1 ? "item" : "items"}
+                    </div>
+                  </div>
+                  {savingId === playlist.Id && <Loader2 className="h-4 w-4 animate-spin" />}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { fetchLibraryLetterCounts } from "@/app/actions";
+import { LIBRARY_LETTERS, LibraryFilters } from "@/lib/library-filters";
+
+interface AlphabetRailProps {
+  libraryId: string;
+  searchQuery: string;
+  filters: LibraryFilters;
+  descending: boolean;
+  // Index of the first item under the chosen letter
+  onJump: (index: number) => void;
+}
+
+// A–Z rail for name-sorted libraries; letters with nothing under them are greyed out
+export function AlphabetRail({
+  libraryId,
+  searchQuery,
+  filters,
+  descending,
+  onJump,
+}: AlphabetRailProps) {
+  const [counts, setCounts] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchLibraryLetterCounts(libraryId, searchQuery, filters).then((result) => {
+      if (!cancelled) setCounts(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [libraryId, searchQuery, filters]);
+
+  // Items under a letter start after everything sorted ahead of it
+  const getStartIndex = (letter: string) => {
+    const position = LIBRARY_LETTERS.indexOf(letter);
+    const ahead = descending
+      ? LIBRARY_LETTERS.slice(position + 1)
+      : LIBRARY_LETTERS.slice(0, position);
+    return ahead.reduce((sum, entry) => sum + (counts[entry] || 0), 0);
+  };
+
+  return (
+    <nav
+      aria-label="Jump to letter"
+      className="sticky top-4 flex shrink-0 flex-col items-center self-start"
+    >
+      {LIBRARY_LETTERS.map((letter) => {
+        const count = counts[letter] || 0;
+        return (
+          <button
+            key={letter}
+            disabled={count === 0}
+            onClick={() => onJump(getStartIndex(letter))}
+            title={count > 0 ? `${count} ${count === 1 ? "item" : "items"}` : undefined}
+            className="w-6 rounded text-[11px] font-medium leading-[1.35rem] text-muted-foreground transition-colors hover:bg-accent hover:text-foreground disabled:pointer-events-none disabled:opacity-30 cursor-pointer"
+          >
+            {letter}
+          </button>
+        );
+      })}
+    </nav>
+  );
+}
@@ -5,6 +5,7 @@ import Link from "next/link";
 import Image from "next/image";
 import { useRouter } from "next/navigation";
 import { useTheme } from "next-themes";
+import { useSetAtom } from "jotai";
 import {
   Sidebar,
   SidebarContent,
@@ -45,6 +46,13 @@ import {
   BarChart3,
   MoreHorizontal,
   ChevronRight,
+  UsersRound,
+  Music,
+  Radio,
+  Download,
+  Layers,
+  Heart,
+  ListMusic,
 } from "lucide-react";
 import {
   Select,
@@ -54,6 +62,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useSettings, BITRATE_OPTIONS } from "@/contexts/settings-context";
+import { isSyncPlayPanelOpenAtom } from "@/lib/atoms";
 
 interface JellyfinLibrary {
   Id: string;
@@ -73,6 +82,7 @@ export function AppSidebar({
   const { videoBitrate, setVideoBitrate } = useSettings();
   const { state } = useSidebar();
   const router = useRouter();
+  const setSyncPlayPanelOpen = useSetAtom(isSyncPlayPanelOpenAtom);
   const [user, setUser] = useState<any>(null);
   const [serverUrl, setServerUrl] = useState<string | null>(null);
   const [libraries, setLibraries] = useState<JellyfinLibrary[]>([]);
@@ -116,6 +126,8 @@ export function AppSidebar({
         return <Film className="h-4 w-4" />;
       case "tvshows":
         return <Tv className="h-4 w-4" />;
+      case "music":
+        return <Music className="h-4 w-4" />;
       default:
         return <Film className="h-4 w-4" />; // Default to film icon for any edge cases
     }
@@ -200,6 +212,55 @@ export function AppSidebar({
                   ) : null}
                 </SidebarMenuItem>
               </DropdownMenu>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild>
+                  <Link href="/favorites">
+                    <Heart className="h-4 w-4" />
+                    <span>Favourites</span>
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild>
+                  <Link href="/collections">
+                    <Layers className="h-4 w-4" />
+                    <span>Collections</span>
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild>
+                  <Link href="/playlists">
+                    <ListMusic className="h-4 w-4" />
+                    <span>Playlists</span>
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild>
+                  <Link href="/livetv">
+                    <Radio className="h-4 w-4" />
+                    <span>Live TV</span>
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild>
+                  <Link href="/downloads">
+                    <Download className="h-4 w-4" />
+                    <span>Downloads</span>
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton
+                  className="cursor-pointer"
+                  onClick={() => setSyncPlayPanelOpen(true)}
+                >
+                  <UsersRound className="h-4 w-4" />
+                  <span>SyncPlay</span>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
               <SidebarMenuItem>
                 <SidebarMenuButton asChild>
                   <Link href="/dashboard">
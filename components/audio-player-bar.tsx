@@ -0,0 +1,491 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import {
+  Music,
+  MicVocal,
+  Pause,
+  Play,
+  Radio,
+  Repeat,
+  Repeat1,
+  SkipBack,
+  SkipForward,
+  Volume2,
+  VolumeX,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { LyricsPanel } from "@/components/lyrics-panel";
+import {
+  getAudioStreamUrl,
+  reportPlaybackProgress,
+  reportPlaybackStart,
+  reportPlaybackStopped,
+} from "@/app/actions";
+import { useAuth } from "@/hooks/useAuth";
+import { useMusicActions } from "@/hooks/useMusicActions";
+import { useMediaPlayer, useMusicPlayer, AudioQueueItem } from "@/contexts/MediaPlayerContext";
+import { formatPlaybackPosition } from "@/lib/utils";
+
+const secondsToTicks = (seconds: number) => Math.round(seconds * 10000000);
+
+// Going back restarts the track instead once it has played this long
+const RESTART_THRESHOLD_SECONDS = 3;
+
+type Slot = 0 | 1;
+
+interface SlotState {
+  queueId: string | null;
+  itemId: string | null;
+  playSessionId: string | null;
+  // Bumped on every load so a slower, older load can't overwrite a newer one
+  loadId: number;
+}
+
+const emptySlot = (): SlotState => ({
+  queueId: null,
+  itemId: null,
+  playSessionId: null,
+  loadId: 0,
+});
+
+// Docked audio player for the music queue. It alternates between two <audio> elements: while one
+// plays, the next track is buffered in the other, so it can start the moment the current one ends.
+export function AudioPlayerBar() {
+  const { serverUrl } = useAuth();
+  const { isPlayerVisible } = useMediaPlayer();
+  const {
+    currentTrack,
+    nextTrack,
+    repeatMode,
+    advance,
+    cycleRepeatMode,
+    clearQueue,
+  } = useMusicPlayer();
+  const { queueMusic } = useMusicActions();
+
+  const audioARef = useRef<HTMLAudioElement>(null);
+  const audioBRef = useRef<HTMLAudioElement>(null);
+  const slotsRef = useRef<[SlotState, SlotState]>([emptySlot(), emptySlot()]);
+  const activeSlotRef = useRef<Slot>(0);
+  // The play session reported to the server as started and not yet stopped
+  const reportedRef = useRef<{ itemId: string; playSessionId: string } | null>(null);
+
+  const [isPaused, setIsPaused] = useState(true);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [seekingTo, setSeekingTo] = useState<number | null>(null);
+  const [volume, setVolume] = useState(1);
+  const [isMuted, setIsMuted] = useState(false);
+  const [showLyrics, setShowLyrics] = useState(false);
+  const [loadingMix, setLoadingMix] = useState(false);
+
+  const getAudio = (slot: Slot) => (slot === 0 ? audioARef : audioBRef).current;
+
+  const reportStopped = useCallback(() => {
+    const reported = reportedRef.current;
+    if (!reported) return;
+    reportedRef.current = null;
+
+    const audio = getAudio(activeSlotRef.current);
+    reportPlaybackStopped(
+      reported.itemId,
+      reported.itemId,
+      reported.playSessionId,
+      secondsToTicks(audio?.currentTime ?? 0)
+    );
+  }, []);
+
+  const loadInto = useCallback(async (slot: Slot, track: AudioQueueItem) => {
+    const state = slotsRef.current[slot];
+    const loadId = state.loadId + 1;
+    const playSessionId = crypto.randomUUID();
+    slotsRef.current[slot] = {
+      queueId: track.queueId,
+      itemId: track.id,
+      playSessionId,
+      loadId,
+    };
+
+    const url = await getAudioStreamUrl(track.id, playSessionId);
+    const audio = getAudio(slot);
+    if (!audio || slotsRef.current[slot].loadId !== loadId) return false;
+
+    audio.src = url;
+    audio.load();
+    return true;
+  }, []);
+
+  const switchTo = useCallback((slot: Slot) => {
+    getAudio(activeSlotRef.current)?.pause();
+    activeSlotRef.current = slot;
+    const audio = getAudio(slot);
+    setCurrentTime(audio?.currentTime ?? 0);
+    setDuration(audio && Number.isFinite(audio.duration) ? audio.duration : 0);
+  }, []);
+
+  // Play whichever track the queue points at, unless it's already in the active element
+  useEffect(() => {
+    if (!currentTrack) {
+      reportStopped();
+      for (const slot of [0, 1] as Slot[]) {
+        const audio = getAudio(slot);
+        audio?.pause();
+        audio?.removeAttribute("src");
+        slotsRef.current[slot] = { ...emptySlot(), loadId: slotsRef.current[slot].loadId + 1 };
+      }
+      setIsPaused(true);
+      setShowLyrics(false);
+      return;
+    }
+
+    const active = activeSlotRef.current;
+    if (slotsRef.current[active].queueId === currentTrack.queueId) return;
+
+    reportStopped();
+    const other: Slot = active === 0 ? 1 : 0;
+    if (slotsRef.current[other].queueId === currentTrack.queueId) {
+      switchTo(other);
+      getAudio(other)?.play().catch((error) => {
+        console.warn("Failed to start track:", error);
+      });
+      return;
+    }
+
+    getAudio(active)?.pause();
+    setCurrentTime(0);
+    setDuration(0);
+    loadInto(active, currentTrack)
+      .then((loaded) => {
+        if (!loaded) return;
+        return getAudio(active)?.play();
+      })
+      .catch((error) => {
+        console.error("Failed to play track:", error);
+        toast.error(`Couldn't play ${currentTrack.name}`);
+      });
+  }, [currentTrack?.queueId]);
+
+  // Buffer the next track in the idle element
+  useEffect(() => {
+    if (!nextTrack || nextTrack.queueId === currentTrack?.queueId) return;
+
+    const idle: Slot = activeSlotRef.current === 0 ? 1 : 0;
+    if (slotsRef.current[idle].queueId === nextTrack.queueId) return;
+
+    loadInto(idle, nextTrack).catch((error) => {
+      console.error("Failed to preload next track:", error);
+    });
+  }, [nextTrack?.queueId, currentTrack?.queueId]);
+
+  // The video player takes over the speakers
+  useEffect(() => {
+    if (isPlayerVisible) getAudio(activeSlotRef.current)?.pause();
+  }, [isPlayerVisible]);
+
+  useEffect(() => {
+    for (const slot of [0, 1] as Slot[]) {
+      const audio = getAudio(slot);
+      if (!audio) continue;
+      audio.volume = volume;
+      audio.muted = isMuted;
+    }
+  }, [volume, isMuted]);
+
+  // Report whatever is playing as stopped when the player goes away
+  useEffect(() => () => reportStopped(), [reportStopped]);
+
+  const handlePlay = (slot: Slot) => {
+    if (slot !== activeSlotRef.current) return;
+    setIsPaused(false);
+
+    const { itemId, playSessionId } = slotsRef.current[slot];
+    if (!itemId || !playSessionId || reportedRef.current?.playSessionId === playSessionId) return;
+    reportedRef.current = { itemId, playSessionId };
+    reportPlaybackStart(itemId, itemId, playSessionId);
+  };
+
+  const handlePause = (slot: Slot) => {
+    if (slot !== activeSlotRef.current) return;
+    setIsPaused(true);
+
+    const reported = reportedRef.current;
+    const audio = getAudio(slot);
+    if (!reported || !audio || audio.ended) return;
+    reportPlaybackProgress(
+      reported.itemId,
+      reported.itemId,
+      reported.playSessionId,
+      secondsToTicks(audio.currentTime),
+      true
+    );
+  };
+
+  const handleEnded = (slot: Slot) => {
+    if (slot !== activeSlotRef.current) return;
+    const audio = getAudio(slot);
+
+    if (repeatMode === "one" && audio) {
+      audio.currentTime = 0;
+      audio.play().catch((error) => {
+        console.warn("Failed to repeat track:", error);
+      });
+      return;
+    }
+
+    reportStopped();
+    const other: Slot = slot === 0 ? 1 : 0;
+    if (nextTrack && slotsRef.current[other].queueId === nextTrack.queueId) {
+      // Start the buffered track right away; the queue catches up below
+      switchTo(other);
+      getAudio(other)?.play().catch((error) => {
+        console.warn("Failed to start next track:", error);
+      });
+    }
+
+    if (!advance(1)) setIsPaused(true);
+  };
+
+  const handleTimeUpdate = (slot: Slot) => {
+    if (slot !== activeSlotRef.current) return;
+    setCurrentTime(getAudio(slot)?.currentTime ?? 0);
+  };
+
+  const handleDurationChange = (slot: Slot) => {
+    if (slot !== activeSlotRef.current) return;
+    const audio = getAudio(slot);
+    setDuration(audio && Number.isFinite(audio.duration) ? audio.duration : 0);
+  };
+
+  const togglePlay = () => {
+    const audio = getAudio(activeSlotRef.current);
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch((error) => {
+        console.warn("Failed to resume playback:", error);
+      });
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seekTo = (seconds: number) => {
+    const audio = getAudio(activeSlotRef.current);
+    if (!audio) return;
+    audio.currentTime = Math.max(0, Math.min(seconds, duration || seconds));
+    setCurrentTime(audio.currentTime);
+  };
+
+  const handlePrevious = () => {
+    if (currentTime > RESTART_THRESHOLD_SECONDS || !advance(-1)) {
+      seekTo(0);
+    }
+  };
+
+  const handleInstantMix = async () => {
+    if (!currentTrack) return;
+    setLoadingMix(true);
+    try {
+      const count = await queueMusic({ Id: currentTrack.id, Type: "Audio" }, "instantMix");
+      if (count === 0) {
+        toast.error("No instant mix available for this track");
+        return;
+      }
+      toast.success(`Instant mix from ${currentTrack.name}`);
+    } catch (error) {
+      console.error("Failed to start instant mix:", error);
+      toast.error("Failed to start instant mix");
+    } finally {
+      setLoadingMix(false);
+    }
+  };
+
+  const audioElements = ([0, 1] as Slot[]).map((slot) => (
+    <audio
+      key={slot}
+      ref={slot === 0 ? audioARef : audioBRef}
+      preload="auto"
+      onPlay={() => handlePlay(slot)}
+      onPause={() => handlePause(slot)}
+      onEnded={() => handleEnded(slot)}
+      onTimeUpdate={() => handleTimeUpdate(slot)}
+      onDurationChange={() => handleDurationChange(slot)}
+    />
+  ));
+
+  if (!currentTrack) return <>{audioElements}</>;
+
+  const artworkId = currentTrack.albumId ?? currentTrack.id;
+  const RepeatIcon = repeatMode === "one" ? Repeat1 : Repeat;
+
+  return (
+    <>
+      {audioElements}
+
+      {showLyrics && (
+        <LyricsPanel
+          itemId={currentTrack.id}
+          currentTime={currentTime}
+          onSeek={seekTo}
+          onClose={() => setShowLyrics(false)}
+        />
+      )}
+
+      <div className="fixed inset-x-0 bottom-0 z-50 flex h-20 items-center gap-4 border-t bg-background/95 px-4 backdrop-blur">
+        <div className="flex min-w-0 flex-1 items-center gap-3">
+          <div className="relative size-12 shrink-0 overflow-hidden rounded-md bg-muted">
+            <Music className="absolute inset-0 m-auto h-5 w-5 text-muted-foreground" />
+            {serverUrl && (
+              <img
+                key={artworkId}
+                src={`${serverUrl}/Items/${artworkId}/Images/Primary?maxHeight=96&maxWidth=96&quality=90`}
+                alt=""
+                className="relative size-full object-cover"
+                onError={(event) => {
+                  event.currentTarget.style.display = "none";
+                }}
+              />
+            )}
+          </div>
+          <div className="min-w-0">
+            <div className="truncate text-sm font-medium">{currentTrack.name}</div>
+            <div className="truncate text-xs text-muted-foreground">
+              {currentTrack.artistId ? (
+                <Link href={`/artist/${currentTrack.artistId}`} className="hover:underline">
+                  {currentTrack.artists?.join(", ")}
+                </Link>
+              ) : (
+                currentTrack.artists?.join(", ")
+              )}
+              {currentTrack.album && currentTrack.albumId && (
+                <>
+                  {" • "}
+                  <Link href={`/album/${currentTrack.albumId}`} className="hover:underline">
+                    {currentTrack.album}
+                  </Link>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex w-full max-w-xl flex-col items-center gap-1">
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-8"
+              onClick={handlePrevious}
+              aria-label="Previous"
+            >
+              <SkipBack className="h-4 w-4" />
+            </Button>
+            <Button
+              size="icon"
+              className="size-9 rounded-full"
+              onClick={togglePlay}
+              aria-label={isPaused ? "Play" : "Pause"}
+            >
+              {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-8"
+              onClick={() => advance(1)}
+              disabled={!nextTrack}
+              aria-label="Next"
+            >
+              <SkipForward className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className={`size-8 ${repeatMode !== "off" ? "text-primary" : ""}`}
+              onClick={cycleRepeatMode}
+              aria-label={`Repeat: ${repeatMode}`}
+            >
+              <RepeatIcon className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex w-full items-center gap-2 text-xs tabular-nums text-muted-foreground">
+            <span className="w-10 text-right">
+              {formatPlaybackPosition(secondsToTicks(seekingTo ?? currentTime))}
+            </span>
+            <Slider
+              value={[seekingTo ?? currentTime]}
+              max={duration || 1}
+              step={1}
+              disabled={!duration}
+              onValueChange={([value]) => setSeekingTo(value)}
+              onValueCommit={([value]) => {
+                setSeekingTo(null);
+                seekTo(value);
+              }}
+            />
+            <span className="w-10">{formatPlaybackPosition(secondsToTicks(duration))}</span>
+          </div>
+        </div>
+
+        <div className="flex flex-1 items-center justify-end gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className={`size-8 ${showLyrics ? "bg-accent" : ""}`}
+            onClick={() => setShowLyrics((prev) => !prev)}
+            aria-label="Lyrics"
+          >
+            <MicVocal className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-8"
+            onClick={handleInstantMix}
+            disabled={loadingMix}
+            aria-label="Instant mix"
+          >
+            <Radio className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-8"
+            onClick={() => setIsMuted((prev) => !prev)}
+            aria-label={isMuted ? "Unmute" : "Mute"}
+          >
+            {isMuted || volume === 0 ? (
+              <VolumeX className="h-4 w-4" />
+            ) : (
+              <Volume2 className="h-4 w-4" />
+            )}
+          </Button>
+          <Slider
+            className="hidden w-24 md:flex"
+            value={[isMuted ? 0 : volume * 100]}
+            max={100}
+            step={1}
+            onValueChange={([value]) => {
+              setVolume(value / 100);
+              setIsMuted(false);
+            }}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-8"
+            onClick={clearQueue}
+            aria-label="Close player"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { BaseItemDto } from "@jellyfin/sdk/lib/generated-client/models";
+import { Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import { MediaCard } from "@/components/media-card";
+import { removeFromCollection } from "@/app/actions";
+
+interface CollectionItemsProps {
+  collectionId: string;
+  items: BaseItemDto[];
+  serverUrl: string;
+  canEdit: boolean;
+}
+
+export function CollectionItems({ collectionId, items, serverUrl, canEdit }: CollectionItemsProps) {
+  const router = useRouter();
+  const [removedIds, setRemovedIds] = useState<string[]>([]);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const visibleItems = items.filter((item) => !removedIds.includes(item.Id!));
+
+  const handleRemove = async (item: BaseItemDto) => {
+    setRemovingId(item.Id!);
+    try {
+      await removeFromCollection(collectionId, [item.Id!]);
+      setRemovedIds((prev) => [...prev, item.Id!]);
+      toast.success(`Removed "${item.Name}" from the collection`);
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to remove from collection:", error);
+      toast.error("Failed to remove from collection");
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  if (visibleItems.length === 0) {
+    return <p className="text-muted-foreground">This collection is empty.</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-4">
+      {visibleItems.map((item) => (
+        <div key={item.Id} className="group/collection relative">
+          <MediaCard item={item} serverUrl={serverUrl} />
+          {canEdit && (
+            <button
+              className="absolute top-2 left-2 z-10 rounded-full bg-black/50 p-1.5 opacity-0 backdrop-blur-sm transition-opacity hover:bg-black/70 group-hover/collection:opacity-100 disabled:opacity-100 cursor-pointer"
+              onClick={() => handleRemove(item)}
+              disabled={removingId !== null}
+              aria-label={`Remove ${item.Name} from collection`}
+              title="Remove from collection"
+            >
+              {removingId === item.Id ? (
+                <Loader2 className="h-4 w-4 animate-spin text-white" />
+              ) : (
+                <X className="h-4 w-4 text-white" />
+              )}
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
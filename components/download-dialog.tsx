@@ -0,0 +1,114 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import Link from "next/link";
+import { BaseItemDto } from "@jellyfin/sdk/lib/generated-client/models";
+import { BITRATE_OPTIONS } from "@/contexts/settings-context";
+import { useOfflineDownloads } from "@/hooks/useOfflineDownloads";
+import type { DownloadQuality } from "@/lib/atoms";
+import { formatBytes } from "@/lib/utils";
+
+interface DownloadDialogProps {
+  item: BaseItemDto;
+  serverUrl: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Pick the original file or a smaller transcode to keep for offline viewing
+export function DownloadDialog({
+  item,
+  serverUrl,
+  open,
+  onOpenChange,
+}: DownloadDialogProps) {
+  const { queueDownload } = useOfflineDownloads();
+  const [pendingQuality, setPendingQuality] = useState<DownloadQuality | null>(null);
+
+  const originalSize = item.MediaSources?.[0]?.Size;
+  const options: { quality: DownloadQuality; label: string; description: string }[] = [
+    {
+      quality: "original",
+      label: "Original file",
+      description: originalSize
+        ? `${formatBytes(originalSize)}, as stored on the server`
+        : "As stored on the server",
+    },
+    ...BITRATE_OPTIONS.filter((option) => option.bitrate > 0).map((option) => ({
+      quality: option.bitrate,
+      label: option.label,
+      description: item.RunTimeTicks
+        ? `About ${formatBytes((option.bitrate / 8) * (item.RunTimeTicks / 10000000), 1)}, converted to MP4`
+        : "Converted to MP4",
+    })),
+  ];
+
+  const handleDownload = async (quality: DownloadQuality) => {
+    setPendingQuality(quality);
+    try {
+      const queued = await queueDownload(item, quality, serverUrl);
+      if (queued) {
+        toast.success(`"${item.Name}" added to downloads`);
+      } else {
+        toast.info(`"${item.Name}" is already in your downloads`);
+      }
+      onOpenChange(false);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to start download");
+    } finally {
+      setPendingQuality(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Download</DialogTitle>
+          <DialogDescription className="truncate">
+            Keep {item.Name} in this browser to watch offline
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          {options.map((option) => (
+            <button
+              key={String(option.quality)}
+              className="flex w-full items-center gap-3 rounded-md px-3 py-2 text-left transition-colors hover:bg-accent disabled:opacity-50 cursor-pointer"
+              onClick={() => handleDownload(option.quality)}
+              disabled={pendingQuality !== null}
+            >
+              <Download className="h-5 w-5 shrink-0 text-muted-foreground" />
+              <div className="flex-1 min-w-0">
+                <div className="truncate text-sm font-medium">{option.label}</div>
+                <div className="truncate text-xs text-muted-foreground">
+                  {option.description}
+                </div>
+              </div>
+              {pendingQuality === option.quality && (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              )}
+            </button>
+          ))}
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Downloads are listed on the{" "}
+          <Link href="/downloads" className="underline" onClick={() => onOpenChange(false)}>
+            Downloads
+          </Link>{" "}
+          page.
+        </p>
+      </DialogContent>
+    </Dialog>
+  );
+}
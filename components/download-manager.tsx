@@ -0,0 +1,9 @@
+"use client";
+
+import { useDownloadManager } from "@/hooks/useOfflineDownloads";
+
+// Runs the download queue for layouts that don't mount LayoutContent
+export function DownloadManager() {
+  useDownloadManager();
+  return null;
+}
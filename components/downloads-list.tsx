@@ -0,0 +1,225 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  CheckCircle2,
+  Download,
+  Film,
+  Pause,
+  Play,
+  RotateCw,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { OfflinePlayerDialog } from "@/components/offline-player-dialog";
+import { useOfflineDownloads } from "@/hooks/useOfflineDownloads";
+import type { OfflineDownload } from "@/lib/atoms";
+import { getDownloadedPoster, isOfflineStorageSupported } from "@/lib/offline-storage";
+import { BITRATE_OPTIONS } from "@/contexts/settings-context";
+import { formatBytes, formatRuntime } from "@/lib/utils";
+
+const STATUS_LABELS: Record<OfflineDownload["status"], string> = {
+  queued: "Waiting",
+  downloading: "Downloading",
+  paused: "Paused",
+  completed: "Downloaded",
+  failed: "Failed",
+};
+
+const qualityLabel = (download: OfflineDownload) =>
+  download.quality === "original"
+    ? "Original"
+    : BITRATE_OPTIONS.find((option) => option.bitrate === download.quality)?.label ??
+      `${Math.round(download.quality / 1000000)} Mbps`;
+
+// Everything saved in this browser, with playback that works without the server
+export function DownloadsList() {
+  const { downloads, pauseDownload, resumeDownload, removeDownload } = useOfflineDownloads();
+  const [playing, setPlaying] = useState<OfflineDownload | null>(null);
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+  const [supported, setSupported] = useState(true);
+
+  const completedCount = downloads.filter((download) => download.status === "completed").length;
+
+  useEffect(() => {
+    setSupported(isOfflineStorageSupported());
+    navigator.storage
+      ?.estimate?.()
+      .then(({ usage = 0, quota = 0 }) => setUsage({ usage, quota }))
+      .catch(() => setUsage(null));
+  }, [completedCount]);
+
+  if (!supported) {
+    return (
+      <p className="py-12 text-center text-muted-foreground">
+        This browser can&apos;t store downloads.
+      </p>
+    );
+  }
+
+  const sortedDownloads = [...downloads].sort((a, b) => b.addedAt - a.addedAt);
+
+  return (
+    <div className="space-y-4">
+      {usage && usage.quota > 0 && (
+        <div className="max-w-sm space-y-1">
+          <Progress value={(usage.usage / usage.quota) * 100} className="h-1.5" />
+          <p className="text-xs text-muted-foreground">
+            {formatBytes(usage.usage, 1)} of {formatBytes(usage.quota, 1)} used in this browser
+          </p>
+        </div>
+      )}
+
+      {sortedDownloads.length === 0 ? (
+        <div className="flex flex-col items-center gap-2 py-12 text-center text-muted-foreground">
+          <Download className="h-8 w-8" />
+          <p>Nothing downloaded yet.</p>
+          <p className="text-sm">Use Download in a movie or episode&apos;s menu to keep it for offline viewing.</p>
+        </div>
+      ) : (
+        <div className="divide-y rounded-md border bg-background/60">
+          {sortedDownloads.map((download) => (
+            <DownloadRow
+              key={download.id}
+              download={download}
+              onPlay={() => setPlaying(download)}
+              onPause={() => pauseDownload(download.id)}
+              onResume={() => resumeDownload(download.id)}
+              onRemove={() => removeDownload(download.id)}
+            />
+          ))}
+        </div>
+      )}
+
+      <OfflinePlayerDialog download={playing} onClose={() => setPlaying(null)} />
+    </div>
+  );
+}
+
+function DownloadRow({
+  download,
+  onPlay,
+  onPause,
+  onResume,
+  onRemove,
+}: {
+  download: OfflineDownload;
+  onPlay: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onRemove: () => void;
+}) {
+  const [posterUrl, setPosterUrl] = useState<string | null>(null);
+  const isCompleted = download.status === "completed";
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    getDownloadedPoster(download.id).then((poster) => {
+      if (!poster || cancelled) return;
+      objectUrl = URL.createObjectURL(poster);
+      setPosterUrl(objectUrl);
+    });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [download.id, isCompleted]);
+
+  const progress = download.totalBytes
+    ? (download.bytesDownloaded / download.totalBytes) * 100
+    : null;
+  const watchedProgress =
+    download.positionTicks && download.runTimeTicks
+      ? (download.positionTicks / download.runTimeTicks) * 100
+      : 0;
+
+  return (
+    <div className="flex items-center gap-4 px-4 py-3">
+      <button
+        className="relative h-20 w-14 shrink-0 overflow-hidden rounded bg-muted disabled:cursor-default cursor-pointer"
+        onClick={onPlay}
+        disabled={!isCompleted}
+        aria-label={`Play ${download.name}`}
+      >
+        {posterUrl ? (
+          <img src={posterUrl} alt="" className="size-full object-cover" />
+        ) : (
+          <Film className="absolute inset-0 m-auto h-5 w-5 text-muted-foreground" />
+        )}
+      </button>
+
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="truncate font-medium">{download.name}</div>
+        <div className="truncate text-sm text-muted-foreground">
+          {[
+            download.seriesName,
+            qualityLabel(download),
+            download.runTimeTicks && formatRuntime(download.runTimeTicks),
+          ]
+            .filter(Boolean)
+            .join(" • ")}
+        </div>
+
+        {isCompleted ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />
+            {formatBytes(download.bytesDownloaded, 1)}
+            {download.played
+              ? " • Watched"
+              : watchedProgress > 0 && (
+                  <Progress value={watchedProgress} className="h-1 w-24" />
+                )}
+          </div>
+        ) : (
+          <div className="max-w-md space-y-1">
+            {progress !== null && download.status !== "failed" && (
+              <Progress value={progress} className="h-1.5" />
+            )}
+            <div className="text-xs text-muted-foreground">
+              {STATUS_LABELS[download.status]}
+              {download.bytesDownloaded > 0 &&
+                ` • ${formatBytes(download.bytesDownloaded, 1)}${
+                  download.totalBytes ? ` of ${formatBytes(download.totalBytes, 1)}` : ""
+                }`}
+              {download.error && ` • ${download.error}`}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex shrink-0 items-center gap-1">
+        {isCompleted && (
+          <Button variant="ghost" size="icon" onClick={onPlay} aria-label="Play">
+            <Play className="h-4 w-4" />
+          </Button>
+        )}
+        {(download.status === "downloading" || download.status === "queued") && (
+          <Button variant="ghost" size="icon" onClick={onPause} aria-label="Pause download">
+            <Pause className="h-4 w-4" />
+          </Button>
+        )}
+        {(download.status === "paused" || download.status === "failed") && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onResume}
+            aria-label={download.status === "failed" ? "Retry download" : "Resume download"}
+          >
+            {download.status === "failed" ? (
+              <RotateCw className="h-4 w-4" />
+            ) : (
+              <Download className="h-4 w-4" />
+            )}
+          </Button>
+        )}
+        <Button variant="ghost" size="icon" onClick={onRemove} aria-label="Remove download">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
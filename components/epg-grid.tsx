@@ -0,0 +1,428 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { BaseItemDto } from "@jellyfin/sdk/lib/generated-client/models";
+import { ChevronLeft, ChevronRight, Circle, Disc, Loader2, Play } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useMediaPlayer } from "@/contexts/MediaPlayerContext";
+import {
+  cancelRecording,
+  cancelSeriesRecording,
+  fetchGuidePrograms,
+  scheduleRecording,
+  scheduleSeriesRecording,
+} from "@/app/actions";
+
+const CHANNEL_COLUMN_WIDTH = 176;
+const ROW_HEIGHT = 64;
+const PX_PER_MINUTE = 4;
+const WINDOW_HOURS = 6;
+const SLOT_MINUTES = 30;
+
+const MINUTE_MS = 60 * 1000;
+const SLOT_MS = SLOT_MINUTES * MINUTE_MS;
+const WINDOW_MS = WINDOW_HOURS * 60 * MINUTE_MS;
+
+const formatClock = (date: Date) =>
+  date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+// Start of the half hour we're in, so the grid lines up with the time axis
+const currentSlotStart = () => Math.floor(Date.now() / SLOT_MS) * SLOT_MS;
+
+interface EpgGridProps {
+  channels: BaseItemDto[];
+  serverUrl: string;
+}
+
+// Channels down the side, time across the top; only the rows in view are rendered
+// and their programs are fetched as they scroll in
+export function EpgGrid({ channels, serverUrl }: EpgGridProps) {
+  const { playMedia } = useMediaPlayer();
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [windowStart, setWindowStart] = useState(currentSlotStart);
+  const [now, setNow] = useState(() => Date.now());
+  const [programsByChannel, setProgramsByChannel] = useState<
+    Record<string, BaseItemDto[]>
+  >({});
+  // Channels already requested for the current window
+  const requestedRef = useRef<Set<string>>(new Set());
+  const windowStartRef = useRef(windowStart);
+
+  const windowEnd = windowStart + WINDOW_MS;
+  const gridWidth = (WINDOW_MS / MINUTE_MS) * PX_PER_MINUTE;
+
+  const rowVirtualizer = useVirtualizer({
+    count: channels.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    overscan: 6,
+  });
+  const virtualRows = rowVirtualizer.getVirtualItems();
+  const firstIndex = virtualRows[0]?.index ?? 0;
+  const lastIndex = virtualRows[virtualRows.length - 1]?.index ?? -1;
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), MINUTE_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // A new window invalidates everything we've loaded
+  useEffect(() => {
+    windowStartRef.current = windowStart;
+    requestedRef.current = new Set();
+    setProgramsByChannel({});
+  }, [windowStart]);
+
+  const loadPrograms = useCallback(
+    async (channelIds: string[]) => {
+      channelIds.forEach((id) => requestedRef.current.add(id));
+
+      const programs = await fetchGuidePrograms(
+        channelIds,
+        new Date(windowStart).toISOString(),
+        new Date(windowEnd).toISOString()
+      );
+      // The user moved on to another window while this was loading
+      if (windowStartRef.current !== windowStart) return;
+
+      const grouped: Record<string, BaseItemDto[]> = {};
+      channelIds.forEach((id) => (grouped[id] = []));
+      programs.forEach((program) => {
+        if (program.ChannelId && grouped[program.ChannelId]) {
+          grouped[program.ChannelId].push(program);
+        }
+      });
+      setProgramsByChannel((prev) => ({ ...prev, ...grouped }));
+    },
+    [windowStart, windowEnd]
+  );
+
+  useEffect(() => {
+    const missing = channels
+      .slice(firstIndex, lastIndex + 1)
+      .map((channel) => channel.Id!)
+      .filter((id) => !requestedRef.current.has(id));
+
+    if (missing.length > 0) {
+      loadPrograms(missing);
+    }
+  }, [channels, firstIndex, lastIndex, loadPrograms]);
+
+  const reloadChannel = (channelId: string) => {
+    loadPrograms([channelId]);
+  };
+
+  const slots = useMemo(
+    () =>
+      Array.from(
+        { length: WINDOW_MS / SLOT_MS },
+        (_, index) => new Date(windowStart + index * SLOT_MS)
+      ),
+    [windowStart]
+  );
+
+  const nowOffset =
+    now >= windowStart && now < windowEnd
+      ? ((now - windowStart) / MINUTE_MS) * PX_PER_MINUTE
+      : null;
+
+  const shiftWindow = (direction: 1 | -1) => {
+    setWindowStart((start) => start + direction * WINDOW_MS);
+    scrollRef.current?.scrollTo({ left: 0 });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="icon" onClick={() => shiftWindow(-1)} aria-label="Earlier">
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" onClick={() => setWindowStart(currentSlotStart())}>
+          Now
+        </Button>
+        <Button variant="outline" size="icon" onClick={() => shiftWindow(1)} aria-label="Later">
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <span className="ml-2 text-sm text-muted-foreground">
+          {new Date(windowStart).toLocaleDateString([], {
+            weekday: "long",
+            month: "short",
+            day: "numeric",
+          })}
+        </span>
+      </div>
+
+      <div
+        ref={scrollRef}
+        className="relative h-[70vh] overflow-auto rounded-md border bg-background/60"
+      >
+        <div style={{ width: CHANNEL_COLUMN_WIDTH + gridWidth }}>
+          {/* Time axis */}
+          <div className="sticky top-0 z-20 flex h-8 border-b bg-background">
+            <div
+              className="sticky left-0 z-10 shrink-0 border-r bg-background"
+              style={{ width: CHANNEL_COLUMN_WIDTH }}
+            />
+            {slots.map((slot) => (
+              <div
+                key={slot.getTime()}
+                className="shrink-0 border-l px-2 text-xs leading-8 text-muted-foreground"
+                style={{ width: SLOT_MINUTES * PX_PER_MINUTE }}
+              >
+                {formatClock(slot)}
+              </div>
+            ))}
+          </div>
+
+          <div className="relative" style={{ height: rowVirtualizer.getTotalSize() }}>
+            {virtualRows.map((row) => {
+              const channel = channels[row.index];
+              const programs = programsByChannel[channel.Id!];
+
+              return (
+                <div
+                  key={channel.Id}
+                  className="absolute left-0 flex w-full border-b"
+                  style={{ height: row.size, transform: `translateY(${row.start}px)` }}
+                >
+                  <button
+                    className="sticky left-0 z-10 flex shrink-0 items-center gap-2 border-r bg-background px-3 text-left hover:bg-accent cursor-pointer"
+                    style={{ width: CHANNEL_COLUMN_WIDTH }}
+                    onClick={() =>
+                      playMedia({ id: channel.Id!, name: channel.Name || "", type: "TvChannel" })
+                    }
+                    title={`Watch ${channel.Name}`}
+                  >
+                    {channel.ImageTags?.Primary ? (
+                      <img
+                        src={`${serverUrl}/Items/${channel.Id}/Images/Primary?maxHeight=80&quality=90`}
+                        alt=""
+                        className="h-8 w-12 shrink-0 object-contain"
+                        loading="lazy"
+                      />
+                    ) : (
+                      <span className="w-12 shrink-0 text-center font-mono text-xs text-muted-foreground">
+                        {channel.ChannelNumber}
+                      </span>
+                    )}
+                    <span className="truncate text-sm font-medium">{channel.Name}</span>
+                  </button>
+
+                  <div className="relative flex-1">
+                    {programs === undefined ? (
+                      <div className="absolute inset-1 animate-pulse rounded bg-muted/50" />
+                    ) : programs.length === 0 ? (
+                      <div className="absolute inset-1 flex items-center px-3 text-xs text-muted-foreground">
+                        No guide data
+                      </div>
+                    ) : (
+                      programs.map((program) => (
+                        <ProgramCell
+                          key={program.Id}
+                          program={program}
+                          channel={channel}
+                          windowStart={windowStart}
+                          windowEnd={windowEnd}
+                          now={now}
+                          onChanged={() => reloadChannel(channel.Id!)}
+                        />
+                      ))
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+
+            {nowOffset !== null && (
+              <div
+                className="pointer-events-none absolute top-0 bottom-0 z-[5] w-0.5 bg-red-500"
+                style={{ left: CHANNEL_COLUMN_WIDTH + nowOffset }}
+              />
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ProgramCell({
+  program,
+  channel,
+  windowStart,
+  windowEnd,
+  now,
+  onChanged,
+}: {
+  program: BaseItemDto;
+  channel: BaseItemDto;
+  windowStart: number;
+  windowEnd: number;
+  now: number;
+  onChanged: () => void;
+}) {
+  const { playMedia } = useMediaPlayer();
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  const start = Date.parse(program.StartDate ?? "");
+  const end = Date.parse(program.EndDate ?? "");
+  if (Number.isNaN(start) || Number.isNaN(end)) return null;
+
+  const left = ((Math.max(start, windowStart) - windowStart) / MINUTE_MS) * PX_PER_MINUTE;
+  const width =
+    ((Math.min(end, windowEnd) - Math.max(start, windowStart)) / MINUTE_MS) * PX_PER_MINUTE;
+  if (width <= 0) return null;
+
+  const isAiring = start <= now && now < end;
+  const isRecording = Boolean(program.TimerId);
+  const isSeriesRecording = Boolean(program.SeriesTimerId);
+
+  const runAction = async (
+    action: string,
+    task: () => Promise<void>,
+    successMessage: string
+  ) => {
+    setPendingAction(action);
+    try {
+      await task();
+      toast.success(successMessage);
+      onChanged();
+    } catch (error: any) {
+      toast.error(error.message || "Something went wrong");
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={`absolute top-1 bottom-1 overflow-hidden rounded border px-2 py-1 text-left transition-colors cursor-pointer ${
+            isAiring ? "bg-primary/15 hover:bg-primary/25" : "bg-muted/60 hover:bg-muted"
+          }`}
+          style={{ left: left + 1, width: width - 2 }}
+        >
+          <div className="flex items-center gap-1 truncate text-sm font-medium">
+            {(isRecording || isSeriesRecording) && (
+              <Circle className="h-2.5 w-2.5 shrink-0 fill-red-500 text-red-500" />
+            )}
+            <span className="truncate">{program.Name}</span>
+          </div>
+          <div className="truncate text-xs text-muted-foreground">
+            {formatClock(new Date(start))} – {formatClock(new Date(end))}
+          </div>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="start">
+        <div className="space-y-3">
+          <div>
+            <div className="font-semibold">{program.Name}</div>
+            {program.EpisodeTitle && (
+              <div className="text-sm">{program.EpisodeTitle}</div>
+            )}
+            <div className="text-xs text-muted-foreground">
+              {channel.Name} • {formatClock(new Date(start))} – {formatClock(new Date(end))}
+            </div>
+          </div>
+          {program.Overview && (
+            <p className="line-clamp-4 text-sm text-muted-foreground">{program.Overview}</p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {isAiring && (
+              <Button
+                size="sm"
+                onClick={() =>
+                  playMedia({ id: channel.Id!, name: channel.Name || "", type: "TvChannel" })
+                }
+              >
+                <Play className="h-4 w-4" />
+                Watch
+              </Button>
+            )}
+            {end > now &&
+              (isRecording ? (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={pendingAction !== null}
+                  onClick={() =>
+                    runAction(
+                      "record",
+                      () => cancelRecording(program.TimerId!),
+                      "Recording cancelled"
+                    )
+                  }
+                >
+                  {pendingAction === "record" && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Cancel recording
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={pendingAction !== null}
+                  onClick={() =>
+                    runAction(
+                      "record",
+                      () => scheduleRecording(program.Id!),
+                      "Recording scheduled"
+                    )
+                  }
+                >
+                  {pendingAction === "record" ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Circle className="h-4 w-4 fill-red-500 text-red-500" />
+                  )}
+                  Record
+                </Button>
+              ))}
+            {program.IsSeries &&
+              (isSeriesRecording ? (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={pendingAction !== null}
+                  onClick={() =>
+                    runAction(
+                      "series",
+                      () => cancelSeriesRecording(program.SeriesTimerId!),
+                      "Series recording cancelled"
+                    )
+                  }
+                >
+                  {pendingAction === "series" && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Cancel series
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={pendingAction !== null}
+                  onClick={() =>
+                    runAction(
+                      "series",
+                      () => scheduleSeriesRecording(program.Id!),
+                      "Series recording scheduled"
+                    )
+                  }
+                >
+                  {pendingAction === "series" ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Disc className="h-4 w-4" />
+                  )}
+                  Record series
+                </Button>
+              ))}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Heart } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { setItemFavorite } from "@/app/actions/playback";
+import { cn } from "@/lib/utils";
+
+interface FavoriteButtonProps {
+  itemId: string;
+  isFavorite?: boolean;
+  className?: string;
+}
+
+export function FavoriteButton({ itemId, isFavorite = false, className }: FavoriteButtonProps) {
+  const [favorite, setFavorite] = useState(isFavorite);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setFavorite(isFavorite);
+  }, [isFavorite]);
+
+  const handleToggle = async () => {
+    const next = !favorite;
+    setFavorite(next);
+    setSaving(true);
+    try {
+      await setItemFavorite(itemId, next);
+      toast.success(next ? "Added to favourites" : "Removed from favourites");
+    } catch (error) {
+      setFavorite(!next);
+      toast.error("Failed to update favourites");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size="icon"
+      className={className}
+      onClick={handleToggle}
+      disabled={saving}
+      aria-pressed={favorite}
+      title={favorite ? "Remove from favourites" : "Add to favourites"}
+    >
+      <Heart className={cn("h-4 w-4", favorite && "fill-red-500 text-red-500")} />
+    </Button>
+  );
+}
@@ -1,7 +1,9 @@
 "use client";
 
 import React, { useState, useEffect, useRef, useCallback } from "react";
+import { createPortal } from "react-dom";
 import { useRouter } from "next/navigation";
+import { useAtom } from "jotai";
 import {
     JellyfinItem,
     MediaSourceInfo,
@@ -29,8 +31,9 @@ import {
     MediaPlayerPreviousEpisode,
     MediaPlayerEpisodeSelector,
     CustomSubtitleTrack,
+    MediaPlayerSeekThumbnail,
+    StreamQuality,
 } from "@/components/ui/media-player";
-import MuxVideo from "@mux/mux-video-react";
 import {
     ArrowLeft,
     RotateCcw,
@@ -38,38 +41,80 @@ import {
     Users,
     Ship,
     FastForward,
+    Activity,
+    ListVideo,
+    Minimize2,
+    UsersRound,
 } from "lucide-react";
-import { useMediaPlayer } from "@/contexts/MediaPlayerContext";
+import { useMediaPlayer, usePlayQueue } from "@/contexts/MediaPlayerContext";
+import { isSyncPlayPanelOpenAtom, remotePlayerCommandAtom } from "@/lib/atoms";
 import {
     getPlaybackUrl,
+    getLiveStreamUrl,
+    closeLiveStream,
+    stopTranscoding,
     getSubtitleTracks,
+    getTrickplayManifest,
     fetchMediaDetails,
+    getImageUrl,
     reportPlaybackStart,
     reportPlaybackProgress,
     reportPlaybackStopped,
 } from "@/app/actions";
+import type { TrickplayManifest } from "@/app/actions";
 import { getSubtitleContent } from "@/app/actions/subtitles";
+import type { SubtitleEntry } from "@/app/actions/subtitles";
 import HlsVideoElement from "hls-video-element/react";
-import { formatRuntime } from "@/lib/utils";
+import { formatEnumLabel, formatRuntime } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
 import {
     Popover,
     PopoverContent,
     PopoverTrigger,
 } from "@/components/ui/popover";
 import { ProgressiveBlur } from "@/components/motion-primitives/progressive-blur";
+import { PlaybackStatsOverlay } from "@/components/playback-stats-overlay";
+import { PlayQueuePanel } from "@/components/play-queue-panel";
+import { MiniPlayerControls } from "@/components/mini-player-controls";
+import { SubtitleOverlay } from "@/components/subtitle-overlay";
+import { SubtitleManagerDialog } from "@/components/subtitle-manager-dialog";
+import { UpNextCard, UpNextItem } from "@/components/up-next-card";
 import { useAuth } from "@/hooks/useAuth";
-import { useSettings, BITRATE_OPTIONS } from "@/contexts/settings-context";
+import { useAdaptiveBitrate } from "@/hooks/useAdaptiveBitrate";
+import { usePlaybackEngine } from "@/hooks/usePlaybackEngine";
+import { useAssRenderer } from "@/hooks/useAssRenderer";
+import { useMediaSession } from "@/hooks/useMediaSession";
+import { usePictureInPicture } from "@/hooks/usePictureInPicture";
+import { useSyncPlay } from "@/hooks/useSyncPlay";
+import {
+    useSettings,
+    BITRATE_OPTIONS,
+    SEGMENT_TYPES,
+    SkippableSegmentType,
+} from "@/contexts/settings-context";
+import { toast } from "sonner";
 import {
     detectDevice,
     getDeviceName,
     isHLSSupported,
-    canDirectPlay,
-    getOptimalStreamingParams,
 } from "@/lib/device-detection";
-import { fetchIntroOutro } from "@/app/actions/media";
+import { buildDeviceProfile } from "@/lib/device-profile";
+import {
+    GeneralCommandType,
+    PlayMethod,
+    PlaystateCommand,
+} from "@jellyfin/sdk/lib/generated-client/models";
+import { fetchMediaSegments } from "@/app/actions/media";
 import { getNextEpisode, getPreviousEpisode, fetchEpisodesForCurrentSeason } from "@/app/actions";
 import { decode } from "blurhash";
 
+// Length of the "Up next" countdown, shortened when less time is left
+const UP_NEXT_COUNTDOWN_SECONDS = 10;
+
+// Steps for rewind/fast-forward and volume up/down sent by remote controllers
+const REMOTE_SEEK_STEP_SECONDS = 10;
+const REMOTE_VOLUME_STEP = 0.1;
+
 interface GlobalMediaPlayerProps {
     onToggleAIAsk?: () => void;
 }
@@ -79,14 +124,33 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
     const {
         isPlayerVisible,
         setIsPlayerVisible,
+        isPlayerMinimized,
+        setIsPlayerMinimized,
         currentMedia,
         skipTimestamp,
         setCurrentMediaWithSource,
         setCurrentTimestamp,
         playMedia,
     } = useMediaPlayer();
-    const { videoBitrate, preferredAudioLanguage, preferredSubtitleLanguage } =
-        useSettings();
+    const {
+        queue,
+        queueIndex,
+        hasNext: hasQueueNext,
+        hasPrevious: hasQueuePrevious,
+        repeatMode,
+        advanceQueue,
+        playQueueIndex,
+        clearQueue,
+    } = usePlayQueue();
+    const {
+        videoBitrate,
+        preferredAudioLanguage,
+        preferredSubtitleLanguage,
+        autoPlayNextEpisode,
+        upNextSeconds,
+        stillWatchingEpisodes,
+        segmentSkipPolicies,
+    } = useSettings();
 
     const [streamUrl, setStreamUrl] = useState<string | null>(null);
     const [mediaDetails, setMediaDetails] = useState<JellyfinItem | null>(null);
@@ -101,18 +165,11 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
     // Backdrop image state
     const [backdropImageLoaded, setBackdropImageLoaded] = useState(false);
     const [blurDataUrl, setBlurDataUrl] = useState<string | null>(null);
+    const [artworkUrl, setArtworkUrl] = useState<string | null>(null);
 
-    const [currentSubtitle, setCurrentSubtitle] = useState<{
-        text: string;
-        positionTop: boolean;
-    } | null>(null);
-    const [subtitleData, setSubtitleData] = useState<
-        Array<{
-            timestamp: number;
-            timestampFormatted: string;
-            text: string;
-        }>
-    >([]);
+    const [subtitleData, setSubtitleData] = useState<SubtitleEntry[]>([]);
+    // Seconds added to subtitle cues for this item; positive shows them later
+    const [subtitleOffset, setSubtitleOffset] = useState(0);
     const [preferredSubtitleToLoad, setPreferredSubtitleToLoad] =
         useState<CustomSubtitleTrack | null>(null);
 
@@ -125,16 +182,63 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
         }>
     >([]);
 
-    // Intro/Outro segments state
+    // Seek bar preview state: trickplay sprites, with chapter images as fallback
+    const [trickplay, setTrickplay] = useState<TrickplayManifest | null>(null);
+    // Which item and source the pending trickplay request is for, so a late answer is dropped
+    const trickplayRequestRef = useRef<string | null>(null);
+    const [chapterThumbnails, setChapterThumbnails] = useState<
+        Array<{
+            startTime: number;
+            src: string;
+        }>
+    >([]);
+
+    // Media segments (intro, recap, credits...) in seconds
     const [mediaSegments, setMediaSegments] = useState<{
-        intro?: { startTime: number; endTime: number };
-        outro?: { startTime: number; endTime: number };
-    }>({});
+        id: string;
+        type: SkippableSegmentType;
+        label: string;
+        startTime: number;
+        endTime: number;
+    }[]>([]);
+    // Segments already auto-skipped (or undone) for this item, so each is skipped once
+    const handledSegmentsRef = useRef<Set<string>>(new Set());
+
+    // Stream quality chosen in the player, seeded from the global bitrate setting
+    const [streamQuality, setStreamQuality] = useState<StreamQuality>({
+        value: videoBitrate,
+        autoBitrate: 0,
+    });
+
+    // How the server decided to deliver the current stream
+    const [playbackDecision, setPlaybackDecision] = useState<{
+        playMethod: PlayMethod;
+        transcodeReasons: string[];
+        liveStreamId?: string;
+    } | null>(null);
+    const [showStats, setShowStats] = useState(false);
+    const [showQueue, setShowQueue] = useState(false);
+    const [showSubtitleManager, setShowSubtitleManager] = useState(false);
+
+    // "Up next" card and auto-play state
+    const [isPaused, setIsPaused] = useState(false);
+    const [upNextDismissed, setUpNextDismissed] = useState(false);
+    const [showStillWatching, setShowStillWatching] = useState(false);
+    // Episodes started automatically since the user last touched the player
+    const autoAdvanceCountRef = useRef(0);
+    // Languages picked in the player this session; null subtitle means turned off
+    const pickedLanguagesRef = useRef<{ audio?: string; subtitle?: string | null }>({});
 
     // Progress tracking state
     const [playSessionId, setPlaySessionId] = useState<string | null>(null);
     const [hasStartedPlayback, setHasStartedPlayback] = useState(false);
     const videoRef = useRef<HTMLVideoElement | null>(null);
+    const {
+        pipWindow,
+        isSupported: isPictureInPictureSupported,
+        enterPictureInPicture,
+        exitPictureInPicture,
+    } = usePictureInPicture(videoRef);
     const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
     const [currentTime, setCurrentTime] = useState(0);
     const [duration, setDuration] = useState(0);
@@ -157,6 +261,7 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
     }, []);
 
     const handleMouseMove = useCallback(() => {
+        autoAdvanceCountRef.current = 0;
         showControls();
     }, [showControls]);
 
@@ -247,25 +352,14 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
         });
     };
 
-    // Start progress tracking
-    const startProgressTracking = useCallback(async () => {
-        if (!currentMedia || !selectedVersion || !videoRef.current) return;
+    // Report progress for the given session every 10 seconds, replacing any earlier interval
+    const startProgressReports = useCallback((sessionId: string, playMethod: PlayMethod) => {
+        if (!currentMedia || !selectedVersion) return;
 
-        // Skip progress tracking for test videos
-        if (currentMedia.id === "test-big-buck-bunny") {
-            console.log("🧪 Skipping progress tracking for test video");
-            setHasStartedPlayback(true);
-            return;
+        if (progressIntervalRef.current) {
+            clearInterval(progressIntervalRef.current);
         }
 
-        const sessionId = crypto.randomUUID();
-        setPlaySessionId(sessionId);
-
-        // Report playback start
-        await reportPlaybackStart(currentMedia.id, selectedVersion.Id!, sessionId);
-        setHasStartedPlayback(true);
-
-        // Set up progress reporting interval (every 10 seconds)
         progressIntervalRef.current = setInterval(async () => {
             if (videoRef.current && !videoRef.current.paused) {
                 const currentTime = videoRef.current.currentTime;
@@ -276,12 +370,35 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
                     selectedVersion.Id!,
                     sessionId,
                     positionTicks,
-                    videoRef.current.paused
+                    videoRef.current.paused,
+                    playMethod
                 );
             }
         }, 10000); // Report every 10 seconds
     }, [currentMedia, selectedVersion]);
 
+    // Start progress tracking
+    const startProgressTracking = useCallback(async () => {
+        if (!currentMedia || !selectedVersion || !videoRef.current) return;
+
+        // Skip progress tracking for test videos
+        if (currentMedia.id === "test-big-buck-bunny") {
+            console.log("🧪 Skipping progress tracking for test video");
+            setHasStartedPlayback(true);
+            return;
+        }
+
+        // Reuse the session from PlaybackInfo so the server can tie reports to the transcode
+        const sessionId = playSessionId ?? crypto.randomUUID();
+        const playMethod = playbackDecision?.playMethod ?? PlayMethod.Transcode;
+        setPlaySessionId(sessionId);
+
+        // Report playback start
+        await reportPlaybackStart(currentMedia.id, selectedVersion.Id!, sessionId, playMethod);
+        setHasStartedPlayback(true);
+        startProgressReports(sessionId, playMethod);
+    }, [currentMedia, selectedVersion, playSessionId, playbackDecision, startProgressReports]);
+
     // Stop progress tracking
     const stopProgressTracking = useCallback(async () => {
         if (progressIntervalRef.current) {
@@ -297,23 +414,38 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
                 currentMedia.id,
                 selectedVersion.Id!,
                 playSessionId,
-                positionTicks
+                positionTicks,
+                playbackDecision?.playMethod
             );
         }
 
         setPlaySessionId(null);
         setHasStartedPlayback(false);
-    }, [playSessionId, currentMedia, selectedVersion]);
+    }, [playSessionId, currentMedia, selectedVersion, playbackDecision]);
+
+    // While in a SyncPlay group, local play/pause/seek go through the group instead
+    const syncPlay = useSyncPlay({
+        videoRef,
+        serverUrl,
+        currentMediaId: currentMedia?.id ?? null,
+        startPositionTicks: currentMedia?.resumePositionTicks,
+        onStop: () => handleClose(),
+    });
+    const [showSyncPlay, setShowSyncPlay] = useAtom(isSyncPlayPanelOpenAtom);
 
     // Handle video events
     const handleVideoPlay = useCallback(() => {
         setVideoStarted(true); // Mark that video has started playing
+        setIsPaused(false);
+        syncPlay.onPlay();
         if (!hasStartedPlayback) {
             startProgressTracking();
         }
-    }, [hasStartedPlayback, startProgressTracking]);
+    }, [hasStartedPlayback, startProgressTracking, syncPlay.onPlay]);
 
     const handleVideoPause = useCallback(async () => {
+        setIsPaused(true);
+        syncPlay.onPause();
         if (playSessionId && currentMedia && selectedVersion && videoRef.current) {
             const currentTime = videoRef.current.currentTime;
             const positionTicks = secondsToTicks(currentTime);
@@ -323,10 +455,11 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
                 selectedVersion.Id!,
                 playSessionId,
                 positionTicks,
-                true // isPaused = true
+                true, // isPaused = true
+                playbackDecision?.playMethod
             );
         }
-    }, [playSessionId, currentMedia, selectedVersion]);
+    }, [playSessionId, currentMedia, selectedVersion, playbackDecision, syncPlay.onPause]);
 
     // Handle video time updates
     const handleTimeUpdate = useCallback(() => {
@@ -385,6 +518,9 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
 
     // Define handleClose first to avoid circular dependency
     const handleClose = useCallback(async () => {
+        // Take the video back from a Picture-in-Picture window before it unmounts
+        exitPictureInPicture();
+
         // Stop progress tracking before closing
         await stopProgressTracking();
 
@@ -398,15 +534,28 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
         }
 
         setIsPlayerVisible(false);
+        setIsPlayerMinimized(false);
         setStreamUrl(null);
         setMediaDetails(null);
         setSelectedVersion(null);
         setSubtitleTracks([]);
+        setSubtitleData([]);
+        setSubtitleOffset(0);
         setCurrentTime(0);
         setDuration(0);
         setFetchingSubtitles(false);
         setCurrentMediaWithSource(null);
-        setMediaSegments({});
+        setMediaSegments([]);
+        setTrickplay(null);
+        trickplayRequestRef.current = null;
+        setPlaybackDecision(null);
+        setShowStats(false);
+        setShowQueue(false);
+        setShowSubtitleManager(false);
+        setShowStillWatching(false);
+        autoAdvanceCountRef.current = 0;
+        pickedLanguagesRef.current = {};
+        clearQueue();
         setVideoStarted(false); // Reset video started state
         setBackdropImageLoaded(false); // Reset backdrop image state
         setBlurDataUrl(null); // Reset blur data URL
@@ -417,32 +566,76 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
         setTimeout(() => {
             router.refresh();
         }, 100);
-    }, [stopProgressTracking, cleanupBlobUrls, router]);
-
-    const updateStreamUrl = async (audioIndex: number) => {
-        if (!currentMedia || !selectedVersion) return;
+    }, [stopProgressTracking, cleanupBlobUrls, exitPictureInPicture, router]);
 
+    // Resolve a quality value to a MaxStreamingBitrate, 0 meaning uncapped
+    const getStreamBitrate = (quality: StreamQuality) => {
+        if (quality.value === "auto") return quality.autoBitrate;
         const bitrateOption = BITRATE_OPTIONS.find(
-            (option) => option.value === videoBitrate
+            (option) => option.value === quality.value
         );
-        const bitrate = bitrateOption?.bitrate || 0;
+        return bitrateOption?.bitrate || 0;
+    };
+
+    // Live channels are opened on a tuner; everything else goes through PlaybackInfo
+    const requestPlayback = (
+        itemId: string,
+        mediaSource: MediaSourceInfo,
+        audioIndex: number | undefined,
+        maxStreamingBitrate: number
+    ) => {
+        const deviceProfile = buildDeviceProfile(maxStreamingBitrate);
+        if (currentMedia?.type === "TvChannel") {
+            return getLiveStreamUrl(itemId, mediaSource, deviceProfile, audioIndex, maxStreamingBitrate);
+        }
+        return getPlaybackUrl(itemId, mediaSource, deviceProfile, audioIndex!, maxStreamingBitrate);
+    };
+
+    // Release the tuner when a live stream is replaced or playback ends
+    const liveStreamId = playbackDecision?.liveStreamId;
+    useEffect(() => {
+        if (!liveStreamId) return;
+        return () => {
+            closeLiveStream(liveStreamId);
+        };
+    }, [liveStreamId]);
+
+    const updateStreamUrl = async (
+        audioIndex: number,
+        maxStreamingBitrate: number = getStreamBitrate(streamQuality)
+    ) => {
+        if (!currentMedia || !selectedVersion) return;
 
-        const directPlay = canDirectPlay(selectedVersion);
-        const streamingParams = getOptimalStreamingParams();
-        if (bitrate > 0) {
-            streamingParams.videoBitrate = bitrate;
+        // Free the transcoder of the session being replaced
+        if (playSessionId) {
+            stopTranscoding(playSessionId);
         }
 
-        const { streamUrl, playSessionId } = await getPlaybackUrl(
+        const decision = await requestPlayback(
             currentMedia.id,
             selectedVersion,
-            directPlay,
-            streamingParams,
-            audioIndex
+            audioIndex,
+            maxStreamingBitrate
         );
 
-        setPlaySessionId(playSessionId);
-        setStreamUrl(streamUrl);
+        setPlaybackDecision(decision);
+        setPlaySessionId(decision.playSessionId);
+        setStreamUrl(decision.streamUrl);
+
+        // The old session is gone, so move reporting over to the new one
+        if (hasStartedPlayback && currentMedia.id !== "test-big-buck-bunny") {
+            if (progressIntervalRef.current) {
+                clearInterval(progressIntervalRef.current);
+                progressIntervalRef.current = null;
+            }
+            await reportPlaybackStart(
+                currentMedia.id,
+                selectedVersion.Id!,
+                decision.playSessionId,
+                decision.playMethod
+            );
+            startProgressReports(decision.playSessionId, decision.playMethod);
+        }
     };
 
     const handleAudioTrackChange = (track: { index: number }) => {
@@ -450,15 +643,74 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
             setSeekToTime(videoRef.current.currentTime);
         }
         setSelectedAudioTrackIndex(track.index);
+        pickedLanguagesRef.current.audio =
+            audioTracks.find((stream) => stream.Index === track.index)?.Language ?? undefined;
         updateStreamUrl(track.index);
     };
 
+    // Rebuild the stream at the current position with the new bitrate cap
+    const applyStreamQuality = (quality: StreamQuality) => {
+        if (selectedAudioTrackIndex === null) return;
+        if (videoRef.current) {
+            setSeekToTime(videoRef.current.currentTime);
+        }
+        setStreamQuality(quality);
+        updateStreamUrl(selectedAudioTrackIndex, getStreamBitrate(quality));
+    };
+
+    const handleStreamQualityChange = (value: string) => {
+        if (value === streamQuality.value && value !== "auto") return;
+        applyStreamQuality({ value, autoBitrate: 0 });
+    };
+
+    // The video element only renders once both the stream and the item details are in
+    const hls = usePlaybackEngine({
+        videoRef,
+        src: streamUrl && mediaDetails ? streamUrl : null,
+        autoplay: !currentMedia?.resumePositionTicks,
+        preload: "auto",
+    });
+
+    useAdaptiveBitrate({
+        videoRef,
+        hls,
+        streamUrl,
+        enabled: streamQuality.value === "auto",
+        currentBitrate: streamQuality.autoBitrate,
+        sourceBitrate: selectedVersion?.Bitrate,
+        onStepDown: (bitrate) => {
+            applyStreamQuality({ value: "auto", autoBitrate: bitrate });
+        },
+    });
+
+    // ASS/SSA tracks are rendered by libass from the original stream, with the fonts muxed into the file
+    const activeSubtitleTrack = subtitleTracks.find((track) => track.active);
+    const assSubtitleUrl =
+        activeSubtitleTrack?.format === "ass" || activeSubtitleTrack?.format === "ssa"
+            ? activeSubtitleTrack.originalSrc ?? null
+            : null;
+    const subtitleFonts = (selectedVersion?.MediaAttachments ?? [])
+        .filter(
+            (attachment) =>
+                attachment.DeliveryUrl &&
+                (attachment.MimeType?.includes("font") ||
+                    /\.(ttf|otf|woff2?)$/i.test(attachment.FileName ?? ""))
+        )
+        .map((attachment) => `${serverUrl}${attachment.DeliveryUrl}`);
+
+    const { failed: assRendererFailed } = useAssRenderer({
+        videoRef,
+        subUrl: assSubtitleUrl,
+        fonts: subtitleFonts,
+        offset: subtitleOffset,
+        enabled: videoStarted,
+    });
+
     const selectSubtitleTrack = useCallback(
         (subtitleTrack: CustomSubtitleTrack | null) => {
             if (!subtitleTrack) {
                 // Turn off subtitles
                 setSubtitleData([]);
-                setCurrentSubtitle(null);
                 setSubtitleTracks((prev) =>
                     prev.map((track) => ({ ...track, active: false })),
                 );
@@ -475,7 +727,6 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
                         setFetchingSubtitles(false);
                         if (result.success) {
                             setSubtitleData(result.subtitles);
-                            setCurrentSubtitle(null); // Reset current subtitle to show from data
                             setSubtitleTracks((prev) =>
                                 prev.map((track, idx) => ({
                                     ...track,
@@ -490,61 +741,68 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
         [currentMedia, selectedVersion, subtitleTracks],
     );
 
-    const handleVideoEnded = useCallback(async () => {
-        await stopProgressTracking();
-        handleClose();
-    }, [stopProgressTracking, handleClose]);
-
-    // Helper function to process subtitle text for HTML rendering
-    const processSubtitleText = useCallback((text: string) => {
-        // Check if subtitle should be positioned at top (an8)
-        const shouldPositionTop = /\{\\an8\}/.test(text);
-
-        // Remove all ASS/SSA positioning and style tags like {\an8}, {\pos(192,217)}, etc.
-        let processedText = text.replace(/\{[^}]+\}/g, (match) => {
-            if (match === "{\\i1}") return "<i>";
-            if (match === "{\\i0}") return "</i>";
-            if (match === "{\\b1}") return "<b>";
-            if (match === "{\\b0}") return "</b>";
-            if (match === "{\\u1}") return "<u>";
-            if (match === "{\\u0}" || match === "{\\u0}") return "</u>";
-            return ""; // Remove other unhandled tags
-        });
+    // Remember the user's subtitle choice so following episodes keep it
+    const handleSubtitleChange = useCallback(
+        (subtitleTrack: CustomSubtitleTrack | null) => {
+            pickedLanguagesRef.current.subtitle = subtitleTrack?.language ?? null;
+            selectSubtitleTrack(subtitleTrack);
+        },
+        [selectSubtitleTrack],
+    );
 
-        // Convert \n to <br> tags for line breaks
-        processedText = processedText.replace(/\\n/gi, "<br>");
+    // Pick up subtitles added or deleted in the subtitle manager without reloading the stream
+    const refreshSubtitleTracks = useCallback(async () => {
+        if (!currentMedia || !selectedVersion?.Id) return;
 
-        return {
-            text: processedText,
-            positionTop: shouldPositionTop,
-        };
-    }, []);
+        const tracks = await getSubtitleTracks(currentMedia.id, selectedVersion.Id);
+        const activeLabel = subtitleTracks.find((track) => track.active)?.label;
+        const activeStillExists = tracks.some((track) => track.label === activeLabel);
+        if (!activeStillExists) {
+            setSubtitleData([]);
+        }
 
-    // Find current subtitle based on video time
-    const findCurrentSubtitle = useCallback(
-        (currentTimeSeconds: number) => {
-            if (subtitleData.length === 0) return null;
-
-            // Find subtitle that should be displayed at current time
-            // For now, we'll use a simple approach - find the subtitle with the closest timestamp that's <= current time
-            let currentSub = null;
-            for (let i = 0; i < subtitleData.length; i++) {
-                const subtitle = subtitleData[i];
-                if (subtitle.timestamp <= currentTimeSeconds) {
-                    currentSub = subtitle;
-                } else {
-                    break;
+        setSubtitleTracks(
+            tracks.map((track) => ({
+                ...track,
+                kind: track.kind as TextTrackKind,
+                active: activeStillExists && track.label === activeLabel,
+            })),
+        );
+    }, [currentMedia, selectedVersion, subtitleTracks]);
+
+    // Resolve the seek bar preview for a given time
+    const getSeekThumbnail = useCallback(
+        (time: number): MediaPlayerSeekThumbnail | null => {
+            if (trickplay) {
+                const { width, height, tileWidth, tileHeight, interval, thumbnailCount } = trickplay;
+                const thumbnailsPerTile = tileWidth * tileHeight;
+                const thumbnailIndex = Math.min(
+                    Math.max(Math.floor((time * 1000) / interval), 0),
+                    thumbnailCount - 1
+                );
+                const tile = trickplay.tiles[Math.floor(thumbnailIndex / thumbnailsPerTile)];
+                if (tile) {
+                    const indexInTile = thumbnailIndex % thumbnailsPerTile;
+                    return {
+                        src: tile,
+                        coords: [
+                            (indexInTile % tileWidth) * width,
+                            Math.floor(indexInTile / tileWidth) * height,
+                            width,
+                            height,
+                        ],
+                    };
                 }
             }
 
-            // Only show subtitle if we're within a reasonable time window (e.g., 5 seconds)
-            if (currentSub && currentTimeSeconds - currentSub.timestamp <= 5) {
-                return processSubtitleText(currentSub.text);
+            let chapterThumbnail = null;
+            for (const chapter of chapterThumbnails) {
+                if (chapter.startTime > time) break;
+                chapterThumbnail = chapter;
             }
-
-            return null;
+            return chapterThumbnail ? { src: chapterThumbnail.src } : null;
         },
-        [subtitleData, processSubtitleText]
+        [trickplay, chapterThumbnails]
     );
 
     useEffect(() => {
@@ -557,6 +815,10 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
     useEffect(() => {
         if (currentMedia && isPlayerVisible) {
             setVideoStarted(false); // Reset video started state when loading new media
+            setUpNextDismissed(false);
+            setShowStillWatching(false);
+            setCurrentTime(0);
+            setSubtitleOffset(0);
             setBackdropImageLoaded(false); // Reset backdrop image state
             setBlurDataUrl(null); // Reset blur data URL
             setControlsVisible(true); // Show controls when player opens
@@ -644,11 +906,19 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
 
                 // Find and set the default audio track
                 let preferredAudioTrack;
-                if (preferredAudioLanguage === "vo") {
+                const pickedAudioLanguage = pickedLanguagesRef.current.audio;
+                if (pickedAudioLanguage) {
+                    // Keep the language picked earlier this session
+                    preferredAudioTrack = audioStreams.find(
+                        (stream) => stream.Language === pickedAudioLanguage,
+                    );
+                }
+
+                if (!preferredAudioTrack && preferredAudioLanguage === "vo") {
                     preferredAudioTrack = audioStreams.find((stream) =>
                         stream.DisplayTitle?.toLowerCase().includes("vo"),
                     );
-                } else {
+                } else if (!preferredAudioTrack) {
                     preferredAudioTrack = audioStreams.find(
                         (stream) => stream.Language === preferredAudioLanguage,
                     );
@@ -670,36 +940,31 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
                 });
 
                 // Generate stream URL with bitrate setting
-                const bitrateOption = BITRATE_OPTIONS.find(
-                    (option) => option.value === videoBitrate
-                );
-                const bitrate = bitrateOption?.bitrate || 0; // 0 means auto/no limit
-
-                const directPlay = canDirectPlay(sourceToUse);
-                console.log(`Direct play supported: ${directPlay}`);
-
-                const streamingParams = getOptimalStreamingParams();
-                // Override bitrate if user has set one
-                if (bitrate > 0) {
-                    streamingParams.videoBitrate = bitrate;
-                }
-
-                if (initialAudioTrackIndex === undefined || initialAudioTrackIndex === null) {
+                const initialQuality: StreamQuality = { value: videoBitrate, autoBitrate: 0 };
+                setStreamQuality(initialQuality);
+                const bitrate = getStreamBitrate(initialQuality); // 0 means auto/no limit
+
+                // Channels only list their streams once the tuner is open
+                if (
+                    (initialAudioTrackIndex === undefined || initialAudioTrackIndex === null) &&
+                    currentMedia.type !== "TvChannel"
+                ) {
                     console.error("No audio track found for this media.");
                     // Handle the error appropriately, maybe show a message to the user
                     return;
                 }
 
-                const { streamUrl, playSessionId } = await getPlaybackUrl(
+                // Let the server pick DirectPlay / DirectStream / Transcode from our profile
+                const decision = await requestPlayback(
                     currentMedia.id,
                     sourceToUse,
-                    directPlay,
-                    streamingParams,
-                    initialAudioTrackIndex
+                    initialAudioTrackIndex,
+                    bitrate
                 );
 
-                setPlaySessionId(playSessionId);
-                setStreamUrl(streamUrl);
+                setPlaybackDecision(decision);
+                setPlaySessionId(decision.playSessionId);
+                setStreamUrl(decision.streamUrl);
 
                 const subtitleTracksList = await getSubtitleTracks(
                     currentMedia.id,
@@ -708,11 +973,14 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
 
                 // Prioritize "full" (non-forced) subtitles, then "forced"
                 let preferredSubtitleTrackIndex = -1;
+                const subtitleLanguage = pickedLanguagesRef.current.subtitle !== undefined
+                    ? pickedLanguagesRef.current.subtitle
+                    : preferredSubtitleLanguage;
 
                 // 1. Look for a non-forced subtitle in the preferred language
                 const fullSubtitleIndex = subtitleTracksList.findIndex(
                     (track) =>
-                        track.language === preferredSubtitleLanguage && !track.isForced,
+                        track.language === subtitleLanguage && !track.isForced,
                 );
 
                 if (fullSubtitleIndex !== -1) {
@@ -721,7 +989,7 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
                     // 2. Fallback to a forced subtitle in the preferred language
                     const forcedSubtitleIndex = subtitleTracksList.findIndex(
                         (track) =>
-                            track.language === preferredSubtitleLanguage && track.isForced,
+                            track.language === subtitleLanguage && track.isForced,
                     );
                     if (forcedSubtitleIndex !== -1) {
                         preferredSubtitleTrackIndex = forcedSubtitleIndex;
@@ -744,7 +1012,6 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
                 } else {
                     // Don't load any subtitle by default - let user choose
                     setSubtitleData([]);
-                    setCurrentSubtitle(null);
                 }
 
                 // Process chapters if available
@@ -755,34 +1022,69 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
                     setChapters([]);
                 }
 
-                // Fetch intro/outro segments asynchronously
-                try {
-                    const segments = await fetchIntroOutro(
-                        currentMedia.selectedVersion?.Id || sourceToUse.Id!
-                    );
-                    console.log("Fetched intro/outro segments:", segments);
-                    if (segments && segments.Items) {
-                        const processedSegments: {
-                            intro?: { startTime: number; endTime: number };
-                            outro?: { startTime: number; endTime: number };
-                        } = {};
-
-                        segments.Items.forEach((segment) => {
-                            const startTime = ticksToSeconds(segment.StartTicks);
-                            const endTime = ticksToSeconds(segment.EndTicks);
-                            if (segment.Type === "Intro") {
-                                processedSegments.intro = { startTime, endTime };
-                            } else if (segment.Type === "Outro") {
-                                processedSegments.outro = { startTime, endTime };
+                // Chapter images double as seek previews when there is no trickplay
+                setChapterThumbnails(
+                    (details.Chapters || [])
+                        .map((chapter, index) => ({
+                            startTime: ticksToSeconds(chapter.StartPositionTicks || 0),
+                            src: chapter.ImageTag
+                                ? `${serverUrl}/Items/${currentMedia.id}/Images/Chapter/${index}?tag=${chapter.ImageTag}&maxWidth=400&quality=80`
+                                : "",
+                        }))
+                        .filter((chapter) => chapter.src)
+                );
+
+                // Load trickplay tiles for the selected source, closest to 320px wide
+                setTrickplay(null);
+                trickplayRequestRef.current = null;
+                const trickplayByWidth = details.Trickplay?.[sourceToUse.Id!];
+                if (trickplayByWidth) {
+                    const widths = Object.keys(trickplayByWidth)
+                        .map(Number)
+                        .sort((a, b) => a - b);
+                    const width = widths.find((w) => w >= 320) ?? widths[widths.length - 1];
+                    if (width !== undefined) {
+                        const requestKey = `${currentMedia.id}:${sourceToUse.Id}`;
+                        trickplayRequestRef.current = requestKey;
+                        getTrickplayManifest(
+                            currentMedia.id,
+                            sourceToUse.Id!,
+                            trickplayByWidth[width]
+                        ).then((manifest) => {
+                            if (trickplayRequestRef.current === requestKey) {
+                                setTrickplay(manifest);
                             }
                         });
-
-                        setMediaSegments(processedSegments);
-                        console.log("Media segments loaded:", processedSegments);
                     }
+                }
+
+                // Fetch media segments asynchronously
+                handledSegmentsRef.current = new Set();
+                try {
+                    const segments = await fetchMediaSegments(
+                        currentMedia.selectedVersion?.Id || sourceToUse.Id!
+                    );
+                    console.log("Fetched media segments:", segments);
+                    const processedSegments = (segments?.Items ?? []).flatMap((segment) => {
+                        const segmentType = SEGMENT_TYPES.find(
+                            (option) => option.type === segment.Type
+                        );
+                        if (!segmentType) return [];
+
+                        return [{
+                            id: segment.Id,
+                            type: segmentType.type,
+                            label: segmentType.label,
+                            startTime: ticksToSeconds(segment.StartTicks),
+                            endTime: ticksToSeconds(segment.EndTicks),
+                        }];
+                    });
+
+                    setMediaSegments(processedSegments);
+                    console.log("Media segments loaded:", processedSegments);
                 } catch (error) {
-                    console.error("Failed to fetch intro/outro segments:", error);
-                    setMediaSegments({});
+                    console.error("Failed to fetch media segments:", error);
+                    setMediaSegments([]);
                 }
 
                 // Load episode navigation for TV shows
@@ -795,12 +1097,6 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
         }
     };
 
-    // Update current subtitle based on video time
-    useEffect(() => {
-        const subtitle = findCurrentSubtitle(currentTime);
-        setCurrentSubtitle(subtitle);
-    }, [currentTime, findCurrentSubtitle]);
-
     // Handle skip timestamp
     useEffect(() => {
         if (skipTimestamp !== null && videoRef.current) {
@@ -810,27 +1106,57 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
         }
     }, [skipTimestamp]);
 
-    // Skip intro handler
-    const handleSkipIntro = useCallback(() => {
-        if (mediaSegments.intro && videoRef.current) {
-            const skipToTime = mediaSegments.intro.endTime;
-            console.log(`Skipping intro to: ${skipToTime} seconds`);
-            videoRef.current.currentTime = skipToTime;
-            setCurrentTime(skipToTime);
-        }
-    }, [mediaSegments.intro]);
+    // Segment under the playhead, ignoring its last half second so a skip can land on its end
+    const activeSegment = mediaSegments.find(
+        (segment) => currentTime >= segment.startTime && currentTime < segment.endTime - 0.5
+    ) ?? null;
+    const activeSegmentPolicy = activeSegment
+        ? segmentSkipPolicies[activeSegment.type]
+        : "ignore";
+
+    const skipSegment = useCallback((segment: { endTime: number; label: string }) => {
+        if (!videoRef.current) return;
+        console.log(`Skipping ${segment.label} to: ${segment.endTime} seconds`);
+        videoRef.current.currentTime = segment.endTime;
+        setCurrentTime(segment.endTime);
+    }, []);
 
-    // Check if skip intro button should be shown
-    const shouldShowSkipIntro = useCallback(() => {
-        if (!mediaSegments.intro) return false;
+    // Auto-skip once per segment, with a toast to jump back in
+    useEffect(() => {
+        if (!activeSegment || activeSegmentPolicy !== "auto") return;
+        if (handledSegmentsRef.current.has(activeSegment.id)) return;
+
+        handledSegmentsRef.current.add(activeSegment.id);
+        skipSegment(activeSegment);
+
+        const { startTime, label } = activeSegment;
+        toast(`Skipped ${label.toLowerCase()}`, {
+            action: {
+                label: "Undo",
+                onClick: () => {
+                    if (!videoRef.current) return;
+                    videoRef.current.currentTime = startTime;
+                    setCurrentTime(startTime);
+                },
+            },
+        });
+    }, [activeSegment, activeSegmentPolicy, skipSegment]);
 
-        const { startTime, endTime } = mediaSegments.intro;
-        // Show skip button 2 seconds before the intro starts and during the intro
-        return currentTime >= startTime && currentTime < endTime;
-    }, [mediaSegments.intro, currentTime]);
+    // Jump to another entry of the play queue
+    const handleQueueSelect = useCallback(async (index: number) => {
+        await stopProgressTracking();
+        playQueueIndex(index);
+    }, [stopProgressTracking, playQueueIndex]);
 
     // Navigate to next episode
     const handleNextEpisode = useCallback(async () => {
+        // The play queue takes precedence over series order
+        if (hasQueueNext) {
+            await stopProgressTracking();
+            advanceQueue({ direction: 1 });
+            return;
+        }
+
         if (!nextEpisode) return;
 
         // Stop current playback
@@ -850,10 +1176,16 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
             type: nextEpisode.Type as "Episode" | "Movie",
         })
 
-    }, [nextEpisode, stopProgressTracking, setCurrentMediaWithSource]);
+    }, [nextEpisode, hasQueueNext, advanceQueue, stopProgressTracking, setCurrentMediaWithSource]);
 
     // Navigate to previous episode
     const handlePreviousEpisode = useCallback(async () => {
+        if (hasQueuePrevious) {
+            await stopProgressTracking();
+            advanceQueue({ direction: -1 });
+            return;
+        }
+
         if (!previousEpisode) return;
 
         // Stop current playback
@@ -873,7 +1205,7 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
             type: previousEpisode.Type as "Episode" | "Movie",
         })
 
-    }, [previousEpisode, stopProgressTracking, setCurrentMediaWithSource]);
+    }, [previousEpisode, hasQueuePrevious, advanceQueue, stopProgressTracking, setCurrentMediaWithSource]);
 
     // Handle episode selection from popup
     const handleEpisodeSelect = useCallback(async (episode: JellyfinItem) => {
@@ -882,6 +1214,13 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
         // Don't reload if it's the same episode
         if (episode.Id === currentMedia?.id) return;
 
+        // Stay within the queue when the episode is already part of it
+        const queuedIndex = queue.findIndex((item) => item.id === episode.Id);
+        if (queuedIndex !== -1) {
+            await handleQueueSelect(queuedIndex);
+            return;
+        }
+
         // Stop current playback
         await stopProgressTracking();
 
@@ -898,7 +1237,251 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
             name: episode.Name!,
             type: "Episode",
         });
-    }, [currentMedia, stopProgressTracking, setCurrentMediaWithSource, playMedia]);
+    }, [currentMedia, queue, handleQueueSelect, stopProgressTracking, setCurrentMediaWithSource, playMedia]);
+
+    // Queue neighbours take over the episode buttons while a queue is playing
+    const queueNextItem = hasQueueNext ? queue[(queueIndex + 1) % queue.length] : null;
+    const queuePreviousItem = hasQueuePrevious
+        ? queue[(queueIndex - 1 + queue.length) % queue.length]
+        : null;
+
+    // What plays after the current item; series order is only followed with auto-play on
+    let upNextItem: UpNextItem | null = null;
+    if (repeatMode !== "one" && queueNextItem) {
+        upNextItem = {
+            id: queueNextItem.id,
+            name: queueNextItem.name,
+            imageUrl: `${serverUrl}/Items/${queueNextItem.id}/Images/Primary?maxWidth=400&quality=80`,
+        };
+    } else if (repeatMode !== "one" && autoPlayNextEpisode && nextEpisode) {
+        upNextItem = {
+            id: nextEpisode.Id!,
+            name: nextEpisode.Name!,
+            subtitle: `S${nextEpisode.ParentIndexNumber}:E${nextEpisode.IndexNumber}`,
+            imageUrl: `${serverUrl}/Items/${nextEpisode.Id}/Images/Primary?maxWidth=400&quality=80`,
+        };
+    }
+
+    // The card appears when the credits start, or in the last seconds without an Outro segment
+    const upNextStartTime = mediaSegments.find((segment) => segment.type === "Outro")?.startTime
+        ?? (duration > upNextSeconds * 2 ? duration - upNextSeconds : null);
+    const showUpNext = Boolean(
+        upNextItem &&
+        videoStarted &&
+        !upNextDismissed &&
+        (showStillWatching ||
+            (autoPlayNextEpisode && upNextStartTime !== null && currentTime >= upNextStartTime))
+    );
+
+    // Start whatever is up next; automatic starts count towards "are you still watching?"
+    const playUpNext = useCallback(async (automatic: boolean) => {
+        if (
+            automatic &&
+            stillWatchingEpisodes > 0 &&
+            autoAdvanceCountRef.current >= stillWatchingEpisodes
+        ) {
+            videoRef.current?.pause();
+            setShowStillWatching(true);
+            return;
+        }
+
+        autoAdvanceCountRef.current = automatic ? autoAdvanceCountRef.current + 1 : 0;
+        setShowStillWatching(false);
+        await handleNextEpisode();
+    }, [stillWatchingEpisodes, handleNextEpisode]);
+
+    const handleUpNextCountdownComplete = useCallback(() => {
+        playUpNext(true);
+    }, [playUpNext]);
+
+    const handleUpNextDismiss = useCallback(() => {
+        autoAdvanceCountRef.current = 0;
+        setUpNextDismissed(true);
+        setShowStillWatching(false);
+    }, []);
+
+    const handleVideoEnded = useCallback(async () => {
+        // Repeat-one replays the same queue entry
+        if (repeatMode === "one") {
+            await stopProgressTracking();
+            advanceQueue({ direction: 1, ended: true });
+            return;
+        }
+
+        // A dismissed "Up next" card means the user wants to stop here
+        if (!upNextDismissed && (queueNextItem || (autoPlayNextEpisode && nextEpisode))) {
+            await playUpNext(true);
+            return;
+        }
+
+        await stopProgressTracking();
+        handleClose();
+    }, [
+        repeatMode,
+        upNextDismissed,
+        queueNextItem,
+        autoPlayNextEpisode,
+        nextEpisode,
+        playUpNext,
+        advanceQueue,
+        stopProgressTracking,
+        handleClose,
+    ]);
+
+    // Series poster for episodes, shown on lock screens and OS media controls
+    useEffect(() => {
+        if (!mediaDetails?.Id) {
+            setArtworkUrl(null);
+            return;
+        }
+
+        const imageItemId =
+            mediaDetails.Type === "Episode" && mediaDetails.SeriesId
+                ? mediaDetails.SeriesId
+                : mediaDetails.Id;
+        let cancelled = false;
+        getImageUrl(imageItemId, "Primary")
+            .then((url) => {
+                if (!cancelled) setArtworkUrl(url);
+            })
+            .catch((error) => {
+                console.warn("Failed to load media session artwork:", error);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [mediaDetails?.Id, mediaDetails?.Type, mediaDetails?.SeriesId]);
+
+    const playerTitle =
+        mediaDetails?.Type === "Episode" && mediaDetails?.IndexNumber
+            ? `${mediaDetails.IndexNumber}. ${mediaDetails.Name || currentMedia?.name}`
+            : mediaDetails?.Name || currentMedia?.name;
+
+    useMediaSession({
+        videoRef,
+        streamUrl,
+        info: playerTitle
+            ? {
+                title: playerTitle,
+                artist: mediaDetails?.SeriesName ?? undefined,
+                album: mediaDetails?.SeasonName ?? undefined,
+                artworkUrl,
+            }
+            : null,
+        onPreviousTrack:
+            hasQueuePrevious || previousEpisode ? handlePreviousEpisode : undefined,
+        onNextTrack: hasQueueNext || nextEpisode ? handleNextEpisode : undefined,
+    });
+
+    // Carry out commands other clients sent over the Jellyfin WebSocket
+    const [remotePlayerCommand, setRemotePlayerCommand] = useAtom(remotePlayerCommandAtom);
+
+    useEffect(() => {
+        if (!remotePlayerCommand) return;
+        setRemotePlayerCommand(null);
+
+        const video = videoRef.current;
+        if (!isPlayerVisible || !video) return;
+
+        if (remotePlayerCommand.type === "playstate") {
+            const { command, seekPositionTicks } = remotePlayerCommand;
+            switch (command) {
+                case PlaystateCommand.Pause:
+                    video.pause();
+                    break;
+                case PlaystateCommand.Unpause:
+                case PlaystateCommand.PlayPause:
+                    if (command === PlaystateCommand.PlayPause && !video.paused) {
+                        video.pause();
+                    } else {
+                        video.play().catch((error) => {
+                            console.warn("Failed to resume playback:", error);
+                        });
+                    }
+                    break;
+                case PlaystateCommand.Stop:
+                    handleClose();
+                    break;
+                case PlaystateCommand.NextTrack:
+                    handleNextEpisode();
+                    break;
+                case PlaystateCommand.PreviousTrack:
+                    handlePreviousEpisode();
+                    break;
+                case PlaystateCommand.Seek:
+                    if (seekPositionTicks !== undefined) {
+                        video.currentTime = ticksToSeconds(seekPositionTicks);
+                    }
+                    break;
+                case PlaystateCommand.Rewind:
+                    video.currentTime = Math.max(0, video.currentTime - REMOTE_SEEK_STEP_SECONDS);
+                    break;
+                case PlaystateCommand.FastForward:
+                    video.currentTime = Math.min(
+                        video.duration || Infinity,
+                        video.currentTime + REMOTE_SEEK_STEP_SECONDS
+                    );
+                    break;
+            }
+            return;
+        }
+
+        const { name, args } = remotePlayerCommand;
+        switch (name) {
+            case GeneralCommandType.SetVolume:
+                video.volume = Math.min(Math.max(Number(args.Volume) / 100, 0), 1) || 0;
+                break;
+            case GeneralCommandType.VolumeUp:
+                video.volume = Math.min(video.volume + REMOTE_VOLUME_STEP, 1);
+                break;
+            case GeneralCommandType.VolumeDown:
+                video.volume = Math.max(video.volume - REMOTE_VOLUME_STEP, 0);
+                break;
+            case GeneralCommandType.Mute:
+                video.muted = true;
+                break;
+            case GeneralCommandType.Unmute:
+                video.muted = false;
+                break;
+            case GeneralCommandType.ToggleMute:
+                video.muted = !video.muted;
+                break;
+            case GeneralCommandType.SetAudioStreamIndex:
+                handleAudioTrackChange({ index: Number(args.Index) });
+                break;
+            case GeneralCommandType.SetSubtitleStreamIndex: {
+                // Subtitle tracks are listed in the order of the source's subtitle streams
+                const position = (selectedVersion?.MediaStreams ?? [])
+                    .filter((stream) => stream.Type === "Subtitle")
+                    .findIndex((stream) => stream.Index === Number(args.Index));
+                handleSubtitleChange(position === -1 ? null : subtitleTracks[position] ?? null);
+                break;
+            }
+        }
+    }, [
+        remotePlayerCommand,
+        setRemotePlayerCommand,
+        isPlayerVisible,
+        handleClose,
+        handleNextEpisode,
+        handlePreviousEpisode,
+        handleAudioTrackChange,
+        handleSubtitleChange,
+        selectedVersion,
+        subtitleTracks,
+    ]);
+
+    // Any key press counts as the user still being there
+    useEffect(() => {
+        if (!isPlayerVisible) return;
+
+        const handleKeyDown = () => {
+            autoAdvanceCountRef.current = 0;
+        };
+
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, [isPlayerVisible]);
 
     // Clean up on unmount
     useEffect(() => {
@@ -914,6 +1497,35 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
         };
     }, [cleanupBlobUrls]);
 
+    // Dock the player in a corner so playback (and progress reporting) carries on while browsing
+    const handleMinimize = useCallback(() => {
+        if (document.fullscreenElement) {
+            document.exitFullscreen().catch((error) => {
+                console.warn("Failed to exit fullscreen:", error);
+            });
+        }
+        setShowStats(false);
+        setShowQueue(false);
+        setIsPlayerMinimized(true);
+    }, [setIsPlayerMinimized]);
+
+    const handleRestore = useCallback(() => {
+        exitPictureInPicture();
+        setIsPlayerMinimized(false);
+    }, [exitPictureInPicture, setIsPlayerMinimized]);
+
+    const handleMiniTogglePlay = useCallback(() => {
+        const video = videoRef.current;
+        if (!video) return;
+        if (video.paused) {
+            video.play().catch((error) => {
+                console.warn("Failed to resume playback:", error);
+            });
+        } else {
+            video.pause();
+        }
+    }, []);
+
     if (!isPlayerVisible || !currentMedia) {
         return null;
     }
@@ -925,44 +1537,72 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
         active: track.Index === selectedAudioTrackIndex
     }));
 
+    const miniPlayerControls = (
+        <MiniPlayerControls
+            title={playerTitle || currentMedia.name}
+            subtitle={mediaDetails?.SeriesName ?? undefined}
+            isPaused={isPaused}
+            loading={loading || !videoStarted}
+            currentTime={currentTime}
+            duration={duration}
+            onTogglePlay={handleMiniTogglePlay}
+            onRestore={handleRestore}
+            onClose={handleClose}
+            onPictureInPicture={
+                isPictureInPictureSupported && !pipWindow ? enterPictureInPicture : undefined
+            }
+        />
+    );
+
     return (
         <div
-            className="fixed inset-0 z-[999999] bg-black flex items-center justify-center w-screen"
-            onMouseMove={handleMouseMove}
-            onMouseLeave={handleMouseLeave}
+            className={
+                isPlayerMinimized
+                    ? `fixed bottom-4 right-4 z-[999999] w-80 sm:w-96 aspect-video overflow-hidden rounded-lg bg-black shadow-2xl ${pipWindow ? "hidden" : ""}`
+                    : "fixed inset-0 z-[999999] bg-black flex items-center justify-center w-screen"
+            }
+            onMouseMove={isPlayerMinimized ? undefined : handleMouseMove}
+            onMouseLeave={isPlayerMinimized ? undefined : handleMouseLeave}
         >
             <MediaPlayer
                 autoHide
-                onEnded={handleClose}
                 onMediaError={(error) => {
                     console.warn("Media player error caught:", error);
                 }}
-                className="w-screen"
+                className={isPlayerMinimized ? "h-full w-full" : "w-screen"}
                 customAudioTracks={customAudioTracks}
                 onCustomAudioTrackChange={handleAudioTrackChange}
                 customSubtitleTracks={subtitleTracks}
                 customSubtitlesEnabled={subtitleTracks.length > 0}
                 chapters={chapters}
-                onCustomSubtitleChange={selectSubtitleTrack}
+                onCustomSubtitleChange={handleSubtitleChange}
+                subtitleOffset={subtitleOffset}
+                onSubtitleOffsetChange={setSubtitleOffset}
+                onSubtitleSearch={() => setShowSubtitleManager(true)}
+                streamQuality={streamQuality}
+                onStreamQualityChange={handleStreamQualityChange}
             >
                 {/* Always render the video component so it can load in the background */}
                 {streamUrl && mediaDetails && (
                     <MediaPlayerVideo asChild>
-                        <MuxVideo
-                            // @ts-ignore
+                        <video
                             ref={videoRef}
-                            src={streamUrl}
                             crossOrigin=""
                             playsInline
-                            preload="auto"
-                            autoPlay={!currentMedia?.resumePositionTicks}
-                            className="h-screen bg-black w-screen"
+                            className={
+                                isPlayerMinimized
+                                    ? "h-full w-full bg-black"
+                                    : "h-screen bg-black w-screen"
+                            }
                             onPlay={handleVideoPlay}
                             onPause={handleVideoPause}
                             onEnded={handleVideoEnded}
                             onLoadedMetadata={handleVideoLoadedMetadata}
                             onTimeUpdate={handleTimeUpdate}
                             onDurationChange={handleDurationChange}
+                            onSeeked={syncPlay.onSeeked}
+                            onWaiting={syncPlay.onWaiting}
+                            onCanPlay={syncPlay.onCanPlay}
                             onError={(event) => {
                                 console.warn("Video error caught:", event);
                             }}
@@ -970,8 +1610,58 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
                     </MediaPlayerVideo>
                 )}
 
+                {showStats && videoStarted && !isPlayerMinimized && (
+                    <PlaybackStatsOverlay
+                        videoRef={videoRef}
+                        hls={hls}
+                        itemId={currentMedia.id}
+                        mediaSource={selectedVersion}
+                        playMethod={playbackDecision?.playMethod ?? null}
+                        transcodeReasons={playbackDecision?.transcodeReasons ?? []}
+                        onClose={() => setShowStats(false)}
+                    />
+                )}
+
+                <AnimatePresence>
+                    {showUpNext && upNextItem && !isPlayerMinimized && (
+                        <UpNextCard
+                            key={upNextItem.id}
+                            item={upNextItem}
+                            countdownSeconds={Math.max(
+                                1,
+                                Math.min(UP_NEXT_COUNTDOWN_SECONDS, Math.floor(duration - currentTime))
+                            )}
+                            paused={isPaused}
+                            stillWatching={showStillWatching}
+                            onPlayNow={() => playUpNext(false)}
+                            onCountdownComplete={handleUpNextCountdownComplete}
+                            onDismiss={handleUpNextDismiss}
+                        />
+                    )}
+                </AnimatePresence>
+
+                <AnimatePresence>
+                    {showQueue && (
+                        <PlayQueuePanel
+                            onSelect={handleQueueSelect}
+                            onClose={() => setShowQueue(false)}
+                        />
+                    )}
+                </AnimatePresence>
+
+                {currentMedia && (
+                    <SubtitleManagerDialog
+                        itemId={currentMedia.id}
+                        itemName={currentMedia.name}
+                        mediaSourceId={selectedVersion?.Id ?? undefined}
+                        open={showSubtitleManager}
+                        onOpenChange={setShowSubtitleManager}
+                        onSubtitlesChanged={refreshSubtitleTracks}
+                    />
+                )}
+
                 {/* Loading overlay - shown while loading or before video starts */}
-                {(loading || !streamUrl || !mediaDetails || !videoStarted) && (
+                {(loading || !streamUrl || !mediaDetails || !videoStarted) && !isPlayerMinimized && (
                     <div className="fixed inset-0 bg-black z-[1000000]">
                         {/* Go Back Button - visible during loading */}
                         <Button
@@ -1143,18 +1833,19 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
                         </motion.div>
                     </div>
                 )}
-                {/* Current Subtitle */}
-                {currentSubtitle && (
-                    <div
-                        className={`fixed left-1/2 transform -translate-x-1/2 z-[100] text-white text-center bg-black/20 px-4 py-2 rounded text-3xl font-medium shadow-xl backdrop-blur-md ${currentSubtitle.positionTop ? "top-[15%]" : "bottom-[10%]"
-                            }`}
-                        dangerouslySetInnerHTML={{ __html: currentSubtitle.text }}
+                {/* Text subtitles; ASS/SSA tracks are drawn by the libass renderer instead */}
+                {subtitleData.length > 0 && (!assSubtitleUrl || assRendererFailed) && !isPlayerMinimized && (
+                    <SubtitleOverlay
+                        videoRef={videoRef}
+                        cues={subtitleData}
+                        offset={subtitleOffset}
                     />
                 )}
 
-                {/* Skip Intro Button */}
+                {/* Skip Segment Button; credits defer to the Up next card */}
                 <AnimatePresence>
-                    {shouldShowSkipIntro() && (
+                    {activeSegment && activeSegmentPolicy === "ask" && !isPlayerMinimized &&
+                        !(activeSegment.type === "Outro" && showUpNext) && (
                         <motion.div
                             initial={{ opacity: 0, y: 20, scale: 0.8 }}
                             animate={{ opacity: 1, y: 0, scale: 1 }}
@@ -1168,17 +1859,17 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
                             className="fixed bottom-24 right-6 z-[1000000] backdrop-blur-md rounded-lg"
                         >
                             <Button
-                                onClick={handleSkipIntro}
+                                onClick={() => skipSegment(activeSegment)}
                                 className="text-white text-center bg-black/30 rounded-lg text-lg py-6 px-6! font-medium shadow-xl hover:bg-black/40 transition"
                             >
                                 <FastForward className="w-4 h-4 fill-white scale-110 mr-1.5" />
-                                Skip Intro
+                                Skip {activeSegment.label}
                             </Button>
                         </motion.div>
                     )}
                 </AnimatePresence>
                 <AnimatePresence>
-                    {controlsVisible && (
+                    {controlsVisible && !isPlayerMinimized && (
                         <motion.div
                             initial={{ opacity: 0, y: 20 }}
                             animate={{ opacity: 1, y: 0 }}
@@ -1195,6 +1886,17 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
                                     Go Back
                                 </Button>
 
+                                <MediaPlayerTooltip tooltip="Mini player">
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="fixed right-4 top-4 z-10 hover:backdrop-blur-md"
+                                        onClick={handleMinimize}
+                                    >
+                                        <Minimize2 className="h-4 w-4" />
+                                    </Button>
+                                </MediaPlayerTooltip>
+
                                 {/* Fetching subtitles indicator */}
                                 {fetchingSubtitles && (
                                     <div
@@ -1252,13 +1954,20 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
                                         )}
                                     </div>
                                 </div>
-                                <MediaPlayerSeek />
+                                <MediaPlayerSeek
+                                    tooltipThumbnailSrc={getSeekThumbnail}
+                                    segments={mediaSegments}
+                                />
                                 <div className="flex w-full items-center gap-2">
                                     <div className="flex flex-1 items-center gap-2">
                                         <MediaPlayerPlay />
                                         {/* Previous Episode Button */}
                                         <MediaPlayerPreviousEpisode
-                                            previousEpisode={previousEpisode}
+                                            previousEpisode={
+                                                queuePreviousItem
+                                                    ? { Id: queuePreviousItem.id, Name: queuePreviousItem.name }
+                                                    : previousEpisode
+                                            }
                                             onPreviousEpisode={handlePreviousEpisode}
                                             className="text-white hover:bg-white/20"
                                         />
@@ -1270,11 +1979,31 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
                                         </MediaPlayerSeekForward>
                                         {/* Next Episode Button */}
                                         <MediaPlayerNextEpisode
-                                            nextEpisode={nextEpisode}
+                                            nextEpisode={
+                                                queueNextItem
+                                                    ? { Id: queueNextItem.id, Name: queueNextItem.name }
+                                                    : nextEpisode
+                                            }
                                             onNextEpisode={handleNextEpisode}
                                             className="text-white hover:bg-white/20"
                                         />
                                         <MediaPlayerTime />
+                                        {playbackDecision && (
+                                            <MediaPlayerTooltip
+                                                tooltip={
+                                                    playbackDecision.transcodeReasons.length > 0
+                                                        ? playbackDecision.transcodeReasons.map(formatEnumLabel).join(", ")
+                                                        : undefined
+                                                }
+                                            >
+                                                <Badge
+                                                    variant="outline"
+                                                    className="rounded-sm border-white/30 text-white/80"
+                                                >
+                                                    {formatEnumLabel(playbackDecision.playMethod)}
+                                                </Badge>
+                                            </MediaPlayerTooltip>
+                                        )}
                                     </div>
                                     <div className="flex items-center gap-2">
                                         <MediaPlayerVolume expandable />
@@ -1364,6 +2093,38 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
                                             seasonNumber={mediaDetails?.ParentIndexNumber || undefined}
                                             className="text-white hover:bg-white/20"
                                         />
+                                        {queue.length > 0 && (
+                                            <MediaPlayerTooltip tooltip="Queue">
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    className={`text-white hover:bg-white/20 ${showQueue ? "bg-white/20" : ""}`}
+                                                    onClick={() => setShowQueue((prev) => !prev)}
+                                                >
+                                                    <ListVideo className="h-4 w-4" />
+                                                </Button>
+                                            </MediaPlayerTooltip>
+                                        )}
+                                        <MediaPlayerTooltip tooltip="SyncPlay">
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                className={`text-white hover:bg-white/20 ${showSyncPlay || syncPlay.isInGroup ? "bg-white/20" : ""}`}
+                                                onClick={() => setShowSyncPlay((prev) => !prev)}
+                                            >
+                                                <UsersRound className="h-4 w-4" />
+                                            </Button>
+                                        </MediaPlayerTooltip>
+                                        <MediaPlayerTooltip tooltip="Stats for nerds">
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                className={`text-white hover:bg-white/20 ${showStats ? "bg-white/20" : ""}`}
+                                                onClick={() => setShowStats((prev) => !prev)}
+                                            >
+                                                <Activity className="h-4 w-4" />
+                                            </Button>
+                                        </MediaPlayerTooltip>
                                         <MediaPlayerSettings />
                                         <MediaPlayerPiP />
                                         <MediaPlayerFullscreen />
@@ -1374,6 +2135,9 @@ export function GlobalMediaPlayer({ onToggleAIAsk }: GlobalMediaPlayerProps) {
                     )}
                 </AnimatePresence>
             </MediaPlayer>
+
+            {isPlayerMinimized && !pipWindow && miniPlayerControls}
+            {pipWindow && createPortal(miniPlayerControls, pipWindow.document.body)}
         </div>
     );
 }
@@ -0,0 +1,312 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { ImageOff, Loader2, Search } from "lucide-react";
+import { toast } from "sonner";
+import {
+  BaseItemDto,
+  RemoteSearchResult,
+} from "@jellyfin/sdk/lib/generated-client/models";
+import {
+  applyRemoteSearchResult,
+  fetchMetadataEditorInfo,
+  getUser,
+  getUserWithPolicy,
+  searchRemoteMetadata,
+} from "@/app/actions";
+import { cn } from "@/lib/utils";
+
+interface IdentifyDialogProps {
+  item: BaseItemDto;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Results don't carry ids of their own; provider and provider ids tell them apart
+const getResultKey = (result: RemoteSearchResult, index: number) =>
+  `${result.SearchProviderName}-${Object.values(result.ProviderIds ?? {}).join("-") || index}`;
+
+export function IdentifyDialog({ item, open, onOpenChange }: IdentifyDialogProps) {
+  const router = useRouter();
+  const itemType = item.Type === "Series" ? "Series" : "Movie";
+
+  const [canEdit, setCanEdit] = useState<boolean | null>(null);
+  const [name, setName] = useState("");
+  const [year, setYear] = useState("");
+  const [providerFields, setProviderFields] = useState<[string, string][]>([]);
+  const [providerIds, setProviderIds] = useState<Record<string, string>>({});
+
+  const [results, setResults] = useState<RemoteSearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [replaceAllImages, setReplaceAllImages] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setCanEdit(null);
+      setResults(null);
+      setSelectedKey(null);
+      setReplaceAllImages(false);
+      return;
+    }
+
+    setName(item.Name ?? "");
+    setYear(item.ProductionYear ? String(item.ProductionYear) : "");
+    setProviderIds({});
+
+    const load = async () => {
+      try {
+        const currentUser = await getUser();
+        const userWithPolicy = currentUser?.Id
+          ? await getUserWithPolicy(currentUser.Id, item.Id!)
+          : null;
+        const isAdministrator = Boolean(userWithPolicy?.Policy?.IsAdministrator);
+        setCanEdit(isAdministrator);
+        if (!isAdministrator) return;
+
+        // One field per provider the server can search for this item
+        const info = await fetchMetadataEditorInfo(item.Id!);
+        setProviderFields([
+          ...new Map(
+            (info?.ExternalIdInfos ?? []).map((idInfo) => [idInfo.Key!, idInfo.Name ?? idInfo.Key!])
+          ).entries(),
+        ]);
+      } catch (error) {
+        console.error("Failed to prepare identify:", error);
+        toast.error("Failed to load metadata providers");
+        onOpenChange(false);
+      }
+    };
+
+    load();
+  }, [open, item.Id, item.Name, item.ProductionYear, onOpenChange]);
+
+  const handleSearch = async () => {
+    const parsedYear = parseInt(year, 10);
+    const searchProviderIds = Object.fromEntries(
+      Object.entries(providerIds)
+        .map(([key, value]) => [key, value.trim()])
+        .filter(([, value]) => value)
+    );
+    if (!name.trim() && Object.keys(searchProviderIds).length === 0) {
+      toast.error("Enter a name or a provider ID to search");
+      return;
+    }
+
+    setSearching(true);
+    setSelectedKey(null);
+    try {
+      const found = await searchRemoteMetadata(item.Id!, itemType, {
+        name: name.trim(),
+        year: Number.isNaN(parsedYear) ? undefined : parsedYear,
+        providerIds: searchProviderIds,
+      });
+      setResults(found);
+    } catch (error) {
+      console.error("Failed to search metadata providers:", error);
+      toast.error("Failed to search metadata providers");
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const selectedResult = results?.find(
+    (result, index) => getResultKey(result, index) === selectedKey
+  );
+
+  const handleApply = async () => {
+    if (!selectedResult) return;
+
+    setApplying(true);
+    try {
+      await applyRemoteSearchResult(item.Id!, selectedResult, replaceAllImages);
+      toast.success(`Identified as "${selectedResult.Name}"`, {
+        description: "Metadata is being refreshed in the background",
+      });
+      onOpenChange(false);
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to identify item:", error);
+      toast.error("Failed to identify item");
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !applying && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] flex flex-col dark:bg-background/95 backdrop-blur-md">
+        <DialogHeader>
+          <DialogTitle>Identify</DialogTitle>
+          <DialogDescription className="truncate">
+            Find the right {itemType === "Series" ? "show" : "movie"} for {item.Name}
+          </DialogDescription>
+        </DialogHeader>
+
+        {canEdit === false ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Only administrators can identify items.
+          </p>
+        ) : canEdit === null ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <Skeleton key={index} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : (
+          <>
+            <form
+              className="space-y-4"
+              onSubmit={(event) => {
+                event.preventDefault();
+                handleSearch();
+              }}
+            >
+              <div className="grid grid-cols-1 sm:grid-cols-[1fr_8rem] gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="identify-name">Name</Label>
+                  <Input
+                    id="identify-name"
+                    value={name}
+                    onChange={(event) => setName(event.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="identify-year">Year</Label>
+                  <Input
+                    id="identify-year"
+                    type="number"
+                    inputMode="numeric"
+                    value={year}
+                    onChange={(event) => setYear(event.target.value)}
+                  />
+                </div>
+              </div>
+              {providerFields.length > 0 && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  {providerFields.map(([key, label]) => (
+                    <div key={key} className="space-y-2">
+                      <Label htmlFor={`identify-provider-${key}`}>{label} ID</Label>
+                      <Input
+                        id={`identify-provider-${key}`}
+                        value={providerIds[key] ?? ""}
+                        onChange={(event) =>
+                          setProviderIds({ ...providerIds, [key]: event.target.value })
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+              <Button type="submit" disabled={searching} className="gap-2">
+                {searching ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Search className="h-4 w-4" />
+                )}
+                Search
+              </Button>
+            </form>
+
+            {results !== null && (
+              <ScrollArea className="flex-1 min-h-0 h-[45vh] pr-3">
+                {results.length > 0 ? (
+                  <div className="space-y-2">
+                    {results.map((result, index) => {
+                      const key = getResultKey(result, index);
+                      return (
+                        <button
+                          key={key}
+                          type="button"
+                          onClick={() => setSelectedKey(key)}
+                          className={cn(
+                            "flex w-full gap-4 rounded-md border p-2 text-left transition-colors cursor-pointer",
+                            key === selectedKey
+                              ? "border-primary bg-primary/10"
+                              : "border-transparent hover:bg-accent"
+                          )}
+                        >
+                          {result.ImageUrl ? (
+                            <img
+                              src={result.ImageUrl}
+                              alt={result.Name || ""}
+                              className="w-16 aspect-[2/3] shrink-0 rounded object-cover bg-muted"
+                              loading="lazy"
+                            />
+                          ) : (
+                            <div className="w-16 aspect-[2/3] shrink-0 rounded bg-muted flex items-center justify-center">
+                              <ImageOff className="h-5 w-5 text-muted-foreground" />
+                            </div>
+                          )}
+                          <div className="min-w-0 flex-1">
+                            <div className="flex items-center gap-2">
+                              <span className="truncate font-medium">{result.Name}</span>
+                              {result.ProductionYear && (
+                                <span className="text-sm text-muted-foreground">
+                                  {result.ProductionYear}
+                                </span>
+                              )}
+                            </div>
+                            {result.SearchProviderName && (
+                              <Badge variant="outline" className="mt-1">
+                                {result.SearchProviderName}
+                              </Badge>
+                            )}
+                            {result.Overview && (
+                              <p className="mt-1 text-xs text-muted-foreground line-clamp-3">
+                                {result.Overview}
+                              </p>
+                            )}
+                          </div>
+                        </button>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <p className="py-8 text-center text-sm text-muted-foreground">
+                    No matches found. Try a different name or year, or search by provider ID.
+                  </p>
+                )}
+              </ScrollArea>
+            )}
+          </>
+        )}
+
+        {canEdit && (
+          <DialogFooter className="sm:justify-between items-center">
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <Switch checked={replaceAllImages} onCheckedChange={setReplaceAllImages} />
+              Replace all images
+            </label>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={applying}>
+                Cancel
+              </Button>
+              <Button onClick={handleApply} disabled={!selectedResult || applying}>
+                {applying && <Loader2 className="h-4 w-4 animate-spin" />}
+                Apply
+              </Button>
+            </div>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,14 +5,21 @@ import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import AIAsk from "@/components/navigator/ai-ask";
 import { GlobalMediaPlayer } from "@/components/global-media-player";
+import { RemoteControlPanel } from "@/components/remote-control-panel";
+import { SyncPlayPanel } from "@/components/syncplay-panel";
+import { AudioPlayerBar } from "@/components/audio-player-bar";
+import { SelectionActionBar } from "@/components/selection-action-bar";
 import {
   isAIAskOpenAtom,
   isElectronMacAtom,
   isElectronFullscreenAtom,
   isFullscreenAtom,
   isNavigatorEnabledAtom,
+  currentAudioTrackAtom,
 } from "@/lib/atoms";
 import { useSettings } from "@/contexts/settings-context";
+import { useJellyfinSocket } from "@/hooks/useJellyfinSocket";
+import { useDownloadManager } from "@/hooks/useOfflineDownloads";
 import { useEffect } from "react";
 
 interface LayoutContentProps {
@@ -25,9 +32,16 @@ export function LayoutContent({ children }: LayoutContentProps) {
   const [isElectronFullscreen] = useAtom(isElectronFullscreenAtom);
   const [isFullscreen] = useAtom(isFullscreenAtom);
   const [, setIsNavigatorEnabled] = useAtom(isNavigatorEnabledAtom);
+  const [currentAudioTrack] = useAtom(currentAudioTrackAtom);
   
   const { navigatorEnabled } = useSettings();
 
+  // Lets other Jellyfin clients control this one
+  useJellyfinSocket();
+  // Keeps offline downloads going and syncs what was watched offline;
+  // the downloads route has its own layout and mounts DownloadManager instead
+  useDownloadManager();
+
   // Sync the navigator enabled state with the atom
   useEffect(() => {
     setIsNavigatorEnabled(navigatorEnabled);
@@ -71,11 +85,19 @@ export function LayoutContent({ children }: LayoutContentProps) {
         <SidebarInset
           className={`flex-1 overflow-hidden ${isElectronMac && !isElectronFullscreen ? "pl-2.5" : ""}`}
         >
-          <div className="flex-1 overflow-y-auto no-scrollbar">{children}</div>
+          <div
+            className={`flex-1 overflow-y-auto no-scrollbar ${currentAudioTrack ? "pb-20" : ""}`}
+          >
+            {children}
+          </div>
         </SidebarInset>
       </SidebarProvider>
       {navigatorEnabled && <AIAsk />}
       <GlobalMediaPlayer onToggleAIAsk={navigatorEnabled ? handleToggleAIAsk : undefined} />
+      <RemoteControlPanel />
+      <SyncPlayPanel />
+      <AudioPlayerBar />
+      <SelectionActionBar />
     </div>
   );
 }
@@ -0,0 +1,332 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Loader2, SlidersHorizontal } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { fetchLibraryFilterOptions } from "@/app/actions";
+import {
+  EMPTY_LIBRARY_FILTERS,
+  LibraryFilterOptions,
+  LibraryFilters,
+  VIDEO_FEATURES,
+  VIDEO_TYPES,
+  countActiveFilters,
+} from "@/lib/library-filters";
+import { formatEnumLabel } from "@/lib/utils";
+
+const RATING_THRESHOLDS = [5, 6, 7, 8, 9];
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter((entry) => entry !== value) : [...values, value];
+
+interface LibraryFilterPanelProps {
+  libraryId: string;
+  filters: LibraryFilters;
+  onChange: (filters: LibraryFilters) => void;
+}
+
+// Filter sidebar for a library; its choices are sent to the server with each page request
+export function LibraryFilterPanel({ libraryId, filters, onChange }: LibraryFilterPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<LibraryFilterOptions | null>(null);
+  const activeCount = countActiveFilters(filters);
+
+  // Options are only needed once the panel is opened
+  useEffect(() => {
+    if (!open || options) return;
+    fetchLibraryFilterOptions(libraryId).then(setOptions);
+  }, [open, options, libraryId]);
+
+  useEffect(() => {
+    setOptions(null);
+  }, [libraryId]);
+
+  const update = (changes: Partial<LibraryFilters>) => onChange({ ...filters, ...changes });
+
+  const decades = options
+    ? [...new Set(options.years.map((year) => Math.floor(year / 10) * 10))]
+    : [];
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <SlidersHorizontal className="h-4 w-4" />
+          Filters
+          {activeCount > 0 && (
+            <Badge className="h-5 min-w-5 rounded-full px-1.5">{activeCount}</Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="right" className="z-[10000000000] gap-0">
+        <SheetHeader>
+          <SheetTitle>Filters</SheetTitle>
+          <SheetDescription>
+            {activeCount > 0
+              ? `${activeCount} ${activeCount === 1 ? "filter" : "filters"} applied`
+              : "Narrow down what this library shows"}
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="min-h-0 flex-1">
+          <div className="space-y-6 px-4 pb-4">
+            <FilterSection title="Status">
+              <ChipGroup>
+                <Chip
+                  active={filters.played === "unplayed"}
+                  onClick={() =>
+                    update({ played: filters.played === "unplayed" ? undefined : "unplayed" })
+                  }
+                >
+                  Unplayed
+                </Chip>
+                <Chip
+                  active={filters.played === "played"}
+                  onClick={() =>
+                    update({ played: filters.played === "played" ? undefined : "played" })
+                  }
+                >
+                  Played
+                </Chip>
+                <Chip
+                  active={filters.resumable}
+                  onClick={() => update({ resumable: !filters.resumable })}
+                >
+                  In progress
+                </Chip>
+                <Chip
+                  active={filters.favorites}
+                  onClick={() => update({ favorites: !filters.favorites })}
+                >
+                  Favourites
+                </Chip>
+              </ChipGroup>
+            </FilterSection>
+
+            <FilterSection title="Community rating">
+              <ChipGroup>
+                <Chip
+                  active={!filters.minCommunityRating}
+                  onClick={() => update({ minCommunityRating: undefined })}
+                >
+                  Any
+                </Chip>
+                {RATING_THRESHOLDS.map((threshold) => (
+                  <Chip
+                    key={threshold}
+                    active={filters.minCommunityRating === threshold}
+                    onClick={() => update({ minCommunityRating: threshold })}
+                  >
+                    {threshold}+
+                  </Chip>
+                ))}
+              </ChipGroup>
+            </FilterSection>
+
+            <FilterSection title="Features">
+              <ChipGroup>
+                {VIDEO_FEATURES.map((feature) => (
+                  <Chip
+                    key={feature}
+                    active={filters.features.includes(feature)}
+                    onClick={() => update({ features: toggle(filters.features, feature) })}
+                  >
+                    {feature}
+                  </Chip>
+                ))}
+              </ChipGroup>
+            </FilterSection>
+
+            <FilterSection title="Video type">
+              <ChipGroup>
+                {VIDEO_TYPES.map((type) => (
+                  <Chip
+                    key={type}
+                    active={filters.videoTypes.includes(type)}
+                    onClick={() => update({ videoTypes: toggle(filters.videoTypes, type) })}
+                  >
+                    {type === "Dvd" ? "DVD" : type === "Iso" ? "ISO" : formatEnumLabel(type)}
+                  </Chip>
+                ))}
+              </ChipGroup>
+            </FilterSection>
+
+            {options === null ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <>
+                <CheckboxSection
+                  title="Genres"
+                  values={options.genres}
+                  selected={filters.genres}
+                  onToggle={(genre) => update({ genres: toggle(filters.genres, genre) })}
+                />
+
+                {decades.length > 0 && (
+                  <FilterSection title="Decades">
+                    <ChipGroup>
+                      {decades.map((decade) => (
+                        <Chip
+                          key={decade}
+                          active={filters.decades.includes(decade)}
+                          onClick={() => update({ decades: toggle(filters.decades, decade) })}
+                        >
+                          {decade}s
+                        </Chip>
+                      ))}
+                    </ChipGroup>
+                  </FilterSection>
+                )}
+
+                {options.years.length > 0 && (
+                  <FilterSection title="Years">
+                    <div className="max-h-32 overflow-y-auto">
+                      <ChipGroup>
+                        {options.years.map((year) => (
+                          <Chip
+                            key={year}
+                            active={filters.years.includes(year)}
+                            onClick={() => update({ years: toggle(filters.years, year) })}
+                          >
+                            {year}
+                          </Chip>
+                        ))}
+                      </ChipGroup>
+                    </div>
+                  </FilterSection>
+                )}
+
+                {options.officialRatings.length > 0 && (
+                  <FilterSection title="Parental rating">
+                    <ChipGroup>
+                      {options.officialRatings.map((rating) => (
+                        <Chip
+                          key={rating}
+                          active={filters.officialRatings.includes(rating)}
+                          onClick={() =>
+                            update({ officialRatings: toggle(filters.officialRatings, rating) })
+                          }
+                        >
+                          {rating}
+                        </Chip>
+                      ))}
+                    </ChipGroup>
+                  </FilterSection>
+                )}
+
+                <CheckboxSection
+                  title="Studios"
+                  values={options.studios}
+                  selected={filters.studios}
+                  onToggle={(studio) => update({ studios: toggle(filters.studios, studio) })}
+                />
+
+                <CheckboxSection
+                  title="Tags"
+                  values={options.tags}
+                  selected={filters.tags}
+                  onToggle={(tag) => update({ tags: toggle(filters.tags, tag) })}
+                />
+              </>
+            )}
+          </div>
+        </ScrollArea>
+
+        <SheetFooter className="border-t">
+          <Button
+            variant="outline"
+            disabled={activeCount === 0}
+            onClick={() => onChange(EMPTY_LIBRARY_FILTERS)}
+          >
+            Clear all
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function FilterSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="space-y-2">
+      <h4 className="text-sm font-medium">{title}</h4>
+      {children}
+    </section>
+  );
+}
+
+function ChipGroup({ children }: { children: React.ReactNode }) {
+  return <div className="flex flex-wrap gap-1.5">{children}</div>;
+}
+
+function Chip({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      className={`rounded-full border px-3 py-1 text-xs transition-colors cursor-pointer ${
+        active
+          ? "border-primary bg-primary text-primary-foreground"
+          : "hover:bg-accent"
+      }`}
+      onClick={onClick}
+      aria-pressed={active}
+    >
+      {children}
+    </button>
+  );
+}
+
+function CheckboxSection({
+  title,
+  values,
+  selected,
+  onToggle,
+}: {
+  title: string;
+  values: string[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}) {
+  if (values.length === 0) return null;
+
+  return (
+    <FilterSection title={title}>
+      <div className="max-h-48 space-y-1 overflow-y-auto rounded-md border p-2">
+        {values.map((value) => (
+          <label
+            key={value}
+            className="flex items-center gap-2 rounded px-1 py-1 text-sm hover:bg-accent cursor-pointer"
+          >
+            <Checkbox
+              checked={selected.includes(value)}
+              onCheckedChange={() => onToggle(value)}
+            />
+            <span className="truncate">{value}</span>
+          </label>
+        ))}
+      </div>
+    </FilterSection>
+  );
+}
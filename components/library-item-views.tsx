@@ -0,0 +1,137 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { BaseItemDto } from "@jellyfin/sdk/lib/generated-client/models";
+import { Check, Film, Star } from "lucide-react";
+import { formatRuntime } from "@/lib/utils";
+
+// Movies and shows open their own pages; everything else in a library is a series
+const getItemHref = (item: BaseItemDto) =>
+  item.Type === "Movie" ? `/movie/${item.Id}` : `/series/${item.Id}`;
+
+// Wide artwork for an item, falling back from banner to thumb to backdrop
+const getWideImageUrl = (item: BaseItemDto, serverUrl: string, preferBanner: boolean) => {
+  if (preferBanner && item.ImageTags?.Banner) {
+    return `${serverUrl}/Items/${item.Id}/Images/Banner?maxWidth=1000&quality=90`;
+  }
+  if (item.ImageTags?.Thumb) {
+    return `${serverUrl}/Items/${item.Id}/Images/Thumb?maxWidth=1000&quality=90`;
+  }
+  if (item.BackdropImageTags?.length) {
+    return `${serverUrl}/Items/${item.Id}/Images/Backdrop?maxWidth=1000&quality=90`;
+  }
+  return null;
+};
+
+export function LibraryBannerCard({
+  item,
+  serverUrl,
+}: {
+  item: BaseItemDto;
+  serverUrl: string;
+}) {
+  const [imageFailed, setImageFailed] = useState(false);
+  const imageUrl = getWideImageUrl(item, serverUrl, true);
+  const hasBanner = Boolean(item.ImageTags?.Banner);
+
+  return (
+    <Link
+      href={getItemHref(item)}
+      draggable={false}
+      className="group relative block aspect-[1000/185] w-full overflow-hidden rounded-md border bg-muted"
+    >
+      {imageUrl && !imageFailed ? (
+        <img
+          src={imageUrl}
+          alt={item.Name || ""}
+          className="size-full object-cover transition-transform duration-300 group-hover:scale-[1.02]"
+          loading="lazy"
+          onError={() => setImageFailed(true)}
+        />
+      ) : (
+        <Film className="absolute inset-0 m-auto h-6 w-6 text-muted-foreground" />
+      )}
+      {/* Banners carry the title already; other artwork needs it spelled out */}
+      {!hasBanner && (
+        <div className="absolute inset-0 flex items-center bg-gradient-to-r from-black/80 via-black/40 to-transparent px-6">
+          <span className="truncate text-xl font-semibold text-white font-poppins">
+            {item.Name}
+          </span>
+        </div>
+      )}
+      {item.UserData?.Played && (
+        <span className="absolute top-2 right-2 flex size-6 items-center justify-center rounded-full bg-primary text-primary-foreground">
+          <Check className="h-3.5 w-3.5" />
+        </span>
+      )}
+    </Link>
+  );
+}
+
+export const LIBRARY_LIST_COLUMNS = "grid-cols-[minmax(0,1fr)_4rem_6rem_5rem_4rem]";
+
+export function LibraryListHeader() {
+  return (
+    <div
+      className={`grid ${LIBRARY_LIST_COLUMNS} gap-4 border-b px-3 pb-2 text-xs font-medium uppercase tracking-wide text-muted-foreground`}
+    >
+      <span>Title</span>
+      <span>Year</span>
+      <span>Runtime</span>
+      <span>Rating</span>
+      <span>Rated</span>
+    </div>
+  );
+}
+
+export function LibraryListRow({
+  item,
+  serverUrl,
+}: {
+  item: BaseItemDto;
+  serverUrl: string;
+}) {
+  const [imageFailed, setImageFailed] = useState(!item.ImageTags?.Primary);
+
+  return (
+    <Link
+      href={getItemHref(item)}
+      draggable={false}
+      className={`grid ${LIBRARY_LIST_COLUMNS} items-center gap-4 rounded-md px-3 py-1.5 text-sm hover:bg-accent`}
+    >
+      <div className="flex min-w-0 items-center gap-3">
+        <div className="relative h-12 w-8 shrink-0 overflow-hidden rounded bg-muted">
+          {!imageFailed && (
+            <img
+              src={`${serverUrl}/Items/${item.Id}/Images/Primary?maxHeight=96&quality=90`}
+              alt=""
+              className="size-full object-cover"
+              loading="lazy"
+              onError={() => setImageFailed(true)}
+            />
+          )}
+        </div>
+        <span className="truncate font-medium">{item.Name}</span>
+        {item.UserData?.Played && (
+          <Check className="h-4 w-4 shrink-0 text-muted-foreground" />
+        )}
+      </div>
+      <span className="text-muted-foreground">{item.ProductionYear ?? "—"}</span>
+      <span className="text-muted-foreground">
+        {item.RunTimeTicks ? formatRuntime(item.RunTimeTicks) : "—"}
+      </span>
+      <span className="flex items-center gap-1 text-muted-foreground">
+        {item.CommunityRating ? (
+          <>
+            <Star className="h-3.5 w-3.5 fill-yellow-400 text-yellow-400" />
+            {item.CommunityRating.toFixed(1)}
+          </>
+        ) : (
+          "—"
+        )}
+      </span>
+      <span className="truncate text-muted-foreground">{item.OfficialRating ?? "—"}</span>
+    </Link>
+  );
+}
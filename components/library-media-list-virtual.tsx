@@ -1,8 +1,11 @@
 "use client";
 
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useAtom, useSetAtom } from "jotai";
 import { BaseItemDto } from "@jellyfin/sdk/lib/generated-client/models";
-import { VirtualInfiniteScroll } from "@/components/virtual-infinite-scroll";
+import { LibraryViewMode, VirtualInfiniteScroll } from "@/components/virtual-infinite-scroll";
+import { AlphabetRail } from "@/components/alphabet-rail";
 import { fetchLibraryItemsPage } from "@/app/actions/media";
 import {
     DropdownMenu,
@@ -28,10 +31,24 @@ import {
     Clock,
     ArrowUp,
     ArrowDown,
-    Dices
+    Dices,
+    LayoutGrid,
+    GalleryHorizontal,
+    Rows3,
+    List,
+    CheckSquare
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { LibraryFilterPanel } from "@/components/library-filter-panel";
+import {
+    EMPTY_LIBRARY_FILTERS,
+    LibraryFilters,
+    countActiveFilters,
+    parseLibraryFilters,
+    serializeLibraryFilters,
+} from "@/lib/library-filters";
+import { exitSelectionModeAtom, isSelectionModeAtom, selectAllAtom } from "@/lib/atoms";
 
 type SortField = {
     value: string;
@@ -107,6 +124,16 @@ const sortFields: SortField[] = [
     },
 ];
 
+const PAGE_SIZE = 50;
+const VIEW_MODES_KEY = "finetic-library-views";
+
+const VIEW_MODES = [
+    { value: "poster" as LibraryViewMode, label: "Posters", icon: LayoutGrid },
+    { value: "thumb" as LibraryViewMode, label: "Thumbnails", icon: GalleryHorizontal },
+    { value: "banner" as LibraryViewMode, label: "Banners", icon: Rows3 },
+    { value: "list" as LibraryViewMode, label: "List", icon: List },
+];
+
 const sortOrders = [
     { value: 'asc' as SortOrder, label: 'Ascending' },
     { value: 'desc' as SortOrder, label: 'Descending' },
@@ -125,9 +152,37 @@ export function LibraryMediaListVirtual({
     totalCount,
     serverUrl,
 }: LibraryMediaListVirtualProps) {
-    const [items, setItems] = useState<BaseItemDto[]>(mediaItems);
+    const router = useRouter();
+    const pathname = usePathname();
+    const searchParams = useSearchParams();
+    const [items, setItems] = useState<(BaseItemDto | undefined)[]>(mediaItems);
     const [loading, setLoading] = useState(false);
-    const [hasNextPage, setHasNextPage] = useState(mediaItems.length < totalCount);
+    const [matchingCount, setMatchingCount] = useState(totalCount);
+    const [viewMode, setViewMode] = useState<LibraryViewMode>("poster");
+    const [scrollRequest, setScrollRequest] = useState<{ index: number; id: number } | null>(null);
+    const [isSelectionMode, setIsSelectionMode] = useAtom(isSelectionModeAtom);
+    const selectAll = useSetAtom(selectAllAtom);
+    const exitSelectionMode = useSetAtom(exitSelectionModeAtom);
+
+    // Pages are fetched as they scroll into view; the server page already holds the first one
+    const requestedPages = useRef(new Set<number>([0]));
+    const visibleRange = useRef({ start: 0, end: PAGE_SIZE - 1 });
+    // Bumped on every reset so responses for an old sort or filter are dropped
+    const generation = useRef(0);
+    const isFirstLoad = useRef(true);
+
+    // Filters live in the query string so filtered views can be shared and bookmarked
+    const filterQuery = serializeLibraryFilters(parseLibraryFilters(searchParams)).toString();
+    const filters = useMemo(
+        () => parseLibraryFilters(new URLSearchParams(filterQuery)),
+        [filterQuery]
+    );
+    const activeFilterCount = countActiveFilters(filters);
+
+    const handleFiltersChange = (nextFilters: LibraryFilters) => {
+        const query = serializeLibraryFilters(nextFilters).toString();
+        router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+    };
 
     // Sorting and filtering state
     const [sortField, setSortField] = useState<string>("SortName");
@@ -140,43 +195,91 @@ export function LibraryMediaListVirtual({
         setRerollTrigger(prev => prev + 1);
     };
 
-    // Reset items when sort/search changes
+    // Each library remembers the view it was last shown in
     useEffect(() => {
-        const loadInitialItems = async () => {
-            setLoading(true);
-            try {
-                const newItems = await fetchLibraryItemsPage(libraryId, 0, 50, sortField, sortOrder, searchQuery);
-                setItems(newItems);
-                setHasNextPage(newItems.length < totalCount);
-            } catch (error) {
-                console.error("Failed to load initial items:", error);
-            } finally {
-                setLoading(false);
-            }
-        };
-
-        loadInitialItems();
-    }, [sortField, sortOrder, searchQuery, rerollTrigger, libraryId, totalCount]);
+        try {
+            const savedViews = JSON.parse(localStorage.getItem(VIEW_MODES_KEY) || "{}");
+            setViewMode(VIEW_MODES.some((mode) => mode.value === savedViews[libraryId])
+                ? savedViews[libraryId]
+                : "poster");
+        } catch {
+            setViewMode("poster");
+        }
+    }, [libraryId]);
 
-    const loadMore = useCallback(async () => {
-        if (loading || !hasNextPage) return;
+    const handleViewModeChange = (mode: LibraryViewMode) => {
+        setViewMode(mode);
+        try {
+            const savedViews = JSON.parse(localStorage.getItem(VIEW_MODES_KEY) || "{}");
+            localStorage.setItem(VIEW_MODES_KEY, JSON.stringify({ ...savedViews, [libraryId]: mode }));
+        } catch (error) {
+            console.error("Failed to save library view:", error);
+        }
+    };
 
-        setLoading(true);
+    const loadPage = useCallback(async (page: number) => {
+        const requestGeneration = generation.current;
+        requestedPages.current.add(page);
         try {
-            const newItems = await fetchLibraryItemsPage(libraryId, items.length, 50, sortField, sortOrder, searchQuery);
-            if (newItems.length > 0) {
-                setItems(prev => [...prev, ...newItems]);
-                setHasNextPage(items.length + newItems.length < totalCount);
-            } else {
-                setHasNextPage(false);
-            }
+            const result = await fetchLibraryItemsPage(libraryId, page * PAGE_SIZE, PAGE_SIZE, sortField, sortOrder, searchQuery, filters);
+            if (requestGeneration !== generation.current) return;
+            setMatchingCount(result.totalRecordCount);
+            setItems(prev => {
+                const next = [...prev];
+                result.items.forEach((item, offset) => {
+                    next[page * PAGE_SIZE + offset] = item;
+                });
+                return next;
+            });
         } catch (error) {
-            console.error("Failed to load more items:", error);
-            setHasNextPage(false);
-        } finally {
-            setLoading(false);
+            console.error("Failed to load items:", error);
+            // Let the page be retried when it next scrolls into view
+            if (requestGeneration === generation.current) {
+                requestedPages.current.delete(page);
+            }
+        }
+    }, [libraryId, sortField, sortOrder, searchQuery, filters]);
+
+    const loadRange = useCallback((startIndex: number, endIndex: number) => {
+        const firstPage = Math.floor(startIndex / PAGE_SIZE);
+        const lastPage = Math.floor(endIndex / PAGE_SIZE);
+        for (let page = firstPage; page <= lastPage; page++) {
+            if (!requestedPages.current.has(page)) loadPage(page);
+        }
+    }, [loadPage]);
+
+    const handleRangeChange = useCallback((startIndex: number, endIndex: number) => {
+        visibleRange.current = { start: startIndex, end: endIndex };
+        loadRange(startIndex, endIndex);
+    }, [loadRange]);
+
+    // Reset items when sort/search/filters change
+    useEffect(() => {
+        if (isFirstLoad.current) {
+            isFirstLoad.current = false;
+            return;
         }
-    }, [libraryId, items.length, totalCount, loading, hasNextPage, sortField, sortOrder, searchQuery]);
+
+        generation.current += 1;
+        const resetGeneration = generation.current;
+        requestedPages.current = new Set();
+        setItems([]);
+        setLoading(true);
+
+        loadPage(0).finally(() => {
+            if (resetGeneration === generation.current) setLoading(false);
+        });
+        loadRange(visibleRange.current.start, visibleRange.current.end);
+    }, [loadPage, loadRange, rerollTrigger]);
+
+    const handleSelectAllInView = () => {
+        const { start, end } = visibleRange.current;
+        selectAll(items.slice(start, end + 1).filter((item): item is BaseItemDto => Boolean(item)));
+    };
+
+    const handleLetterJump = (index: number) => {
+        setScrollRequest({ index, id: Date.now() });
+    };
 
     const selectedFieldLabel = sortFields.find((field) => field.value === sortField)?.label || "Name";
     const selectedOrderLabel = sortOrders.find((order) => order.value === sortOrder)?.label || "Ascending";
@@ -200,6 +303,53 @@ export function LibraryMediaListVirtual({
 
                 {/* Sort Controls */}
                 <div className="flex items-center gap-2">
+                    {/* Selection Toggle */}
+                    {isSelectionMode && (
+                        <Button variant="outline" size="sm" onClick={handleSelectAllInView}>
+                            Select all in view
+                        </Button>
+                    )}
+                    <Button
+                        variant={isSelectionMode ? "secondary" : "outline"}
+                        size="sm"
+                        className="gap-2"
+                        onClick={() => isSelectionMode ? exitSelectionMode() : setIsSelectionMode(true)}
+                        aria-pressed={isSelectionMode}
+                    >
+                        <CheckSquare className="h-4 w-4" />
+                        {isSelectionMode ? "Done" : "Select"}
+                    </Button>
+
+                    {/* View Mode Toggle */}
+                    <div className="flex items-center rounded-md border p-0.5">
+                        {VIEW_MODES.map((mode) => (
+                            <TooltipProvider key={mode.value}>
+                                <Tooltip>
+                                    <TooltipTrigger asChild>
+                                        <Button
+                                            variant={viewMode === mode.value ? "secondary" : "ghost"}
+                                            size="icon"
+                                            className="h-7 w-7"
+                                            onClick={() => handleViewModeChange(mode.value)}
+                                            aria-pressed={viewMode === mode.value}
+                                        >
+                                            <mode.icon className="h-4 w-4" />
+                                        </Button>
+                                    </TooltipTrigger>
+                                    <TooltipContent>
+                                        <p>{mode.label}</p>
+                                    </TooltipContent>
+                                </Tooltip>
+                            </TooltipProvider>
+                        ))}
+                    </div>
+
+                    <LibraryFilterPanel
+                        libraryId={libraryId}
+                        filters={filters}
+                        onChange={handleFiltersChange}
+                    />
+
                     {/* Sort Field Dropdown */}
                     <DropdownMenu>
                         <DropdownMenuTrigger asChild>
@@ -262,16 +412,45 @@ export function LibraryMediaListVirtual({
                 </div>
             </div>
 
+            {activeFilterCount > 0 && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <span className="font-mono">{matchingCount} matching</span>
+                    <Button
+                        variant="link"
+                        size="sm"
+                        className="h-auto p-0"
+                        onClick={() => handleFiltersChange(EMPTY_LIBRARY_FILTERS)}
+                    >
+                        Clear filters
+                    </Button>
+                </div>
+            )}
+
             {/* Virtual Infinite Scroll */}
-            <VirtualInfiniteScroll
-                libraryId={libraryId}
-                serverUrl={serverUrl}
-                items={items}
-                totalCount={totalCount}
-                onLoadMore={loadMore}
-                loading={loading}
-                hasNextPage={hasNextPage}
-            />
+            <div className="flex gap-3">
+                <div className="min-w-0 flex-1">
+                    <VirtualInfiniteScroll
+                        serverUrl={serverUrl}
+                        items={items}
+                        totalCount={matchingCount}
+                        viewMode={viewMode}
+                        onRangeChange={handleRangeChange}
+                        scrollRequest={scrollRequest}
+                        loading={loading}
+                    />
+                </div>
+
+                {/* The letter rail only lines up with the grid when it's sorted by name */}
+                {sortField === "SortName" && matchingCount > 0 && (
+                    <AlphabetRail
+                        libraryId={libraryId}
+                        searchQuery={searchQuery}
+                        filters={filters}
+                        descending={sortOrder === "desc"}
+                        onJump={handleLetterJump}
+                    />
+                )}
+            </div>
         </div>
     );
 }
@@ -0,0 +1,370 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  BaseItemDto,
+  SeriesTimerInfoDto,
+  TimerInfoDto,
+} from "@jellyfin/sdk/lib/generated-client/models";
+import {
+  CalendarClock,
+  Film,
+  LayoutGrid,
+  List,
+  Loader2,
+  Play,
+  Trash2,
+  Tv,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { EpgGrid } from "@/components/epg-grid";
+import { useMediaPlayer } from "@/contexts/MediaPlayerContext";
+import type { MediaToPlay } from "@/lib/atoms";
+import {
+  cancelRecording,
+  cancelSeriesRecording,
+  deleteRecording,
+  fetchRecordings,
+  fetchSeriesTimers,
+  fetchTimers,
+} from "@/app/actions";
+
+type LiveTvTab = "guide" | "channels" | "recordings" | "schedule";
+
+const formatSchedule = (value?: string | null) =>
+  value
+    ? new Date(value).toLocaleString([], {
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : "";
+
+// How far into its slot the current program is, 0-100
+const programProgress = (program?: BaseItemDto | null) => {
+  const start = Date.parse(program?.StartDate ?? "");
+  const end = Date.parse(program?.EndDate ?? "");
+  if (Number.isNaN(start) || Number.isNaN(end) || end <= start) return 0;
+  return Math.min(Math.max(((Date.now() - start) / (end - start)) * 100, 0), 100);
+};
+
+interface LiveTvProps {
+  channels: BaseItemDto[];
+  serverUrl: string;
+}
+
+// Guide, channel list, recordings and recording schedule of the server's tuners
+export function LiveTv({ channels, serverUrl }: LiveTvProps) {
+  const [tab, setTab] = useState<LiveTvTab>("guide");
+
+  return (
+    <Tabs value={tab} onValueChange={(value) => setTab(value as LiveTvTab)}>
+      <TabsList>
+        <TabsTrigger value="guide" className="flex items-center gap-2">
+          <LayoutGrid className="h-4 w-4" />
+          Guide
+        </TabsTrigger>
+        <TabsTrigger value="channels" className="flex items-center gap-2">
+          <List className="h-4 w-4" />
+          Channels
+        </TabsTrigger>
+        <TabsTrigger value="recordings" className="flex items-center gap-2">
+          <Film className="h-4 w-4" />
+          Recordings
+        </TabsTrigger>
+        <TabsTrigger value="schedule" className="flex items-center gap-2">
+          <CalendarClock className="h-4 w-4" />
+          Schedule
+        </TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="guide" className="mt-4">
+        {channels.length > 0 ? (
+          <EpgGrid channels={channels} serverUrl={serverUrl} />
+        ) : (
+          <EmptyState message="No channels found. Set up a tuner in the server's Live TV settings." />
+        )}
+      </TabsContent>
+      <TabsContent value="channels" className="mt-4">
+        <ChannelList channels={channels} serverUrl={serverUrl} />
+      </TabsContent>
+      <TabsContent value="recordings" className="mt-4">
+        <RecordingsGrid serverUrl={serverUrl} />
+      </TabsContent>
+      <TabsContent value="schedule" className="mt-4">
+        <RecordingSchedule />
+      </TabsContent>
+    </Tabs>
+  );
+}
+
+function EmptyState({ message }: { message: string }) {
+  return <p className="py-12 text-center text-muted-foreground">{message}</p>;
+}
+
+function ChannelList({
+  channels,
+  serverUrl,
+}: {
+  channels: BaseItemDto[];
+  serverUrl: string;
+}) {
+  const { playMedia } = useMediaPlayer();
+
+  if (channels.length === 0) {
+    return <EmptyState message="No channels found." />;
+  }
+
+  return (
+    <div className="divide-y rounded-md border bg-background/60">
+      {channels.map((channel) => {
+        const program = channel.CurrentProgram;
+
+        return (
+          <button
+            key={channel.Id}
+            className="group flex w-full items-center gap-4 px-4 py-3 text-left hover:bg-accent cursor-pointer"
+            onClick={() =>
+              playMedia({ id: channel.Id!, name: channel.Name || "", type: "TvChannel" })
+            }
+          >
+            <span className="w-10 shrink-0 text-right font-mono text-sm text-muted-foreground">
+              {channel.ChannelNumber}
+            </span>
+            <div className="flex h-10 w-16 shrink-0 items-center justify-center">
+              {channel.ImageTags?.Primary ? (
+                <img
+                  src={`${serverUrl}/Items/${channel.Id}/Images/Primary?maxHeight=80&quality=90`}
+                  alt=""
+                  className="max-h-10 max-w-16 object-contain"
+                  loading="lazy"
+                />
+              ) : (
+                <Tv className="h-5 w-5 text-muted-foreground" />
+              )}
+            </div>
+            <div className="min-w-0 flex-1">
+              <div className="truncate font-medium">{channel.Name}</div>
+              {program ? (
+                <div className="mt-1 space-y-1">
+                  <div className="truncate text-sm text-muted-foreground">
+                    {program.Name}
+                  </div>
+                  <Progress value={programProgress(program)} className="h-1 max-w-xs" />
+                </div>
+              ) : (
+                <div className="text-sm text-muted-foreground">No guide data</div>
+              )}
+            </div>
+            <Play className="h-4 w-4 shrink-0 opacity-0 transition-opacity group-hover:opacity-100" />
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+function RecordingsGrid({ serverUrl }: { serverUrl: string }) {
+  const { playMedia } = useMediaPlayer();
+  const [recordings, setRecordings] = useState<BaseItemDto[] | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRecordings().then(setRecordings);
+  }, []);
+
+  const handleDelete = async (recording: BaseItemDto) => {
+    setDeletingId(recording.Id!);
+    try {
+      await deleteRecording(recording.Id!);
+      setRecordings((prev) => prev?.filter((item) => item.Id !== recording.Id) ?? null);
+      toast.success(`Deleted ${recording.Name}`);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to delete recording");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (recordings === null) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (recordings.length === 0) {
+    return <EmptyState message="No recordings yet." />;
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 md:grid-cols-4 xl:grid-cols-5">
+      {recordings.map((recording) => (
+        <div key={recording.Id} className="group">
+          <button
+            className="relative block aspect-video w-full overflow-hidden rounded-md border bg-muted cursor-pointer"
+            onClick={() =>
+              playMedia({
+                id: recording.Id!,
+                name: recording.Name || "",
+                type: recording.Type as MediaToPlay["type"],
+              })
+            }
+            aria-label={`Play ${recording.Name}`}
+          >
+            {recording.ImageTags?.Primary ? (
+              <img
+                src={`${serverUrl}/Items/${recording.Id}/Images/Primary?maxWidth=480&quality=90`}
+                alt=""
+                className="size-full object-cover transition-transform duration-300 group-hover:scale-105"
+                loading="lazy"
+              />
+            ) : (
+              <Film className="absolute inset-0 m-auto h-8 w-8 text-muted-foreground" />
+            )}
+            <Play className="absolute inset-0 m-auto h-10 w-10 fill-white text-white opacity-0 drop-shadow transition-opacity group-hover:opacity-100" />
+          </button>
+          <div className="mt-2 flex items-start gap-2 px-1">
+            <div className="min-w-0 flex-1">
+              <div className="truncate text-sm font-medium">{recording.Name}</div>
+              <div className="truncate text-xs text-muted-foreground">
+                {[recording.EpisodeTitle, formatSchedule(recording.StartDate ?? recording.DateCreated)]
+                  .filter(Boolean)
+                  .join(" • ")}
+              </div>
+            </div>
+            {recording.CanDelete && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7 shrink-0"
+                disabled={deletingId === recording.Id}
+                onClick={() => handleDelete(recording)}
+                aria-label={`Delete ${recording.Name}`}
+              >
+                {deletingId === recording.Id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Trash2 className="h-4 w-4" />
+                )}
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function RecordingSchedule() {
+  const [timers, setTimers] = useState<TimerInfoDto[] | null>(null);
+  const [seriesTimers, setSeriesTimers] = useState<SeriesTimerInfoDto[]>([]);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const loadSchedule = useCallback(async () => {
+    const [upcoming, series] = await Promise.all([fetchTimers(), fetchSeriesTimers()]);
+    setTimers(upcoming);
+    setSeriesTimers(series);
+  }, []);
+
+  useEffect(() => {
+    loadSchedule();
+  }, [loadSchedule]);
+
+  const handleCancel = async (id: string, cancel: (id: string) => Promise<void>) => {
+    setCancellingId(id);
+    try {
+      await cancel(id);
+      toast.success("Recording cancelled");
+      // Cancelling a series also drops its upcoming timers
+      await loadSchedule();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to cancel recording");
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  if (timers === null) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const cancelButton = (id: string, cancel: (id: string) => Promise<void>) => (
+    <Button
+      variant="ghost"
+      size="sm"
+      disabled={cancellingId === id}
+      onClick={() => handleCancel(id, cancel)}
+    >
+      {cancellingId === id ? (
+        <Loader2 className="h-4 w-4 animate-spin" />
+      ) : (
+        <X className="h-4 w-4" />
+      )}
+      Cancel
+    </Button>
+  );
+
+  return (
+    <div className="grid gap-8 lg:grid-cols-2">
+      <section>
+        <h3 className="mb-3 text-lg font-semibold font-poppins">Upcoming recordings</h3>
+        {timers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing scheduled.</p>
+        ) : (
+          <div className="divide-y rounded-md border bg-background/60">
+            {timers.map((timer) => (
+              <div key={timer.Id} className="flex items-center gap-4 px-4 py-3">
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-medium">{timer.Name}</div>
+                  <div className="truncate text-sm text-muted-foreground">
+                    {[timer.ChannelName, formatSchedule(timer.StartDate)]
+                      .filter(Boolean)
+                      .join(" • ")}
+                  </div>
+                </div>
+                {cancelButton(timer.Id!, cancelRecording)}
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section>
+        <h3 className="mb-3 text-lg font-semibold font-poppins">Series</h3>
+        {seriesTimers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No series are being recorded.</p>
+        ) : (
+          <div className="divide-y rounded-md border bg-background/60">
+            {seriesTimers.map((seriesTimer) => (
+              <div key={seriesTimer.Id} className="flex items-center gap-4 px-4 py-3">
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-medium">{seriesTimer.Name}</div>
+                  <div className="truncate text-sm text-muted-foreground">
+                    {seriesTimer.RecordAnyChannel
+                      ? "Any channel"
+                      : seriesTimer.ChannelName}
+                    {seriesTimer.RecordNewOnly ? " • New episodes only" : ""}
+                  </div>
+                </div>
+                {cancelButton(seriesTimer.Id!, cancelSeriesRecording)}
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Loader2, X } from "lucide-react";
+import { LyricLine } from "@jellyfin/sdk/lib/generated-client/models";
+
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { fetchLyrics } from "@/app/actions";
+import { cn } from "@/lib/utils";
+
+interface LyricsPanelProps {
+  itemId: string;
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+  onClose: () => void;
+}
+
+const ticksToSeconds = (ticks: number) => ticks / 10000000;
+
+// Lyrics for the playing track; synced lyrics follow playback and seek on click
+export function LyricsPanel({ itemId, currentTime, onSeek, onClose }: LyricsPanelProps) {
+  const [lines, setLines] = useState<LyricLine[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const activeLineRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setLines(null);
+
+    fetchLyrics(itemId)
+      .then((lyrics) => {
+        if (!cancelled) setLines(lyrics?.Lyrics?.length ? lyrics.Lyrics : null);
+      })
+      .catch((error) => {
+        console.error("Failed to fetch lyrics:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [itemId]);
+
+  const isSynced = !!lines?.length && lines.every((line) => line.Start != null);
+
+  let activeIndex = -1;
+  if (isSynced) {
+    lines!.forEach((line, index) => {
+      if (ticksToSeconds(line.Start!) <= currentTime) activeIndex = index;
+    });
+  }
+
+  useEffect(() => {
+    activeLineRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [activeIndex]);
+
+  return (
+    <div className="fixed bottom-24 right-4 z-50 flex h-[60vh] w-96 max-w-[calc(100vw-2rem)] flex-col rounded-xl border bg-background/95 shadow-xl backdrop-blur">
+      <div className="flex items-center justify-between px-4 pt-3 pb-2">
+        <h3 className="font-semibold">Lyrics</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-7"
+          onClick={onClose}
+          aria-label="Close lyrics"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : !lines ? (
+          <p className="px-4 py-8 text-center text-sm text-muted-foreground">
+            No lyrics for this track
+          </p>
+        ) : (
+          <div className="space-y-1 px-4 pb-4">
+            {lines.map((line, index) =>
+              isSynced ? (
+                <button
+                  key={index}
+                  ref={index === activeIndex ? activeLineRef : undefined}
+                  className={cn(
+                    "block w-full rounded-md px-2 py-1 text-left text-lg font-medium transition-colors cursor-pointer hover:bg-accent",
+                    index === activeIndex
+                      ? "text-foreground"
+                      : "text-muted-foreground/60"
+                  )}
+                  onClick={() => onSeek(ticksToSeconds(line.Start!))}
+                >
+                  {line.Text || "♪"}
+                </button>
+              ) : (
+                <p key={index} className="px-2 text-base text-muted-foreground">
+                  {line.Text || " "}
+                </p>
+              )
+            )}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
@@ -19,7 +19,9 @@ import {
 } from "@/components/ui/dialog";
 import { MediaInfoDialog } from "@/components/media-info-dialog";
 import { ImageEditorDialog } from "@/components/image-editor-dialog";
-import { Info, Download, Play, ArrowLeft, Eye, EyeOff } from "lucide-react";
+import { FavoriteButton } from "@/components/favorite-button";
+import { MetadataEditorDialog } from "@/components/metadata-editor-dialog";
+import { Info, Download, Play, ArrowLeft, Eye, EyeOff, FilePen } from "lucide-react";
 import {
   getDownloadUrl,
   getUserWithPolicy,
@@ -51,6 +53,7 @@ export function MediaActions({ movie, show, episode }: MediaActionsProps) {
     useState<MediaSourceInfo | null>(null);
   const [userPolicy, setUserPolicy] = useState<UserPolicy | null>(null);
   const [isPlayed, setIsPlayed] = useState(media?.UserData?.Played || false);
+  const [showMetadataEditor, setShowMetadataEditor] = useState(false);
 
   // Determine if this is a resume or new play
   const hasProgress =
@@ -342,6 +345,8 @@ export function MediaActions({ movie, show, episode }: MediaActionsProps) {
           </Button>
         )}
 
+        <FavoriteButton itemId={media.Id!} isFavorite={media.UserData?.IsFavorite} />
+
         <Dialog>
           <DialogTrigger asChild>
             <Button variant="outline" size="icon">
@@ -357,10 +362,26 @@ export function MediaActions({ movie, show, episode }: MediaActionsProps) {
         </Dialog>
 
         {userPolicy?.IsAdministrator && (
-          <ImageEditorDialog
-            itemId={media.Id!}
-            itemName={media.Name || "Unknown"}
-          />
+          <>
+            <ImageEditorDialog
+              itemId={media.Id!}
+              itemName={media.Name || "Unknown"}
+            />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setShowMetadataEditor(true)}
+              title="Edit metadata"
+            >
+              <FilePen className="h-4 w-4" />
+            </Button>
+            <MetadataEditorDialog
+              itemId={media.Id!}
+              itemName={media.Name || "Unknown"}
+              open={showMetadataEditor}
+              onOpenChange={setShowMetadataEditor}
+            />
+          </>
         )}
       </div>
       {(hasDolbyDigital(selectedVersion) ||
@@ -4,9 +4,9 @@ import React, { useState, useEffect, useRef } from "react";
 import Link from "next/link";
 import { Skeleton } from "@/components/ui/skeleton";
 import { BaseItemDto } from "@jellyfin/sdk/lib/generated-client/models";
-import { Play, Eye, EyeOff } from "lucide-react";
+import { Play, Eye, EyeOff, Heart } from "lucide-react";
 import { useMediaPlayer } from "@/contexts/MediaPlayerContext";
-import { markItemAsPlayed, markItemAsUnplayed } from "@/app/actions/playback";
+import { markItemAsPlayed, markItemAsUnplayed, setItemFavorite } from "@/app/actions/playback";
 import { toast } from "sonner";
 import {
   Popover,
@@ -54,6 +54,10 @@ export function MediaCard({
     linkHref = `/episode/${item.Id}`;
   } else if (item.Type === "Season") {
     linkHref = `/season/${item.Id}`;
+  } else if (item.Type === "BoxSet") {
+    linkHref = `/collection/${item.Id}`;
+  } else if (item.Type === "Playlist") {
+    linkHref = `/playlist/${item.Id}`;
   } else {
     linkHref = `/series/${item.Id}`;
   }
@@ -70,6 +74,8 @@ export function MediaCard({
   const [imageLoaded, setImageLoaded] = useState(false);
   const [blurDataUrl, setBlurDataUrl] = useState<string | null>(null);
   const [isPlayed, setIsPlayed] = useState(item.UserData?.Played || false);
+  const [isFavorite, setIsFavorite] = useState(item.UserData?.IsFavorite || false);
+  const [isSavingFavorite, setIsSavingFavorite] = useState(false);
 
   // Adjust image URL parameters based on container type
   const imageUrl = continueWatching
@@ -119,6 +125,10 @@ export function MediaCard({
     setIsPlayed(item.UserData?.Played || false);
   }, [item.UserData?.Played]);
 
+  useEffect(() => {
+    setIsFavorite(item.UserData?.IsFavorite || false);
+  }, [item.UserData?.IsFavorite]);
+
   // Calculate progress percentage from resume position
   let progressPercentage = percentageWatched;
   if (showProgress && resumePosition && item.RunTimeTicks) {
@@ -182,6 +192,26 @@ export function MediaCard({
     }
   };
 
+  const handleToggleFavorite = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (isSavingFavorite) return;
+
+    const next = !isFavorite;
+    setIsFavorite(next);
+    setIsSavingFavorite(true);
+    try {
+      await setItemFavorite(item.Id!, next);
+      toast.success(next ? "Added to favourites" : "Removed from favourites");
+    } catch (error) {
+      setIsFavorite(!next);
+      toast.error("Failed to update favourites");
+    } finally {
+      setIsSavingFavorite(false);
+    }
+  };
+
   const handleMouseEnter = () => {
     hoverTimeoutRef.current = setTimeout(() => {
       setPopoverOpen(true);
@@ -258,8 +288,8 @@ export function MediaCard({
           </div>
         </div>
 
-        {/* Mark as viewed button */}
-        <div className="absolute top-2 left-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200 z-10">
+        {/* Mark as viewed and favourite buttons */}
+        <div className="absolute top-2 left-2 flex gap-1.5 opacity-0 group-hover:opacity-100 transition-opacity duration-200 z-10">
           {isPlayed ? (
             <button
               onClick={handleMarkAsUnplayed}
@@ -277,6 +307,16 @@ export function MediaCard({
               <Eye className="h-4 w-4 text-white" />
             </button>
           )}
+          <button
+            onClick={handleToggleFavorite}
+            disabled={isSavingFavorite}
+            className="bg-black/50 hover:bg-black/70 backdrop-blur-sm rounded-full p-1.5 transition-all duration-200 hover:scale-105 cursor-pointer"
+            title={isFavorite ? "Remove from favourites" : "Add to favourites"}
+          >
+            <Heart
+              className={`h-4 w-4 ${isFavorite ? "fill-red-500 text-red-500" : "text-white"}`}
+            />
+          </button>
         </div>
 
         {/* Contextual Actions */}
@@ -329,7 +369,7 @@ export function MediaCard({
   if (!popoverEnabled) {
     return (
       <div
-        className={`cursor-pointer group overflow-hidden transition select-none ${continueWatching ? "w-96" : fullWidth ? "w-full" : "w-48"
+        className={`cursor-pointer group overflow-hidden transition select-none ${fullWidth ? "w-full" : continueWatching ? "w-96" : "w-48"
           }`}
       >
         {cardInnerJsx}
@@ -343,7 +383,7 @@ export function MediaCard({
         <div
           onMouseEnter={handleMouseEnter}
           onMouseLeave={handleMouseLeave}
-          className={`cursor-pointer group overflow-hidden transition select-none ${continueWatching ? "w-96" : fullWidth ? "w-full" : "w-48"
+          className={`cursor-pointer group overflow-hidden transition select-none ${fullWidth ? "w-full" : continueWatching ? "w-96" : "w-48"
             }`}
         >
           {cardInnerJsx}
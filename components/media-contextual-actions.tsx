@@ -25,13 +25,29 @@ import {
     MoreVertical,
     Eye,
     EyeOff,
+    ListPlus,
+    ListEnd,
+    Shuffle,
+    Cast,
+    ScanSearch,
 } from "lucide-react";
+import { useSetAtom } from "jotai";
 import { useMediaPlayer } from "@/contexts/MediaPlayerContext";
+import { useQueueActions, QueueAction } from "@/hooks/useQueueActions";
 import { toast } from "sonner";
-import { getDownloadUrl } from "@/app/actions/utils";
+import { getDownloadUrl, getUserWithPolicy, type UserPolicy } from "@/app/actions/utils";
+import { getUser } from "@/app/actions/auth";
 import { markItemAsPlayed, markItemAsUnplayed, removeFromNextUp } from "@/app/actions/playback";
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
+import { SubtitleManagerDialog } from "@/components/subtitle-manager-dialog";
+import { PlayOnDialog } from "@/components/play-on-dialog";
+import { DownloadDialog } from "@/components/download-dialog";
+import { AddToCollectionDialog } from "@/components/add-to-collection-dialog";
+import { AddToPlaylistDialog } from "@/components/add-to-playlist-dialog";
+import { MetadataEditorDialog } from "@/components/metadata-editor-dialog";
+import { IdentifyDialog } from "@/components/identify-dialog";
+import { toggleSelectionAtom } from "@/lib/atoms";
 
 interface MediaContextualActionsProps {
     item: BaseItemDto;
@@ -45,6 +61,7 @@ interface MediaContextualActionsProps {
     onCopyStreamUrl?: () => void;
     onDelete?: () => void;
     onEditMetadata?: () => void;
+    onIdentify?: () => void;
     onModifyImages?: () => void;
     onModifySubtitles?: () => void;
     onMediaInfo?: () => void;
@@ -63,14 +80,33 @@ export function MediaContextualActions({
     onCopyStreamUrl,
     onDelete,
     onEditMetadata,
+    onIdentify,
     onModifyImages,
     onModifySubtitles,
     onMediaInfo,
     onRefreshMetadata,
 }: MediaContextualActionsProps) {
     const { playMedia, setIsPlayerVisible } = useMediaPlayer();
+    const { queueItem } = useQueueActions();
     const router = useRouter();
+    const toggleSelection = useSetAtom(toggleSelectionAtom);
     const [isPlayed, setIsPlayed] = useState(item.UserData?.Played || false);
+    const [showSubtitleManager, setShowSubtitleManager] = useState(false);
+    const [showPlayOn, setShowPlayOn] = useState(false);
+    const [showDownload, setShowDownload] = useState(false);
+    const [showAddToCollection, setShowAddToCollection] = useState(false);
+    const [showAddToPlaylist, setShowAddToPlaylist] = useState(false);
+    const [showMetadataEditor, setShowMetadataEditor] = useState(false);
+    const [showIdentify, setShowIdentify] = useState(false);
+    // Loaded the first time the menu opens, so a grid of cards doesn't each ask up front
+    const [userPolicy, setUserPolicy] = useState<UserPolicy | null>(null);
+    const [policyRequested, setPolicyRequested] = useState(false);
+    const isAdministrator = Boolean(userPolicy?.IsAdministrator);
+    const hasSubtitles = item.Type === "Movie" || item.Type === "Episode" || item.Type === "Video";
+    // Only single videos can be saved for offline viewing
+    const isDownloadable = hasSubtitles;
+    // Remote providers can only be searched for movies and shows
+    const isIdentifiable = item.Type === "Movie" || item.Type === "Series";
 
     // Update isPlayed state when item changes
     useEffect(() => {
@@ -95,11 +131,26 @@ export function MediaContextualActions({
         }
     };
 
+    const runQueueAction = async (action: QueueAction) => {
+        try {
+            const count = await queueItem(item, action);
+            if (count === 0) {
+                toast.error("Nothing to play");
+            } else if (action === "playNext") {
+                toast.success(count === 1 ? `"${item.Name}" will play next` : `${count} items will play next`);
+            } else if (action === "addToQueue") {
+                toast.success(count === 1 ? `Added "${item.Name}" to the queue` : `Added ${count} items to the queue`);
+            }
+        } catch (error) {
+            toast.error("Failed to update the queue");
+        }
+    };
+
     const handlePlayAll = async () => {
         if (onPlayAll) {
             onPlayAll();
         } else {
-            toast.info("Play all functionality not implemented yet");
+            await runQueueAction("playFromHere");
         }
     };
 
@@ -107,7 +158,7 @@ export function MediaContextualActions({
         if (onSelect) {
             onSelect();
         } else {
-            toast.info("Select functionality not implemented yet");
+            toggleSelection({ item });
         }
     };
 
@@ -115,7 +166,7 @@ export function MediaContextualActions({
         if (onAddToCollection) {
             onAddToCollection();
         } else {
-            toast.info("Add to collection functionality not implemented yet");
+            setShowAddToCollection(true);
         }
     };
 
@@ -123,15 +174,17 @@ export function MediaContextualActions({
         if (onAddToPlaylist) {
             onAddToPlaylist();
         } else {
-            toast.info("Add to playlist functionality not implemented yet");
+            setShowAddToPlaylist(true);
         }
     };
 
     const handleDownload = () => {
         if (onDownload) {
             onDownload();
+        } else if (isDownloadable) {
+            setShowDownload(true);
         } else {
-            toast.info("Download functionality not implemented yet");
+            toast.info("Only movies and episodes can be downloaded");
         }
     };
 
@@ -161,7 +214,28 @@ export function MediaContextualActions({
         if (onEditMetadata) {
             onEditMetadata();
         } else {
-            toast.info("Edit metadata functionality not implemented yet");
+            setShowMetadataEditor(true);
+        }
+    };
+
+    const loadUserPolicy = async () => {
+        setPolicyRequested(true);
+        try {
+            const currentUser = await getUser();
+            if (currentUser?.Id && item.Id) {
+                const userWithPolicy = await getUserWithPolicy(currentUser.Id, item.Id);
+                setUserPolicy(userWithPolicy?.Policy ?? null);
+            }
+        } catch (error) {
+            console.error("Failed to fetch user policy:", error);
+        }
+    };
+
+    const handleIdentify = () => {
+        if (onIdentify) {
+            onIdentify();
+        } else {
+            setShowIdentify(true);
         }
     };
 
@@ -177,7 +251,7 @@ export function MediaContextualActions({
         if (onModifySubtitles) {
             onModifySubtitles();
         } else {
-            toast.info("Modify subtitles functionality not implemented yet");
+            setShowSubtitleManager(true);
         }
     };
 
@@ -230,105 +304,187 @@ export function MediaContextualActions({
     };
 
     return (
-        <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-                <button className="absolute top-2 right-2 bg-black/50 hover:bg-black/70 backdrop-blur-sm rounded-full p-1.5 opacity-0 group-hover:opacity-100 transition-opacity duration-200 z-10 cursor-pointer">
-                    <MoreVertical className="h-4 w-4 text-white" />
-                </button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent
-                align="end"
-                className="w-56 bg-popover/95 backdrop-blur-sm border-border/50"
-                sideOffset={8}
+        <>
+            <DropdownMenu
+                onOpenChange={(open) => {
+                    if (open && !policyRequested) loadUserPolicy();
+                }}
             >
-                {/* Playback and Selection */}
-                <DropdownMenuItem onClick={handlePlay} className="cursor-pointer">
-                    <Play className="h-4 w-4" />
-                    Play
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={handlePlayAll} className="cursor-pointer">
-                    <PlayCircle className="h-4 w-4" />
-                    Play All from Here
-                </DropdownMenuItem>
-                <DropdownMenuSeparator />
+                <DropdownMenuTrigger asChild>
+                    <button className="absolute top-2 right-2 bg-black/50 hover:bg-black/70 backdrop-blur-sm rounded-full p-1.5 opacity-0 group-hover:opacity-100 transition-opacity duration-200 z-10 cursor-pointer">
+                        <MoreVertical className="h-4 w-4 text-white" />
+                    </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent
+                    align="end"
+                    className="w-56 bg-popover/95 backdrop-blur-sm border-border/50"
+                    sideOffset={8}
+                >
+                    {/* Playback and Selection */}
+                    <DropdownMenuItem onClick={handlePlay} className="cursor-pointer">
+                        <Play className="h-4 w-4" />
+                        Play
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handlePlayAll} className="cursor-pointer">
+                        <PlayCircle className="h-4 w-4" />
+                        Play All from Here
+                    </DropdownMenuItem>
+                    {item.Type !== "Movie" && item.Type !== "Episode" && (
+                        <DropdownMenuItem onClick={() => runQueueAction("shuffle")} className="cursor-pointer">
+                            <Shuffle className="h-4 w-4" />
+                            Shuffle
+                        </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem onClick={() => runQueueAction("playNext")} className="cursor-pointer">
+                        <ListPlus className="h-4 w-4" />
+                        Play Next
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => runQueueAction("addToQueue")} className="cursor-pointer">
+                        <ListEnd className="h-4 w-4" />
+                        Add to Queue
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setShowPlayOn(true)} className="cursor-pointer">
+                        <Cast className="h-4 w-4" />
+                        Play on…
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+
+                    {/* Mark as played/unplayed */}
+                    {isPlayed ? (
+                        <DropdownMenuItem onClick={handleMarkAsUnplayed} className="cursor-pointer">
+                            <EyeOff className="h-4 w-4" />
+                            Mark as Unplayed
+                        </DropdownMenuItem>
+                    ) : (
+                        <DropdownMenuItem onClick={handleMarkAsPlayed} className="cursor-pointer">
+                            <Eye className="h-4 w-4" />
+                            Mark as Played
+                        </DropdownMenuItem>
+                    )}
 
-                {/* Mark as played/unplayed */}
-                {isPlayed ? (
-                    <DropdownMenuItem onClick={handleMarkAsUnplayed} className="cursor-pointer">
-                        <EyeOff className="h-4 w-4" />
-                        Mark as Unplayed
+                    {/* Remove from Next Up - only show for episodes that are not played */}
+                    {!isPlayed && item.Type === "Episode" && (
+                        <DropdownMenuItem onClick={handleRemoveFromNextUp} className="cursor-pointer">
+                            <Trash2 className="h-4 w-4" />
+                            Remove from Next Up
+                        </DropdownMenuItem>
+                    )}
+                    <DropdownMenuSeparator />
+
+                    {/* Adding and Collection Management */}
+                    <DropdownMenuItem onClick={handleSelect} className="cursor-pointer">
+                        <CheckSquare className="h-4 w-4" />
+                        Select
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleAddToCollection} className="cursor-pointer">
+                        <Plus className="h-4 w-4" />
+                        Add to Collection
                     </DropdownMenuItem>
-                ) : (
-                    <DropdownMenuItem onClick={handleMarkAsPlayed} className="cursor-pointer">
-                        <Eye className="h-4 w-4" />
-                        Mark as Played
+                    <DropdownMenuItem
+                        onClick={handleAddToPlaylist}
+                        className="cursor-pointer"
+                    >
+                        <Plus className="h-4 w-4" />
+                        Add to Playlist
                     </DropdownMenuItem>
-                )}
+                    <DropdownMenuSeparator />
 
-                {/* Remove from Next Up - only show for episodes that are not played */}
-                {!isPlayed && item.Type === "Episode" && (
-                    <DropdownMenuItem onClick={handleRemoveFromNextUp} className="cursor-pointer">
+                    {/* File and Stream Operations */}
+                    <DropdownMenuItem onClick={handleDownload} className="cursor-pointer">
+                        <Download className="h-4 w-4" />
+                        Download
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleCopyStreamUrl} className="cursor-pointer">
+                        <Copy className="h-4 w-4" />
+                        Copy Stream URL
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleDelete} className="cursor-pointer text-destructive focus:text-destructive">
                         <Trash2 className="h-4 w-4" />
-                        Remove from Next Up
+                        Delete Episode
                     </DropdownMenuItem>
-                )}
-                <DropdownMenuSeparator />
-
-                {/* Adding and Collection Management */}
-                <DropdownMenuItem onClick={handleSelect} className="cursor-pointer">
-                    <CheckSquare className="h-4 w-4" />
-                    Select
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={handleAddToCollection} className="cursor-pointer">
-                    <Plus className="h-4 w-4" />
-                    Add to Collection
-                </DropdownMenuItem>
-                <DropdownMenuItem
-                    onClick={handleAddToPlaylist}
-                    className="cursor-pointer"
-                >
-                    <Plus className="h-4 w-4" />
-                    Add to Playlist
-                </DropdownMenuItem>
-                <DropdownMenuSeparator />
+                    <DropdownMenuSeparator />
 
-                {/* File and Stream Operations */}
-                <DropdownMenuItem onClick={handleDownload} className="cursor-pointer">
-                    <Download className="h-4 w-4" />
-                    Download
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={handleCopyStreamUrl} className="cursor-pointer">
-                    <Copy className="h-4 w-4" />
-                    Copy Stream URL
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={handleDelete} className="cursor-pointer text-destructive focus:text-destructive">
-                    <Trash2 className="h-4 w-4" />
-                    Delete Episode
-                </DropdownMenuItem>
-                <DropdownMenuSeparator />
-
-                {/* Editing and Information */}
-                <DropdownMenuItem onClick={handleEditMetadata} className="cursor-pointer">
-                    <Edit className="h-4 w-4" />
-                    Edit Metadata
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={handleModifyImages} className="cursor-pointer">
-                    <Image className="h-4 w-4" />
-                    Modify Images
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={handleModifySubtitles} className="cursor-pointer">
-                    <Subtitles className="h-4 w-4" />
-                    Modify Subtitles
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={handleMediaInfo} className="cursor-pointer">
-                    <Info className="h-4 w-4" />
-                    Media Information
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={handleRefreshMetadata} className="cursor-pointer">
-                    <RefreshCw className="h-4 w-4" />
-                    Refresh Metadata
-                </DropdownMenuItem>
-            </DropdownMenuContent>
-        </DropdownMenu>
+                    {/* Editing and Information */}
+                    {isAdministrator && (
+                        <DropdownMenuItem onClick={handleEditMetadata} className="cursor-pointer">
+                            <Edit className="h-4 w-4" />
+                            Edit Metadata
+                        </DropdownMenuItem>
+                    )}
+                    {isAdministrator && isIdentifiable && (
+                        <DropdownMenuItem onClick={handleIdentify} className="cursor-pointer">
+                            <ScanSearch className="h-4 w-4" />
+                            Identify
+                        </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem onClick={handleModifyImages} className="cursor-pointer">
+                        <Image className="h-4 w-4" />
+                        Modify Images
+                    </DropdownMenuItem>
+                    {hasSubtitles && (
+                        <DropdownMenuItem onClick={handleModifySubtitles} className="cursor-pointer">
+                            <Subtitles className="h-4 w-4" />
+                            Modify Subtitles
+                        </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem onClick={handleMediaInfo} className="cursor-pointer">
+                        <Info className="h-4 w-4" />
+                        Media Information
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleRefreshMetadata} className="cursor-pointer">
+                        <RefreshCw className="h-4 w-4" />
+                        Refresh Metadata
+                    </DropdownMenuItem>
+                </DropdownMenuContent>
+            </DropdownMenu>
+            {hasSubtitles && (
+                <SubtitleManagerDialog
+                    itemId={item.Id!}
+                    itemName={item.Name!}
+                    open={showSubtitleManager}
+                    onOpenChange={setShowSubtitleManager}
+                />
+            )}
+            <PlayOnDialog
+                itemId={item.Id!}
+                itemName={item.Name!}
+                startPositionTicks={item.UserData?.PlaybackPositionTicks}
+                open={showPlayOn}
+                onOpenChange={setShowPlayOn}
+            />
+            <AddToCollectionDialog
+                items={[item]}
+                open={showAddToCollection}
+                onOpenChange={setShowAddToCollection}
+            />
+            <AddToPlaylistDialog
+                items={[item]}
+                open={showAddToPlaylist}
+                onOpenChange={setShowAddToPlaylist}
+            />
+            {isAdministrator && (
+                <MetadataEditorDialog
+                    itemId={item.Id!}
+                    itemName={item.Name!}
+                    open={showMetadataEditor}
+                    onOpenChange={setShowMetadataEditor}
+                />
+            )}
+            {isAdministrator && isIdentifiable && (
+                <IdentifyDialog
+                    item={item}
+                    open={showIdentify}
+                    onOpenChange={setShowIdentify}
+                />
+            )}
+            {isDownloadable && (
+                <DownloadDialog
+                    item={item}
+                    serverUrl={serverUrl}
+                    open={showDownload}
+                    onOpenChange={setShowDownload}
+                />
+            )}
+        </>
     );
 }
@@ -4,20 +4,12 @@ import React from "react";
 
 import { MediaSourceInfo, MediaStream } from "../types/jellyfin";
 import { ScrollArea } from "./ui/scroll-area";
+import { formatBytes } from "@/lib/utils";
 
 interface MediaInfoDialogProps {
   mediaSource: MediaSourceInfo;
 }
 
-function formatBytes(bytes: number, decimals = 2) {
-  if (bytes === 0) return "0 Bytes";
-  const k = 1024;
-  const dm = decimals < 0 ? 0 : decimals;
-  const sizes = ["Bytes", "KB", "MB", "GB", "TB", "PB", "EB", "ZB", "YB"];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + " " + sizes[i];
-}
-
 export function MediaInfoDialog({ mediaSource }: MediaInfoDialogProps) {
   if (!mediaSource) return null;
 
@@ -5,9 +5,12 @@ import { useRouter } from "next/navigation";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { MediaCard } from "@/components/media-card";
-import { Play, ChevronLeft, ChevronRight } from "lucide-react";
+import { SelectableItem } from "@/components/selectable-item";
+import { Play, ChevronLeft, ChevronRight, CheckSquare } from "lucide-react";
 import { ScrollArea, ScrollBar } from "./ui/scroll-area";
 import { BaseItemDto } from "@jellyfin/sdk/lib/generated-client/models";
+import { useAtomValue, useSetAtom } from "jotai";
+import { isSelectionModeAtom, selectAllAtom } from "@/lib/atoms";
 
 interface MediaSectionProps {
   sectionName: string;
@@ -33,6 +36,9 @@ export function MediaSection({
   popoverEnabled = true,
 }: MediaSectionProps) {
   const router = useRouter();
+  const isSelectionMode = useAtomValue(isSelectionModeAtom);
+  const setIsSelectionMode = useSetAtom(isSelectionModeAtom);
+  const selectAll = useSetAtom(selectAllAtom);
   const scrollRef = useRef<HTMLDivElement>(null);
   const viewportRef = useRef<HTMLDivElement>(null);
 
@@ -75,6 +81,19 @@ export function MediaSection({
           {sectionName}
         </h3>
         <div className="flex items-center gap-2">
+          {mediaItems.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="bg-background/10 border-border text-foreground hover:bg-accent gap-2"
+              onClick={() =>
+                isSelectionMode ? selectAll(mediaItems) : setIsSelectionMode(true)
+              }
+            >
+              <CheckSquare className="h-4 w-4" />
+              {isSelectionMode ? "Select All" : "Select"}
+            </Button>
+          )}
           <Button
             variant="outline"
             size="sm"
@@ -105,7 +124,12 @@ export function MediaSection({
         <ScrollArea className="w-full pb-6">
           <div className="flex gap-4 w-max" ref={scrollRef}>
             {mediaItems.map((item) => (
-              <div key={item.Id} className="flex-shrink-0">
+              <SelectableItem
+                key={item.Id}
+                item={item}
+                items={mediaItems}
+                className="flex-shrink-0"
+              >
                 <MediaCard
                   item={item}
                   serverUrl={serverUrl}
@@ -114,7 +138,7 @@ export function MediaSection({
                   libraryName={libraryName}
                   popoverEnabled={popoverEnabled}
                 />
-              </div>
+              </SelectableItem>
             ))}
           </div>
           <ScrollBar orientation="horizontal" />
@@ -0,0 +1,624 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Lock, Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  BaseItemDto,
+  BaseItemPerson,
+  MetadataEditorInfo,
+  MetadataField,
+  PersonKind,
+} from "@jellyfin/sdk/lib/generated-client/models";
+import {
+  fetchMediaDetails,
+  fetchMetadataEditorInfo,
+  getUser,
+  getUserWithPolicy,
+  updateItemMetadata,
+} from "@/app/actions";
+
+interface MetadataEditorDialogProps {
+  itemId: string;
+  itemName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface MetadataDraft {
+  name: string;
+  sortName: string;
+  originalTitle: string;
+  overview: string;
+  tagline: string;
+  premiereDate: string;
+  endDate: string;
+  productionYear: string;
+  officialRating: string;
+  genres: string[];
+  tags: string[];
+  studios: string[];
+  people: BaseItemPerson[];
+  providerIds: Record<string, string>;
+  lockedFields: MetadataField[];
+  lockData: boolean;
+}
+
+// Radix selects can't hold an empty value
+const NO_RATING = "__none__";
+
+const PERSON_KINDS: PersonKind[] = [
+  PersonKind.Actor,
+  PersonKind.GuestStar,
+  PersonKind.Director,
+  PersonKind.Writer,
+  PersonKind.Producer,
+  PersonKind.Creator,
+  PersonKind.Composer,
+];
+
+const LOCKABLE_FIELDS: { field: MetadataField; label: string }[] = [
+  { field: MetadataField.Name, label: "Title" },
+  { field: MetadataField.Overview, label: "Overview" },
+  { field: MetadataField.OfficialRating, label: "Parental rating" },
+  { field: MetadataField.Genres, label: "Genres" },
+  { field: MetadataField.Tags, label: "Tags" },
+  { field: MetadataField.Studios, label: "Studios" },
+  { field: MetadataField.Cast, label: "Cast & crew" },
+  { field: MetadataField.ProductionLocations, label: "Production locations" },
+  { field: MetadataField.Runtime, label: "Runtime" },
+];
+
+// <input type="date"> wants yyyy-mm-dd; the server sends full ISO timestamps
+const toDateInput = (value?: string | null) => (value ? value.slice(0, 10) : "");
+const fromDateInput = (value: string) =>
+  value ? new Date(value).toISOString() : null;
+
+function toDraft(item: BaseItemDto): MetadataDraft {
+  const providerIds: Record<string, string> = {};
+  Object.entries(item.ProviderIds ?? {}).forEach(([key, value]) => {
+    if (value) providerIds[key] = value;
+  });
+
+  return {
+    name: item.Name ?? "",
+    sortName: item.ForcedSortName ?? "",
+    originalTitle: item.OriginalTitle ?? "",
+    overview: item.Overview ?? "",
+    tagline: item.Taglines?.[0] ?? "",
+    premiereDate: toDateInput(item.PremiereDate),
+    endDate: toDateInput(item.EndDate),
+    productionYear: item.ProductionYear ? String(item.ProductionYear) : "",
+    officialRating: item.OfficialRating ?? "",
+    genres: item.Genres ?? [],
+    tags: item.Tags ?? [],
+    studios: item.Studios?.map((studio) => studio.Name ?? "").filter(Boolean) ?? [],
+    people: item.People ?? [],
+    providerIds,
+    lockedFields: item.LockedFields ?? [],
+    lockData: item.LockData ?? false,
+  };
+}
+
+function applyDraft(item: BaseItemDto, draft: MetadataDraft): BaseItemDto {
+  const year = parseInt(draft.productionYear, 10);
+
+  return {
+    ...item,
+    Name: draft.name.trim(),
+    ForcedSortName: draft.sortName.trim() || null,
+    OriginalTitle: draft.originalTitle.trim() || null,
+    Overview: draft.overview,
+    Taglines: draft.tagline.trim() ? [draft.tagline.trim()] : [],
+    PremiereDate: fromDateInput(draft.premiereDate),
+    EndDate: fromDateInput(draft.endDate),
+    ProductionYear: Number.isNaN(year) ? null : year,
+    OfficialRating: draft.officialRating || null,
+    Genres: draft.genres,
+    Tags: draft.tags,
+    // Keep the ids of studios that were already there
+    Studios: draft.studios.map(
+      (name) => item.Studios?.find((studio) => studio.Name === name) ?? { Name: name }
+    ),
+    People: draft.people
+      .filter((person) => person.Name?.trim())
+      .map((person) => ({ ...person, Name: person.Name!.trim(), Role: person.Role?.trim() || null })),
+    ProviderIds: Object.fromEntries(
+      Object.entries(draft.providerIds)
+        .map(([key, value]) => [key, value.trim()])
+        .filter(([, value]) => value)
+    ),
+    LockedFields: draft.lockedFields,
+    LockData: draft.lockData,
+  };
+}
+
+// A list of short values edited as removable badges, added with Enter
+function ValueListField({
+  label,
+  values,
+  onChange,
+  placeholder,
+}: {
+  label: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+  placeholder: string;
+}) {
+  const [input, setInput] = useState("");
+
+  const add = () => {
+    const value = input.trim();
+    if (value && !values.includes(value)) {
+      onChange([...values, value]);
+    }
+    setInput("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      {values.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {values.map((value) => (
+            <Badge key={value} variant="secondary" className="gap-1 pr-1">
+              {value}
+              <button
+                type="button"
+                className="rounded-sm p-0.5 hover:bg-background/50 cursor-pointer"
+                onClick={() => onChange(values.filter((entry) => entry !== value))}
+                aria-label={`Remove ${value}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Input
+          value={input}
+          placeholder={placeholder}
+          onChange={(event) => setInput(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              event.preventDefault();
+              add();
+            }
+          }}
+        />
+        <Button type="button" variant="outline" size="icon" onClick={add} disabled={!input.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function MetadataEditorDialog({
+  itemId,
+  itemName,
+  open,
+  onOpenChange,
+}: MetadataEditorDialogProps) {
+  const router = useRouter();
+  const [item, setItem] = useState<BaseItemDto | null>(null);
+  const [editorInfo, setEditorInfo] = useState<MetadataEditorInfo | null>(null);
+  const [draft, setDraft] = useState<MetadataDraft | null>(null);
+  const [canEdit, setCanEdit] = useState<boolean | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setItem(null);
+      setDraft(null);
+      setCanEdit(null);
+      return;
+    }
+
+    const load = async () => {
+      try {
+        const currentUser = await getUser();
+        const userWithPolicy = currentUser?.Id
+          ? await getUserWithPolicy(currentUser.Id, itemId)
+          : null;
+        const isAdministrator = Boolean(userWithPolicy?.Policy?.IsAdministrator);
+        setCanEdit(isAdministrator);
+        if (!isAdministrator) return;
+
+        const [details, info] = await Promise.all([
+          fetchMediaDetails(itemId),
+          fetchMetadataEditorInfo(itemId),
+        ]);
+        if (!details) {
+          toast.error("Failed to load metadata");
+          onOpenChange(false);
+          return;
+        }
+        setItem(details);
+        setEditorInfo(info);
+        setDraft(toDraft(details));
+      } catch (error) {
+        console.error("Failed to load metadata:", error);
+        toast.error("Failed to load metadata");
+        onOpenChange(false);
+      }
+    };
+
+    load();
+  }, [open, itemId, onOpenChange]);
+
+  const update = (changes: Partial<MetadataDraft>) => {
+    setDraft((current) => (current ? { ...current, ...changes } : current));
+  };
+
+  const updatePerson = (index: number, changes: Partial<BaseItemPerson>) => {
+    if (!draft) return;
+    update({
+      people: draft.people.map((person, i) => (i === index ? { ...person, ...changes } : person)),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!item || !draft) return;
+    if (!draft.name.trim()) {
+      toast.error("Title can't be empty");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await updateItemMetadata(itemId, applyDraft(item, draft));
+      toast.success("Metadata saved");
+      onOpenChange(false);
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to save metadata:", error);
+      toast.error("Failed to save metadata");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // The server lists an id field per provider and media type; one input per provider is enough
+  const providerFields = [
+    ...new Map(
+      (editorInfo?.ExternalIdInfos ?? []).map((info) => [info.Key!, info.Name ?? info.Key!])
+    ).entries(),
+  ];
+  Object.keys(draft?.providerIds ?? {}).forEach((key) => {
+    if (!providerFields.some(([fieldKey]) => fieldKey === key)) {
+      providerFields.push([key, key]);
+    }
+  });
+
+  const ratingOptions = [
+    ...new Set(
+      (editorInfo?.ParentalRatingOptions ?? [])
+        .map((rating) => rating.Name)
+        .filter((name): name is string => Boolean(name))
+    ),
+  ];
+  if (draft?.officialRating && !ratingOptions.includes(draft.officialRating)) {
+    ratingOptions.unshift(draft.officialRating);
+  }
+
+  const personKinds = [
+    ...new Set([
+      ...PERSON_KINDS,
+      ...(draft?.people.map((person) => person.Type).filter((kind): kind is PersonKind => Boolean(kind)) ?? []),
+    ]),
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !saving && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] flex flex-col dark:bg-background/95 backdrop-blur-md">
+        <DialogHeader>
+          <DialogTitle>Edit Metadata</DialogTitle>
+          <DialogDescription className="truncate">{itemName}</DialogDescription>
+        </DialogHeader>
+
+        {canEdit === false ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Only administrators can edit metadata.
+          </p>
+        ) : !draft ? (
+          <div className="space-y-3">
+            {Array.from({ length: 5 }).map((_, index) => (
+              <Skeleton key={index} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : (
+          <Tabs defaultValue="general" className="flex-1 min-h-0 flex flex-col">
+            <TabsList className="w-full">
+              <TabsTrigger value="general">General</TabsTrigger>
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="people">People</TabsTrigger>
+              <TabsTrigger value="ids">External IDs</TabsTrigger>
+              <TabsTrigger value="locks">Locks</TabsTrigger>
+            </TabsList>
+
+            <ScrollArea className="flex-1 min-h-0 h-[55vh] pr-3">
+              <TabsContent value="general" className="space-y-4 pt-2">
+                <div className="space-y-2">
+                  <Label htmlFor="metadata-name">Title</Label>
+                  <Input
+                    id="metadata-name"
+                    value={draft.name}
+                    onChange={(event) => update({ name: event.target.value })}
+                  />
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="metadata-sort-name">Sort title</Label>
+                    <Input
+                      id="metadata-sort-name"
+                      value={draft.sortName}
+                      placeholder={item?.SortName ?? ""}
+                      onChange={(event) => update({ sortName: event.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="metadata-original-title">Original title</Label>
+                    <Input
+                      id="metadata-original-title"
+                      value={draft.originalTitle}
+                      onChange={(event) => update({ originalTitle: event.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="metadata-tagline">Tagline</Label>
+                  <Input
+                    id="metadata-tagline"
+                    value={draft.tagline}
+                    onChange={(event) => update({ tagline: event.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="metadata-overview">Overview</Label>
+                  <textarea
+                    id="metadata-overview"
+                    rows={6}
+                    value={draft.overview}
+                    onChange={(event) => update({ overview: event.target.value })}
+                    className="dark:bg-input/30 border-input w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+                  />
+                </div>
+              </TabsContent>
+
+              <TabsContent value="details" className="space-y-4 pt-2">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="metadata-premiere-date">Release date</Label>
+                    <Input
+                      id="metadata-premiere-date"
+                      type="date"
+                      value={draft.premiereDate}
+                      onChange={(event) => update({ premiereDate: event.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="metadata-end-date">End date</Label>
+                    <Input
+                      id="metadata-end-date"
+                      type="date"
+                      value={draft.endDate}
+                      onChange={(event) => update({ endDate: event.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="metadata-year">Year</Label>
+                    <Input
+                      id="metadata-year"
+                      type="number"
+                      inputMode="numeric"
+                      value={draft.productionYear}
+                      onChange={(event) => update({ productionYear: event.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Parental rating</Label>
+                  <Select
+                    value={draft.officialRating || NO_RATING}
+                    onValueChange={(value) =>
+                      update({ officialRating: value === NO_RATING ? "" : value })
+                    }
+                  >
+                    <SelectTrigger className="w-full sm:w-60">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_RATING}>None</SelectItem>
+                      {ratingOptions.map((rating) => (
+                        <SelectItem key={rating} value={rating}>
+                          {rating}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <ValueListField
+                  label="Genres"
+                  values={draft.genres}
+                  onChange={(genres) => update({ genres })}
+                  placeholder="Add a genre"
+                />
+                <ValueListField
+                  label="Tags"
+                  values={draft.tags}
+                  onChange={(tags) => update({ tags })}
+                  placeholder="Add a tag"
+                />
+                <ValueListField
+                  label="Studios"
+                  values={draft.studios}
+                  onChange={(studios) => update({ studios })}
+                  placeholder="Add a studio"
+                />
+              </TabsContent>
+
+              <TabsContent value="people" className="space-y-2 pt-2">
+                {draft.people.map((person, index) => (
+                  <div key={person.Id ?? `new-${index}`} className="flex items-center gap-2">
+                    <Input
+                      value={person.Name ?? ""}
+                      placeholder="Name"
+                      onChange={(event) => updatePerson(index, { Name: event.target.value })}
+                    />
+                    <Select
+                      value={person.Type ?? PersonKind.Actor}
+                      onValueChange={(value) => updatePerson(index, { Type: value as PersonKind })}
+                    >
+                      <SelectTrigger className="w-36 shrink-0">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {personKinds.map((kind) => (
+                          <SelectItem key={kind} value={kind}>
+                            {kind === PersonKind.GuestStar ? "Guest star" : kind}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      value={person.Role ?? ""}
+                      placeholder="Role"
+                      onChange={(event) => updatePerson(index, { Role: event.target.value })}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="shrink-0"
+                      onClick={() =>
+                        update({ people: draft.people.filter((_, i) => i !== index) })
+                      }
+                      aria-label={`Remove ${person.Name || "person"}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="gap-2"
+                  onClick={() =>
+                    update({
+                      people: [...draft.people, { Name: "", Type: PersonKind.Actor, Role: "" }],
+                    })
+                  }
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Person
+                </Button>
+              </TabsContent>
+
+              <TabsContent value="ids" className="space-y-4 pt-2">
+                {providerFields.length > 0 ? (
+                  providerFields.map(([key, name]) => (
+                    <div key={key} className="space-y-2">
+                      <Label htmlFor={`metadata-provider-${key}`}>{name}</Label>
+                      <Input
+                        id={`metadata-provider-${key}`}
+                        value={draft.providerIds[key] ?? ""}
+                        onChange={(event) =>
+                          update({
+                            providerIds: { ...draft.providerIds, [key]: event.target.value },
+                          })
+                        }
+                      />
+                    </div>
+                  ))
+                ) : (
+                  <p className="py-6 text-center text-sm text-muted-foreground">
+                    No metadata providers are available for this item
+                  </p>
+                )}
+              </TabsContent>
+
+              <TabsContent value="locks" className="space-y-4 pt-2">
+                <label className="flex items-center justify-between gap-4 rounded-md border px-3 py-2 cursor-pointer">
+                  <div>
+                    <div className="text-sm font-medium flex items-center gap-2">
+                      <Lock className="h-3.5 w-3.5" />
+                      Lock all
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      Metadata refreshes won&apos;t change anything on this item
+                    </div>
+                  </div>
+                  <Switch
+                    checked={draft.lockData}
+                    onCheckedChange={(lockData) => update({ lockData })}
+                  />
+                </label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {LOCKABLE_FIELDS.map(({ field, label }) => (
+                    <label
+                      key={field}
+                      className="flex items-center gap-3 rounded-md px-3 py-2 text-sm hover:bg-accent cursor-pointer"
+                    >
+                      <Checkbox
+                        checked={draft.lockData || draft.lockedFields.includes(field)}
+                        disabled={draft.lockData}
+                        onCheckedChange={(checked) =>
+                          update({
+                            lockedFields:
+                              checked === true
+                                ? [...draft.lockedFields, field]
+                                : draft.lockedFields.filter((entry) => entry !== field),
+                          })
+                        }
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </TabsContent>
+            </ScrollArea>
+          </Tabs>
+        )}
+
+        {canEdit && draft && (
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
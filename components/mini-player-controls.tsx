@@ -0,0 +1,115 @@
+"use client";
+
+import React from "react";
+import { Maximize2, Pause, PictureInPicture2, Play, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+interface MiniPlayerControlsProps {
+  title: string;
+  subtitle?: string;
+  isPaused: boolean;
+  loading: boolean;
+  currentTime: number;
+  duration: number;
+  onTogglePlay: () => void;
+  onRestore: () => void;
+  onClose: () => void;
+  // Hidden when already in Picture-in-Picture or unsupported
+  onPictureInPicture?: () => void;
+}
+
+// Overlay for the docked mini-player (and the Document PiP window); clicking the video restores it
+export function MiniPlayerControls({
+  title,
+  subtitle,
+  isPaused,
+  loading,
+  currentTime,
+  duration,
+  onTogglePlay,
+  onRestore,
+  onClose,
+  onPictureInPicture,
+}: MiniPlayerControlsProps) {
+  const progress = duration > 0 ? Math.min((currentTime / duration) * 100, 100) : 0;
+
+  // Buttons act on their own instead of restoring the player
+  const stopAnd = (action: () => void) => (event: React.MouseEvent) => {
+    event.stopPropagation();
+    action();
+  };
+
+  return (
+    <div
+      className="group absolute inset-0 z-10 cursor-pointer text-white"
+      onClick={onRestore}
+    >
+      {loading && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <div className="w-6 h-6 border-2 border-white/20 border-t-white rounded-full animate-spin" />
+        </div>
+      )}
+
+      <div className="absolute inset-0 flex flex-col justify-between bg-gradient-to-b from-black/70 via-transparent to-black/70 opacity-0 transition-opacity group-hover:opacity-100">
+        <div className="flex items-start gap-1 p-2">
+          <div className="flex-1 min-w-0">
+            <div className="truncate text-sm font-medium">{title}</div>
+            {subtitle && (
+              <div className="truncate text-xs text-white/70">{subtitle}</div>
+            )}
+          </div>
+          {onPictureInPicture && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-8 text-white hover:bg-white/20"
+              onClick={stopAnd(onPictureInPicture)}
+              aria-label="Picture-in-picture"
+            >
+              <PictureInPicture2 className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-8 text-white hover:bg-white/20"
+            onClick={stopAnd(onRestore)}
+            aria-label="Restore player"
+          >
+            <Maximize2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-8 text-white hover:bg-white/20"
+            onClick={stopAnd(onClose)}
+            aria-label="Close player"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex justify-center pb-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-10 rounded-full bg-black/40 text-white hover:bg-white/20"
+            onClick={stopAnd(onTogglePlay)}
+            aria-label={isPaused ? "Play" : "Pause"}
+          >
+            {isPaused ? (
+              <Play className="h-5 w-5 fill-white" />
+            ) : (
+              <Pause className="h-5 w-5 fill-white" />
+            )}
+          </Button>
+        </div>
+      </div>
+
+      <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/20">
+        <div className="h-full bg-primary" style={{ width: `${progress}%` }} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { BaseItemDto } from "@jellyfin/sdk/lib/generated-client/models";
+import { Loader2, Music, Play, User } from "lucide-react";
+import { toast } from "sonner";
+
+import { useMusicActions } from "@/hooks/useMusicActions";
+
+// Square card for an album or artist, with a button to play it straight away
+export function MusicCard({
+  item,
+  serverUrl,
+}: {
+  item: BaseItemDto;
+  serverUrl: string;
+}) {
+  const { queueMusic } = useMusicActions();
+  const [isLoading, setIsLoading] = useState(false);
+  const [imageFailed, setImageFailed] = useState(!item.ImageTags?.Primary);
+
+  const isArtist = item.Type === "MusicArtist";
+  const href = isArtist ? `/artist/${item.Id}` : `/album/${item.Id}`;
+  const subtitle = isArtist
+    ? null
+    : [item.AlbumArtist, item.ProductionYear].filter(Boolean).join(" • ");
+  const FallbackIcon = isArtist ? User : Music;
+
+  const handlePlay = async (event: React.MouseEvent) => {
+    event.preventDefault();
+    try {
+      setIsLoading(true);
+      const count = await queueMusic(item, "play");
+      if (count === 0) {
+        toast.error("Nothing to play");
+      }
+    } catch (error) {
+      console.error("Failed to play:", error);
+      toast.error("Failed to start playback. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Link href={href} draggable={false} className="group block w-full">
+      <div
+        className={`relative aspect-square w-full overflow-hidden border bg-muted ${isArtist ? "rounded-full" : "rounded-md"}`}
+      >
+        {imageFailed ? (
+          <FallbackIcon className="absolute inset-0 m-auto h-10 w-10 text-muted-foreground" />
+        ) : (
+          <img
+            src={`${serverUrl}/Items/${item.Id}/Images/Primary?maxHeight=400&maxWidth=400&quality=90`}
+            alt={item.Name || ""}
+            className="size-full object-cover transition-transform duration-300 group-hover:scale-105"
+            loading="lazy"
+            onError={() => setImageFailed(true)}
+          />
+        )}
+        <button
+          className="absolute bottom-2 right-2 flex size-10 items-center justify-center rounded-full bg-primary text-primary-foreground opacity-0 shadow-lg transition-opacity group-hover:opacity-100 cursor-pointer"
+          onClick={handlePlay}
+          disabled={isLoading}
+          aria-label={`Play ${item.Name}`}
+        >
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Play className="h-4 w-4 fill-current" />
+          )}
+        </button>
+      </div>
+      <div className={`mt-2 px-1 ${isArtist ? "text-center" : ""}`}>
+        <div className="truncate text-sm font-medium">{item.Name}</div>
+        {subtitle && (
+          <div className="truncate text-xs text-muted-foreground">{subtitle}</div>
+        )}
+      </div>
+    </Link>
+  );
+}
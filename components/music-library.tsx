@@ -0,0 +1,156 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { BaseItemDto } from "@jellyfin/sdk/lib/generated-client/models";
+import { Disc3, ListMusic, Loader2, MicVocal, Search } from "lucide-react";
+
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { MusicCard } from "@/components/music-card";
+import { TrackList } from "@/components/track-list";
+import { fetchMusicLibraryItems } from "@/app/actions";
+import type { MusicLibraryView } from "@/app/actions";
+
+const PAGE_SIZE = 60;
+
+interface MusicLibraryProps {
+  libraryId: string;
+  serverUrl: string;
+  initialAlbums: BaseItemDto[];
+  totalAlbums: number;
+}
+
+// Albums, artists and songs of a music library, loaded a page at a time as you scroll
+export function MusicLibrary({
+  libraryId,
+  serverUrl,
+  initialAlbums,
+  totalAlbums,
+}: MusicLibraryProps) {
+  const [view, setView] = useState<MusicLibraryView>("albums");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [items, setItems] = useState<BaseItemDto[]>(initialAlbums);
+  const [totalCount, setTotalCount] = useState(totalAlbums);
+  const [loading, setLoading] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Skips the first fetch, which the server already did
+  const isInitialRef = useRef(true);
+
+  useEffect(() => {
+    if (isInitialRef.current) {
+      isInitialRef.current = false;
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setItems([]);
+
+    fetchMusicLibraryItems(libraryId, view, 0, PAGE_SIZE, searchQuery)
+      .then((result) => {
+        if (cancelled) return;
+        setItems(result.items);
+        setTotalCount(result.totalRecordCount);
+      })
+      .catch((error) => {
+        console.error("Failed to load music library:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [libraryId, view, searchQuery]);
+
+  const hasNextPage = items.length < totalCount;
+
+  const loadMore = useCallback(async () => {
+    if (loading || !hasNextPage) return;
+
+    setLoading(true);
+    try {
+      const result = await fetchMusicLibraryItems(
+        libraryId,
+        view,
+        items.length,
+        PAGE_SIZE,
+        searchQuery
+      );
+      setItems((prev) => [...prev, ...result.items]);
+      setTotalCount(result.items.length > 0 ? result.totalRecordCount : items.length);
+    } catch (error) {
+      console.error("Failed to load more music:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [libraryId, view, searchQuery, items.length, loading, hasNextPage]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) loadMore();
+      },
+      { rootMargin: "600px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
+        <div className="relative flex-1 max-w-sm">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+          <Input
+            placeholder="Search music..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+
+        <Tabs value={view} onValueChange={(value) => setView(value as MusicLibraryView)}>
+          <TabsList>
+            <TabsTrigger value="albums" className="flex items-center gap-2">
+              <Disc3 className="h-4 w-4" />
+              Albums
+            </TabsTrigger>
+            <TabsTrigger value="artists" className="flex items-center gap-2">
+              <MicVocal className="h-4 w-4" />
+              Artists
+            </TabsTrigger>
+            <TabsTrigger value="tracks" className="flex items-center gap-2">
+              <ListMusic className="h-4 w-4" />
+              Songs
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <span className="font-mono text-sm text-muted-foreground">{totalCount} items</span>
+
+      {view === "tracks" ? (
+        <TrackList tracks={items} />
+      ) : (
+        <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 2xl:grid-cols-8">
+          {items.map((item) => (
+            <MusicCard key={item.Id} item={item} serverUrl={serverUrl} />
+          ))}
+        </div>
+      )}
+
+      {!loading && items.length === 0 && (
+        <p className="py-12 text-center text-muted-foreground">Nothing here yet</p>
+      )}
+
+      <div ref={sentinelRef} className="flex justify-center py-4">
+        {loading && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+      </div>
+    </div>
+  );
+}
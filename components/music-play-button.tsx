@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Loader2, Play, Radio, Shuffle } from "lucide-react";
+import { toast } from "sonner";
+import { BaseItemKind } from "@jellyfin/sdk/lib/generated-client/models";
+import { useMusicActions } from "@/hooks/useMusicActions";
+
+interface MusicPlayButtonProps {
+  itemId: string;
+  itemType: BaseItemKind;
+  action: "play" | "shuffle" | "instantMix";
+  variant?: "default" | "outline" | "secondary" | "ghost";
+  size?: "default" | "sm" | "lg";
+  className?: string;
+}
+
+const ACTIONS = {
+  play: { icon: Play, label: "Play" },
+  shuffle: { icon: Shuffle, label: "Shuffle" },
+  instantMix: { icon: Radio, label: "Instant Mix" },
+};
+
+// Plays an album or artist in the music player, or a mix of similar songs
+export function MusicPlayButton({
+  itemId,
+  itemType,
+  action,
+  variant = "outline",
+  size = "default",
+  className,
+}: MusicPlayButtonProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const { queueMusic } = useMusicActions();
+
+  const handleClick = async () => {
+    try {
+      setIsLoading(true);
+      const count = await queueMusic({ Id: itemId, Type: itemType }, action);
+      if (count === 0) {
+        toast.error("Nothing to play");
+      }
+    } catch (error: any) {
+      console.error("Failed to start music:", error);
+
+      if (error?.isAuthError) {
+        toast.error("Authentication expired. Please sign in again.");
+      } else {
+        toast.error("Failed to start playback. Please try again.");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const { icon: Icon, label } = ACTIONS[action];
+
+  return (
+    <Button
+      onClick={handleClick}
+      disabled={isLoading}
+      variant={variant}
+      size={size}
+      className={className}
+    >
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin" />
+      ) : (
+        <Icon className="h-4 w-4" />
+      )}
+      {label}
+    </Button>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import type { OfflineDownload } from "@/lib/atoms";
+import { getDownloadedMedia } from "@/lib/offline-storage";
+import { syncOfflinePlaystates, useOfflineDownloads } from "@/hooks/useOfflineDownloads";
+
+// How often progress is saved while watching
+const PROGRESS_INTERVAL_SECONDS = 15;
+// Past this share of the runtime a video counts as watched, as on the server
+const PLAYED_THRESHOLD = 0.9;
+
+interface OfflinePlayerDialogProps {
+  download: OfflineDownload | null;
+  onClose: () => void;
+}
+
+// Plays a downloaded file straight from browser storage, no server needed
+export function OfflinePlayerDialog({ download, onClose }: OfflinePlayerDialogProps) {
+  const { recordPlaystate } = useOfflineDownloads();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastSavedRef = useRef(0);
+  const [src, setSrc] = useState<string | null>(null);
+  const downloadId = download?.id;
+
+  useEffect(() => {
+    if (!downloadId) return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    getDownloadedMedia(downloadId)
+      .then((media) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(media);
+        setSrc(objectUrl);
+      })
+      .catch((error) => {
+        console.error("Failed to open download:", error);
+        toast.error("This download could not be opened");
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setSrc(null);
+    };
+  }, [downloadId]);
+
+  const saveProgress = (played: boolean) => {
+    const video = videoRef.current;
+    if (!download || !video) return;
+
+    const finished =
+      played || (video.duration > 0 && video.currentTime / video.duration >= PLAYED_THRESHOLD);
+    recordPlaystate(download, finished ? 0 : Math.floor(video.currentTime * 10000000), finished);
+    lastSavedRef.current = video.currentTime;
+  };
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (!download || !video) return;
+    if (download.positionTicks && !download.played) {
+      video.currentTime = download.positionTicks / 10000000;
+    }
+    lastSavedRef.current = video.currentTime;
+  };
+
+  const handleTimeUpdate = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (Math.abs(video.currentTime - lastSavedRef.current) >= PROGRESS_INTERVAL_SECONDS) {
+      saveProgress(false);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) return;
+    saveProgress(false);
+    syncOfflinePlaystates();
+    onClose();
+  };
+
+  return (
+    <Dialog open={download !== null} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-5xl p-0 overflow-hidden">
+        <DialogHeader className="px-6 pt-6">
+          <DialogTitle className="truncate">{download?.name}</DialogTitle>
+          {download?.seriesName && (
+            <DialogDescription className="truncate">{download.seriesName}</DialogDescription>
+          )}
+        </DialogHeader>
+        <div className="relative aspect-video w-full bg-black">
+          {src ? (
+            <video
+              ref={videoRef}
+              src={src}
+              className="size-full"
+              controls
+              autoPlay
+              playsInline
+              onLoadedMetadata={handleLoadedMetadata}
+              onTimeUpdate={handleTimeUpdate}
+              onPause={() => saveProgress(false)}
+              onEnded={() => saveProgress(true)}
+            />
+          ) : (
+            <Loader2 className="absolute inset-0 m-auto h-8 w-8 animate-spin text-white" />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { useSetAtom } from "jotai";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2, Monitor, RefreshCw, Smartphone, Tv } from "lucide-react";
+import { toast } from "sonner";
+import { SessionInfoDto } from "@jellyfin/sdk/lib/generated-client/models";
+import { fetchControllableSessions, playOnSession } from "@/app/actions";
+import { remoteControlSessionIdAtom } from "@/lib/atoms";
+
+interface PlayOnDialogProps {
+  itemId: string;
+  itemName: string;
+  startPositionTicks?: number | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function getSessionIcon(session: SessionInfoDto) {
+  const deviceType = session.DeviceType?.toLowerCase() ?? "";
+  if (deviceType.includes("tv")) return Tv;
+  if (deviceType.includes("phone") || deviceType.includes("tablet")) return Smartphone;
+  return Monitor;
+}
+
+export function PlayOnDialog({
+  itemId,
+  itemName,
+  startPositionTicks,
+  open,
+  onOpenChange,
+}: PlayOnDialogProps) {
+  const setRemoteControlSessionId = useSetAtom(remoteControlSessionIdAtom);
+  const [sessions, setSessions] = useState<SessionInfoDto[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [startingSessionId, setStartingSessionId] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSessions(await fetchControllableSessions());
+    } catch (error) {
+      console.error("Failed to fetch sessions:", error);
+      toast.error("Failed to load devices");
+      setSessions([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      loadSessions();
+    } else {
+      setSessions(null);
+    }
+  }, [open, loadSessions]);
+
+  const handlePlayOn = async (session: SessionInfoDto) => {
+    if (!session.Id) return;
+    setStartingSessionId(session.Id);
+    try {
+      await playOnSession(session.Id, [itemId], startPositionTicks ?? undefined);
+      toast.success(`Playing "${itemName}" on ${session.DeviceName}`);
+      setRemoteControlSessionId(session.Id);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to start playback on session:", error);
+      toast.error(`Failed to play on ${session.DeviceName}`);
+    } finally {
+      setStartingSessionId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Play on…</DialogTitle>
+          <DialogDescription className="truncate">
+            Choose a device to play {itemName} on
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={loadSessions}
+            disabled={loading}
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <ScrollArea className="max-h-80">
+          {sessions === null ? (
+            <div className="space-y-2">
+              {Array.from({ length: 3 }).map((_, index) => (
+                <Skeleton key={index} className="h-14 w-full" />
+              ))}
+            </div>
+          ) : sessions.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No other devices can be controlled right now
+            </p>
+          ) : (
+            <div className="space-y-1">
+              {sessions.map((session) => {
+                const Icon = getSessionIcon(session);
+                return (
+                  <button
+                    key={session.Id}
+                    className="flex w-full items-center gap-3 rounded-md px-3 py-2 text-left transition-colors hover:bg-accent disabled:opacity-50 cursor-pointer"
+                    onClick={() => handlePlayOn(session)}
+                    disabled={startingSessionId !== null}
+                  >
+                    <Icon className="h-5 w-5 shrink-0 text-muted-foreground" />
+                    <div className="flex-1 min-w-0">
+                      <div className="truncate text-sm font-medium">
+                        {session.DeviceName}
+                      </div>
+                      <div className="truncate text-xs text-muted-foreground">
+                        {session.NowPlayingItem
+                          ? `${session.Client} · Playing ${session.NowPlayingItem.Name}`
+                          : `${session.Client} · Idle`}
+                      </div>
+                    </div>
+                    {startingSessionId === session.Id && (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
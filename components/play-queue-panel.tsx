@@ -0,0 +1,134 @@
+"use client";
+
+import React from "react";
+import { motion } from "framer-motion";
+import { Repeat, Repeat1, Shuffle, X, Film, Tv } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { usePlayQueue } from "@/contexts/MediaPlayerContext";
+import { cn } from "@/lib/utils";
+
+interface PlayQueuePanelProps {
+  onSelect: (index: number) => void;
+  onClose: () => void;
+}
+
+const REPEAT_LABELS = {
+  off: "Repeat off",
+  all: "Repeat all",
+  one: "Repeat one",
+} as const;
+
+export function PlayQueuePanel({ onSelect, onClose }: PlayQueuePanelProps) {
+  const {
+    queue,
+    queueIndex,
+    repeatMode,
+    isShuffleEnabled,
+    removeFromQueue,
+    toggleShuffle,
+    cycleRepeatMode,
+  } = usePlayQueue();
+
+  const RepeatIcon = repeatMode === "one" ? Repeat1 : Repeat;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 40 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 40 }}
+      transition={{ duration: 0.2 }}
+      className="fixed right-0 top-0 bottom-0 z-[1000000] w-80 max-w-full bg-black/90 backdrop-blur-md border-l border-white/10 text-white flex flex-col"
+    >
+      <div className="flex items-center justify-between px-4 pt-4 pb-2">
+        <div>
+          <h3 className="font-semibold text-lg">Queue</h3>
+          <p className="text-xs text-white/60">
+            {queue.length > 0 ? `${queueIndex + 1} of ${queue.length}` : "Empty"}
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-8 text-white hover:bg-white/20"
+          onClick={onClose}
+          aria-label="Close queue"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2 px-4 pb-3 border-b border-white/10">
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn(
+            "text-white hover:bg-white/20",
+            isShuffleEnabled && "bg-white/20"
+          )}
+          onClick={() => toggleShuffle()}
+          aria-pressed={isShuffleEnabled}
+        >
+          <Shuffle className="h-4 w-4" />
+          Shuffle
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn(
+            "text-white hover:bg-white/20",
+            repeatMode !== "off" && "bg-white/20"
+          )}
+          onClick={() => cycleRepeatMode()}
+        >
+          <RepeatIcon className="h-4 w-4" />
+          {REPEAT_LABELS[repeatMode]}
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="p-2 space-y-1">
+          {queue.map((item, index) => {
+            const isCurrent = index === queueIndex;
+            const TypeIcon = item.type === "Movie" ? Film : Tv;
+
+            return (
+              <div
+                key={item.queueId}
+                className={cn(
+                  "group flex items-center gap-3 rounded-lg px-3 py-2 cursor-pointer hover:bg-white/10",
+                  isCurrent && "bg-white/20 ring-1 ring-white/40",
+                  index < queueIndex && "opacity-60"
+                )}
+                onClick={() => !isCurrent && onSelect(index)}
+              >
+                <span className="w-6 text-xs text-white/60 text-right tabular-nums">
+                  {index + 1}
+                </span>
+                <TypeIcon className="h-4 w-4 flex-shrink-0 text-white/60" />
+                <span className="flex-1 min-w-0 truncate text-sm">{item.name}</span>
+                {isCurrent ? (
+                  <Badge>Now Playing</Badge>
+                ) : (
+                  <button
+                    type="button"
+                    className="opacity-0 group-hover:opacity-100 text-white/60 hover:text-white"
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      removeFromQueue(item.queueId);
+                    }}
+                    aria-label={`Remove ${item.name} from queue`}
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </motion.div>
+  );
+}
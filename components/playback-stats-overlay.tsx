@@ -0,0 +1,232 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { X } from "lucide-react";
+import type Hls from "hls.js";
+
+import { MediaSourceInfo } from "@/types/jellyfin";
+import { getActiveTranscodingInfo } from "@/app/actions";
+import type { ActiveTranscodingInfo } from "@/app/actions";
+import { HardwareAccelerationType, PlayMethod } from "@jellyfin/sdk/lib/generated-client/models";
+import { formatEnumLabel } from "@/lib/utils";
+
+interface ClientStats {
+  width: number;
+  height: number;
+  droppedFrames: number | null;
+  totalFrames: number | null;
+  bufferAhead: number;
+  hlsLevel: number | null;
+  hlsLevelCount: number;
+  hlsLevelBitrate: number | null;
+  bandwidthEstimate: number | null;
+}
+
+interface PlaybackStatsOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  // The player's hls.js instance; null when the browser plays the stream itself
+  hls: Hls | null;
+  itemId: string;
+  mediaSource: MediaSourceInfo | null;
+  playMethod: PlayMethod | null;
+  transcodeReasons: string[];
+  onClose: () => void;
+}
+
+const CLIENT_REFRESH_MS = 1000;
+const SERVER_REFRESH_MS = 3000;
+
+function formatBitrate(bitsPerSecond?: number | null) {
+  if (!bitsPerSecond) return "—";
+  if (bitsPerSecond >= 1000000) {
+    return `${(bitsPerSecond / 1000000).toFixed(1)} Mbps`;
+  }
+  return `${Math.round(bitsPerSecond / 1000)} kbps`;
+}
+
+function formatResolution(width?: number | null, height?: number | null) {
+  return width && height ? `${width}×${height}` : "—";
+}
+
+function readClientStats(video: HTMLVideoElement, hls: Hls | null): ClientStats {
+  const quality = video.getVideoPlaybackQuality?.();
+  const level = hls && hls.currentLevel >= 0 ? hls.levels[hls.currentLevel] : undefined;
+
+  // Seconds buffered past the playhead in the range that contains it
+  let bufferAhead = 0;
+  for (let i = 0; i < video.buffered.length; i++) {
+    if (
+      video.buffered.start(i) <= video.currentTime &&
+      video.buffered.end(i) >= video.currentTime
+    ) {
+      bufferAhead = video.buffered.end(i) - video.currentTime;
+      break;
+    }
+  }
+
+  return {
+    width: video.videoWidth,
+    height: video.videoHeight,
+    droppedFrames: quality?.droppedVideoFrames ?? null,
+    totalFrames: quality?.totalVideoFrames ?? null,
+    bufferAhead,
+    hlsLevel: hls ? hls.currentLevel : null,
+    hlsLevelCount: hls?.levels.length ?? 0,
+    hlsLevelBitrate: level?.bitrate ?? null,
+    bandwidthEstimate: hls ? hls.bandwidthEstimate : null,
+  };
+}
+
+export function PlaybackStatsOverlay({
+  videoRef,
+  hls,
+  itemId,
+  mediaSource,
+  playMethod,
+  transcodeReasons,
+  onClose,
+}: PlaybackStatsOverlayProps) {
+  const [clientStats, setClientStats] = useState<ClientStats | null>(null);
+  const [serverStats, setServerStats] = useState<ActiveTranscodingInfo | null>(null);
+
+  useEffect(() => {
+    const update = () => {
+      if (videoRef.current) {
+        setClientStats(readClientStats(videoRef.current, hls));
+      }
+    };
+
+    update();
+    const interval = setInterval(update, CLIENT_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [videoRef, hls]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const update = async () => {
+      const info = await getActiveTranscodingInfo(itemId, mediaSource?.Id ?? undefined);
+      if (!cancelled) setServerStats(info);
+    };
+
+    update();
+    const interval = setInterval(update, SERVER_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [itemId, mediaSource?.Id]);
+
+  const videoStream = mediaSource?.MediaStreams?.find((s) => s.Type === "Video");
+  const audioStream = mediaSource?.MediaStreams?.find(
+    (s) => s.Type === "Audio" && s.Index === mediaSource.DefaultAudioStreamIndex
+  ) ?? mediaSource?.MediaStreams?.find((s) => s.Type === "Audio");
+  const transcoding = serverStats?.transcodingInfo;
+  const activePlayMethod = serverStats?.playMethod ?? playMethod;
+
+  // The generated enum type is empty; the server sends an array of reason names
+  const reportedReasons = (transcoding?.TranscodeReasons ?? []) as unknown as string[];
+  const serverReasons = reportedReasons.length > 0 ? reportedReasons : transcodeReasons;
+
+  const sourceCodecs = [videoStream?.Codec, audioStream?.Codec].filter(Boolean).join(" / ");
+  const streamCodecs = transcoding
+    ? [
+      transcoding.IsVideoDirect ? "copy" : transcoding.VideoCodec,
+      transcoding.IsAudioDirect ? "copy" : transcoding.AudioCodec,
+    ].filter(Boolean).join(" / ")
+    : null;
+
+  const rows: Array<[string, React.ReactNode]> = [
+    ["Play method", activePlayMethod ? formatEnumLabel(activePlayMethod) : "—"],
+    [
+      "Container",
+      transcoding?.Container && transcoding.Container !== mediaSource?.Container
+        ? `${mediaSource?.Container ?? "—"} → ${transcoding.Container}`
+        : mediaSource?.Container ?? "—",
+    ],
+    [
+      "Codecs",
+      streamCodecs ? `${sourceCodecs || "—"} → ${streamCodecs}` : sourceCodecs || "—",
+    ],
+    [
+      "Resolution",
+      `${formatResolution(clientStats?.width, clientStats?.height)} / ${formatResolution(videoStream?.Width, videoStream?.Height)}`,
+    ],
+    [
+      "Bitrate",
+      `${formatBitrate(clientStats?.hlsLevelBitrate ?? transcoding?.Bitrate)} / ${formatBitrate(mediaSource?.Bitrate)}`,
+    ],
+    [
+      "Dropped frames",
+      clientStats?.droppedFrames != null
+        ? `${clientStats.droppedFrames} / ${clientStats.totalFrames ?? 0}`
+        : "—",
+    ],
+    [
+      "Buffer health",
+      clientStats ? `${clientStats.bufferAhead.toFixed(1)} s` : "—",
+    ],
+  ];
+
+  if (clientStats?.hlsLevel != null) {
+    rows.push(
+      [
+        "HLS level",
+        clientStats.hlsLevel >= 0
+          ? `${clientStats.hlsLevel + 1} of ${clientStats.hlsLevelCount}`
+          : "Auto",
+      ],
+      ["Bandwidth estimate", formatBitrate(clientStats.bandwidthEstimate)]
+    );
+  }
+
+  if (transcoding) {
+    rows.push(
+      [
+        "Hardware acceleration",
+        transcoding.HardwareAccelerationType &&
+        transcoding.HardwareAccelerationType !== HardwareAccelerationType.None
+          ? transcoding.HardwareAccelerationType.toUpperCase()
+          : "None",
+      ],
+      [
+        "Transcode speed",
+        transcoding.Framerate ? `${transcoding.Framerate.toFixed(0)} fps` : "—",
+      ],
+      [
+        "Transcode progress",
+        transcoding.CompletionPercentage != null
+          ? `${transcoding.CompletionPercentage.toFixed(1)}%`
+          : "—",
+      ]
+    );
+  }
+
+  if (serverReasons.length > 0) {
+    rows.push(["Transcode reasons", serverReasons.map(formatEnumLabel).join(", ")]);
+  }
+
+  return (
+    <div className="fixed left-4 top-16 z-[1000000] w-96 max-w-[calc(100vw-2rem)] rounded-md bg-black/70 backdrop-blur-sm p-3 text-xs text-white font-mono">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-semibold font-sans text-sm">Stats for nerds</span>
+        <button
+          type="button"
+          className="text-white/70 hover:text-white"
+          onClick={onClose}
+          aria-label="Close stats"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      <dl className="grid grid-cols-[max-content_1fr] gap-x-3 gap-y-1">
+        {rows.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="text-white/60">{label}</dt>
+            <dd className="break-words">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { BaseItemDto } from "@jellyfin/sdk/lib/generated-client/models";
+import { GripVertical, Loader2, Play, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Sortable,
+  SortableContent,
+  SortableItem,
+  SortableItemHandle,
+  SortableOverlay,
+} from "@/components/ui/sortable";
+import { useMusicPlayer, usePlayQueue } from "@/contexts/MediaPlayerContext";
+import { movePlaylistItem, removeFromPlaylist } from "@/app/actions";
+import { formatRuntime, toAudioTrack } from "@/lib/utils";
+
+interface PlaylistEntriesProps {
+  playlistId: string;
+  entries: BaseItemDto[];
+  serverUrl: string;
+  isAudio: boolean;
+}
+
+const getEntryHref = (entry: BaseItemDto) => {
+  switch (entry.Type) {
+    case "Movie":
+      return `/movie/${entry.Id}`;
+    case "Episode":
+      return `/episode/${entry.Id}`;
+    case "Audio":
+      return entry.AlbumId ? `/album/${entry.AlbumId}` : null;
+    default:
+      return null;
+  }
+};
+
+const getEntrySubtitle = (entry: BaseItemDto) => {
+  if (entry.Type === "Episode") {
+    return [
+      entry.SeriesName,
+      entry.ParentIndexNumber != null && entry.IndexNumber != null
+        ? `S${entry.ParentIndexNumber}E${entry.IndexNumber}`
+        : null,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+  }
+  if (entry.Type === "Audio") {
+    return [entry.AlbumArtist || entry.Artists?.join(", "), entry.Album].filter(Boolean).join(" · ");
+  }
+  return entry.ProductionYear ? String(entry.ProductionYear) : "";
+};
+
+// Playlist entries in order; drag the handle to reorder, and the server is told the new position
+export function PlaylistEntries({ playlistId, entries, serverUrl, isAudio }: PlaylistEntriesProps) {
+  const { setPlayQueue } = usePlayQueue();
+  const { playTracks } = useMusicPlayer();
+  const [items, setItems] = useState(entries);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setItems(entries);
+  }, [entries]);
+
+  const handleMove = async ({ activeIndex, overIndex }: { activeIndex: number; overIndex: number }) => {
+    if (activeIndex === overIndex) return;
+
+    const previous = items;
+    const next = [...items];
+    const [moved] = next.splice(activeIndex, 1);
+    next.splice(overIndex, 0, moved);
+    setItems(next);
+
+    try {
+      await movePlaylistItem(playlistId, moved.PlaylistItemId!, overIndex);
+    } catch (error) {
+      console.error("Failed to move playlist item:", error);
+      toast.error("Failed to reorder playlist");
+      setItems(previous);
+    }
+  };
+
+  const handleRemove = async (entry: BaseItemDto) => {
+    setRemovingId(entry.PlaylistItemId!);
+    try {
+      await removeFromPlaylist(playlistId, [entry.PlaylistItemId!]);
+      setItems((prev) => prev.filter((item) => item.PlaylistItemId !== entry.PlaylistItemId));
+      toast.success(`Removed "${entry.Name}" from the playlist`);
+    } catch (error) {
+      console.error("Failed to remove from playlist:", error);
+      toast.error("Failed to remove from playlist");
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const playFrom = (entry: BaseItemDto) => {
+    if (isAudio) {
+      const tracks = items.filter((item) => item.Type === "Audio");
+      playTracks({
+        tracks: tracks.map(toAudioTrack),
+        startIndex: Math.max(tracks.indexOf(entry), 0),
+      });
+      return;
+    }
+
+    const videos = items.filter((item) => item.Type === "Movie" || item.Type === "Episode");
+    setPlayQueue({
+      items: videos.map((item) => ({
+        id: item.Id!,
+        name: item.Name!,
+        type: item.Type as "Movie" | "Episode",
+      })),
+      startIndex: Math.max(videos.indexOf(entry), 0),
+    });
+  };
+
+  if (items.length === 0) {
+    return <p className="text-muted-foreground">This playlist is empty.</p>;
+  }
+
+  const renderRow = (entry: BaseItemDto, index: number) => {
+    const href = getEntryHref(entry);
+    const imageId = entry.Type === "Audio" && !entry.ImageTags?.Primary ? entry.AlbumId : entry.Id;
+
+    return (
+      <div className="group flex items-center gap-3 rounded-md bg-background/40 px-2 py-1.5 hover:bg-accent">
+        <SortableItemHandle asChild>
+          <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0 text-muted-foreground">
+            <GripVertical className="h-4 w-4" />
+          </Button>
+        </SortableItemHandle>
+        <span className="w-6 shrink-0 text-right font-mono text-xs text-muted-foreground">
+          {index + 1}
+        </span>
+        <div
+          className={`shrink-0 overflow-hidden rounded bg-muted ${
+            isAudio ? "size-10" : "aspect-video w-20"
+          }`}
+        >
+          {imageId && (
+            <img
+              src={`${serverUrl}/Items/${imageId}/Images/Primary?maxHeight=90&quality=90`}
+              alt=""
+              className="size-full object-cover"
+              loading="lazy"
+            />
+          )}
+        </div>
+        <div className="min-w-0 flex-1">
+          {href ? (
+            <Link href={href} className="block truncate text-sm font-medium hover:underline">
+              {entry.Name}
+            </Link>
+          ) : (
+            <span className="block truncate text-sm font-medium">{entry.Name}</span>
+          )}
+          <span className="block truncate text-xs text-muted-foreground">
+            {getEntrySubtitle(entry)}
+          </span>
+        </div>
+        <span className="hidden shrink-0 font-mono text-xs text-muted-foreground sm:block">
+          {entry.RunTimeTicks ? formatRuntime(entry.RunTimeTicks) : ""}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 shrink-0 opacity-0 group-hover:opacity-100"
+          onClick={() => playFrom(entry)}
+          title="Play from here"
+        >
+          <Play className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 shrink-0 opacity-0 group-hover:opacity-100 disabled:opacity-100"
+          onClick={() => handleRemove(entry)}
+          disabled={removingId !== null}
+          title="Remove from playlist"
+        >
+          {removingId === entry.PlaylistItemId ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <X className="h-4 w-4" />
+          )}
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <Sortable
+      value={items}
+      getItemValue={(entry) => entry.PlaylistItemId!}
+      onMove={handleMove}
+      orientation="vertical"
+    >
+      <SortableContent className="space-y-1">
+        {items.map((entry, index) => (
+          <SortableItem key={entry.PlaylistItemId} value={entry.PlaylistItemId!}>
+            {renderRow(entry, index)}
+          </SortableItem>
+        ))}
+      </SortableContent>
+      <SortableOverlay>
+        {({ value }) => {
+          const index = items.findIndex((entry) => entry.PlaylistItemId === value);
+          return index >= 0 ? (
+            <SortableItem value={value}>{renderRow(items[index], index)}</SortableItem>
+          ) : null;
+        }}
+      </SortableOverlay>
+    </Sortable>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { UserDto } from "@jellyfin/sdk/lib/generated-client/models";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Users } from "lucide-react";
+import { toast } from "sonner";
+import {
+  PlaylistAccess,
+  fetchPlaylistAccess,
+  fetchShareableUsers,
+  setPlaylistPublic,
+  sharePlaylist,
+  unsharePlaylist,
+} from "@/app/actions";
+
+interface PlaylistShareDialogProps {
+  playlistId: string;
+  playlistName: string;
+}
+
+// Collaborators and public access for a playlist; only its owner can change them
+export function PlaylistShareDialog({ playlistId, playlistName }: PlaylistShareDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [access, setAccess] = useState<PlaylistAccess | null>(null);
+  const [users, setUsers] = useState<UserDto[]>([]);
+  const [savingUserId, setSavingUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setAccess(null);
+      return;
+    }
+
+    Promise.all([fetchPlaylistAccess(playlistId), fetchShareableUsers()]).then(
+      ([playlistAccess, shareableUsers]) => {
+        setAccess(playlistAccess ?? { isPublic: false, shares: [] });
+        setUsers(shareableUsers);
+      }
+    );
+  }, [open, playlistId]);
+
+  const getShare = (userId: string) => access?.shares.find((share) => share.UserId === userId);
+
+  const handlePublicChange = async (isPublic: boolean) => {
+    if (!access) return;
+    setAccess({ ...access, isPublic });
+    try {
+      await setPlaylistPublic(playlistId, isPublic);
+    } catch (error) {
+      console.error("Failed to update playlist access:", error);
+      toast.error("Failed to update playlist access");
+      setAccess({ ...access, isPublic: !isPublic });
+    }
+  };
+
+  const updateShare = async (userId: string, shared: boolean, canEdit: boolean) => {
+    if (!access) return;
+    setSavingUserId(userId);
+    try {
+      if (shared) {
+        await sharePlaylist(playlistId, userId, canEdit);
+      } else {
+        await unsharePlaylist(playlistId, userId);
+      }
+      const others = access.shares.filter((share) => share.UserId !== userId);
+      setAccess({
+        ...access,
+        shares: shared ? [...others, { UserId: userId, CanEdit: canEdit }] : others,
+      });
+    } catch (error) {
+      console.error("Failed to update collaborator:", error);
+      toast.error("Failed to update collaborator");
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  // Collaborators we can't name, when the user list isn't available to us
+  const unknownShares =
+    access?.shares.filter((share) => !users.some((user) => user.Id === share.UserId)) ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Users className="h-4 w-4" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share Playlist</DialogTitle>
+          <DialogDescription className="truncate">
+            Choose who else can see and edit {playlistName}
+          </DialogDescription>
+        </DialogHeader>
+
+        {access === null ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <Skeleton key={index} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <label className="flex items-center justify-between gap-4 rounded-md border px-3 py-2 cursor-pointer">
+              <div>
+                <div className="text-sm font-medium">Public</div>
+                <div className="text-xs text-muted-foreground">
+                  Everyone on this server can see the playlist
+                </div>
+              </div>
+              <Switch checked={access.isPublic} onCheckedChange={handlePublicChange} />
+            </label>
+
+            <div className="max-h-72 space-y-1 overflow-y-auto">
+              {users.map((user) => {
+                const share = getShare(user.Id!);
+                return (
+                  <div
+                    key={user.Id}
+                    className="flex items-center gap-3 rounded-md px-3 py-2 hover:bg-accent"
+                  >
+                    <Checkbox
+                      checked={Boolean(share)}
+                      disabled={savingUserId !== null}
+                      onCheckedChange={(checked) =>
+                        updateShare(user.Id!, checked === true, false)
+                      }
+                    />
+                    <span className="flex-1 truncate text-sm">{user.Name}</span>
+                    {share && (
+                      <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+                        Can edit
+                        <Switch
+                          checked={Boolean(share.CanEdit)}
+                          disabled={savingUserId !== null}
+                          onCheckedChange={(canEdit) => updateShare(user.Id!, true, canEdit)}
+                        />
+                      </label>
+                    )}
+                  </div>
+                );
+              })}
+
+              {unknownShares.map((share) => (
+                <div key={share.UserId} className="flex items-center gap-3 rounded-md px-3 py-2">
+                  <span className="flex-1 truncate text-sm text-muted-foreground">
+                    Another user{share.CanEdit ? " (can edit)" : ""}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={savingUserId !== null}
+                    onClick={() => updateShare(share.UserId!, false, false)}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+
+              {users.length === 0 && unknownShares.length === 0 && (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  No other users to share with
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Loader2, Play, Shuffle } from "lucide-react";
+import { toast } from "sonner";
+import { BaseItemKind } from "@jellyfin/sdk/lib/generated-client/models";
+import { useQueueActions } from "@/hooks/useQueueActions";
+
+interface QueuePlayButtonProps {
+  itemId: string;
+  itemType: BaseItemKind;
+  action: "play" | "shuffle";
+  variant?: "default" | "outline" | "secondary" | "ghost";
+  size?: "default" | "sm" | "lg";
+  className?: string;
+}
+
+// Queues everything inside a series, season, genre or library and starts playback
+export function QueuePlayButton({
+  itemId,
+  itemType,
+  action,
+  variant = "outline",
+  size = "default",
+  className,
+}: QueuePlayButtonProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const { queueItem } = useQueueActions();
+
+  const handleClick = async () => {
+    try {
+      setIsLoading(true);
+      const count = await queueItem({ Id: itemId, Type: itemType }, action);
+      if (count === 0) {
+        toast.error("Nothing to play");
+      }
+    } catch (error: any) {
+      console.error("Failed to start queue:", error);
+
+      if (error?.isAuthError) {
+        toast.error("Authentication expired. Please sign in again.");
+      } else {
+        toast.error("Failed to start playback. Please try again.");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const Icon = action === "shuffle" ? Shuffle : Play;
+
+  return (
+    <Button
+      onClick={handleClick}
+      disabled={isLoading}
+      variant={variant}
+      size={size}
+      className={className}
+    >
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin" />
+      ) : (
+        <Icon className="h-4 w-4" />
+      )}
+      {action === "shuffle" ? "Shuffle" : "Play All"}
+    </Button>
+  );
+}
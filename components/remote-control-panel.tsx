@@ -0,0 +1,332 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { useAtom } from "jotai";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Pause,
+  Play,
+  RotateCcw,
+  RotateCw,
+  SkipBack,
+  SkipForward,
+  Square,
+  Volume2,
+  VolumeX,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  GeneralCommandType,
+  PlaystateCommand,
+  SessionInfoDto,
+} from "@jellyfin/sdk/lib/generated-client/models";
+import {
+  fetchSession,
+  sendSessionGeneralCommand,
+  sendSessionPlaystateCommand,
+} from "@/app/actions";
+import { remoteControlSessionIdAtom } from "@/lib/atoms";
+import { formatPlaybackPosition } from "@/lib/utils";
+import { getSessionIcon } from "@/components/play-on-dialog";
+
+const POLL_INTERVAL_MS = 2000;
+const SEEK_STEP_TICKS = 10 * 10000000;
+const SUBTITLES_OFF = "-1";
+
+// Floating remote for the session picked through "Play on…"; stays open while browsing
+export function RemoteControlPanel() {
+  const [sessionId, setSessionId] = useAtom(remoteControlSessionIdAtom);
+  const [session, setSession] = useState<SessionInfoDto | null>(null);
+  const [disconnected, setDisconnected] = useState(false);
+  // Position reported by the last poll and when it arrived, to keep the bar moving in between
+  const [reportedAt, setReportedAt] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [seekingTicks, setSeekingTicks] = useState<number | null>(null);
+  const [volume, setVolume] = useState<number | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      const next = await fetchSession(sessionId);
+      setSession(next);
+      setDisconnected(!next);
+      setReportedAt(Date.now());
+    } catch (error) {
+      console.error("Failed to fetch session:", error);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    setSession(null);
+    setDisconnected(false);
+    setVolume(null);
+    if (!sessionId) return;
+
+    refresh();
+    const poll = setInterval(refresh, POLL_INTERVAL_MS);
+    const clock = setInterval(() => setNow(Date.now()), 1000);
+    return () => {
+      clearInterval(poll);
+      clearInterval(clock);
+    };
+  }, [sessionId, refresh]);
+
+  if (!sessionId) return null;
+
+  const playState = session?.PlayState;
+  const nowPlaying = session?.NowPlayingItem;
+  const isPaused = playState?.IsPaused ?? true;
+  const runTimeTicks = nowPlaying?.RunTimeTicks ?? 0;
+  const positionTicks = Math.min(
+    (playState?.PositionTicks ?? 0) +
+      (isPaused || !nowPlaying ? 0 : (now - reportedAt) * 10000),
+    runTimeTicks || Infinity
+  );
+  const streams = nowPlaying?.MediaStreams ?? [];
+  const audioStreams = streams.filter((stream) => stream.Type === "Audio");
+  const subtitleStreams = streams.filter((stream) => stream.Type === "Subtitle");
+  const DeviceIcon = session ? getSessionIcon(session) : null;
+
+  const runCommand = async (label: string, command: () => Promise<void>) => {
+    if (!session?.Id) return;
+    try {
+      await command();
+      // Give the client a moment to apply it before re-reading its state
+      setTimeout(refresh, 500);
+    } catch (error) {
+      console.error(`Failed to ${label}:`, error);
+      toast.error(`Failed to ${label}`);
+    }
+  };
+
+  const sendPlaystate = (command: PlaystateCommand, seekPositionTicks?: number) =>
+    runCommand(command === PlaystateCommand.Seek ? "seek" : command.toLowerCase(), () =>
+      sendSessionPlaystateCommand(sessionId, command, seekPositionTicks)
+    );
+
+  const seekTo = (ticks: number) =>
+    sendPlaystate(
+      PlaystateCommand.Seek,
+      Math.max(0, runTimeTicks ? Math.min(ticks, runTimeTicks) : ticks)
+    );
+
+  const sendGeneral = (
+    label: string,
+    command: GeneralCommandType,
+    args?: Record<string, string>
+  ) => runCommand(label, () => sendSessionGeneralCommand(sessionId, command, args));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.2 }}
+      className="fixed bottom-4 right-4 z-50 w-80 rounded-xl border border-border/50 bg-popover/95 p-4 shadow-2xl backdrop-blur-sm"
+    >
+      <div className="flex items-center gap-2">
+        {DeviceIcon && <DeviceIcon className="h-4 w-4 text-muted-foreground" />}
+        <div className="flex-1 min-w-0">
+          <div className="truncate text-sm font-medium">
+            {session?.DeviceName ?? "Connecting…"}
+          </div>
+          {session?.Client && (
+            <div className="truncate text-xs text-muted-foreground">
+              {session.Client}
+            </div>
+          )}
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-7"
+          onClick={() => setSessionId(null)}
+          aria-label="Close remote control"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {disconnected ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">
+          This device is no longer connected
+        </p>
+      ) : !nowPlaying ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">
+          {session ? "Nothing is playing" : "Loading…"}
+        </p>
+      ) : (
+        <div className="mt-3 space-y-3">
+          <div className="min-w-0">
+            {nowPlaying.SeriesName && (
+              <div className="truncate text-xs text-muted-foreground">
+                {nowPlaying.SeriesName}
+                {nowPlaying.ParentIndexNumber != null &&
+                  nowPlaying.IndexNumber != null &&
+                  ` • S${nowPlaying.ParentIndexNumber} • E${nowPlaying.IndexNumber}`}
+              </div>
+            )}
+            <div className="truncate font-semibold">{nowPlaying.Name}</div>
+          </div>
+
+          {runTimeTicks > 0 && (
+            <div className="space-y-1">
+              <Slider
+                value={[seekingTicks ?? positionTicks]}
+                max={runTimeTicks}
+                step={10000000}
+                onValueChange={([value]) => setSeekingTicks(value)}
+                onValueCommit={([value]) => {
+                  setSeekingTicks(null);
+                  seekTo(value);
+                }}
+              />
+              <div className="flex justify-between text-xs tabular-nums text-muted-foreground">
+                <span>{formatPlaybackPosition(seekingTicks ?? positionTicks)}</span>
+                <span>{formatPlaybackPosition(runTimeTicks)}</span>
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => sendPlaystate(PlaystateCommand.PreviousTrack)}
+              aria-label="Previous"
+            >
+              <SkipBack className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => seekTo(positionTicks - SEEK_STEP_TICKS)}
+              aria-label="Back 10 seconds"
+            >
+              <RotateCcw className="h-4 w-4" />
+            </Button>
+            <Button
+              size="icon"
+              className="rounded-full"
+              onClick={() =>
+                sendPlaystate(isPaused ? PlaystateCommand.Unpause : PlaystateCommand.Pause)
+              }
+              aria-label={isPaused ? "Play" : "Pause"}
+            >
+              {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => seekTo(positionTicks + SEEK_STEP_TICKS)}
+              aria-label="Forward 10 seconds"
+            >
+              <RotateCw className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => sendPlaystate(PlaystateCommand.NextTrack)}
+              aria-label="Next"
+            >
+              <SkipForward className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => sendPlaystate(PlaystateCommand.Stop)}
+              aria-label="Stop"
+            >
+              <Square className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-8"
+              onClick={() => sendGeneral("toggle mute", GeneralCommandType.ToggleMute)}
+              aria-label={playState?.IsMuted ? "Unmute" : "Mute"}
+            >
+              {playState?.IsMuted ? (
+                <VolumeX className="h-4 w-4" />
+              ) : (
+                <Volume2 className="h-4 w-4" />
+              )}
+            </Button>
+            <Slider
+              value={[volume ?? playState?.VolumeLevel ?? 100]}
+              max={100}
+              step={1}
+              onValueChange={([value]) => setVolume(value)}
+              onValueCommit={([value]) => {
+                setVolume(null);
+                sendGeneral("set volume", GeneralCommandType.SetVolume, {
+                  Volume: value.toString(),
+                });
+              }}
+            />
+          </div>
+
+          {(audioStreams.length > 1 || subtitleStreams.length > 0) && (
+            <div className="grid grid-cols-2 gap-2">
+              <Select
+                value={playState?.AudioStreamIndex?.toString() ?? ""}
+                onValueChange={(value) =>
+                  sendGeneral("change audio track", GeneralCommandType.SetAudioStreamIndex, {
+                    Index: value,
+                  })
+                }
+                disabled={audioStreams.length < 2}
+              >
+                <SelectTrigger size="sm" className="w-full">
+                  <SelectValue placeholder="Audio" />
+                </SelectTrigger>
+                <SelectContent>
+                  {audioStreams.map((stream) => (
+                    <SelectItem key={stream.Index} value={stream.Index!.toString()}>
+                      {stream.DisplayTitle || stream.Language || `Track ${stream.Index}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={playState?.SubtitleStreamIndex?.toString() ?? SUBTITLES_OFF}
+                onValueChange={(value) =>
+                  sendGeneral(
+                    "change subtitles",
+                    GeneralCommandType.SetSubtitleStreamIndex,
+                    { Index: value }
+                  )
+                }
+                disabled={subtitleStreams.length === 0}
+              >
+                <SelectTrigger size="sm" className="w-full">
+                  <SelectValue placeholder="Subtitles" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={SUBTITLES_OFF}>Subtitles off</SelectItem>
+                  {subtitleStreams.map((stream) => (
+                    <SelectItem key={stream.Index} value={stream.Index!.toString()}>
+                      {stream.DisplayTitle || stream.Language || `Track ${stream.Index}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+}
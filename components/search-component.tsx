@@ -32,7 +32,7 @@ export function SearchBar({ className = "" }: SearchBarProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const router = useRouter();
-  const { isPlayerVisible } = useMediaPlayer();
+  const { isPlayerVisible, isPlayerMinimized } = useMediaPlayer();
   // Server actions are imported directly
   const searchTimeout = useRef<NodeJS.Timeout | null>(null);
   const suggestionsRef = useRef<HTMLDivElement>(null);
@@ -184,8 +184,8 @@ export function SearchBar({ className = "" }: SearchBarProps) {
     return `${minutes}m`;
   };
 
-  // Hide the search bar when media player is visible
-  if (isPlayerVisible) {
+  // Hide the search bar behind the full-screen player; the mini-player leaves it usable
+  if (isPlayerVisible && !isPlayerMinimized) {
     return null;
   }
 
@@ -19,12 +19,16 @@ import {
 import { fetchSeasons, fetchEpisodes } from "@/app/actions/tv-shows";
 import { getImageUrl } from "@/app/actions/utils";
 import Link from "next/link";
-import { Play, Clock, Star } from "lucide-react";
+import { Play, Clock, Star, CheckSquare } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { formatRuntime } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
 import { ScrollArea, ScrollBar } from "./ui/scroll-area";
 import { usePathname, useRouter } from "next/navigation";
+import { useAtom, useSetAtom } from "jotai";
+import { BaseItemDto } from "@jellyfin/sdk/lib/generated-client/models";
+import { SelectableItem } from "@/components/selectable-item";
+import { isSelectionModeAtom, selectAllAtom } from "@/lib/atoms";
 
 interface SeasonEpisodesProps {
   showId: string;
@@ -105,6 +109,14 @@ export const SeasonEpisodes = React.memo(function SeasonEpisodes({
   const { serverUrl } = useAuth();
   const pathname = usePathname();
   const router = useRouter();
+  const [isSelectionMode, setIsSelectionMode] = useAtom(isSelectionModeAtom);
+  const selectAll = useSetAtom(selectAllAtom);
+
+  // Episodes as items the selection bar can act on
+  const selectableEpisodes = useMemo(
+    () => episodes.map((episode) => ({ ...episode, Type: "Episode" }) as BaseItemDto),
+    [episodes]
+  );
 
   // Extract current episode ID from pathname if we're on an episode page
   const currentEpisodeId = pathname.startsWith("/episode/")
@@ -301,6 +313,19 @@ export const SeasonEpisodes = React.memo(function SeasonEpisodes({
             </SelectContent>
           </Select>
         </div>
+        {episodes.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            onClick={() =>
+              isSelectionMode ? selectAll(selectableEpisodes) : setIsSelectionMode(true)
+            }
+          >
+            <CheckSquare className="h-4 w-4" />
+            {isSelectionMode ? "Select All" : "Select"}
+          </Button>
+        )}
       </div>
 
       {episodesLoading ? (
@@ -351,14 +376,15 @@ export const SeasonEpisodes = React.memo(function SeasonEpisodes({
       ) : (
         <ScrollArea className="w-full rounded-md">
           <div className="flex w-max space-x-4 mb-8 pl-1 pr-1">
-            {episodes.map((episode) => (
-              <EpisodeCard
-                key={episode.Id}
-                episode={episode}
-                showId={showId}
-                serverUrl={serverUrl!}
-                currentEpisodeId={currentEpisodeId}
-              />
+            {selectableEpisodes.map((episode, index) => (
+              <SelectableItem key={episode.Id} item={episode} items={selectableEpisodes}>
+                <EpisodeCard
+                  episode={episodes[index]}
+                  showId={showId}
+                  serverUrl={serverUrl!}
+                  currentEpisodeId={currentEpisodeId}
+                />
+              </SelectableItem>
             ))}
           </div>
           <ScrollBar orientation="horizontal" />
@@ -0,0 +1,59 @@
+"use client";
+
+import React from "react";
+import { useAtomValue, useSetAtom } from "jotai";
+import { BaseItemDto } from "@jellyfin/sdk/lib/generated-client/models";
+import { Check } from "lucide-react";
+import {
+  isSelectionModeAtom,
+  selectedItemsAtom,
+  toggleSelectionAtom,
+} from "@/lib/atoms";
+import { cn } from "@/lib/utils";
+
+interface SelectableItemProps {
+  item: BaseItemDto;
+  // The grid's items in display order, for shift-click ranges
+  items: BaseItemDto[];
+  className?: string;
+  children: React.ReactNode;
+}
+
+// In selection mode, covers a card with a checkbox overlay that selects instead of opening it
+export function SelectableItem({ item, items, className, children }: SelectableItemProps) {
+  const isSelectionMode = useAtomValue(isSelectionModeAtom);
+  const selectedItems = useAtomValue(selectedItemsAtom);
+  const toggleSelection = useSetAtom(toggleSelectionAtom);
+  const isSelected = selectedItems.some((entry) => entry.Id === item.Id);
+
+  return (
+    <div className={cn("relative", className)}>
+      {children}
+      {isSelectionMode && (
+        <button
+          type="button"
+          aria-pressed={isSelected}
+          aria-label={`${isSelected ? "Deselect" : "Select"} ${item.Name}`}
+          className={cn(
+            "absolute inset-0 z-20 rounded-md select-none transition-colors cursor-pointer",
+            isSelected ? "bg-primary/15 ring-2 ring-primary" : "hover:bg-white/5"
+          )}
+          onClick={(event) =>
+            toggleSelection({ item, range: event.shiftKey ? items : undefined })
+          }
+        >
+          <span
+            className={cn(
+              "absolute top-2 left-2 flex size-6 items-center justify-center rounded-md border-2 shadow-sm",
+              isSelected
+                ? "border-primary bg-primary text-primary-foreground"
+                : "border-white/80 bg-black/40"
+            )}
+          >
+            {isSelected && <Check className="h-4 w-4" />}
+          </span>
+        </button>
+      )}
+    </div>
+  );
+}
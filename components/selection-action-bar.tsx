@@ -0,0 +1,365 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useAtomValue, useSetAtom } from "jotai";
+import { usePathname, useRouter } from "next/navigation";
+import { BaseItemDto } from "@jellyfin/sdk/lib/generated-client/models";
+import {
+  AlertCircle,
+  Check,
+  Eye,
+  EyeOff,
+  Heart,
+  ListMusic,
+  Loader2,
+  Plus,
+  RefreshCw,
+  Trash2,
+  X,
+} from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { AddToCollectionDialog } from "@/components/add-to-collection-dialog";
+import { AddToPlaylistDialog } from "@/components/add-to-playlist-dialog";
+import { deleteItem, fetchItemsByIds, getUser, refreshItemMetadata } from "@/app/actions";
+import { getUserWithPolicy, type UserPolicy } from "@/app/actions/utils";
+import {
+  markItemAsPlayed,
+  markItemAsUnplayed,
+  setItemFavorite,
+} from "@/app/actions/playback";
+import {
+  currentAudioTrackAtom,
+  exitSelectionModeAtom,
+  isSelectionModeAtom,
+  selectedItemsAtom,
+} from "@/lib/atoms";
+
+type BatchStatus = "pending" | "running" | "done" | "failed";
+
+interface BatchEntry {
+  item: BaseItemDto;
+  status: BatchStatus;
+  error?: string;
+}
+
+interface BatchAction {
+  label: string;
+  run: (item: BaseItemDto) => Promise<void>;
+}
+
+const BATCH_ACTIONS = {
+  played: { label: "Marking as played", run: (item) => markItemAsPlayed(item.Id!) },
+  unplayed: { label: "Marking as unplayed", run: (item) => markItemAsUnplayed(item.Id!) },
+  favorite: { label: "Adding to favourites", run: (item) => setItemFavorite(item.Id!, true) },
+  refresh: { label: "Refreshing metadata", run: (item) => refreshItemMetadata(item.Id!) },
+  delete: { label: "Deleting", run: (item) => deleteItem(item.Id!) },
+} satisfies Record<string, BatchAction>;
+
+// Floating bar for acting on every selected item at once, one request per item
+export function SelectionActionBar() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const isSelectionMode = useAtomValue(isSelectionModeAtom);
+  const selectedItems = useAtomValue(selectedItemsAtom);
+  const setSelectedItems = useSetAtom(selectedItemsAtom);
+  const exitSelectionMode = useSetAtom(exitSelectionModeAtom);
+  const currentAudioTrack = useAtomValue(currentAudioTrackAtom);
+
+  const [batchLabel, setBatchLabel] = useState("");
+  const [batch, setBatch] = useState<BatchEntry[] | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  // What the server will let this user delete; null while it's being checked
+  const [deletableItems, setDeletableItems] = useState<BaseItemDto[] | null>(null);
+  const [userPolicy, setUserPolicy] = useState<UserPolicy | null>(null);
+  const [policyRequested, setPolicyRequested] = useState(false);
+  const [showAddToCollection, setShowAddToCollection] = useState(false);
+  const [showAddToPlaylist, setShowAddToPlaylist] = useState(false);
+
+  // Refreshing metadata is admin-only, so the policy is loaded once, with the first selection
+  useEffect(() => {
+    const firstItemId = selectedItems[0]?.Id;
+    if (policyRequested || !firstItemId) return;
+
+    setPolicyRequested(true);
+    const loadUserPolicy = async () => {
+      try {
+        const currentUser = await getUser();
+        if (currentUser?.Id) {
+          const userWithPolicy = await getUserWithPolicy(currentUser.Id, firstItemId);
+          setUserPolicy(userWithPolicy?.Policy ?? null);
+        }
+      } catch (error) {
+        console.error("Failed to fetch user policy:", error);
+      }
+    };
+    loadUserPolicy();
+  }, [selectedItems, policyRequested]);
+
+  // Selections belong to the page they were made on
+  useEffect(() => {
+    exitSelectionMode();
+  }, [pathname, exitSelectionMode]);
+
+  useEffect(() => {
+    if (!isSelectionMode) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape" && batch === null) exitSelectionMode();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isSelectionMode, batch, exitSelectionMode]);
+
+  const isRunning = batch?.some((entry) => entry.status === "pending" || entry.status === "running");
+  const finishedCount = batch?.filter((entry) => entry.status === "done" || entry.status === "failed").length ?? 0;
+  const failures = batch?.filter((entry) => entry.status === "failed") ?? [];
+
+  const runBatch = async ({ label, run }: BatchAction, items: BaseItemDto[] = selectedItems) => {
+    const entries: BatchEntry[] = items.map((item) => ({ item, status: "pending" }));
+    setBatchLabel(label);
+    setBatch(entries);
+
+    const update = (index: number, changes: Partial<BatchEntry>) => {
+      entries[index] = { ...entries[index], ...changes };
+      setBatch([...entries]);
+    };
+
+    // One at a time, so the server isn't flooded and progress reads in order
+    for (let index = 0; index < items.length; index++) {
+      update(index, { status: "running" });
+      try {
+        await run(items[index]);
+        update(index, { status: "done" });
+      } catch (error) {
+        update(index, {
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    router.refresh();
+  };
+
+  // Deletion rights depend on the user and the library, so the server decides item by item
+  const openDeleteConfirm = async () => {
+    setDeletableItems(null);
+    setConfirmDelete(true);
+    try {
+      const items = await fetchItemsByIds(selectedItems.map((item) => item.Id!));
+      setDeletableItems(items.filter((item) => item.CanDelete));
+    } catch (error) {
+      console.error("Failed to check which items can be deleted:", error);
+      setDeletableItems([]);
+    }
+  };
+
+  const closeBatch = () => {
+    if (isRunning) return;
+    // Keep only what failed selected, so it can be retried
+    if (failures.length > 0) {
+      setSelectedItems(failures.map((entry) => entry.item));
+    } else {
+      exitSelectionMode();
+    }
+    setBatch(null);
+  };
+
+  if (!isSelectionMode) return null;
+
+  const count = selectedItems.length;
+  const hasSelection = count > 0;
+  // The bar sits above page content, so it steps aside while one of its dialogs is up
+  const isDialogOpen =
+    confirmDelete || batch !== null || showAddToCollection || showAddToPlaylist;
+
+  const actions = [
+    { key: "played", label: "Mark played", icon: Eye, onClick: () => runBatch(BATCH_ACTIONS.played) },
+    { key: "unplayed", label: "Mark unplayed", icon: EyeOff, onClick: () => runBatch(BATCH_ACTIONS.unplayed) },
+    { key: "favorite", label: "Favourite", icon: Heart, onClick: () => runBatch(BATCH_ACTIONS.favorite) },
+    { key: "collection", label: "Add to collection", icon: Plus, onClick: () => setShowAddToCollection(true) },
+    { key: "playlist", label: "Add to playlist", icon: ListMusic, onClick: () => setShowAddToPlaylist(true) },
+    ...(userPolicy?.IsAdministrator
+      ? [{ key: "refresh", label: "Refresh metadata", icon: RefreshCw, onClick: () => runBatch(BATCH_ACTIONS.refresh) }]
+      : []),
+  ];
+  const deletableCount = deletableItems?.length ?? 0;
+  const skippedCount = count - deletableCount;
+
+  return (
+    <>
+      <div
+        className={`fixed left-1/2 z-[99999] -translate-x-1/2 ${currentAudioTrack ? "bottom-24" : "bottom-6"} ${isDialogOpen ? "hidden" : ""}`}
+      >
+        <div className="flex items-center gap-1 rounded-full border bg-popover/95 px-2 py-1.5 shadow-xl backdrop-blur-md">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 rounded-full"
+            onClick={() => exitSelectionMode()}
+            aria-label="Exit selection"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+          <span className="min-w-20 px-2 text-sm font-medium">
+            {count} selected
+          </span>
+          <div className="mx-1 h-5 w-px bg-border" />
+          <TooltipProvider>
+            {actions.map((action) => (
+              <Tooltip key={action.key}>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 rounded-full"
+                    disabled={!hasSelection}
+                    onClick={action.onClick}
+                    aria-label={action.label}
+                  >
+                    <action.icon className="h-4 w-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent className="z-[100000]">
+                  <p>{action.label}</p>
+                </TooltipContent>
+              </Tooltip>
+            ))}
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 rounded-full text-destructive hover:text-destructive"
+                  disabled={!hasSelection}
+                  onClick={openDeleteConfirm}
+                  aria-label="Delete"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent className="z-[100000]">
+                <p>Delete</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        </div>
+      </div>
+
+      <Dialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {deletableItems === null
+                ? "Checking what can be deleted…"
+                : deletableCount === 0
+                  ? "Nothing to delete"
+                  : `Delete ${deletableCount} ${deletableCount === 1 ? "item" : "items"}?`}
+            </DialogTitle>
+            <DialogDescription>
+              {deletableItems === null
+                ? "Asking the server which of the selected items you may delete."
+                : deletableCount === 0
+                  ? "You don't have permission to delete any of the selected items."
+                  : "Their files will be removed from the server. This can't be undone."}
+            </DialogDescription>
+            {deletableItems !== null && deletableCount > 0 && skippedCount > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {skippedCount} of the {count} selected {count === 1 ? "item" : "items"} will be
+                skipped, because you don&apos;t have permission to delete{" "}
+                {skippedCount === 1 ? "it" : "them"}.
+              </p>
+            )}
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmDelete(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={deletableCount === 0}
+              onClick={() => {
+                setConfirmDelete(false);
+                runBatch(BATCH_ACTIONS.delete, deletableItems ?? []);
+              }}
+            >
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={batch !== null} onOpenChange={(open) => !open && closeBatch()}>
+        <DialogContent className="sm:max-w-md" showCloseButton={!isRunning}>
+          <DialogHeader>
+            <DialogTitle>{batchLabel}</DialogTitle>
+            <DialogDescription>
+              {isRunning
+                ? `${finishedCount} of ${batch?.length ?? 0} done`
+                : failures.length > 0
+                  ? `${failures.length} of ${batch?.length ?? 0} failed; they stay selected so you can retry`
+                  : `All ${batch?.length ?? 0} done`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Progress value={batch?.length ? (finishedCount / batch.length) * 100 : 0} />
+
+          <div className="max-h-72 space-y-1 overflow-y-auto">
+            {batch?.map((entry) => (
+              <div key={entry.item.Id} className="flex items-start gap-3 rounded-md px-2 py-1.5 text-sm">
+                <span className="mt-0.5 shrink-0">
+                  {entry.status === "running" ? (
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  ) : entry.status === "done" ? (
+                    <Check className="h-4 w-4 text-green-500" />
+                  ) : entry.status === "failed" ? (
+                    <AlertCircle className="h-4 w-4 text-destructive" />
+                  ) : (
+                    <span className="block size-4 rounded-full border" />
+                  )}
+                </span>
+                <div className="min-w-0 flex-1">
+                  <div className="truncate">{entry.item.Name}</div>
+                  {entry.error && (
+                    <div className="truncate text-xs text-destructive">{entry.error}</div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <Button onClick={closeBatch} disabled={isRunning}>
+              {isRunning ? "Working…" : "Done"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AddToCollectionDialog
+        items={selectedItems}
+        open={showAddToCollection}
+        onOpenChange={setShowAddToCollection}
+      />
+      <AddToPlaylistDialog
+        items={selectedItems}
+        open={showAddToPlaylist}
+        onOpenChange={setShowAddToPlaylist}
+      />
+    </>
+  );
+}
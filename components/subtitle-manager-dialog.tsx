@@ -0,0 +1,466 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Download,
+  Loader2,
+  Search,
+  Star,
+  Subtitles,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  MediaStream,
+  RemoteSubtitleInfo,
+} from "@jellyfin/sdk/lib/generated-client/models";
+import {
+  fetchMediaDetails,
+  searchRemoteSubtitles,
+  downloadRemoteSubtitles,
+  uploadSubtitle,
+  deleteSubtitle,
+} from "@/app/actions";
+import { useSettings } from "@/contexts/settings-context";
+import { LANGUAGES } from "@/lib/languages";
+
+interface SubtitleManagerDialogProps {
+  itemId: string;
+  itemName: string;
+  // Defaults to the item's first media source
+  mediaSourceId?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called after a subtitle was downloaded, uploaded or deleted
+  onSubtitlesChanged?: () => void;
+}
+
+const SEARCH_LANGUAGES = LANGUAGES.filter((language) => language.value !== "vo");
+const UPLOAD_FORMATS = ["srt", "vtt"];
+
+// Strips the "data:...;base64," prefix the server doesn't expect
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] ?? "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export function SubtitleManagerDialog({
+  itemId,
+  itemName,
+  mediaSourceId,
+  open,
+  onOpenChange,
+  onSubtitlesChanged,
+}: SubtitleManagerDialogProps) {
+  const { preferredSubtitleLanguage } = useSettings();
+  const defaultLanguage = SEARCH_LANGUAGES.some(
+    (language) => language.value === preferredSubtitleLanguage
+  )
+    ? preferredSubtitleLanguage
+    : "eng";
+
+  const [tab, setTab] = useState("current");
+  const [streams, setStreams] = useState<MediaStream[]>([]);
+  const [loadingStreams, setLoadingStreams] = useState(false);
+  const [deletingIndex, setDeletingIndex] = useState<number | null>(null);
+
+  const [searchLanguage, setSearchLanguage] = useState(defaultLanguage);
+  const [hearingImpairedOnly, setHearingImpairedOnly] = useState(false);
+  const [forcedOnly, setForcedOnly] = useState(false);
+  const [results, setResults] = useState<RemoteSubtitleInfo[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [uploadLanguage, setUploadLanguage] = useState(defaultLanguage);
+  const [uploadForced, setUploadForced] = useState(false);
+  const [uploadHearingImpaired, setUploadHearingImpaired] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  const loadStreams = useCallback(async () => {
+    setLoadingStreams(true);
+    try {
+      const item = await fetchMediaDetails(itemId);
+      const source =
+        item?.MediaSources?.find((ms) => ms.Id === mediaSourceId) ??
+        item?.MediaSources?.[0];
+      setStreams(
+        source?.MediaStreams?.filter((stream) => stream.Type === "Subtitle") ?? []
+      );
+    } catch (error) {
+      console.error("Failed to fetch subtitle streams:", error);
+      toast.error("Failed to load subtitles");
+    } finally {
+      setLoadingStreams(false);
+    }
+  }, [itemId, mediaSourceId]);
+
+  useEffect(() => {
+    if (open) {
+      loadStreams();
+    } else {
+      setResults(null);
+      setUploadFile(null);
+    }
+  }, [open, loadStreams]);
+
+  const handleChanged = async () => {
+    await loadStreams();
+    onSubtitlesChanged?.();
+  };
+
+  const handleSearch = async () => {
+    setSearching(true);
+    try {
+      setResults(await searchRemoteSubtitles(itemId, searchLanguage));
+    } catch (error) {
+      console.error("Failed to search subtitles:", error);
+      toast.error("Failed to search subtitles");
+      setResults([]);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleDownload = async (subtitle: RemoteSubtitleInfo) => {
+    if (!subtitle.Id) return;
+    setDownloadingId(subtitle.Id);
+    try {
+      await downloadRemoteSubtitles(itemId, subtitle.Id);
+      toast.success("Subtitle downloaded");
+      await handleChanged();
+    } catch (error) {
+      console.error("Failed to download subtitle:", error);
+      toast.error("Failed to download subtitle");
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!uploadFile) return;
+    const format = uploadFile.name.split(".").pop()?.toLowerCase() ?? "";
+    if (!UPLOAD_FORMATS.includes(format)) {
+      toast.error("Only .srt and .vtt files are supported");
+      return;
+    }
+
+    setUploading(true);
+    try {
+      await uploadSubtitle(itemId, {
+        Language: uploadLanguage,
+        Format: format,
+        IsForced: uploadForced,
+        IsHearingImpaired: uploadHearingImpaired,
+        Data: await readFileAsBase64(uploadFile),
+      });
+      toast.success("Subtitle uploaded");
+      setUploadFile(null);
+      setTab("current");
+      await handleChanged();
+    } catch (error) {
+      console.error("Failed to upload subtitle:", error);
+      toast.error("Failed to upload subtitle");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async (stream: MediaStream) => {
+    if (stream.Index === undefined) return;
+    setDeletingIndex(stream.Index);
+    try {
+      await deleteSubtitle(itemId, stream.Index);
+      toast.success("Subtitle deleted");
+      await handleChanged();
+    } catch (error) {
+      console.error("Failed to delete subtitle:", error);
+      toast.error("Failed to delete subtitle");
+    } finally {
+      setDeletingIndex(null);
+    }
+  };
+
+  const filteredResults = (results ?? []).filter(
+    (subtitle) =>
+      (!hearingImpairedOnly || subtitle.HearingImpaired) &&
+      (!forcedOnly || subtitle.Forced)
+  );
+
+  const renderLanguageSelect = (
+    id: string,
+    value: string,
+    onValueChange: (value: string) => void
+  ) => (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id} className="w-48">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="z-[1000001]">
+        {SEARCH_LANGUAGES.map((language) => (
+          <SelectItem key={language.value} value={language.value}>
+            {language.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] z-[1000001] dark:bg-background/95 backdrop-blur-md">
+        <DialogHeader>
+          <DialogTitle>Subtitles - {itemName}</DialogTitle>
+          <DialogDescription>
+            Search subtitle providers, upload your own file or remove external
+            subtitles.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList className="w-full">
+            <TabsTrigger value="current">
+              <Subtitles className="h-4 w-4" />
+              Current
+            </TabsTrigger>
+            <TabsTrigger value="search">
+              <Search className="h-4 w-4" />
+              Search
+            </TabsTrigger>
+            <TabsTrigger value="upload">
+              <Upload className="h-4 w-4" />
+              Upload
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="current" className="mt-4">
+            <ScrollArea className="h-[50vh]">
+              {loadingStreams && streams.length === 0 ? (
+                <div className="space-y-2">
+                  {Array.from({ length: 3 }).map((_, index) => (
+                    <Skeleton key={index} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : streams.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <Subtitles className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                  <p>No subtitles yet</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {streams.map((stream) => (
+                    <div
+                      key={stream.Index}
+                      className="flex items-center gap-3 rounded-md border px-3 py-2"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <div className="truncate text-sm font-medium">
+                          {stream.DisplayTitle || stream.Language || `Track ${stream.Index}`}
+                        </div>
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {stream.Codec && (
+                            <Badge variant="outline">{stream.Codec.toUpperCase()}</Badge>
+                          )}
+                          <Badge variant="secondary">
+                            {stream.IsExternal ? "External" : "Embedded"}
+                          </Badge>
+                          {stream.IsForced && <Badge variant="secondary">Forced</Badge>}
+                          {stream.IsHearingImpaired && (
+                            <Badge variant="secondary">SDH</Badge>
+                          )}
+                        </div>
+                      </div>
+                      {stream.IsExternal && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(stream)}
+                          disabled={deletingIndex !== null}
+                          aria-label="Delete subtitle"
+                        >
+                          {deletingIndex === stream.Index ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="search" className="mt-4 space-y-4">
+            <div className="flex flex-wrap items-center gap-4">
+              {renderLanguageSelect("subtitle-search-language", searchLanguage, setSearchLanguage)}
+              <Button onClick={handleSearch} disabled={searching}>
+                {searching ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Search className="h-4 w-4" />
+                )}
+                Search
+              </Button>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="subtitle-hearing-impaired-only"
+                  checked={hearingImpairedOnly}
+                  onCheckedChange={(checked) => setHearingImpairedOnly(checked === true)}
+                />
+                <Label htmlFor="subtitle-hearing-impaired-only">Hearing impaired</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="subtitle-forced-only"
+                  checked={forcedOnly}
+                  onCheckedChange={(checked) => setForcedOnly(checked === true)}
+                />
+                <Label htmlFor="subtitle-forced-only">Forced</Label>
+              </div>
+            </div>
+
+            <ScrollArea className="h-[45vh]">
+              {searching ? (
+                <div className="space-y-2">
+                  {Array.from({ length: 4 }).map((_, index) => (
+                    <Skeleton key={index} className="h-14 w-full" />
+                  ))}
+                </div>
+              ) : results === null ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <Search className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                  <p>Pick a language and search your subtitle providers</p>
+                </div>
+              ) : filteredResults.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <p>No subtitles found</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {filteredResults.map((subtitle) => (
+                    <div
+                      key={subtitle.Id}
+                      className="flex items-center gap-3 rounded-md border px-3 py-2"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <div className="truncate text-sm font-medium" title={subtitle.Name ?? undefined}>
+                          {subtitle.Name}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-1 mt-1 text-xs text-muted-foreground">
+                          <Badge variant="outline">{subtitle.ProviderName}</Badge>
+                          {subtitle.Format && (
+                            <Badge variant="outline">{subtitle.Format.toUpperCase()}</Badge>
+                          )}
+                          {subtitle.IsHashMatch && <Badge>Exact match</Badge>}
+                          {subtitle.HearingImpaired && <Badge variant="secondary">SDH</Badge>}
+                          {subtitle.Forced && <Badge variant="secondary">Forced</Badge>}
+                          {(subtitle.AiTranslated || subtitle.MachineTranslated) && (
+                            <Badge variant="secondary">Machine translated</Badge>
+                          )}
+                          {subtitle.CommunityRating ? (
+                            <span className="flex items-center gap-1">
+                              <Star className="h-3 w-3" />
+                              {subtitle.CommunityRating.toFixed(1)}
+                            </span>
+                          ) : null}
+                          {subtitle.DownloadCount ? (
+                            <span className="flex items-center gap-1">
+                              <Download className="h-3 w-3" />
+                              {subtitle.DownloadCount.toLocaleString()}
+                            </span>
+                          ) : null}
+                        </div>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDownload(subtitle)}
+                        disabled={downloadingId !== null}
+                      >
+                        {downloadingId === subtitle.Id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Download className="h-4 w-4" />
+                        )}
+                        Download
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="upload" className="mt-4 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="subtitle-upload-file">Subtitle file</Label>
+              <Input
+                id="subtitle-upload-file"
+                type="file"
+                accept=".srt,.vtt"
+                onChange={(event) => setUploadFile(event.target.files?.[0] ?? null)}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="subtitle-upload-language">Language</Label>
+              {renderLanguageSelect("subtitle-upload-language", uploadLanguage, setUploadLanguage)}
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="subtitle-upload-forced"
+                checked={uploadForced}
+                onCheckedChange={(checked) => setUploadForced(checked === true)}
+              />
+              <Label htmlFor="subtitle-upload-forced">Forced</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="subtitle-upload-hearing-impaired"
+                checked={uploadHearingImpaired}
+                onCheckedChange={(checked) => setUploadHearingImpaired(checked === true)}
+              />
+              <Label htmlFor="subtitle-upload-hearing-impaired">Hearing impaired</Label>
+            </div>
+            <Button onClick={handleUpload} disabled={!uploadFile || uploading}>
+              {uploading ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4" />
+              )}
+              Upload
+            </Button>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
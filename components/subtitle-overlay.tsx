@@ -0,0 +1,167 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import DOMPurify from "dompurify";
+
+import type { SubtitleEntry } from "@/app/actions/subtitles";
+import {
+  SubtitleFontSize,
+  SubtitleStyle,
+  useSettings,
+} from "@/contexts/settings-context";
+import { cn } from "@/lib/utils";
+
+interface SubtitleOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  // Cues sorted by start time
+  cues: SubtitleEntry[];
+  // Seconds added to every cue; positive shows subtitles later
+  offset: number;
+}
+
+interface ParsedCue {
+  alignment: number;
+  html: string;
+}
+
+// ASS numpad alignment ({\an1} to {\an9}); 2 is bottom centre
+const ALIGNMENT_CLASSES: Record<number, string> = {
+  1: "bottom-[10%] left-[5%] items-start text-left",
+  2: "bottom-[10%] left-1/2 -translate-x-1/2 items-center text-center",
+  3: "bottom-[10%] right-[5%] items-end text-right",
+  4: "top-1/2 left-[5%] -translate-y-1/2 items-start text-left",
+  5: "top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 items-center text-center",
+  6: "top-1/2 right-[5%] -translate-y-1/2 items-end text-right",
+  7: "top-[10%] left-[5%] items-start text-left",
+  8: "top-[10%] left-1/2 -translate-x-1/2 items-center text-center",
+  9: "top-[10%] right-[5%] items-end text-right",
+};
+
+const FONT_SIZE_CLASSES: Record<SubtitleFontSize, string> = {
+  small: "text-lg md:text-2xl",
+  medium: "text-2xl md:text-3xl",
+  large: "text-3xl md:text-4xl",
+  "extra-large": "text-4xl md:text-5xl",
+};
+
+const BACKGROUND_COLORS = {
+  none: "transparent",
+  translucent: "rgba(0, 0, 0, 0.5)",
+  opaque: "rgb(0, 0, 0)",
+} as const;
+
+const EDGE_SHADOWS = {
+  none: "none",
+  outline:
+    "-1px -1px 0 #000, 1px -1px 0 #000, -1px 1px 0 #000, 1px 1px 0 #000, 0 0 3px #000",
+  "drop-shadow": "2px 2px 4px rgba(0, 0, 0, 0.9)",
+  raised: "1px 1px 0 #000, 2px 2px 0 #000",
+  depressed: "-1px -1px 0 #000, 1px 1px 0 rgba(255, 255, 255, 0.4)",
+} as const;
+
+// Class and inline style for one subtitle line; shared with the settings preview
+export function getSubtitleCueStyle(style: SubtitleStyle) {
+  return {
+    className: cn(
+      "px-2 py-0.5 rounded font-medium leading-snug",
+      FONT_SIZE_CLASSES[style.fontSize]
+    ),
+    style: {
+      color: style.color,
+      backgroundColor: BACKGROUND_COLORS[style.background],
+      textShadow: EDGE_SHADOWS[style.edgeStyle],
+    } satisfies React.CSSProperties,
+  };
+}
+
+// Keeps italic/bold/underline override tags, drops the rest and sanitizes the markup
+function parseCue(text: string): ParsedCue {
+  const alignment = Number(/\{[^}]*\\an([1-9])/.exec(text)?.[1] ?? 2);
+
+  const html = text
+    .replace(/\{([^}]*)\}/g, (_, tags: string) =>
+      Array.from(tags.matchAll(/\\([ibu])([01])(?![0-9])/g))
+        .map(([, tag, enabled]) => (enabled === "1" ? `<${tag}>` : `</${tag}>`))
+        .join("")
+    )
+    .replace(/\\[nN]|\r?\n/g, "<br>")
+    .replace(/\\h/g, "&nbsp;");
+
+  return {
+    alignment,
+    html: DOMPurify.sanitize(html, {
+      ALLOWED_TAGS: ["i", "b", "u", "br", "font"],
+      ALLOWED_ATTR: ["color"],
+    }),
+  };
+}
+
+export function SubtitleOverlay({ videoRef, cues, offset }: SubtitleOverlayProps) {
+  const { subtitleStyle } = useSettings();
+  const [activeIndexes, setActiveIndexes] = useState<number[]>([]);
+
+  const parsedCues = useMemo(() => cues.map((cue) => parseCue(cue.text)), [cues]);
+
+  // Track the playhead every frame so cues start and end on time, not on timeupdate
+  useEffect(() => {
+    let frame = 0;
+    let lastKey = "";
+
+    const update = () => {
+      const video = videoRef.current;
+      if (video) {
+        const time = video.currentTime - offset;
+        const indexes: number[] = [];
+        for (let i = 0; i < cues.length && cues[i].timestamp <= time; i++) {
+          if (time < cues[i].endTimestamp) indexes.push(i);
+        }
+
+        const key = indexes.join(",");
+        if (key !== lastKey) {
+          lastKey = key;
+          setActiveIndexes(indexes);
+        }
+      }
+      frame = requestAnimationFrame(update);
+    };
+
+    frame = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frame);
+  }, [videoRef, cues, offset]);
+
+  // Overlapping cues that share a position stack in start order
+  const groups = useMemo(() => {
+    const byAlignment = new Map<number, number[]>();
+    for (const index of activeIndexes) {
+      const alignment = parsedCues[index]?.alignment;
+      if (alignment === undefined) continue;
+      byAlignment.set(alignment, [...(byAlignment.get(alignment) ?? []), index]);
+    }
+    return Array.from(byAlignment.entries());
+  }, [activeIndexes, parsedCues]);
+
+  const cueStyle = getSubtitleCueStyle(subtitleStyle);
+
+  return (
+    <>
+      {groups.map(([alignment, indexes]) => (
+        <div
+          key={alignment}
+          className={cn(
+            "fixed z-[100] flex max-w-[90%] flex-col gap-1 pointer-events-none",
+            ALIGNMENT_CLASSES[alignment]
+          )}
+        >
+          {indexes.map((index) => (
+            <div
+              key={index}
+              className={cueStyle.className}
+              style={cueStyle.style}
+              dangerouslySetInnerHTML={{ __html: parsedCues[index].html }}
+            />
+          ))}
+        </div>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,247 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { useAtom, useAtomValue } from "jotai";
+import { AnimatePresence, motion } from "framer-motion";
+import { Loader2, LogOut, Plus, RefreshCw, User, UsersRound, X } from "lucide-react";
+import { toast } from "sonner";
+import { GroupInfoDto, GroupStateType } from "@jellyfin/sdk/lib/generated-client/models";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  createSyncPlayGroup,
+  fetchSyncPlayGroups,
+  joinSyncPlayGroup,
+  leaveSyncPlayGroup,
+} from "@/app/actions";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  isSyncPlayBufferingAtom,
+  isSyncPlayPanelOpenAtom,
+  syncPlayGroupAtom,
+} from "@/lib/atoms";
+
+const STATE_LABELS: Record<GroupStateType, string> = {
+  Idle: "Idle",
+  Waiting: "Waiting",
+  Paused: "Paused",
+  Playing: "Playing",
+};
+
+// Watch-party panel: pick or create a SyncPlay group, then see who's in it
+export function SyncPlayPanel() {
+  const [open, setOpen] = useAtom(isSyncPlayPanelOpenAtom);
+  const group = useAtomValue(syncPlayGroupAtom);
+  const isBuffering = useAtomValue(isSyncPlayBufferingAtom);
+  const { user } = useAuth();
+
+  const [groups, setGroups] = useState<GroupInfoDto[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [groupName, setGroupName] = useState("");
+  const [pending, setPending] = useState(false);
+
+  const loadGroups = useCallback(async () => {
+    setLoading(true);
+    try {
+      setGroups(await fetchSyncPlayGroups());
+    } catch (error) {
+      console.error("Failed to fetch SyncPlay groups:", error);
+      toast.error("Failed to load groups");
+      setGroups([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open && !group) loadGroups();
+  }, [open, group, loadGroups]);
+
+  // Group changes arrive over the WebSocket; the request only has to go through
+  const run = async (label: string, request: () => Promise<void>) => {
+    setPending(true);
+    try {
+      await request();
+    } catch (error) {
+      console.error(`Failed to ${label}:`, error);
+      toast.error(`Failed to ${label}`);
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleCreate = () =>
+    run("create group", () =>
+      createSyncPlayGroup(groupName.trim() || `${user?.Name ?? "My"}'s group`)
+    );
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0, x: 40 }}
+          animate={{ opacity: 1, x: 0 }}
+          exit={{ opacity: 0, x: 40 }}
+          transition={{ duration: 0.2 }}
+          className="fixed right-0 top-0 bottom-0 z-[1000000] w-80 max-w-full bg-black/90 backdrop-blur-md border-l border-white/10 text-white flex flex-col"
+        >
+          <div className="flex items-center justify-between px-4 pt-4 pb-2">
+            <div>
+              <h3 className="font-semibold text-lg">SyncPlay</h3>
+              <p className="text-xs text-white/60">
+                {group ? group.groupName : "Watch together, in sync"}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-8 text-white hover:bg-white/20"
+              onClick={() => setOpen(false)}
+              aria-label="Close SyncPlay"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {group ? (
+            <>
+              <div className="flex items-center gap-2 px-4 pb-3 border-b border-white/10">
+                <Badge variant="secondary">{STATE_LABELS[group.state]}</Badge>
+                {group.state === GroupStateType.Waiting && (
+                  <span className="flex items-center gap-1.5 text-xs text-white/60">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    {group.stateReason === "Buffer"
+                      ? "Someone is buffering"
+                      : "Waiting for everyone to be ready"}
+                  </span>
+                )}
+              </div>
+
+              <ScrollArea className="flex-1 min-h-0">
+                <ul className="p-2">
+                  {group.participants.map((participant, index) => {
+                    const isSelf = participant === user?.Name;
+                    // The server only reports buffering for the group as a whole, so
+                    // others show as syncing until it is ready again
+                    const status = isSelf
+                      ? isBuffering
+                        ? "Buffering"
+                        : "Ready"
+                      : group.state === GroupStateType.Waiting
+                        ? "Syncing…"
+                        : null;
+                    return (
+                      <li
+                        key={`${participant}-${index}`}
+                        className="flex items-center gap-3 rounded-md px-2 py-2"
+                      >
+                        <User className="h-4 w-4 text-white/60" />
+                        <span className="flex-1 truncate text-sm">
+                          {participant}
+                          {isSelf && <span className="text-white/50"> (you)</span>}
+                        </span>
+                        {status && (
+                          <span className="text-xs text-white/50">{status}</span>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </ScrollArea>
+
+              <div className="p-4 border-t border-white/10">
+                <Button
+                  variant="ghost"
+                  className="w-full text-white hover:bg-white/20"
+                  onClick={() => run("leave group", leaveSyncPlayGroup)}
+                  disabled={pending}
+                >
+                  <LogOut className="h-4 w-4" />
+                  Leave group
+                </Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="flex gap-2 px-4 pb-3 border-b border-white/10">
+                <Input
+                  value={groupName}
+                  onChange={(event) => setGroupName(event.target.value)}
+                  placeholder={`${user?.Name ?? "My"}'s group`}
+                  className="h-8 bg-white/10 border-white/10 text-white placeholder:text-white/40"
+                  onKeyDown={(event) => {
+                    if (event.key === "Enter") handleCreate();
+                  }}
+                />
+                <Button
+                  size="sm"
+                  onClick={handleCreate}
+                  disabled={pending}
+                >
+                  <Plus className="h-4 w-4" />
+                  Create
+                </Button>
+              </div>
+
+              <div className="flex items-center justify-between px-4 pt-3 pb-1">
+                <span className="text-xs uppercase tracking-wide text-white/50">
+                  Groups
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7 text-white hover:bg-white/20"
+                  onClick={loadGroups}
+                  disabled={loading}
+                  aria-label="Refresh groups"
+                >
+                  <RefreshCw className={`h-3.5 w-3.5 ${loading ? "animate-spin" : ""}`} />
+                </Button>
+              </div>
+
+              <ScrollArea className="flex-1 min-h-0">
+                {groups === null ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-5 w-5 animate-spin text-white/60" />
+                  </div>
+                ) : groups.length === 0 ? (
+                  <p className="px-4 py-8 text-center text-sm text-white/60">
+                    No groups yet. Create one and invite others to join.
+                  </p>
+                ) : (
+                  <ul className="p-2">
+                    {groups.map((entry) => (
+                      <li key={entry.GroupId}>
+                        <button
+                          className="flex w-full items-center gap-3 rounded-md px-2 py-2 text-left transition-colors hover:bg-white/10 disabled:opacity-50 cursor-pointer"
+                          onClick={() =>
+                            run("join group", () => joinSyncPlayGroup(entry.GroupId!))
+                          }
+                          disabled={pending}
+                        >
+                          <UsersRound className="h-4 w-4 text-white/60" />
+                          <div className="flex-1 min-w-0">
+                            <div className="truncate text-sm font-medium">
+                              {entry.GroupName}
+                            </div>
+                            <div className="truncate text-xs text-white/60">
+                              {entry.Participants?.join(", ")}
+                            </div>
+                          </div>
+                          <span className="text-xs text-white/50">Join</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </ScrollArea>
+            </>
+          )}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { BaseItemDto } from "@jellyfin/sdk/lib/generated-client/models";
+import { AudioLines, ListPlus, Play, Radio } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { useMusicPlayer } from "@/contexts/MediaPlayerContext";
+import { useMusicActions, MusicAction } from "@/hooks/useMusicActions";
+import { cn, formatPlaybackPosition, toAudioTrack } from "@/lib/utils";
+
+interface TrackListProps {
+  tracks: BaseItemDto[];
+  // Album pages number tracks and split them by disc; elsewhere the album is shown instead
+  variant?: "album" | "list";
+}
+
+export function TrackList({ tracks, variant = "list" }: TrackListProps) {
+  const { currentTrack, playTracks } = useMusicPlayer();
+  const { queueMusic } = useMusicActions();
+
+  const discs = new Set(tracks.map((track) => track.ParentIndexNumber ?? 1));
+  const showDiscs = variant === "album" && discs.size > 1;
+
+  const playFrom = (index: number) => {
+    playTracks({ tracks: tracks.map(toAudioTrack), startIndex: index });
+  };
+
+  const runAction = async (track: BaseItemDto, action: MusicAction) => {
+    try {
+      const count = await queueMusic(track, action);
+      if (count === 0) {
+        toast.error("Nothing to play");
+      } else if (action === "addToQueue") {
+        toast.success(`Added ${track.Name} to the queue`);
+      }
+    } catch (error) {
+      console.error("Failed to queue track:", error);
+      toast.error("Failed to queue track");
+    }
+  };
+
+  return (
+    <div className="space-y-0.5">
+      {tracks.map((track, index) => {
+        const isPlaying = currentTrack?.id === track.Id;
+        const disc = track.ParentIndexNumber ?? 1;
+        const startsDisc =
+          showDiscs && (index === 0 || (tracks[index - 1].ParentIndexNumber ?? 1) !== disc);
+
+        return (
+          <React.Fragment key={track.Id}>
+            {startsDisc && (
+              <div className="px-3 pt-4 pb-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                Disc {disc}
+              </div>
+            )}
+            <div
+              className={cn(
+                "group flex items-center gap-3 rounded-md px-3 py-2 transition-colors hover:bg-accent cursor-pointer",
+                isPlaying && "bg-accent/60"
+              )}
+              onDoubleClick={() => playFrom(index)}
+            >
+              <button
+                className="relative flex w-6 shrink-0 justify-center text-sm tabular-nums text-muted-foreground cursor-pointer"
+                onClick={() => playFrom(index)}
+                aria-label={`Play ${track.Name}`}
+              >
+                {isPlaying ? (
+                  <AudioLines className="h-4 w-4 text-primary" />
+                ) : (
+                  <>
+                    <span className="group-hover:invisible">
+                      {variant === "album" ? track.IndexNumber ?? index + 1 : index + 1}
+                    </span>
+                    <Play className="invisible absolute top-0.5 h-4 w-4 group-hover:visible" />
+                  </>
+                )}
+              </button>
+
+              <div className="min-w-0 flex-1">
+                <div className={cn("truncate text-sm", isPlaying && "text-primary font-medium")}>
+                  {track.Name}
+                </div>
+                <div className="truncate text-xs text-muted-foreground">
+                  {track.Artists?.join(", ") || track.AlbumArtist}
+                  {variant === "list" && track.Album && track.AlbumId && (
+                    <>
+                      {" • "}
+                      <Link
+                        href={`/album/${track.AlbumId}`}
+                        className="hover:underline"
+                        onClick={(event) => event.stopPropagation()}
+                      >
+                        {track.Album}
+                      </Link>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7"
+                  onClick={() => runAction(track, "addToQueue")}
+                  aria-label="Add to queue"
+                >
+                  <ListPlus className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7"
+                  onClick={() => runAction(track, "instantMix")}
+                  aria-label="Instant mix"
+                >
+                  <Radio className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <span className="w-12 text-right text-xs tabular-nums text-muted-foreground">
+                {track.RunTimeTicks ? formatPlaybackPosition(track.RunTimeTicks) : ""}
+              </span>
+            </div>
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+}
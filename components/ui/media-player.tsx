@@ -7,6 +7,7 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuSub,
   DropdownMenuSubContent,
   DropdownMenuSubTrigger,
@@ -45,6 +46,7 @@ import {
   RewindIcon,
   RotateCcwIcon,
   ListIcon,
+  SearchIcon,
   SettingsIcon,
   SubtitlesIcon,
   Volume1Icon,
@@ -74,6 +76,17 @@ const PLAYBACK_SPEED_NAME = "MediaPlayerPlaybackSpeed";
 
 const FLOATING_MENU_SIDE_OFFSET = 10;
 const SPEEDS = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+const SUBTITLE_OFFSET_STEP = 0.1;
+
+// Keeps repeated steps free of floating point drift (0.30000000000000004)
+function stepSubtitleOffset(offset: number, direction: 1 | -1) {
+  return Math.round((offset + direction * SUBTITLE_OFFSET_STEP) * 10) / 10;
+}
+
+function formatSubtitleOffset(offset: number) {
+  if (offset === 0) return "0s";
+  return `${offset > 0 ? "+" : ""}${offset.toFixed(1)}s`;
+}
 
 const SEEK_STEP_SHORT = 10;
 const SEEK_STEP_LONG = 30;
@@ -193,9 +206,16 @@ interface MediaPlayerContextValue {
   customSubtitleTracks?: CustomSubtitleTrack[];
   customSubtitlesEnabled: boolean;
   onCustomSubtitleChange?: (track: CustomSubtitleTrack | null) => void;
+  // Seconds added to custom subtitle cues; positive shows them later
+  subtitleOffset?: number;
+  onSubtitleOffsetChange?: (offset: number) => void;
+  // Opens subtitle search, download and upload for the current item
+  onSubtitleSearch?: () => void;
   customAudioTracks?: CustomAudioTrack[];
   onCustomAudioTrackChange?: (track: CustomAudioTrack) => void;
   chapters?: ChapterCue[];
+  streamQuality?: StreamQuality;
+  onStreamQualityChange?: (value: string) => void;
 }
 
 const MediaPlayerContext = React.createContext<MediaPlayerContextValue | null>(
@@ -215,6 +235,15 @@ export interface CustomSubtitleTrack {
   language: string;
   kind: TextTrackKind;
   active: boolean;
+  // Subtitle codec, e.g. "srt" or "ass"
+  format?: string;
+  originalSrc?: string;
+}
+
+export interface StreamQuality {
+  value: string;
+  // Cap picked by Auto mode, 0 while uncapped
+  autoBitrate: number;
 }
 
 export interface CustomAudioTrack {
@@ -252,9 +281,16 @@ interface MediaPlayerRootProps
   customSubtitleTracks?: CustomSubtitleTrack[];
   customSubtitlesEnabled?: boolean;
   onCustomSubtitleChange?: (track: CustomSubtitleTrack | null) => void;
+  // Seconds added to custom subtitle cues; positive shows them later
+  subtitleOffset?: number;
+  onSubtitleOffsetChange?: (offset: number) => void;
+  // Opens subtitle search, download and upload for the current item
+  onSubtitleSearch?: () => void;
   customAudioTracks?: CustomAudioTrack[];
   onCustomAudioTrackChange?: (track: CustomAudioTrack) => void;
   chapters?: ChapterCue[];
+  streamQuality?: StreamQuality;
+  onStreamQualityChange?: (value: string) => void;
 }
 
 function MediaPlayerRoot(props: MediaPlayerRootProps) {
@@ -302,9 +338,14 @@ function MediaPlayerRootImpl(props: MediaPlayerRootProps) {
     customSubtitleTracks,
     customSubtitlesEnabled = false,
     onCustomSubtitleChange,
+    subtitleOffset,
+    onSubtitleOffsetChange,
+    onSubtitleSearch,
     customAudioTracks,
     onCustomAudioTrackChange,
     chapters,
+    streamQuality,
+    onStreamQualityChange,
     children,
     className,
     ref,
@@ -608,6 +649,16 @@ function MediaPlayerRootImpl(props: MediaPlayerRootProps) {
           }
           break;
 
+        case "g":
+        case "h": {
+          if (!onSubtitleOffsetChange) break;
+          event.preventDefault();
+          onSubtitleOffsetChange(
+            stepSubtitleOffset(subtitleOffset ?? 0, event.key.toLowerCase() === "g" ? -1 : 1)
+          );
+          break;
+        }
+
         case "d": {
           const hasDownload = mediaElement.querySelector(
             '[data-slot="media-player-download"]'
@@ -724,6 +775,8 @@ function MediaPlayerRootImpl(props: MediaPlayerRootProps) {
       isVideo,
       onControlsShow,
       autoHide,
+      subtitleOffset,
+      onSubtitleOffsetChange,
     ]
   );
 
@@ -831,9 +884,14 @@ function MediaPlayerRootImpl(props: MediaPlayerRootProps) {
       customSubtitleTracks,
       customSubtitlesEnabled,
       onCustomSubtitleChange,
+      subtitleOffset,
+      onSubtitleOffsetChange,
+      onSubtitleSearch,
       customAudioTracks,
       onCustomAudioTrackChange,
       chapters,
+      streamQuality,
+      onStreamQualityChange,
     }),
     [
       mediaId,
@@ -849,9 +907,14 @@ function MediaPlayerRootImpl(props: MediaPlayerRootProps) {
       customSubtitleTracks,
       customSubtitlesEnabled,
       onCustomSubtitleChange,
+      subtitleOffset,
+      onSubtitleOffsetChange,
+      onSubtitleSearch,
       customAudioTracks,
       onCustomAudioTrackChange,
       chapters,
+      streamQuality,
+      onStreamQualityChange,
     ]
   );
 
@@ -1531,12 +1594,27 @@ interface SeekState {
   hasInitialPosition: boolean;
 }
 
+export interface MediaPlayerSeekThumbnail {
+  src: string;
+  /** Sprite frame within `src` as `[x, y, width, height]` in pixels. */
+  coords?: [number, number, number, number] | null;
+}
+
+export interface MediaPlayerSeekSegment {
+  label: string;
+  startTime: number;
+  endTime: number;
+}
+
 interface MediaPlayerSeekProps
   extends React.ComponentProps<typeof SliderPrimitive.Root> {
   withTime?: boolean;
+  segments?: MediaPlayerSeekSegment[];
   withoutChapter?: boolean;
   withoutTooltip?: boolean;
-  tooltipThumbnailSrc?: string | ((time: number) => string);
+  tooltipThumbnailSrc?:
+  | string
+  | ((time: number) => string | MediaPlayerSeekThumbnail | null);
   tooltipTimeVariant?: "current" | "progress";
   tooltipSideOffset?: number;
   tooltipCollisionBoundary?: Element | Element[];
@@ -1548,6 +1626,7 @@ interface MediaPlayerSeekProps
 function MediaPlayerSeek(props: MediaPlayerSeekProps) {
   const {
     withTime = false,
+    segments,
     withoutChapter = false,
     withoutTooltip = false,
     tooltipTimeVariant = "current",
@@ -1562,6 +1641,7 @@ function MediaPlayerSeek(props: MediaPlayerSeekProps) {
 
   const context = useMediaPlayerContext(SEEK_NAME);
   const store = useStoreContext(SEEK_NAME);
+  const dragging = useStoreSelector((state) => state.dragging);
   const dispatch = useMediaDispatch();
   const mediaCurrentTime = useMediaSelector(
     (state) => state.mediaCurrentTime ?? 0
@@ -1685,11 +1765,18 @@ function MediaPlayerSeek(props: MediaPlayerSeekProps) {
       if (tooltipDisabled) return null;
 
       if (tooltipThumbnailSrc) {
-        const src =
+        const thumbnail =
           typeof tooltipThumbnailSrc === "function"
             ? tooltipThumbnailSrc(time)
             : tooltipThumbnailSrc;
-        return { src, coords: null };
+        if (!thumbnail) return null;
+        if (typeof thumbnail === "string") {
+          return { src: thumbnail, coords: null };
+        }
+        return {
+          src: thumbnail.src,
+          coords: thumbnail.coords?.map(String) ?? null,
+        };
       }
 
       if (
@@ -2025,8 +2112,26 @@ function MediaPlayerSeek(props: MediaPlayerSeekProps) {
       if (!store.getState().dragging) {
         store.setState("dragging", true);
       }
+
+      // Keep the preview pinned to the thumb while scrubbing, including
+      // touch drags that never produce a hover.
+      if (!tooltipDisabled && seekableEnd > 0 && seekRef.current) {
+        seekRectRef.current = seekRef.current.getBoundingClientRect();
+        onTooltipPositionUpdate(
+          seekRectRef.current.left +
+          (time / seekableEnd) * seekRectRef.current.width
+        );
+        onPreviewUpdate(time);
+      }
     },
-    [store.getState, store.setState]
+    [
+      store.getState,
+      store.setState,
+      tooltipDisabled,
+      seekableEnd,
+      onTooltipPositionUpdate,
+      onPreviewUpdate,
+    ]
   );
 
   const onSeekCommit = React.useCallback(
@@ -2103,9 +2208,17 @@ function MediaPlayerSeek(props: MediaPlayerSeekProps) {
     };
   }, []);
 
-  const currentChapterCue = getCurrentChapterCue(hoverTimeRef.current);
-  const thumbnail = getThumbnail(hoverTimeRef.current);
-  const hoverTime = getCachedTime(hoverTimeRef.current, seekableEnd);
+  const isScrubbing = dragging && seekState.pendingSeekTime !== null;
+  const previewTime = isScrubbing
+    ? (seekState.pendingSeekTime ?? 0)
+    : hoverTimeRef.current;
+
+  const currentChapterCue = getCurrentChapterCue(previewTime);
+  const currentSegment = segments?.find(
+    (segment) => previewTime >= segment.startTime && previewTime < segment.endTime
+  );
+  const thumbnail = getThumbnail(previewTime);
+  const hoverTime = getCachedTime(previewTime, seekableEnd);
 
   const chapterSeparators = React.useMemo(() => {
     if (withoutChapter || chapterCues.length <= 1 || seekableEnd <= 0) {
@@ -2132,6 +2245,31 @@ function MediaPlayerSeek(props: MediaPlayerSeekProps) {
     });
   }, [chapterCues, seekableEnd, withoutChapter]);
 
+  const segmentMarkers = React.useMemo(() => {
+    if (!segments || segments.length === 0 || seekableEnd <= 0) {
+      return null;
+    }
+
+    return segments.map((segment) => {
+      const start = Math.max(segment.startTime, 0) / seekableEnd;
+      const end = Math.min(segment.endTime, seekableEnd) / seekableEnd;
+
+      return (
+        <div
+          key={`segment-${segment.label}-${segment.startTime}`}
+          role="presentation"
+          aria-hidden="true"
+          data-slot="media-player-seek-segment"
+          className="absolute top-0 h-full bg-amber-400/60"
+          style={{
+            left: `${start * 100}%`,
+            width: `${Math.max(end - start, 0) * 100}%`,
+          }}
+        />
+      );
+    });
+  }, [segments, seekableEnd]);
+
   const spriteStyle = React.useMemo<React.CSSProperties>(() => {
     if (!thumbnail?.coords || !thumbnail?.src) {
       return {};
@@ -2203,12 +2341,13 @@ function MediaPlayerSeek(props: MediaPlayerSeekProps) {
               }}
             />
           )}
+          {segmentMarkers}
           {chapterSeparators}
         </SliderPrimitive.Track>
       </SliderPrimitive.Root>
       {!withoutTooltip &&
         !context.withoutTooltip &&
-        seekState.isHovering &&
+        (seekState.isHovering || isScrubbing) &&
         seekableEnd > 0 && (
           <MediaPlayerPortal>
             <div
@@ -2258,6 +2397,14 @@ function MediaPlayerSeek(props: MediaPlayerSeekProps) {
                     {currentChapterCue.text}
                   </div>
                 )}
+                {currentSegment && (
+                  <div
+                    data-slot="media-player-seek-segment-label"
+                    className="text-center text-xs text-amber-300"
+                  >
+                    {currentSegment.label}
+                  </div>
+                )}
                 <div
                   data-slot="media-player-seek-time"
                   className={cn(
@@ -3248,6 +3395,31 @@ function MediaPlayerSettings(props: MediaPlayerSettingsProps) {
     [context.onCustomAudioTrackChange]
   );
 
+  // The player can own the stream quality; otherwise fall back to the global setting
+  const selectedBitrate = context.streamQuality?.value ?? videoBitrate;
+
+  const onBitrateChange = React.useCallback(
+    (value: string) => {
+      if (context.onStreamQualityChange) {
+        context.onStreamQualityChange(value);
+      } else {
+        setVideoBitrate(value);
+      }
+    },
+    [context.onStreamQualityChange, setVideoBitrate]
+  );
+
+  const selectedBitrateLabel = React.useMemo(() => {
+    const autoBitrate = context.streamQuality?.autoBitrate ?? 0;
+    if (selectedBitrate === "auto" && autoBitrate > 0) {
+      return `Auto (${autoBitrate / 1000000} Mbps)`;
+    }
+    return (
+      BITRATE_OPTIONS.find((option) => option.value === selectedBitrate)
+        ?.label ?? "Auto"
+    );
+  }, [selectedBitrate, context.streamQuality?.autoBitrate]);
+
   const selectedAudioTrackLabel = React.useMemo(() => {
     if (!context.customAudioTracks || context.customAudioTracks.length === 0)
       return "Default";
@@ -3361,8 +3533,7 @@ function MediaPlayerSettings(props: MediaPlayerSettingsProps) {
           <DropdownMenuSubTrigger>
             <span className="flex-1">Bitrate</span>
             <Badge variant="outline" className="rounded-sm">
-              {BITRATE_OPTIONS.find((option) => option.value === videoBitrate)
-                ?.label ?? "Auto"}
+              {selectedBitrateLabel}
             </Badge>
           </DropdownMenuSubTrigger>
           <DropdownMenuSubContent>
@@ -3370,10 +3541,10 @@ function MediaPlayerSettings(props: MediaPlayerSettingsProps) {
               <DropdownMenuItem
                 key={option.value}
                 className="justify-between"
-                onSelect={() => setVideoBitrate(option.value)}
+                onSelect={() => onBitrateChange(option.value)}
               >
                 {option.label}
-                {videoBitrate === option.value && <CheckIcon />}
+                {selectedBitrate === option.value && <CheckIcon />}
               </DropdownMenuItem>
             ))}
           </DropdownMenuSubContent>
@@ -3447,8 +3618,64 @@ function MediaPlayerSettings(props: MediaPlayerSettingsProps) {
                   No captions available
                 </DropdownMenuItem>
               )}
+            {context.onSubtitleSearch && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={() => context.onSubtitleSearch?.()}>
+                  <SearchIcon />
+                  Find subtitles...
+                </DropdownMenuItem>
+              </>
+            )}
           </DropdownMenuSubContent>
         </DropdownMenuSub>
+        {context.onSubtitleOffsetChange &&
+          context.customSubtitleTracks?.some((track) => track.active) && (
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <span className="flex-1">Caption offset</span>
+                <Badge variant="outline" className="rounded-sm">
+                  {formatSubtitleOffset(context.subtitleOffset ?? 0)}
+                </Badge>
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {/* Keep the menu open so the offset can be nudged repeatedly */}
+                <DropdownMenuItem
+                  className="justify-between"
+                  onSelect={(event) => {
+                    event.preventDefault();
+                    context.onSubtitleOffsetChange?.(
+                      stepSubtitleOffset(context.subtitleOffset ?? 0, -1)
+                    );
+                  }}
+                >
+                  Earlier
+                  <span className="text-muted-foreground text-xs">G</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="justify-between"
+                  onSelect={(event) => {
+                    event.preventDefault();
+                    context.onSubtitleOffsetChange?.(
+                      stepSubtitleOffset(context.subtitleOffset ?? 0, 1)
+                    );
+                  }}
+                >
+                  Later
+                  <span className="text-muted-foreground text-xs">H</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  disabled={!context.subtitleOffset}
+                  onSelect={(event) => {
+                    event.preventDefault();
+                    context.onSubtitleOffsetChange?.(0);
+                  }}
+                >
+                  Reset
+                </DropdownMenuItem>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          )}
         {context.customAudioTracks && context.customAudioTracks.length && (
           <DropdownMenuSub>
             <DropdownMenuSubTrigger>
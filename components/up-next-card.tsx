@@ -0,0 +1,117 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { Play, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+
+export interface UpNextItem {
+  id: string;
+  name: string;
+  subtitle?: string;
+  imageUrl?: string;
+}
+
+interface UpNextCardProps {
+  item: UpNextItem;
+  countdownSeconds: number;
+  // Countdown holds while the video is paused
+  paused: boolean;
+  // Replaces the countdown with the "Are you still watching?" prompt
+  stillWatching: boolean;
+  onPlayNow: () => void;
+  onCountdownComplete: () => void;
+  onDismiss: () => void;
+}
+
+export function UpNextCard({
+  item,
+  countdownSeconds,
+  paused,
+  stillWatching,
+  onPlayNow,
+  onCountdownComplete,
+  onDismiss,
+}: UpNextCardProps) {
+  const [secondsLeft, setSecondsLeft] = useState(countdownSeconds);
+  const completedRef = useRef(false);
+
+  useEffect(() => {
+    if (paused || stillWatching || completedRef.current) return;
+
+    if (secondsLeft <= 0) {
+      completedRef.current = true;
+      onCountdownComplete();
+      return;
+    }
+
+    const timeout = setTimeout(() => setSecondsLeft((prev) => prev - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [secondsLeft, paused, stillWatching, onCountdownComplete]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      transition={{ duration: 0.3 }}
+      className="fixed right-6 bottom-32 z-[1000000] w-80 rounded-lg bg-black/85 backdrop-blur-md border border-white/10 text-white overflow-hidden shadow-2xl"
+    >
+      {item.imageUrl && (
+        <img
+          src={item.imageUrl}
+          alt={item.name}
+          className="w-full aspect-video object-cover"
+          onError={(e) => {
+            (e.target as HTMLImageElement).style.display = "none";
+          }}
+        />
+      )}
+      <div className="p-4 space-y-3">
+        {stillWatching ? (
+          <div>
+            <div className="font-semibold text-lg">Are you still watching?</div>
+            <div className="text-sm text-white/70 truncate">
+              Up next: {item.name}
+            </div>
+          </div>
+        ) : (
+          <div>
+            <div className="text-xs uppercase tracking-wide text-white/60">
+              Up next in {Math.max(secondsLeft, 0)}s
+            </div>
+            <div className="font-semibold truncate">{item.name}</div>
+            {item.subtitle && (
+              <div className="text-sm text-white/70">{item.subtitle}</div>
+            )}
+          </div>
+        )}
+
+        {!stillWatching && (
+          <Progress
+            value={((countdownSeconds - secondsLeft) / countdownSeconds) * 100}
+            className="h-1 bg-white/20"
+          />
+        )}
+
+        <div className="flex items-center gap-2">
+          <Button size="sm" className="flex-1" onClick={onPlayNow}>
+            <Play className="h-4 w-4" />
+            {stillWatching ? "Continue watching" : "Play now"}
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="text-white hover:bg-white/20"
+            onClick={onDismiss}
+          >
+            <X className="h-4 w-4" />
+            {stillWatching ? "Stop" : "Cancel"}
+          </Button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
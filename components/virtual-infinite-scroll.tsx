@@ -1,91 +1,214 @@
 "use client";
 
-import React, { useState, useEffect, useCallback, useRef } from "react";
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
 import { BaseItemDto } from "@jellyfin/sdk/lib/generated-client/models";
 import { MediaCard } from "@/components/media-card";
+import {
+    LibraryBannerCard,
+    LibraryListHeader,
+    LibraryListRow,
+} from "@/components/library-item-views";
+import { SelectableItem } from "@/components/selectable-item";
+import { Skeleton } from "@/components/ui/skeleton";
 import { Loader2 } from "lucide-react";
 
+export type LibraryViewMode = "poster" | "thumb" | "banner" | "list";
+
+const GAP = 16;
+
+// Narrowest column each view allows, and how tall a row is for a given column width
+const VIEW_LAYOUTS: Record<
+    LibraryViewMode,
+    { minColumnWidth: number; estimateRowHeight: (columnWidth: number) => number }
+> = {
+    poster: { minColumnWidth: 150, estimateRowHeight: (width) => width * 1.5 + 56 },
+    thumb: { minColumnWidth: 280, estimateRowHeight: (width) => (width * 9) / 16 + 56 },
+    banner: { minColumnWidth: 560, estimateRowHeight: (width) => (width * 185) / 1000 },
+    list: { minColumnWidth: Infinity, estimateRowHeight: () => 60 - GAP },
+};
+
+const PLACEHOLDER_ASPECT: Record<LibraryViewMode, string> = {
+    poster: "aspect-[2/3]",
+    thumb: "aspect-video",
+    banner: "aspect-[1000/185]",
+    list: "h-[60px]",
+};
+
+// The nearest ancestor that scrolls; the app scrolls an inner element, not the window
+const getScrollParent = (element: HTMLElement | null): HTMLElement | null => {
+    let node = element?.parentElement ?? null;
+    while (node) {
+        const { overflowY } = getComputedStyle(node);
+        if (overflowY === "auto" || overflowY === "scroll") return node;
+        node = node.parentElement;
+    }
+    return null;
+};
+
 interface VirtualInfiniteScrollProps {
-    libraryId: string;
     serverUrl: string;
-    items: BaseItemDto[];
+    // Sparse: pages that haven't loaded yet are holes
+    items: (BaseItemDto | undefined)[];
     totalCount: number;
-    onLoadMore: () => Promise<void>;
+    viewMode: LibraryViewMode;
+    // Called with the item indexes in view, so their pages can be fetched
+    onRangeChange: (startIndex: number, endIndex: number) => void;
+    // Each request gets a fresh id so jumping to the same letter twice still scrolls
+    scrollRequest?: { index: number; id: number } | null;
     loading?: boolean;
-    hasNextPage?: boolean;
 }
 
 export function VirtualInfiniteScroll({
-    libraryId,
     serverUrl,
     items,
     totalCount,
-    onLoadMore,
+    viewMode,
+    onRangeChange,
+    scrollRequest,
     loading = false,
-    hasNextPage = true,
 }: VirtualInfiniteScrollProps) {
     const containerRef = useRef<HTMLDivElement>(null);
-    const loadingRef = useRef<HTMLDivElement>(null);
+    const [scrollElement, setScrollElement] = useState<HTMLElement | null>(null);
+    const [scrollMargin, setScrollMargin] = useState(0);
+    const [containerWidth, setContainerWidth] = useState(0);
 
-    // Intersection Observer for infinite scroll
-    useEffect(() => {
-        const observer = new IntersectionObserver(
-            (entries) => {
-                if (entries[0].isIntersecting && hasNextPage && !loading) {
-                    onLoadMore();
-                }
-            },
-            { threshold: 0.1 }
-        );
-
-        if (loadingRef.current) {
-            observer.observe(loadingRef.current);
-        }
+    const layout = VIEW_LAYOUTS[viewMode];
+    const columns = Math.max(
+        1,
+        Math.floor((containerWidth + GAP) / (layout.minColumnWidth + GAP))
+    );
+    const columnWidth = (containerWidth - GAP * (columns - 1)) / columns;
+    const rowCount = Math.ceil(totalCount / columns);
 
+    useLayoutEffect(() => {
+        const container = containerRef.current;
+        const scrollParent = getScrollParent(container);
+        setScrollElement(scrollParent);
+        if (!container || !scrollParent) return;
+
+        const measure = () => {
+            setContainerWidth(container.clientWidth);
+            setScrollMargin(
+                container.getBoundingClientRect().top -
+                    scrollParent.getBoundingClientRect().top +
+                    scrollParent.scrollTop
+            );
+        };
+        measure();
+
+        const observer = new ResizeObserver(measure);
+        observer.observe(container);
         return () => observer.disconnect();
-    }, [hasNextPage, loading, onLoadMore]);
+    }, []);
+
+    const rowVirtualizer = useVirtualizer({
+        count: rowCount,
+        getScrollElement: () => scrollElement,
+        estimateSize: () => layout.estimateRowHeight(columnWidth) + GAP,
+        overscan: 3,
+        scrollMargin,
+    });
+
+    // Row heights change with the view and the column count
+    useEffect(() => {
+        rowVirtualizer.measure();
+    }, [viewMode, columns, rowVirtualizer]);
+
+    const virtualRows = rowVirtualizer.getVirtualItems();
+    const firstRow = virtualRows[0]?.index ?? 0;
+    const lastRow = virtualRows[virtualRows.length - 1]?.index ?? -1;
+
+    useEffect(() => {
+        if (lastRow < 0) return;
+        onRangeChange(firstRow * columns, Math.min((lastRow + 1) * columns, totalCount) - 1);
+    }, [firstRow, lastRow, columns, totalCount, onRangeChange]);
+
+    useEffect(() => {
+        if (!scrollRequest) return;
+        rowVirtualizer.scrollToIndex(Math.floor(scrollRequest.index / columns), {
+            align: "start",
+        });
+        // Only a new request should scroll, not a change in layout
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [scrollRequest]);
+
+    // What's loaded, in order, for shift-click ranges
+    const loadedItems = useMemo(
+        () => items.filter((item): item is BaseItemDto => Boolean(item)),
+        [items]
+    );
+
+    const renderItem = (item: BaseItemDto) => {
+        switch (viewMode) {
+            case "thumb":
+                return <MediaCard item={item} serverUrl={serverUrl} continueWatching fullWidth />;
+            case "banner":
+                return <LibraryBannerCard item={item} serverUrl={serverUrl} />;
+            case "list":
+                return <LibraryListRow item={item} serverUrl={serverUrl} />;
+            default:
+                return <MediaCard item={item} serverUrl={serverUrl} fullWidth />;
+        }
+    };
 
     return (
         <div className="space-y-4">
-            {/* Media Grid */}
+            {viewMode === "list" && totalCount > 0 && <LibraryListHeader />}
+
+            {/* Only the rows in view are rendered */}
             <div
                 ref={containerRef}
-                className="grid grid-cols-[repeat(auto-fill,minmax(150px,1fr))] gap-4 auto-rows-max"
+                className="relative w-full"
+                style={{ height: rowVirtualizer.getTotalSize() }}
             >
-                {items.map((item) => (
-                    <MediaCard
-                        key={item.Id}
-                        item={item}
-                        serverUrl={serverUrl}
-                        fullWidth
-                    />
-                ))}
+                {virtualRows.map((row) => {
+                    const start = row.index * columns;
+                    const rowItems = Array.from(
+                        { length: Math.min(columns, totalCount - start) },
+                        (_, offset) => items[start + offset]
+                    );
+
+                    return (
+                        <div
+                            key={row.key}
+                            data-index={row.index}
+                            ref={rowVirtualizer.measureElement}
+                            className="absolute left-0 top-0 grid w-full"
+                            style={{
+                                transform: `translateY(${row.start - scrollMargin}px)`,
+                                gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+                                columnGap: GAP,
+                                paddingBottom: viewMode === "list" ? 0 : GAP,
+                            }}
+                        >
+                            {rowItems.map((item, offset) =>
+                                item ? (
+                                    <SelectableItem key={item.Id} item={item} items={loadedItems}>
+                                        {renderItem(item)}
+                                    </SelectableItem>
+                                ) : (
+                                    <Skeleton
+                                        key={`placeholder-${start + offset}`}
+                                        className={`w-full rounded-md ${PLACEHOLDER_ASPECT[viewMode]}`}
+                                    />
+                                )
+                            )}
+                        </div>
+                    );
+                })}
             </div>
 
             {/* Loading indicator */}
             {loading && (
                 <div className="flex items-center justify-center py-4">
                     <Loader2 className="h-6 w-6 animate-spin" />
-                    <span className="ml-2 text-sm text-muted-foreground">Loading more items...</span>
-                </div>
-            )}
-
-            {/* Intersection observer target */}
-            {hasNextPage && (
-                <div ref={loadingRef} className="h-4" />
-            )}
-
-            {/* End of list indicator */}
-            {!hasNextPage && items.length > 0 && (
-                <div className="flex items-center justify-center py-4">
-                    <span className="text-sm text-muted-foreground">
-                        All {totalCount} items loaded
-                    </span>
+                    <span className="ml-2 text-sm text-muted-foreground">Loading items...</span>
                 </div>
             )}
 
             {/* Empty State */}
-            {items.length === 0 && !loading && (
+            {totalCount === 0 && !loading && (
                 <div className="flex items-center justify-center py-12">
                     <div className="text-center">
                         <div className="text-muted-foreground text-lg mb-2">
@@ -100,4 +223,3 @@ export function VirtualInfiniteScroll({
         </div>
     );
 }
-
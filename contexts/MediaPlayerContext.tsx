@@ -1,18 +1,49 @@
-import { useAtom } from "jotai";
+import { useAtom, useAtomValue, useSetAtom } from "jotai";
 import {
   isPlayerVisibleAtom,
+  isPlayerMinimizedAtom,
   currentMediaAtom,
   currentMediaWithSourceAtom,
   skipTimestampAtom,
   skipToTimestampAtom,
   currentTimestampAtom,
   playMediaAtom,
+  playQueueAtom,
+  playQueueIndexAtom,
+  repeatModeAtom,
+  isShuffleEnabledAtom,
+  setPlayQueueAtom,
+  playQueueIndexItemAtom,
+  advancePlayQueueAtom,
+  playNextAtom,
+  addToQueueAtom,
+  removeFromQueueAtom,
+  toggleShuffleAtom,
+  cycleRepeatModeAtom,
+  clearPlayQueueAtom,
+  audioQueueAtom,
+  audioQueueIndexAtom,
+  audioRepeatModeAtom,
+  currentAudioTrackAtom,
+  nextAudioQueueIndexAtom,
+  playAudioQueueAtom,
+  addToAudioQueueAtom,
+  advanceAudioQueueAtom,
+  cycleAudioRepeatModeAtom,
+  clearAudioQueueAtom,
   MediaToPlay,
   CurrentMediaWithSource,
+  PlayQueueItem,
+  RepeatMode,
+  AudioTrack,
+  AudioQueueItem,
 } from "@/lib/atoms";
 
 export function useMediaPlayer() {
   const [isPlayerVisible, setIsPlayerVisible] = useAtom(isPlayerVisibleAtom);
+  const [isPlayerMinimized, setIsPlayerMinimized] = useAtom(
+    isPlayerMinimizedAtom
+  );
   const [currentMedia] = useAtom(currentMediaAtom);
   const [currentMediaWithSource, setCurrentMediaWithSource] = useAtom(
     currentMediaWithSourceAtom
@@ -25,6 +56,8 @@ export function useMediaPlayer() {
   return {
     isPlayerVisible,
     setIsPlayerVisible,
+    isPlayerMinimized,
+    setIsPlayerMinimized,
     playMedia,
     currentMedia,
     currentMediaWithSource,
@@ -36,5 +69,56 @@ export function useMediaPlayer() {
   };
 }
 
+export function usePlayQueue() {
+  const queue = useAtomValue(playQueueAtom);
+  const queueIndex = useAtomValue(playQueueIndexAtom);
+  const [repeatMode, setRepeatMode] = useAtom(repeatModeAtom);
+  const isShuffleEnabled = useAtomValue(isShuffleEnabledAtom);
+
+  return {
+    queue,
+    queueIndex,
+    repeatMode,
+    setRepeatMode,
+    isShuffleEnabled,
+    hasNext: queueIndex < queue.length - 1 || (repeatMode === "all" && queue.length > 1),
+    hasPrevious: queueIndex > 0 || (repeatMode === "all" && queue.length > 1),
+    setPlayQueue: useSetAtom(setPlayQueueAtom),
+    playQueueIndex: useSetAtom(playQueueIndexItemAtom),
+    advanceQueue: useSetAtom(advancePlayQueueAtom),
+    playNext: useSetAtom(playNextAtom),
+    addToQueue: useSetAtom(addToQueueAtom),
+    removeFromQueue: useSetAtom(removeFromQueueAtom),
+    toggleShuffle: useSetAtom(toggleShuffleAtom),
+    cycleRepeatMode: useSetAtom(cycleRepeatModeAtom),
+    clearQueue: useSetAtom(clearPlayQueueAtom),
+  };
+}
+
+export function useMusicPlayer() {
+  const queue = useAtomValue(audioQueueAtom);
+  const nextIndex = useAtomValue(nextAudioQueueIndexAtom);
+
+  return {
+    queue,
+    queueIndex: useAtomValue(audioQueueIndexAtom),
+    currentTrack: useAtomValue(currentAudioTrackAtom),
+    nextTrack: nextIndex === null ? null : queue[nextIndex],
+    repeatMode: useAtomValue(audioRepeatModeAtom),
+    playTracks: useSetAtom(playAudioQueueAtom),
+    addTracks: useSetAtom(addToAudioQueueAtom),
+    advance: useSetAtom(advanceAudioQueueAtom),
+    cycleRepeatMode: useSetAtom(cycleAudioRepeatModeAtom),
+    clearQueue: useSetAtom(clearAudioQueueAtom),
+  };
+}
+
 // Export types for backward compatibility
-export type { MediaToPlay, CurrentMediaWithSource };
+export type {
+  MediaToPlay,
+  CurrentMediaWithSource,
+  PlayQueueItem,
+  RepeatMode,
+  AudioTrack,
+  AudioQueueItem,
+};
@@ -17,6 +17,103 @@ export const BITRATE_OPTIONS: BitrateOption[] = [
   { value: "1000", label: "1 Mbps (360p)", bitrate: 1000000 },
 ];
 
+// Seconds before the end to show "Up next" when an episode has no Outro segment
+export const UP_NEXT_OPTIONS = [15, 30, 45, 60];
+
+// Episodes played back-to-back without input before asking "Are you still watching?"
+export const STILL_WATCHING_OPTIONS = [0, 2, 3, 5, 8];
+
+// What the player does when it reaches a media segment
+export type SegmentSkipPolicy = "ask" | "auto" | "ignore";
+
+export type SkippableSegmentType =
+  | "Intro"
+  | "Recap"
+  | "Preview"
+  | "Commercial"
+  | "Outro";
+
+export const SEGMENT_TYPES: { type: SkippableSegmentType; label: string }[] = [
+  { type: "Intro", label: "Intro" },
+  { type: "Recap", label: "Recap" },
+  { type: "Preview", label: "Preview" },
+  { type: "Commercial", label: "Commercial" },
+  { type: "Outro", label: "Credits" },
+];
+
+const DEFAULT_SEGMENT_SKIP_POLICIES: Record<
+  SkippableSegmentType,
+  SegmentSkipPolicy
+> = {
+  Intro: "ask",
+  Recap: "ask",
+  Preview: "ask",
+  Commercial: "ask",
+  Outro: "ask",
+};
+
+export type SubtitleFontSize = "small" | "medium" | "large" | "extra-large";
+export type SubtitleBackground = "none" | "translucent" | "opaque";
+export type SubtitleEdgeStyle =
+  | "none"
+  | "outline"
+  | "drop-shadow"
+  | "raised"
+  | "depressed";
+
+// Applies to text subtitles; ASS/SSA tracks keep their own styling
+export interface SubtitleStyle {
+  fontSize: SubtitleFontSize;
+  color: string;
+  background: SubtitleBackground;
+  edgeStyle: SubtitleEdgeStyle;
+}
+
+export const SUBTITLE_FONT_SIZES: {
+  value: SubtitleFontSize;
+  label: string;
+}[] = [
+  { value: "small", label: "Small" },
+  { value: "medium", label: "Medium" },
+  { value: "large", label: "Large" },
+  { value: "extra-large", label: "Extra large" },
+];
+
+export const SUBTITLE_COLORS: { value: string; label: string }[] = [
+  { value: "#ffffff", label: "White" },
+  { value: "#ffff00", label: "Yellow" },
+  { value: "#00ffff", label: "Cyan" },
+  { value: "#00ff00", label: "Green" },
+  { value: "#ff00ff", label: "Magenta" },
+];
+
+export const SUBTITLE_BACKGROUNDS: {
+  value: SubtitleBackground;
+  label: string;
+}[] = [
+  { value: "none", label: "None" },
+  { value: "translucent", label: "Translucent" },
+  { value: "opaque", label: "Opaque" },
+];
+
+export const SUBTITLE_EDGE_STYLES: {
+  value: SubtitleEdgeStyle;
+  label: string;
+}[] = [
+  { value: "none", label: "None" },
+  { value: "outline", label: "Outline" },
+  { value: "drop-shadow", label: "Drop shadow" },
+  { value: "raised", label: "Raised" },
+  { value: "depressed", label: "Depressed" },
+];
+
+const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
+  fontSize: "medium",
+  color: "#ffffff",
+  background: "none",
+  edgeStyle: "drop-shadow",
+};
+
 export type AIProvider = "gemini" | "ollama" | "groq" | "openrouter";
 
 interface SettingsContextType {
@@ -46,6 +143,20 @@ interface SettingsContextType {
   setPreferredAudioLanguage: (lang: string) => void;
   preferredSubtitleLanguage: string;
   setPreferredSubtitleLanguage: (lang: string) => void;
+  autoPlayNextEpisode: boolean;
+  setAutoPlayNextEpisode: (enabled: boolean) => void;
+  upNextSeconds: number;
+  setUpNextSeconds: (seconds: number) => void;
+  // 0 disables the prompt
+  stillWatchingEpisodes: number;
+  setStillWatchingEpisodes: (episodes: number) => void;
+  segmentSkipPolicies: Record<SkippableSegmentType, SegmentSkipPolicy>;
+  setSegmentSkipPolicy: (
+    type: SkippableSegmentType,
+    policy: SegmentSkipPolicy
+  ) => void;
+  subtitleStyle: SubtitleStyle;
+  setSubtitleStyle: (style: Partial<SubtitleStyle>) => void;
 }
 
 const SettingsContext = createContext<SettingsContextType | undefined>(
@@ -73,6 +184,17 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
     useState<string>("eng");
   const [preferredSubtitleLanguage, setPreferredSubtitleLanguageState] =
     useState<string>("eng");
+  const [autoPlayNextEpisode, setAutoPlayNextEpisodeState] =
+    useState<boolean>(true);
+  const [upNextSeconds, setUpNextSecondsState] = useState<number>(30);
+  const [stillWatchingEpisodes, setStillWatchingEpisodesState] =
+    useState<number>(3);
+  const [segmentSkipPolicies, setSegmentSkipPoliciesState] = useState<
+    Record<SkippableSegmentType, SegmentSkipPolicy>
+  >(DEFAULT_SEGMENT_SKIP_POLICIES);
+  const [subtitleStyle, setSubtitleStyleState] = useState<SubtitleStyle>(
+    DEFAULT_SUBTITLE_STYLE
+  );
 
   // Load settings from localStorage on mount
   useEffect(() => {
@@ -150,6 +272,56 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
     if (savedSubtitleLanguage) {
       setPreferredSubtitleLanguageState(savedSubtitleLanguage);
     }
+
+    const savedAutoPlayNextEpisode = localStorage.getItem(
+      "finetic-auto-play-next-episode",
+    );
+    if (savedAutoPlayNextEpisode !== null) {
+      setAutoPlayNextEpisodeState(savedAutoPlayNextEpisode === "true");
+    }
+
+    const savedUpNextSeconds = Number(
+      localStorage.getItem("finetic-up-next-seconds"),
+    );
+    if (UP_NEXT_OPTIONS.includes(savedUpNextSeconds)) {
+      setUpNextSecondsState(savedUpNextSeconds);
+    }
+
+    const savedStillWatchingEpisodes = localStorage.getItem(
+      "finetic-still-watching-episodes",
+    );
+    if (
+      savedStillWatchingEpisodes !== null &&
+      STILL_WATCHING_OPTIONS.includes(Number(savedStillWatchingEpisodes))
+    ) {
+      setStillWatchingEpisodesState(Number(savedStillWatchingEpisodes));
+    }
+
+    const savedSegmentSkipPolicies = localStorage.getItem(
+      "finetic-segment-skip-policies",
+    );
+    if (savedSegmentSkipPolicies) {
+      try {
+        setSegmentSkipPoliciesState({
+          ...DEFAULT_SEGMENT_SKIP_POLICIES,
+          ...JSON.parse(savedSegmentSkipPolicies),
+        });
+      } catch (error) {
+        console.error("Failed to parse segment skip policies:", error);
+      }
+    }
+
+    const savedSubtitleStyle = localStorage.getItem("finetic-subtitle-style");
+    if (savedSubtitleStyle) {
+      try {
+        setSubtitleStyleState({
+          ...DEFAULT_SUBTITLE_STYLE,
+          ...JSON.parse(savedSubtitleStyle),
+        });
+      } catch (error) {
+        console.error("Failed to parse subtitle style:", error);
+      }
+    }
   }, []);
 
   // Save to localStorage when states change
@@ -214,6 +386,39 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
     localStorage.setItem("finetic-preferred-subtitle-language", lang);
   };
 
+  const setAutoPlayNextEpisode = (enabled: boolean) => {
+    setAutoPlayNextEpisodeState(enabled);
+    localStorage.setItem("finetic-auto-play-next-episode", enabled.toString());
+  };
+
+  const setUpNextSeconds = (seconds: number) => {
+    setUpNextSecondsState(seconds);
+    localStorage.setItem("finetic-up-next-seconds", seconds.toString());
+  };
+
+  const setStillWatchingEpisodes = (episodes: number) => {
+    setStillWatchingEpisodesState(episodes);
+    localStorage.setItem("finetic-still-watching-episodes", episodes.toString());
+  };
+
+  const setSegmentSkipPolicy = (
+    type: SkippableSegmentType,
+    policy: SegmentSkipPolicy
+  ) => {
+    const policies = { ...segmentSkipPolicies, [type]: policy };
+    setSegmentSkipPoliciesState(policies);
+    localStorage.setItem(
+      "finetic-segment-skip-policies",
+      JSON.stringify(policies)
+    );
+  };
+
+  const setSubtitleStyle = (style: Partial<SubtitleStyle>) => {
+    const nextStyle = { ...subtitleStyle, ...style };
+    setSubtitleStyleState(nextStyle);
+    localStorage.setItem("finetic-subtitle-style", JSON.stringify(nextStyle));
+  };
+
   return (
     <SettingsContext.Provider
       value={{
@@ -241,6 +446,16 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
         setPreferredAudioLanguage,
         preferredSubtitleLanguage,
         setPreferredSubtitleLanguage,
+        autoPlayNextEpisode,
+        setAutoPlayNextEpisode,
+        upNextSeconds,
+        setUpNextSeconds,
+        stillWatchingEpisodes,
+        setStillWatchingEpisodes,
+        segmentSkipPolicies,
+        setSegmentSkipPolicy,
+        subtitleStyle,
+        setSubtitleStyle,
       }}
     >
       {children}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type Hls from 'hls.js';
+import {
+  ErrorDetails,
+  Events,
+  type ErrorData,
+  type FragLoadedData,
+  type LevelSwitchedData,
+} from 'hls.js';
+import { BITRATE_OPTIONS } from '@/contexts/settings-context';
+
+interface UseAdaptiveBitrateOptions {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  // The player's hls.js instance; null when the browser plays the stream itself
+  hls: Hls | null;
+  streamUrl: string | null;
+  enabled: boolean;
+  // Current MaxStreamingBitrate cap, 0 when uncapped
+  currentBitrate: number;
+  sourceBitrate?: number | null;
+  onStepDown: (bitrate: number) => void;
+}
+
+const STALL_WINDOW_MS = 30000;
+const STALLS_BEFORE_STEP_DOWN = 2;
+const SWITCH_COOLDOWN_MS = 20000;
+const FRAGMENTS_BEFORE_ESTIMATE = 3;
+const THROUGHPUT_HEADROOM = 0.8;
+
+// Capped bitrates from the settings menu, highest first
+const BITRATE_LADDER = BITRATE_OPTIONS.map((option) => option.bitrate)
+  .filter((bitrate) => bitrate > 0)
+  .sort((a, b) => b - a);
+
+// Next rung below both the current cap and an optional ceiling (e.g. measured throughput)
+export function getLowerBitrate(currentBitrate: number, ceiling?: number): number | null {
+  const limit = Math.min(currentBitrate > 0 ? currentBitrate : Infinity, ceiling ?? Infinity);
+  const lower = BITRATE_LADDER.find((bitrate) => bitrate < limit);
+  if (lower !== undefined) return lower;
+
+  // Throughput is below the lowest rung: fall back to it if we're not there yet
+  const lowest = BITRATE_LADDER[BITRATE_LADDER.length - 1];
+  return currentBitrate === 0 || lowest < currentBitrate ? lowest : null;
+}
+
+export const useAdaptiveBitrate = ({
+  videoRef,
+  hls,
+  streamUrl,
+  enabled,
+  currentBitrate,
+  sourceBitrate,
+  onStepDown,
+}: UseAdaptiveBitrateOptions) => {
+  const onStepDownRef = useRef(onStepDown);
+  onStepDownRef.current = onStepDown;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!enabled || !streamUrl || !video) return;
+
+    const attachedAt = Date.now();
+    let stalls: number[] = [];
+    let fragmentsLoaded = 0;
+    let switched = false;
+    let levelBitrate =
+      hls && hls.currentLevel >= 0 ? hls.levels[hls.currentLevel]?.bitrate : undefined;
+
+    const stepDown = (ceiling?: number) => {
+      if (switched || Date.now() - attachedAt < SWITCH_COOLDOWN_MS) return;
+
+      const startingBitrate = currentBitrate || sourceBitrate || 0;
+      const next = getLowerBitrate(startingBitrate, ceiling);
+      if (next === null) return;
+
+      switched = true;
+      onStepDownRef.current(next);
+    };
+
+    const recordStall = () => {
+      const now = Date.now();
+      stalls = [...stalls.filter((time) => now - time < STALL_WINDOW_MS), now];
+      if (stalls.length >= STALLS_BEFORE_STEP_DOWN) {
+        stepDown();
+      }
+    };
+
+    const handleHlsError = (_event: Events.ERROR, data: ErrorData) => {
+      if (data.details === ErrorDetails.BUFFER_STALLED_ERROR) {
+        recordStall();
+      }
+    };
+
+    const handleLevelSwitched = (_event: Events.LEVEL_SWITCHED, data: LevelSwitchedData) => {
+      levelBitrate = hls?.levels[data.level]?.bitrate;
+    };
+
+    const handleFragLoaded = (_event: Events.FRAG_LOADED, data: FragLoadedData) => {
+      // Audio and subtitle fragments say nothing about the video rendition
+      if (!hls || data.frag.type !== 'main') return;
+      fragmentsLoaded += 1;
+      if (fragmentsLoaded < FRAGMENTS_BEFORE_ESTIMATE) return;
+
+      const usable = hls.bandwidthEstimate * THROUGHPUT_HEADROOM;
+      const bitrate = levelBitrate ?? currentBitrate;
+      if (usable > 0 && bitrate > 0 && usable < bitrate) {
+        stepDown(usable);
+      }
+    };
+
+    // Direct play has no hls.js instance, so fall back to the element's own stall signal
+    const handleWaiting = () => {
+      if (hls || video.seeking || video.currentTime < 1) return;
+      recordStall();
+    };
+
+    hls?.on(Events.ERROR, handleHlsError);
+    hls?.on(Events.LEVEL_SWITCHED, handleLevelSwitched);
+    hls?.on(Events.FRAG_LOADED, handleFragLoaded);
+    video.addEventListener('waiting', handleWaiting);
+
+    return () => {
+      video.removeEventListener('waiting', handleWaiting);
+      hls?.off(Events.ERROR, handleHlsError);
+      hls?.off(Events.LEVEL_SWITCHED, handleLevelSwitched);
+      hls?.off(Events.FRAG_LOADED, handleFragLoaded);
+    };
+  }, [videoRef, hls, streamUrl, enabled, currentBitrate, sourceBitrate]);
+};
@@ -0,0 +1,76 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type JASSUB from 'jassub';
+
+interface UseAssRendererOptions {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  // Original ASS/SSA stream; null when the active track isn't one
+  subUrl: string | null;
+  // Font attachments shipped with the media source
+  fonts: string[];
+  // Seconds added to every event; positive shows subtitles later
+  offset: number;
+  enabled: boolean;
+}
+
+// jassub reads timeOffset on every frame but leaves it out of its typings
+type JassubRenderer = JASSUB & { timeOffset: number };
+
+// Renders ASS/SSA tracks with libass compiled to WASM, drawn on a canvas over the video.
+// `failed` flips when the renderer can't start so the caller can fall back to plain cues.
+export const useAssRenderer = ({
+  videoRef,
+  subUrl,
+  fonts,
+  offset,
+  enabled,
+}: UseAssRendererOptions) => {
+  const rendererRef = useRef<JassubRenderer | null>(null);
+  const offsetRef = useRef(offset);
+  offsetRef.current = offset;
+  const [failed, setFailed] = useState(false);
+
+  // Compare fonts by value so a new array with the same URLs doesn't restart the renderer
+  const fontsKey = fonts.join('\n');
+
+  useEffect(() => {
+    const video = videoRef.current;
+    setFailed(false);
+    if (!enabled || !subUrl || !video) return;
+
+    let cancelled = false;
+
+    import('jassub')
+      .then(({ default: JASSUB }) => {
+        if (cancelled) return;
+        rendererRef.current = new JASSUB({
+          video,
+          subUrl,
+          fonts: fontsKey ? fontsKey.split('\n') : [],
+          workerUrl: new URL('jassub/dist/jassub-worker.js', import.meta.url).href,
+          wasmUrl: new URL('jassub/dist/jassub-worker.wasm', import.meta.url).href,
+          // libass adds timeOffset to the playhead, so a later subtitle needs a negative one
+          timeOffset: -offsetRef.current,
+        }) as JassubRenderer;
+      })
+      .catch((error) => {
+        console.error('Failed to start ASS renderer:', error);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+      rendererRef.current?.destroy();
+      rendererRef.current = null;
+    };
+  }, [videoRef, subUrl, fontsKey, enabled]);
+
+  useEffect(() => {
+    if (rendererRef.current) {
+      rendererRef.current.timeOffset = -offset;
+    }
+  }, [offset]);
+
+  return { failed };
+};
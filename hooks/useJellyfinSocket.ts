@@ -0,0 +1,371 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSetAtom } from 'jotai';
+import { toast } from 'sonner';
+import {
+  BaseItemDto,
+  GeneralCommandType,
+  GroupInfoDto,
+  GroupStateType,
+  GroupStateUpdate,
+  GroupUpdateType,
+  PlayCommand,
+  PlayQueueUpdate,
+  PlaystateRequest,
+  SendCommand,
+} from '@jellyfin/sdk/lib/generated-client/models';
+import { fetchItemsByIds, fetchPlayQueueItems, reportSessionCapabilities } from '@/app/actions';
+import { useAuth } from '@/hooks/useAuth';
+import { usePlayQueue, useMediaPlayer, MediaToPlay } from '@/contexts/MediaPlayerContext';
+import {
+  remotePlayerCommandAtom,
+  RemotePlayerCommand,
+  syncPlayCommandAtom,
+  syncPlayGroupAtom,
+  syncPlayQueueAtom,
+} from '@/lib/atoms';
+
+interface SocketMessage {
+  MessageType: string;
+  Data?: unknown;
+}
+
+interface PlayRequest {
+  ItemIds: string[];
+  StartPositionTicks?: number | null;
+  PlayCommand: PlayCommand;
+  StartIndex?: number | null;
+}
+
+interface GeneralCommandRequest {
+  Name: GeneralCommandType;
+  Arguments?: Record<string, string>;
+}
+
+interface SyncPlayGroupUpdate {
+  GroupId: string;
+  Type: GroupUpdateType;
+  Data: unknown;
+}
+
+// Commands the player carries out; everything else in SUPPORTED_COMMANDS is handled here
+const PLAYER_COMMANDS: GeneralCommandType[] = [
+  GeneralCommandType.SetVolume,
+  GeneralCommandType.VolumeUp,
+  GeneralCommandType.VolumeDown,
+  GeneralCommandType.Mute,
+  GeneralCommandType.Unmute,
+  GeneralCommandType.ToggleMute,
+  GeneralCommandType.SetAudioStreamIndex,
+  GeneralCommandType.SetSubtitleStreamIndex,
+];
+
+const SUPPORTED_COMMANDS: GeneralCommandType[] = [
+  ...PLAYER_COMMANDS,
+  GeneralCommandType.DisplayMessage,
+  GeneralCommandType.DisplayContent,
+  GeneralCommandType.GoHome,
+  GeneralCommandType.GoToSettings,
+  GeneralCommandType.GoToSearch,
+];
+
+const PLAYABLE_TYPES = ['Movie', 'Episode'];
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+const ITEM_ROUTES: Record<string, string> = {
+  Movie: 'movie',
+  Series: 'series',
+  Season: 'season',
+  Episode: 'episode',
+  Person: 'person',
+  CollectionFolder: 'library',
+};
+
+const toMediaToPlay = (item: BaseItemDto): MediaToPlay => ({
+  id: item.Id!,
+  name: item.Name!,
+  type: item.Type as MediaToPlay['type'],
+});
+
+// Containers (series, seasons, folders) are expanded into the episodes and movies they play
+async function resolvePlayableItems(itemIds: string[]): Promise<BaseItemDto[]> {
+  const items = await fetchItemsByIds(itemIds);
+  const resolved = await Promise.all(
+    items.map((item) =>
+      PLAYABLE_TYPES.includes(item.Type ?? '')
+        ? [item]
+        : fetchPlayQueueItems(item.Id!, item.Type!)
+    )
+  );
+  return resolved.flat();
+}
+
+const getSocketUrl = (serverUrl: string, accessToken: string) => {
+  const url = new URL('socket', serverUrl.endsWith('/') ? serverUrl : `${serverUrl}/`);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  url.searchParams.set('api_key', accessToken);
+  return url.toString();
+};
+
+// Keeps a connection to the server's /socket open so this browser shows up as a remote-controllable
+// session and carries out Play, Playstate and GeneralCommand messages from other clients. SyncPlay
+// updates and commands are handed to the player through atoms.
+export const useJellyfinSocket = () => {
+  const router = useRouter();
+  const { serverUrl, user } = useAuth();
+  const { playMedia } = useMediaPlayer();
+  const { setPlayQueue, playNext, addToQueue } = usePlayQueue();
+  const setRemotePlayerCommand = useSetAtom(remotePlayerCommandAtom);
+  const setSyncPlayGroup = useSetAtom(syncPlayGroupAtom);
+  const setSyncPlayQueue = useSetAtom(syncPlayQueueAtom);
+  const setSyncPlayCommand = useSetAtom(syncPlayCommandAtom);
+  const commandIdRef = useRef(0);
+
+  // Latest handlers, so the connection isn't torn down whenever they change
+  const handleMessageRef = useRef<(message: SocketMessage) => void>(() => {});
+
+  handleMessageRef.current = (message: SocketMessage) => {
+    const sendToPlayer = (command: RemotePlayerCommand) => {
+      commandIdRef.current += 1;
+      setRemotePlayerCommand({ ...command, id: commandIdRef.current });
+    };
+
+    switch (message.MessageType) {
+      case 'Play':
+        handlePlay(message.Data as PlayRequest);
+        break;
+      case 'Playstate': {
+        const { Command, SeekPositionTicks } = message.Data as PlaystateRequest;
+        sendToPlayer({
+          type: 'playstate',
+          command: Command!,
+          seekPositionTicks: SeekPositionTicks ?? undefined,
+        });
+        break;
+      }
+      case 'GeneralCommand': {
+        const { Name, Arguments = {} } = message.Data as GeneralCommandRequest;
+        if (PLAYER_COMMANDS.includes(Name)) {
+          sendToPlayer({ type: 'general', name: Name, args: Arguments });
+        } else {
+          handleGeneralCommand(Name, Arguments);
+        }
+        break;
+      }
+      case 'SyncPlayGroupUpdate':
+        handleSyncPlayGroupUpdate(message.Data as SyncPlayGroupUpdate);
+        break;
+      case 'SyncPlayCommand':
+        commandIdRef.current += 1;
+        setSyncPlayCommand({ ...(message.Data as SendCommand), id: commandIdRef.current });
+        break;
+    }
+  };
+
+  const handleSyncPlayGroupUpdate = ({ Type, Data }: SyncPlayGroupUpdate) => {
+    switch (Type) {
+      case GroupUpdateType.GroupJoined: {
+        const group = Data as GroupInfoDto;
+        setSyncPlayGroup({
+          groupId: group.GroupId!,
+          groupName: group.GroupName || 'SyncPlay',
+          participants: group.Participants ?? [],
+          state: group.State ?? GroupStateType.Idle,
+        });
+        toast.success(`Joined ${group.GroupName || 'the group'}`);
+        break;
+      }
+      case GroupUpdateType.UserJoined: {
+        const userName = Data as string;
+        setSyncPlayGroup((group) =>
+          group ? { ...group, participants: [...group.participants, userName] } : group
+        );
+        toast(`${userName} joined the group`);
+        break;
+      }
+      case GroupUpdateType.UserLeft: {
+        const userName = Data as string;
+        setSyncPlayGroup((group) => {
+          if (!group) return group;
+          const index = group.participants.indexOf(userName);
+          return index === -1
+            ? group
+            : { ...group, participants: group.participants.filter((_, i) => i !== index) };
+        });
+        toast(`${userName} left the group`);
+        break;
+      }
+      case GroupUpdateType.StateUpdate: {
+        const update = Data as GroupStateUpdate;
+        setSyncPlayGroup((group) =>
+          group
+            ? { ...group, state: update.State ?? group.state, stateReason: update.Reason }
+            : group
+        );
+        break;
+      }
+      case GroupUpdateType.PlayQueue:
+        commandIdRef.current += 1;
+        setSyncPlayQueue({ ...(Data as PlayQueueUpdate), id: commandIdRef.current });
+        break;
+      case GroupUpdateType.GroupLeft:
+      case GroupUpdateType.NotInGroup:
+        setSyncPlayGroup(null);
+        setSyncPlayQueue(null);
+        if (Type === GroupUpdateType.GroupLeft) toast('Left the group');
+        break;
+      case GroupUpdateType.GroupDoesNotExist:
+        setSyncPlayGroup(null);
+        setSyncPlayQueue(null);
+        toast.error('That group no longer exists');
+        break;
+      case GroupUpdateType.CreateGroupDenied:
+        toast.error("You aren't allowed to create SyncPlay groups");
+        break;
+      case GroupUpdateType.JoinGroupDenied:
+        toast.error("You aren't allowed to join SyncPlay groups");
+        break;
+      case GroupUpdateType.LibraryAccessDenied:
+        toast.error("You don't have access to everything in this group's queue");
+        break;
+    }
+  };
+
+  const handlePlay = async ({ ItemIds, StartPositionTicks, PlayCommand: command, StartIndex }: PlayRequest) => {
+    try {
+      const items = await resolvePlayableItems(ItemIds);
+      if (items.length === 0) {
+        toast.error('Nothing to play');
+        return;
+      }
+
+      const media = items.map(toMediaToPlay);
+      const startIndex = Math.min(StartIndex ?? 0, media.length - 1);
+      if (StartPositionTicks) {
+        media[startIndex] = { ...media[startIndex], resumePositionTicks: StartPositionTicks };
+      }
+
+      switch (command) {
+        case PlayCommand.PlayNext:
+          playNext(media);
+          toast.success(`Playing next: ${media[0].name}`);
+          break;
+        case PlayCommand.PlayLast:
+          addToQueue(media);
+          toast.success(`Added to the queue: ${media[0].name}`);
+          break;
+        case PlayCommand.PlayShuffle:
+          setPlayQueue({ items: media, shuffle: true });
+          break;
+        default:
+          if (media.length === 1) {
+            playMedia(media[0]);
+          } else {
+            setPlayQueue({ items: media, startIndex });
+          }
+      }
+    } catch (error) {
+      console.error('Failed to play remote request:', error);
+      toast.error('Failed to play remote request');
+    }
+  };
+
+  const handleGeneralCommand = (name: GeneralCommandType, args: Record<string, string>) => {
+    switch (name) {
+      case GeneralCommandType.DisplayMessage: {
+        const timeout = Number(args.TimeoutMs);
+        toast(args.Header || 'Message', {
+          description: args.Text,
+          duration: timeout > 0 ? timeout : undefined,
+        });
+        break;
+      }
+      case GeneralCommandType.DisplayContent: {
+        const route = ITEM_ROUTES[args.ItemType];
+        if (route && args.ItemId) router.push(`/${route}/${args.ItemId}`);
+        break;
+      }
+      case GeneralCommandType.GoHome:
+        router.push('/');
+        break;
+      case GeneralCommandType.GoToSettings:
+        router.push('/settings');
+        break;
+      case GeneralCommandType.GoToSearch:
+        router.push('/search');
+        break;
+    }
+  };
+
+  const accessToken = user?.AccessToken;
+
+  useEffect(() => {
+    if (!serverUrl || !accessToken) return;
+
+    let socket: WebSocket | null = null;
+    let keepAliveInterval: ReturnType<typeof setInterval> | null = null;
+    let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+    let reconnectAttempts = 0;
+    let closed = false;
+
+    const stopKeepAlive = () => {
+      if (keepAliveInterval) clearInterval(keepAliveInterval);
+      keepAliveInterval = null;
+    };
+
+    const connect = () => {
+      socket = new WebSocket(getSocketUrl(serverUrl, accessToken));
+
+      socket.onopen = () => {
+        reconnectAttempts = 0;
+        reportSessionCapabilities(SUPPORTED_COMMANDS).catch((error) => {
+          console.error('Failed to report session capabilities:', error);
+        });
+      };
+
+      socket.onmessage = (event) => {
+        let message: SocketMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          return;
+        }
+
+        // The server closes sockets that stay quiet for longer than it asks for
+        if (message.MessageType === 'ForceKeepAlive') {
+          stopKeepAlive();
+          const intervalMs = (Number(message.Data) || 60) * 1000 * 0.5;
+          keepAliveInterval = setInterval(() => {
+            if (socket?.readyState === WebSocket.OPEN) {
+              socket.send(JSON.stringify({ MessageType: 'KeepAlive' }));
+            }
+          }, intervalMs);
+          return;
+        }
+        if (message.MessageType === 'KeepAlive') return;
+
+        handleMessageRef.current(message);
+      };
+
+      socket.onclose = () => {
+        stopKeepAlive();
+        if (closed) return;
+
+        const delay = Math.min(1000 * 2 ** reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+        reconnectAttempts += 1;
+        reconnectTimeout = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      stopKeepAlive();
+      if (reconnectTimeout) clearTimeout(reconnectTimeout);
+      socket?.close();
+    };
+  }, [serverUrl, accessToken]);
+};
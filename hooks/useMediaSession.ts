@@ -0,0 +1,170 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+export interface MediaSessionInfo {
+  title: string;
+  // Series name for episodes
+  artist?: string;
+  // Season name for episodes
+  album?: string;
+  artworkUrl?: string | null;
+}
+
+interface UseMediaSessionOptions {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  // The element behind videoRef is recreated with each stream
+  streamUrl: string | null;
+  info: MediaSessionInfo | null;
+  // Omitted handlers hide the matching OS button
+  onPreviousTrack?: () => void;
+  onNextTrack?: () => void;
+}
+
+const DEFAULT_SEEK_OFFSET = 10;
+
+const hasMediaSession = () =>
+  typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+
+function setActionHandler(
+  action: MediaSessionAction,
+  handler: MediaSessionActionHandler | null
+) {
+  try {
+    navigator.mediaSession.setActionHandler(action, handler);
+  } catch {
+    // Browsers throw for actions they don't know about
+  }
+}
+
+// Publishes the playing item to lock screens and OS media controls, and maps hardware media keys
+// back onto the video element.
+export const useMediaSession = ({
+  videoRef,
+  streamUrl,
+  info,
+  onPreviousTrack,
+  onNextTrack,
+}: UseMediaSessionOptions) => {
+  const onPreviousTrackRef = useRef(onPreviousTrack);
+  const onNextTrackRef = useRef(onNextTrack);
+  onPreviousTrackRef.current = onPreviousTrack;
+  onNextTrackRef.current = onNextTrack;
+
+  const { title, artist, album, artworkUrl } = info ?? {};
+
+  useEffect(() => {
+    if (!hasMediaSession()) return;
+    if (!title) {
+      navigator.mediaSession.metadata = null;
+      return;
+    }
+
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title,
+      artist: artist ?? '',
+      album: album ?? '',
+      artwork: artworkUrl ? [{ src: artworkUrl }] : [],
+    });
+  }, [title, artist, album, artworkUrl]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!hasMediaSession() || !streamUrl || !video) return;
+
+    const mediaSession = navigator.mediaSession;
+
+    // OS scrubbers only move when told where playback is
+    const updatePositionState = () => {
+      if (!Number.isFinite(video.duration) || video.duration <= 0) return;
+      try {
+        mediaSession.setPositionState({
+          duration: video.duration,
+          playbackRate: video.playbackRate,
+          position: Math.min(video.currentTime, video.duration),
+        });
+      } catch (error) {
+        console.warn('Failed to update media session position:', error);
+      }
+    };
+
+    const updatePlaybackState = () => {
+      mediaSession.playbackState = video.paused ? 'paused' : 'playing';
+      updatePositionState();
+    };
+
+    const seekTo = (time: number) => {
+      video.currentTime = Math.max(0, Math.min(time, video.duration || time));
+      updatePositionState();
+    };
+
+    setActionHandler('play', () => {
+      video.play().catch((error) => {
+        console.warn('Failed to resume playback:', error);
+      });
+    });
+    setActionHandler('pause', () => video.pause());
+    setActionHandler('seekbackward', (details) => {
+      seekTo(video.currentTime - (details.seekOffset ?? DEFAULT_SEEK_OFFSET));
+    });
+    setActionHandler('seekforward', (details) => {
+      seekTo(video.currentTime + (details.seekOffset ?? DEFAULT_SEEK_OFFSET));
+    });
+    setActionHandler('seekto', (details) => {
+      if (details.seekTime === undefined) return;
+      if (details.fastSeek && 'fastSeek' in video) {
+        video.fastSeek(details.seekTime);
+        updatePositionState();
+        return;
+      }
+      seekTo(details.seekTime);
+    });
+
+    const events = ['play', 'pause', 'ratechange', 'seeked', 'durationchange', 'loadedmetadata'];
+    events.forEach((event) => video.addEventListener(event, updatePlaybackState));
+    updatePlaybackState();
+
+    return () => {
+      events.forEach((event) => video.removeEventListener(event, updatePlaybackState));
+      (['play', 'pause', 'seekbackward', 'seekforward', 'seekto'] as const).forEach(
+        (action) => setActionHandler(action, null)
+      );
+      mediaSession.playbackState = 'none';
+      try {
+        mediaSession.setPositionState();
+      } catch {
+        // Clearing isn't supported everywhere
+      }
+    };
+  }, [videoRef, streamUrl]);
+
+  // Only offer previous/next when there is somewhere to go
+  const hasPreviousTrack = !!onPreviousTrack;
+  const hasNextTrack = !!onNextTrack;
+
+  useEffect(() => {
+    if (!hasMediaSession()) return;
+
+    setActionHandler(
+      'previoustrack',
+      hasPreviousTrack ? () => onPreviousTrackRef.current?.() : null
+    );
+    setActionHandler(
+      'nexttrack',
+      hasNextTrack ? () => onNextTrackRef.current?.() : null
+    );
+
+    return () => {
+      setActionHandler('previoustrack', null);
+      setActionHandler('nexttrack', null);
+    };
+  }, [hasPreviousTrack, hasNextTrack]);
+
+  // Drop the metadata once the player goes away
+  useEffect(
+    () => () => {
+      if (hasMediaSession()) navigator.mediaSession.metadata = null;
+    },
+    []
+  );
+};
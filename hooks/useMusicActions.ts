@@ -0,0 +1,55 @@
+'use client';
+
+import { useCallback } from 'react';
+import { BaseItemDto } from '@jellyfin/sdk/lib/generated-client/models';
+import {
+  fetchAlbumTracks,
+  fetchArtistTracks,
+  fetchInstantMix,
+  fetchItemsByIds,
+  fetchPlaylistItems,
+} from '@/app/actions';
+import { useMusicPlayer } from '@/contexts/MediaPlayerContext';
+import { toAudioTrack } from '@/lib/utils';
+
+export type MusicAction = 'play' | 'shuffle' | 'instantMix' | 'addToQueue';
+
+// The tracks a track, album, artist or playlist stands for, in playback order
+const resolveTracks = async (item: BaseItemDto): Promise<BaseItemDto[]> => {
+  switch (item.Type) {
+    case 'MusicAlbum':
+      return fetchAlbumTracks(item.Id!);
+    case 'MusicArtist':
+      return fetchArtistTracks(item.Id!);
+    case 'Playlist':
+      return (await fetchPlaylistItems(item.Id!)).filter((entry) => entry.Type === 'Audio');
+    default:
+      return item.Name ? [item] : fetchItemsByIds([item.Id!]);
+  }
+};
+
+export const useMusicActions = () => {
+  const { playTracks, addTracks } = useMusicPlayer();
+
+  // Resolves the item into tracks and applies the action; returns how many were queued
+  const queueMusic = useCallback(
+    async (item: BaseItemDto, action: MusicAction): Promise<number> => {
+      const items = action === 'instantMix'
+        ? await fetchInstantMix(item.Id!)
+        : await resolveTracks(item);
+      if (items.length === 0) return 0;
+
+      const tracks = items.map(toAudioTrack);
+      if (action === 'addToQueue') {
+        addTracks(tracks);
+      } else {
+        playTracks({ tracks, shuffle: action === 'shuffle' });
+      }
+
+      return tracks.length;
+    },
+    [playTracks, addTracks]
+  );
+
+  return { queueMusic };
+};
@@ -0,0 +1,290 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAtom, useSetAtom } from 'jotai';
+import { toast } from 'sonner';
+import { BaseItemDto, PlayMethod } from '@jellyfin/sdk/lib/generated-client/models';
+import {
+  getDownloadUrl,
+  getTranscodedDownloadUrl,
+  reportPlaybackProgress,
+} from '@/app/actions';
+import { markItemAsPlayed } from '@/app/actions/playback';
+import {
+  DownloadQuality,
+  OfflineDownload,
+  offlineDownloadsAtom,
+  updateOfflineDownloadAtom,
+} from '@/lib/atoms';
+import {
+  deleteDownloadedFiles,
+  downloadToStorage,
+  getDownloadedPoster,
+  isOfflineStorageSupported,
+  loadPendingPlaystates,
+  loadSavedDownloads,
+  queuePlaystate,
+  registerDownloadsShell,
+  requestPersistentStorage,
+  saveDownloads,
+  savePendingPlaystates,
+  savePoster,
+} from '@/lib/offline-storage';
+
+let isSyncingPlaystates = false;
+
+// Send watch state recorded offline to the server; whatever fails stays queued
+export const syncOfflinePlaystates = async () => {
+  if (isSyncingPlaystates || !navigator.onLine) return;
+
+  const pending = loadPendingPlaystates();
+  if (pending.length === 0) return;
+
+  isSyncingPlaystates = true;
+  const failed: typeof pending = [];
+
+  try {
+    for (const entry of pending) {
+      try {
+        if (entry.played) {
+          await markItemAsPlayed(entry.itemId);
+        } else {
+          const accepted = await reportPlaybackProgress(
+            entry.itemId,
+            entry.mediaSourceId,
+            crypto.randomUUID(),
+            entry.positionTicks,
+            true,
+            PlayMethod.DirectPlay
+          );
+          if (!accepted) failed.push(entry);
+        }
+      } catch (error) {
+        console.error('Failed to sync offline playstate:', error);
+        failed.push(entry);
+      }
+    }
+
+    // Entries updated while we were sending are kept for the next sync
+    savePendingPlaystates(
+      loadPendingPlaystates().filter((entry) => {
+        const sent = pending.find(
+          (candidate) =>
+            candidate.itemId === entry.itemId && candidate.updatedAt === entry.updatedAt
+        );
+        return !sent || failed.includes(sent);
+      })
+    );
+  } finally {
+    isSyncingPlaystates = false;
+  }
+};
+
+// Runs the download queue one item at a time and syncs offline watch state.
+// Mounted once, in the app layout, so downloads carry on while browsing.
+export const useDownloadManager = () => {
+  const [downloads, setDownloads] = useAtom(offlineDownloadsAtom);
+  const updateDownload = useSetAtom(updateOfflineDownloadAtom);
+  const [restored, setRestored] = useState(false);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(true);
+  const controllerRef = useRef<AbortController | null>(null);
+  const downloadsRef = useRef(downloads);
+  downloadsRef.current = downloads;
+
+  // Anything interrupted mid-download resumes where its saved parts end
+  useEffect(() => {
+    if (!isOfflineStorageSupported()) return;
+
+    // Installed from any page, so the Downloads page is cached before it's needed offline
+    registerDownloadsShell();
+    setDownloads(
+      loadSavedDownloads().map((download) =>
+        download.status === 'downloading' ? { ...download, status: 'queued' } : download
+      )
+    );
+    setRestored(true);
+  }, [setDownloads]);
+
+  useEffect(() => {
+    if (restored) saveDownloads(downloads);
+  }, [downloads, restored]);
+
+  // Moving between layouts remounts the manager; the new one resumes from the saved parts
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncOfflinePlaystates();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    setIsOnline(navigator.onLine);
+    syncOfflinePlaystates();
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const runDownload = useCallback(
+    async (download: OfflineDownload) => {
+      const { id } = download;
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setActiveId(id);
+      updateDownload({ id, status: 'downloading', error: undefined });
+
+      try {
+        const url = download.quality === 'original'
+          ? await getDownloadUrl(id)
+          : await getTranscodedDownloadUrl(id, download.mediaSourceId, download.quality);
+
+        if (download.posterUrl && !(await getDownloadedPoster(id))) {
+          await savePoster(id, download.posterUrl);
+        }
+
+        let lastUpdate = 0;
+        const totalBytes = await downloadToStorage(
+          id,
+          url,
+          controller.signal,
+          (bytesDownloaded, totalBytes) => {
+            if (Date.now() - lastUpdate < 1000) return;
+            lastUpdate = Date.now();
+            updateDownload({ id, bytesDownloaded, totalBytes });
+          }
+        );
+
+        updateDownload({ id, status: 'completed', bytesDownloaded: totalBytes, totalBytes });
+        toast.success(`Downloaded "${download.name}"`);
+      } catch (error) {
+        if (!downloadsRef.current.some((entry) => entry.id === id)) {
+          // Removed while downloading
+          await deleteDownloadedFiles(id);
+        } else if (error instanceof Error && error.name === 'AbortError') {
+          // Paused; the saved parts are kept for resuming
+        } else if (!navigator.onLine) {
+          updateDownload({ id, status: 'queued' });
+        } else {
+          console.error('Download failed:', error);
+          updateDownload({
+            id,
+            status: 'failed',
+            error: error instanceof Error ? error.message : String(error),
+          });
+          toast.error(`Failed to download "${download.name}"`);
+        }
+      } finally {
+        controllerRef.current = null;
+        setActiveId(null);
+      }
+    },
+    [updateDownload]
+  );
+
+  useEffect(() => {
+    if (activeId) {
+      const active = downloads.find((download) => download.id === activeId);
+      if (!active || active.status !== 'downloading') {
+        controllerRef.current?.abort();
+      }
+      return;
+    }
+
+    if (!isOnline) return;
+    const next = downloads.find((download) => download.status === 'queued');
+    if (next) runDownload(next);
+  }, [downloads, activeId, isOnline, runDownload]);
+};
+
+export const useOfflineDownloads = () => {
+  const [downloads, setDownloads] = useAtom(offlineDownloadsAtom);
+  const updateDownload = useSetAtom(updateOfflineDownloadAtom);
+
+  // Adds the item to the download queue; returns false when it's already there
+  const queueDownload = useCallback(
+    async (
+      item: BaseItemDto,
+      quality: DownloadQuality,
+      serverUrl: string
+    ): Promise<boolean> => {
+      if (!isOfflineStorageSupported()) {
+        throw new Error('This browser cannot store downloads');
+      }
+
+      const existing = downloads.find((download) => download.id === item.Id);
+      if (existing && existing.status !== 'failed') return false;
+
+      await requestPersistentStorage();
+      // A failed download is retried from scratch at the newly chosen quality
+      if (existing) await deleteDownloadedFiles(item.Id!);
+
+      const download: OfflineDownload = {
+        id: item.Id!,
+        name: item.Name || 'Untitled',
+        type: item.Type || 'Video',
+        seriesName: item.SeriesName ?? undefined,
+        mediaSourceId: item.MediaSources?.[0]?.Id ?? item.Id!,
+        quality,
+        status: 'queued',
+        bytesDownloaded: 0,
+        totalBytes: null,
+        runTimeTicks: item.RunTimeTicks ?? undefined,
+        posterUrl: `${serverUrl}/Items/${item.Id}/Images/Primary?maxWidth=400&quality=90`,
+        positionTicks: item.UserData?.PlaybackPositionTicks ?? undefined,
+        played: item.UserData?.Played ?? undefined,
+        addedAt: Date.now(),
+      };
+      setDownloads((prev) => [...prev.filter((entry) => entry.id !== item.Id), download]);
+      return true;
+    },
+    [downloads, setDownloads]
+  );
+
+  const pauseDownload = useCallback(
+    (id: string) => updateDownload({ id, status: 'paused' }),
+    [updateDownload]
+  );
+
+  const resumeDownload = useCallback(
+    (id: string) => updateDownload({ id, status: 'queued', error: undefined }),
+    [updateDownload]
+  );
+
+  const removeDownload = useCallback(
+    async (id: string) => {
+      setDownloads((prev) => prev.filter((download) => download.id !== id));
+      await deleteDownloadedFiles(id);
+    },
+    [setDownloads]
+  );
+
+  // Remember where offline playback got to, to be sent when the server is reachable
+  const recordPlaystate = useCallback(
+    (download: OfflineDownload, positionTicks: number, played: boolean) => {
+      updateDownload({ id: download.id, positionTicks, played });
+      queuePlaystate({
+        itemId: download.id,
+        mediaSourceId: download.mediaSourceId,
+        positionTicks,
+        played,
+        updatedAt: Date.now(),
+      });
+    },
+    [updateDownload]
+  );
+
+  return {
+    downloads,
+    queueDownload,
+    pauseDownload,
+    resumeDownload,
+    removeDownload,
+    recordPlaystate,
+  };
+};
@@ -0,0 +1,108 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Document Picture-in-Picture isn't in the DOM typings yet
+interface DocumentPictureInPicture {
+  requestWindow(options?: { width?: number; height?: number }): Promise<Window>;
+}
+
+const getDocumentPictureInPicture = () =>
+  typeof window === 'undefined'
+    ? undefined
+    : (window as unknown as { documentPictureInPicture?: DocumentPictureInPicture })
+      .documentPictureInPicture;
+
+// Copy the page's styles so Tailwind classes work inside the PiP window
+function copyStyleSheets(target: Window) {
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      const style = target.document.createElement('style');
+      style.textContent = Array.from(sheet.cssRules)
+        .map((rule) => rule.cssText)
+        .join('\n');
+      target.document.head.appendChild(style);
+    } catch {
+      // Cross-origin sheets can't be read; link them instead
+      if (sheet.href) {
+        const link = target.document.createElement('link');
+        link.rel = 'stylesheet';
+        link.href = sheet.href;
+        target.document.head.appendChild(link);
+      }
+    }
+  }
+}
+
+// Moves the playing video into a Document Picture-in-Picture window, where the caller can portal
+// its own controls into `pipWindow.document.body`. Browsers without it get the video element's
+// built-in Picture-in-Picture instead.
+export const usePictureInPicture = (
+  videoRef: React.RefObject<HTMLVideoElement | null>
+) => {
+  const [pipWindow, setPipWindow] = useState<Window | null>(null);
+  // Puts the video back where it was and closes the window
+  const restoreRef = useRef<(() => void) | null>(null);
+
+  const isSupported =
+    !!getDocumentPictureInPicture() ||
+    (typeof document !== 'undefined' && document.pictureInPictureEnabled);
+
+  const exitPictureInPicture = useCallback(() => {
+    restoreRef.current?.();
+    if (document.pictureInPictureElement) {
+      document.exitPictureInPicture().catch((error) => {
+        console.error('Failed to exit Picture-in-Picture:', error);
+      });
+    }
+  }, []);
+
+  const enterPictureInPicture = useCallback(async () => {
+    const video = videoRef.current;
+    if (!video || restoreRef.current) return;
+
+    const documentPictureInPicture = getDocumentPictureInPicture();
+    if (documentPictureInPicture) {
+      try {
+        const pip = await documentPictureInPicture.requestWindow({
+          width: video.clientWidth || 480,
+          height: video.clientHeight || 270,
+        });
+        copyStyleSheets(pip);
+        pip.document.body.style.cssText =
+          'margin: 0; height: 100vh; overflow: hidden; background: black;';
+
+        const placeholder = document.createComment('picture-in-picture');
+        video.before(placeholder);
+        pip.document.body.append(video);
+
+        restoreRef.current = () => {
+          restoreRef.current = null;
+          placeholder.replaceWith(video);
+          setPipWindow(null);
+          pip.close();
+        };
+        // Closing the window from its own chrome
+        pip.addEventListener('pagehide', () => restoreRef.current?.());
+
+        setPipWindow(pip);
+        return;
+      } catch (error) {
+        console.error('Failed to open Document Picture-in-Picture:', error);
+      }
+    }
+
+    if (document.pictureInPictureEnabled) {
+      try {
+        await video.requestPictureInPicture();
+      } catch (error) {
+        console.error('Failed to enter Picture-in-Picture:', error);
+      }
+    }
+  }, [videoRef]);
+
+  // Never leave the video stranded in a window that outlives the player
+  useEffect(() => () => restoreRef.current?.(), []);
+
+  return { pipWindow, isSupported, enterPictureInPicture, exitPictureInPicture };
+};
@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type Hls from 'hls.js';
+import {
+  generatePlayerInitTime,
+  initialize,
+  teardown,
+  type PlaybackCore,
+} from '@mux/playback-core';
+
+interface UsePlaybackEngineOptions {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  // null until the video element is rendered
+  src: string | null;
+  autoplay: boolean;
+  preload: HTMLMediaElement['preload'];
+}
+
+// Attaches Mux playback-core to a plain <video>, as MuxVideo does, but hands back the
+// hls.js instance so the player can pass it on. It's null for direct play and Safari,
+// where the browser plays the stream natively.
+export const usePlaybackEngine = ({
+  videoRef,
+  src,
+  autoplay,
+  preload,
+}: UsePlaybackEngineOptions): Hls | null => {
+  const [engine, setEngine] = useState<Hls | null>(null);
+  const coreRef = useRef<PlaybackCore | undefined>(undefined);
+  const playerInitTimeRef = useRef(generatePlayerInitTime());
+  const autoplayRef = useRef(autoplay);
+  autoplayRef.current = autoplay;
+  const preloadRef = useRef(preload);
+  preloadRef.current = preload;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!src || !video) return;
+
+    const core = initialize(
+      {
+        src,
+        autoplay: autoplayRef.current,
+        preload: preloadRef.current,
+        playerInitTime: playerInitTimeRef.current,
+        playerSoftwareName: 'finetic',
+      },
+      video,
+      coreRef.current
+    );
+    coreRef.current = core;
+    setEngine(core.engine ?? null);
+
+    return () => {
+      teardown(video, core);
+      coreRef.current = undefined;
+      setEngine(null);
+    };
+  }, [videoRef, src]);
+
+  useEffect(() => {
+    coreRef.current?.setAutoplay(autoplay);
+  }, [autoplay]);
+
+  useEffect(() => {
+    coreRef.current?.setPreload(preload);
+  }, [preload]);
+
+  return engine;
+};
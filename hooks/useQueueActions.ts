@@ -0,0 +1,73 @@
+'use client';
+
+import { useCallback } from 'react';
+import { BaseItemDto } from '@jellyfin/sdk/lib/generated-client/models';
+import { fetchPlayQueueItems } from '@/app/actions';
+import { usePlayQueue, MediaToPlay } from '@/contexts/MediaPlayerContext';
+
+export type QueueAction = 'play' | 'shuffle' | 'playFromHere' | 'playNext' | 'addToQueue';
+
+const toMediaToPlay = (item: BaseItemDto): MediaToPlay => ({
+  id: item.Id!,
+  name: item.Name!,
+  type: item.Type as MediaToPlay['type'],
+});
+
+// The container whose items follow this one for "play from here"
+const getPlayFromHereSource = (item: BaseItemDto) => {
+  if (item.Type === 'Episode' && item.SeriesId) {
+    return { id: item.SeriesId, type: 'Series' };
+  }
+  if (item.Type === 'Movie' && item.ParentId) {
+    return { id: item.ParentId, type: 'Folder' };
+  }
+  return { id: item.Id!, type: item.Type! };
+};
+
+export const useQueueActions = () => {
+  const { setPlayQueue, playNext, addToQueue } = usePlayQueue();
+
+  // Resolves the item into playable entries and applies the action; returns how many were queued
+  const queueItem = useCallback(
+    async (item: BaseItemDto, action: QueueAction): Promise<number> => {
+      const source = action === 'playFromHere'
+        ? getPlayFromHereSource(item)
+        : { id: item.Id!, type: item.Type! };
+
+      const items = await fetchPlayQueueItems(source.id, source.type, action === 'shuffle');
+      if (items.length === 0) return 0;
+
+      const media = items.map((entry) =>
+        entry.Id === item.Id
+          ? { ...toMediaToPlay(entry), resumePositionTicks: item.UserData?.PlaybackPositionTicks }
+          : toMediaToPlay(entry)
+      );
+
+      switch (action) {
+        case 'play':
+          setPlayQueue({ items: media });
+          break;
+        case 'shuffle':
+          setPlayQueue({ items: media, shuffle: true });
+          break;
+        case 'playFromHere':
+          setPlayQueue({
+            items: media,
+            startIndex: Math.max(items.findIndex((entry) => entry.Id === item.Id), 0),
+          });
+          break;
+        case 'playNext':
+          playNext(media);
+          break;
+        case 'addToQueue':
+          addToQueue(media);
+          break;
+      }
+
+      return media.length;
+    },
+    [setPlayQueue, playNext, addToQueue]
+  );
+
+  return { queueItem };
+};
@@ -0,0 +1,330 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useAtom, useAtomValue, useSetAtom } from 'jotai';
+import { toast } from 'sonner';
+import { SendCommandType } from '@jellyfin/sdk/lib/generated-client/models';
+import {
+  fetchItemsByIds,
+  reportSyncPlayBuffering,
+  reportSyncPlayPing,
+  reportSyncPlayReady,
+  requestSyncPlayPause,
+  requestSyncPlaySeek,
+  requestSyncPlayUnpause,
+  setSyncPlayQueue,
+} from '@/app/actions';
+import { usePlayQueue, MediaToPlay } from '@/contexts/MediaPlayerContext';
+import {
+  isSyncPlayBufferingAtom,
+  syncPlayCommandAtom,
+  syncPlayGroupAtom,
+  syncPlayQueueAtom,
+} from '@/lib/atoms';
+
+interface UseSyncPlayOptions {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  serverUrl: string | null;
+  currentMediaId: string | null;
+  // Where the current item started, sent along when it becomes the group's queue
+  startPositionTicks?: number;
+  onStop: () => void;
+}
+
+const TIME_SYNC_INTERVAL_MS = 60000;
+const TIME_SYNC_SAMPLES = 3;
+// Drift below this is left alone rather than causing a visible jump
+const SEEK_TOLERANCE_SECONDS = 0.5;
+
+const ticksToSeconds = (ticks: number) => ticks / 10000000;
+const secondsToTicks = (seconds: number) => Math.round(seconds * 10000000);
+
+// Estimates how far the server clock is ahead of ours, NTP-style, keeping the sample with the
+// shortest round trip. Returns both in milliseconds.
+async function measureServerTime(serverUrl: string) {
+  let best: { offset: number; ping: number } | null = null;
+
+  for (let i = 0; i < TIME_SYNC_SAMPLES; i++) {
+    const requestSent = Date.now();
+    const response = await fetch(`${serverUrl}/GetUtcTime`, { cache: 'no-store' });
+    const responseReceived = Date.now();
+    if (!response.ok) continue;
+
+    const { RequestReceptionTime, ResponseTransmissionTime } = await response.json();
+    const serverReceived = Date.parse(RequestReceptionTime);
+    const serverSent = Date.parse(ResponseTransmissionTime);
+    const ping = responseReceived - requestSent - (serverSent - serverReceived);
+    const offset = (serverReceived - requestSent + (serverSent - responseReceived)) / 2;
+
+    if (!best || ping < best.ping) best = { offset, ping };
+  }
+
+  return best;
+}
+
+// Keeps the player in step with a SyncPlay group. While in a group, local play/pause/seek become
+// requests to the server, and the server's commands are applied at the time it schedules them.
+// The returned handlers are meant to be called from the player's own video event handlers.
+export const useSyncPlay = ({
+  videoRef,
+  serverUrl,
+  currentMediaId,
+  startPositionTicks,
+  onStop,
+}: UseSyncPlayOptions) => {
+  const group = useAtomValue(syncPlayGroupAtom);
+  const [command, setCommand] = useAtom(syncPlayCommandAtom);
+  const syncPlayQueue = useAtomValue(syncPlayQueueAtom);
+  const setIsBuffering = useSetAtom(isSyncPlayBufferingAtom);
+  const { queue, queueIndex, setPlayQueue } = usePlayQueue();
+
+  const isInGroup = !!group;
+  const timeOffsetRef = useRef(0);
+  const playlistItemIdRef = useRef<string | null>(null);
+  // Item the group asked us to play, so loading it isn't sent back as a new queue
+  const groupItemIdRef = useRef<string | null>(null);
+  // What the last applied command left the video doing; anything else came from the user
+  const expectedPlayingRef = useRef<boolean | null>(null);
+  const expectedSeekRef = useRef<number | null>(null);
+  const isBufferingRef = useRef(false);
+  const pendingReadyRef = useRef(false);
+  const scheduledRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onStopRef = useRef(onStop);
+  onStopRef.current = onStop;
+
+  const reportState = useCallback((ready: boolean) => {
+    const video = videoRef.current;
+    if (!video || !playlistItemIdRef.current) return;
+
+    const request = {
+      // The server's clock, not ours
+      When: new Date(Date.now() + timeOffsetRef.current).toISOString(),
+      PositionTicks: secondsToTicks(video.currentTime),
+      IsPlaying: !video.paused,
+      PlaylistItemId: playlistItemIdRef.current,
+    };
+    setIsBuffering(!ready);
+    (ready ? reportSyncPlayReady(request) : reportSyncPlayBuffering(request)).catch((error) => {
+      console.error('Failed to report SyncPlay state:', error);
+    });
+  }, [videoRef, setIsBuffering]);
+
+  // Keep our idea of the server clock fresh while in a group
+  useEffect(() => {
+    if (!isInGroup || !serverUrl) return;
+
+    const sync = async () => {
+      try {
+        const result = await measureServerTime(serverUrl);
+        if (!result) return;
+        timeOffsetRef.current = result.offset;
+        await reportSyncPlayPing(result.ping);
+      } catch (error) {
+        console.error('Failed to sync time with the server:', error);
+      }
+    };
+
+    sync();
+    const interval = setInterval(sync, TIME_SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isInGroup, serverUrl]);
+
+  useEffect(() => {
+    // Whatever is playing when we join stays ours until someone starts something new
+    groupItemIdRef.current = isInGroup ? currentMediaId : null;
+    if (!isInGroup) {
+      playlistItemIdRef.current = null;
+      expectedPlayingRef.current = null;
+      expectedSeekRef.current = null;
+    }
+  }, [isInGroup]);
+
+  // Follow the group's queue, loading its current item when it isn't what we're playing
+  useEffect(() => {
+    if (!syncPlayQueue || !isInGroup) return;
+
+    const playlist = syncPlayQueue.Playlist ?? [];
+    const playing = playlist[syncPlayQueue.PlayingItemIndex ?? 0];
+    playlistItemIdRef.current = playing?.PlaylistItemId ?? null;
+    if (!playing?.ItemId || playing.ItemId === currentMediaId) return;
+
+    groupItemIdRef.current = playing.ItemId;
+    pendingReadyRef.current = true;
+    expectedPlayingRef.current = false;
+
+    fetchItemsByIds(playlist.map((entry) => entry.ItemId!))
+      .then((items) => {
+        const media: MediaToPlay[] = items.map((item) => ({
+          id: item.Id!,
+          name: item.Name!,
+          type: item.Type as MediaToPlay['type'],
+        }));
+        const startIndex = Math.max(
+          media.findIndex((entry) => entry.id === playing.ItemId),
+          0
+        );
+        if (media.length === 0) return;
+        media[startIndex] = {
+          ...media[startIndex],
+          resumePositionTicks: syncPlayQueue.StartPositionTicks || undefined,
+        };
+        setPlayQueue({ items: media, startIndex });
+      })
+      .catch((error) => {
+        console.error('Failed to load the SyncPlay queue:', error);
+        toast.error("Failed to load the group's queue");
+      });
+    // Only new queue updates should load anything
+  }, [syncPlayQueue]);
+
+  // Something we started ourselves becomes the group's queue
+  useEffect(() => {
+    if (!isInGroup || !currentMediaId) return;
+    if (currentMediaId === groupItemIdRef.current) return;
+
+    groupItemIdRef.current = currentMediaId;
+    pendingReadyRef.current = true;
+    setSyncPlayQueue(
+      queue.map((entry) => entry.id),
+      queueIndex,
+      startPositionTicks ?? 0
+    ).catch((error) => {
+      console.error('Failed to share the item with the group:', error);
+      toast.error('Failed to share this with the group');
+    });
+    // Only a change of item should replace the group's queue
+  }, [isInGroup, currentMediaId]);
+
+  // Carry out the server's commands at the moment it scheduled them for
+  useEffect(() => {
+    if (!command) return;
+    setCommand(null);
+
+    const video = videoRef.current;
+    if (!isInGroup || !video) return;
+
+    if (scheduledRef.current) {
+      clearTimeout(scheduledRef.current);
+      scheduledRef.current = null;
+    }
+
+    const when = command.When ? Date.parse(command.When) - timeOffsetRef.current : Date.now();
+    const delay = when - Date.now();
+    const position =
+      command.PositionTicks != null ? ticksToSeconds(command.PositionTicks) : video.currentTime;
+
+    const seekTo = (seconds: number) => {
+      if (Math.abs(video.currentTime - seconds) < SEEK_TOLERANCE_SECONDS) return;
+      expectedSeekRef.current = seconds;
+      video.currentTime = seconds;
+    };
+
+    const apply = () => {
+      scheduledRef.current = null;
+      switch (command.Command) {
+        case SendCommandType.Unpause:
+          // Late commands catch up by however long ago they should have started
+          seekTo(position + Math.max(0, -delay) / 1000);
+          expectedPlayingRef.current = true;
+          video.play().catch((error) => {
+            console.warn('Failed to resume playback:', error);
+          });
+          break;
+        case SendCommandType.Pause:
+          expectedPlayingRef.current = false;
+          video.pause();
+          seekTo(position);
+          break;
+        case SendCommandType.Seek:
+          expectedPlayingRef.current = false;
+          video.pause();
+          pendingReadyRef.current = true;
+          seekTo(position);
+          // Already there, so nothing will fire a "seeked" to report readiness from
+          if (expectedSeekRef.current === null) {
+            pendingReadyRef.current = false;
+            reportState(true);
+          }
+          break;
+        case SendCommandType.Stop:
+          onStopRef.current();
+          break;
+      }
+    };
+
+    if (delay > 0 && command.Command === SendCommandType.Unpause) {
+      scheduledRef.current = setTimeout(apply, delay);
+    } else {
+      apply();
+    }
+  }, [command, setCommand, isInGroup, videoRef, reportState]);
+
+  useEffect(() => () => {
+    if (scheduledRef.current) clearTimeout(scheduledRef.current);
+  }, []);
+
+  const onPlay = useCallback(() => {
+    const video = videoRef.current;
+    if (!isInGroup || !video) return;
+    if (expectedPlayingRef.current === true) return;
+
+    // Hold until the group unpauses together
+    expectedPlayingRef.current = false;
+    video.pause();
+    requestSyncPlayUnpause().catch((error) => {
+      console.error('Failed to request unpause:', error);
+    });
+  }, [isInGroup, videoRef]);
+
+  const onPause = useCallback(() => {
+    if (!isInGroup || !videoRef.current) return;
+    if (expectedPlayingRef.current === false) return;
+
+    expectedPlayingRef.current = false;
+    requestSyncPlayPause().catch((error) => {
+      console.error('Failed to request pause:', error);
+    });
+  }, [isInGroup, videoRef]);
+
+  const onSeeked = useCallback(() => {
+    const video = videoRef.current;
+    if (!isInGroup || !video) return;
+
+    const expected = expectedSeekRef.current;
+    expectedSeekRef.current = null;
+    if (expected !== null && Math.abs(video.currentTime - expected) < SEEK_TOLERANCE_SECONDS) {
+      if (pendingReadyRef.current && video.readyState >= HTMLMediaElement.HAVE_FUTURE_DATA) {
+        pendingReadyRef.current = false;
+        reportState(true);
+      }
+      return;
+    }
+
+    requestSyncPlaySeek(secondsToTicks(video.currentTime)).catch((error) => {
+      console.error('Failed to request seek:', error);
+    });
+  }, [isInGroup, videoRef, reportState]);
+
+  const onWaiting = useCallback(() => {
+    if (!isInGroup || isBufferingRef.current) return;
+    isBufferingRef.current = true;
+    reportState(false);
+  }, [isInGroup, reportState]);
+
+  const onCanPlay = useCallback(() => {
+    if (!isInGroup) return;
+    if (!isBufferingRef.current && !pendingReadyRef.current) return;
+    isBufferingRef.current = false;
+    pendingReadyRef.current = false;
+    reportState(true);
+  }, [isInGroup, reportState]);
+
+  return {
+    isInGroup,
+    onPlay,
+    onPause,
+    onSeeked,
+    onWaiting,
+    onCanPlay,
+  };
+};
@@ -1,5 +1,13 @@
 import { atom } from "jotai";
 import { MediaSourceInfo } from "@/types/jellyfin";
+import type {
+  BaseItemDto,
+  GeneralCommandType,
+  GroupStateType,
+  PlaystateCommand,
+  PlayQueueUpdate,
+  SendCommand,
+} from "@jellyfin/sdk/lib/generated-client/models";
 
 // AI Ask state
 export const isAIAskOpenAtom = atom(false);
@@ -22,7 +30,7 @@ export const isElectronFullscreenAtom = atom((get) => {
 export interface MediaToPlay {
   id: string;
   name: string;
-  type: "Movie" | "Series" | "Episode";
+  type: "Movie" | "Series" | "Episode" | "TvChannel";
   resumePositionTicks?: number;
   selectedVersion?: MediaSourceInfo;
 }
@@ -30,11 +38,13 @@ export interface MediaToPlay {
 export interface CurrentMediaWithSource {
   id: string;
   name: string;
-  type: "Movie" | "Series" | "Episode";
+  type: "Movie" | "Series" | "Episode" | "TvChannel";
   mediaSourceId?: string | null;
 }
 
 export const isPlayerVisibleAtom = atom(false);
+// Docked mini-player that keeps playing while browsing
+export const isPlayerMinimizedAtom = atom(false);
 export const currentMediaAtom = atom<MediaToPlay | null>(null);
 export const currentMediaWithSourceAtom = atom<CurrentMediaWithSource | null>(
   null
@@ -42,12 +52,237 @@ export const currentMediaWithSourceAtom = atom<CurrentMediaWithSource | null>(
 export const skipTimestampAtom = atom<number | null>(null);
 export const currentTimestampAtom = atom(0);
 
-// Derived atom for playing media
+// Play queue state
+export type RepeatMode = "off" | "all" | "one";
+
+export interface PlayQueueItem extends MediaToPlay {
+  // Distinguishes repeated entries of the same item
+  queueId: string;
+}
+
+export const playQueueAtom = atom<PlayQueueItem[]>([]);
+export const playQueueIndexAtom = atom(0);
+export const repeatModeAtom = atom<RepeatMode>("off");
+
+// Queue order before shuffling, restored when shuffle is turned off
+const unshuffledQueueAtom = atom<PlayQueueItem[] | null>(null);
+export const isShuffleEnabledAtom = atom(
+  (get) => get(unshuffledQueueAtom) !== null
+);
+
+const toQueueItem = (media: MediaToPlay): PlayQueueItem => ({
+  ...media,
+  queueId: crypto.randomUUID(),
+});
+
+const shuffleItems = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Replace the queue and start playing it
+export const setPlayQueueAtom = atom(
+  null,
+  (
+    get,
+    set,
+    {
+      items,
+      startIndex = 0,
+      shuffle = false,
+    }: { items: MediaToPlay[]; startIndex?: number; shuffle?: boolean }
+  ) => {
+    if (items.length === 0) return;
+
+    const queue = items.map(toQueueItem);
+    const start = Math.min(Math.max(startIndex, 0), queue.length - 1);
+
+    if (shuffle) {
+      set(unshuffledQueueAtom, queue);
+      set(playQueueAtom, shuffleItems(queue));
+      set(playQueueIndexAtom, 0);
+    } else {
+      set(unshuffledQueueAtom, null);
+      set(playQueueAtom, queue);
+      set(playQueueIndexAtom, start);
+    }
+
+    set(currentMediaAtom, get(playQueueAtom)[get(playQueueIndexAtom)]);
+    set(isPlayerVisibleAtom, true);
+    set(isPlayerMinimizedAtom, false);
+  }
+);
+
+// Derived atom for playing a single item; it becomes a queue of one
 export const playMediaAtom = atom(null, (get, set, media: MediaToPlay) => {
-  set(currentMediaAtom, media);
+  set(setPlayQueueAtom, { items: [media] });
+});
+
+// Jump to an entry that is already in the queue
+export const playQueueIndexItemAtom = atom(null, (get, set, index: number) => {
+  const item = get(playQueueAtom)[index];
+  if (!item) return;
+
+  set(playQueueIndexAtom, index);
+  set(currentMediaAtom, { ...item, resumePositionTicks: undefined });
   set(isPlayerVisibleAtom, true);
 });
 
+// Move through the queue, returning false when there is nothing to move to.
+// `ended` marks automatic advancement so repeat-one can replay the item.
+export const advancePlayQueueAtom = atom(
+  null,
+  (
+    get,
+    set,
+    { direction, ended = false }: { direction: 1 | -1; ended?: boolean }
+  ): boolean => {
+    const queue = get(playQueueAtom);
+    const index = get(playQueueIndexAtom);
+    const repeatMode = get(repeatModeAtom);
+
+    if (queue.length === 0) return false;
+
+    if (ended && repeatMode === "one") {
+      set(playQueueIndexItemAtom, index);
+      return true;
+    }
+
+    let nextIndex = index + direction;
+    if (nextIndex < 0 || nextIndex >= queue.length) {
+      if (repeatMode !== "all") return false;
+      nextIndex = (nextIndex + queue.length) % queue.length;
+    }
+
+    set(playQueueIndexItemAtom, nextIndex);
+    return true;
+  }
+);
+
+// Insert items right after the current one
+export const playNextAtom = atom(
+  null,
+  (get, set, media: MediaToPlay | MediaToPlay[]) => {
+    const items = (Array.isArray(media) ? media : [media]).map(toQueueItem);
+    const queue = get(playQueueAtom);
+
+    if (queue.length === 0) {
+      set(setPlayQueueAtom, { items });
+      return;
+    }
+
+    const index = get(playQueueIndexAtom);
+    set(playQueueAtom, [
+      ...queue.slice(0, index + 1),
+      ...items,
+      ...queue.slice(index + 1),
+    ]);
+
+    const unshuffled = get(unshuffledQueueAtom);
+    if (unshuffled) {
+      const currentIndex = unshuffled.findIndex(
+        (item) => item.queueId === queue[index].queueId
+      );
+      set(unshuffledQueueAtom, [
+        ...unshuffled.slice(0, currentIndex + 1),
+        ...items,
+        ...unshuffled.slice(currentIndex + 1),
+      ]);
+    }
+  }
+);
+
+// Append items to the end of the queue
+export const addToQueueAtom = atom(
+  null,
+  (get, set, media: MediaToPlay | MediaToPlay[]) => {
+    const items = (Array.isArray(media) ? media : [media]).map(toQueueItem);
+    const queue = get(playQueueAtom);
+
+    if (queue.length === 0) {
+      set(setPlayQueueAtom, { items });
+      return;
+    }
+
+    set(playQueueAtom, [...queue, ...items]);
+
+    const unshuffled = get(unshuffledQueueAtom);
+    if (unshuffled) {
+      set(unshuffledQueueAtom, [...unshuffled, ...items]);
+    }
+  }
+);
+
+// Remove an upcoming or past entry; the playing entry stays
+export const removeFromQueueAtom = atom(null, (get, set, queueId: string) => {
+  const queue = get(playQueueAtom);
+  const index = get(playQueueIndexAtom);
+  const removeIndex = queue.findIndex((item) => item.queueId === queueId);
+
+  if (removeIndex === -1 || removeIndex === index) return;
+
+  set(
+    playQueueAtom,
+    queue.filter((item) => item.queueId !== queueId)
+  );
+  if (removeIndex < index) {
+    set(playQueueIndexAtom, index - 1);
+  }
+
+  const unshuffled = get(unshuffledQueueAtom);
+  if (unshuffled) {
+    set(
+      unshuffledQueueAtom,
+      unshuffled.filter((item) => item.queueId !== queueId)
+    );
+  }
+});
+
+// Shuffle everything except the playing entry, or restore the original order
+export const toggleShuffleAtom = atom(null, (get, set) => {
+  const queue = get(playQueueAtom);
+  const current = queue[get(playQueueIndexAtom)];
+  const unshuffled = get(unshuffledQueueAtom);
+
+  if (unshuffled) {
+    set(playQueueAtom, unshuffled);
+    set(
+      playQueueIndexAtom,
+      Math.max(
+        unshuffled.findIndex((item) => item.queueId === current?.queueId),
+        0
+      )
+    );
+    set(unshuffledQueueAtom, null);
+    return;
+  }
+
+  if (!current) return;
+
+  set(unshuffledQueueAtom, queue);
+  set(playQueueAtom, [
+    current,
+    ...shuffleItems(queue.filter((item) => item.queueId !== current.queueId)),
+  ]);
+  set(playQueueIndexAtom, 0);
+});
+
+export const cycleRepeatModeAtom = atom(null, (get, set) => {
+  const order: RepeatMode[] = ["off", "all", "one"];
+  const current = order.indexOf(get(repeatModeAtom));
+  set(repeatModeAtom, order[(current + 1) % order.length]);
+});
+
+export const clearPlayQueueAtom = atom(null, (get, set) => {
+  set(playQueueAtom, []);
+  set(playQueueIndexAtom, 0);
+  set(unshuffledQueueAtom, null);
+});
+
 // Derived atom for skipping to timestamp
 export const skipToTimestampAtom = atom(null, (get, set, timestamp: number) => {
   set(skipTimestampAtom, timestamp);
@@ -55,6 +290,243 @@ export const skipToTimestampAtom = atom(null, (get, set, timestamp: number) => {
   setTimeout(() => set(skipTimestampAtom, null), 100);
 });
 
+// Remote control ("Play on") state: the other client being controlled
+export const remoteControlSessionIdAtom = atom<string | null>(null);
+
+// Commands other clients send over the Jellyfin WebSocket, carried out by the player
+export type RemotePlayerCommand =
+  | { type: "playstate"; command: PlaystateCommand; seekPositionTicks?: number }
+  | { type: "general"; name: GeneralCommandType; args: Record<string, string> };
+
+// Each command gets a fresh id so repeating the same one still reaches the player
+export const remotePlayerCommandAtom = atom<
+  (RemotePlayerCommand & { id: number }) | null
+>(null);
+
+// SyncPlay (watch party) state, fed by the Jellyfin WebSocket
+export interface SyncPlayGroup {
+  groupId: string;
+  groupName: string;
+  participants: string[];
+  state: GroupStateType;
+  // Why the state last changed, e.g. "Buffer" while a member is loading
+  stateReason?: string;
+}
+
+export const syncPlayGroupAtom = atom<SyncPlayGroup | null>(null);
+export const syncPlayQueueAtom = atom<(PlayQueueUpdate & { id: number }) | null>(null);
+export const syncPlayCommandAtom = atom<(SendCommand & { id: number }) | null>(null);
+// Whether this client last told the group it was buffering
+export const isSyncPlayBufferingAtom = atom(false);
+export const isSyncPlayPanelOpenAtom = atom(false);
+
+// Music player state, separate from the video player and its queue
+export interface AudioTrack {
+  id: string;
+  name: string;
+  album?: string;
+  albumId?: string;
+  artists?: string[];
+  artistId?: string;
+  runTimeTicks?: number;
+}
+
+export interface AudioQueueItem extends AudioTrack {
+  queueId: string;
+}
+
+export const audioQueueAtom = atom<AudioQueueItem[]>([]);
+export const audioQueueIndexAtom = atom(0);
+export const audioRepeatModeAtom = atom<RepeatMode>("off");
+
+export const currentAudioTrackAtom = atom<AudioQueueItem | null>(
+  (get) => get(audioQueueAtom)[get(audioQueueIndexAtom)] ?? null
+);
+
+// Replace the music queue and start playing it
+export const playAudioQueueAtom = atom(
+  null,
+  (
+    get,
+    set,
+    {
+      tracks,
+      startIndex = 0,
+      shuffle = false,
+    }: { tracks: AudioTrack[]; startIndex?: number; shuffle?: boolean }
+  ) => {
+    if (tracks.length === 0) return;
+
+    const queue = tracks.map((track) => ({
+      ...track,
+      queueId: crypto.randomUUID(),
+    }));
+    set(audioQueueAtom, shuffle ? shuffleItems(queue) : queue);
+    set(
+      audioQueueIndexAtom,
+      shuffle ? 0 : Math.min(Math.max(startIndex, 0), queue.length - 1)
+    );
+  }
+);
+
+// Append tracks to the end of the music queue
+export const addToAudioQueueAtom = atom(
+  null,
+  (get, set, tracks: AudioTrack[]) => {
+    if (get(audioQueueAtom).length === 0) {
+      set(playAudioQueueAtom, { tracks });
+      return;
+    }
+
+    set(audioQueueAtom, [
+      ...get(audioQueueAtom),
+      ...tracks.map((track) => ({ ...track, queueId: crypto.randomUUID() })),
+    ]);
+  }
+);
+
+// The entry after the current one, honouring repeat-all; null at the end of the queue
+export const nextAudioQueueIndexAtom = atom((get) => {
+  const queue = get(audioQueueAtom);
+  const index = get(audioQueueIndexAtom);
+
+  if (index + 1 < queue.length) return index + 1;
+  return get(audioRepeatModeAtom) === "all" && queue.length > 1 ? 0 : null;
+});
+
+// Move through the music queue, returning false when there is nothing to move to
+export const advanceAudioQueueAtom = atom(
+  null,
+  (get, set, direction: 1 | -1): boolean => {
+    const queue = get(audioQueueAtom);
+    const index = get(audioQueueIndexAtom);
+
+    if (direction === 1) {
+      const next = get(nextAudioQueueIndexAtom);
+      if (next === null) return false;
+      set(audioQueueIndexAtom, next);
+      return true;
+    }
+
+    if (index > 0) {
+      set(audioQueueIndexAtom, index - 1);
+      return true;
+    }
+    if (get(audioRepeatModeAtom) === "all" && queue.length > 1) {
+      set(audioQueueIndexAtom, queue.length - 1);
+      return true;
+    }
+    return false;
+  }
+);
+
+export const cycleAudioRepeatModeAtom = atom(null, (get, set) => {
+  const order: RepeatMode[] = ["off", "all", "one"];
+  const current = order.indexOf(get(audioRepeatModeAtom));
+  set(audioRepeatModeAtom, order[(current + 1) % order.length]);
+});
+
+export const clearAudioQueueAtom = atom(null, (get, set) => {
+  set(audioQueueAtom, []);
+  set(audioQueueIndexAtom, 0);
+});
+
+// Offline downloads, saved to the browser's private file system.
+// A number quality is the bitrate cap of a transcoded copy.
+export type DownloadQuality = "original" | number;
+export type DownloadStatus = "queued" | "downloading" | "paused" | "completed" | "failed";
+
+export interface OfflineDownload {
+  id: string;
+  name: string;
+  type: string;
+  seriesName?: string;
+  mediaSourceId: string;
+  quality: DownloadQuality;
+  status: DownloadStatus;
+  bytesDownloaded: number;
+  // Unknown while a transcode is still being produced
+  totalBytes: number | null;
+  runTimeTicks?: number;
+  posterUrl?: string;
+  // Last position watched offline
+  positionTicks?: number;
+  played?: boolean;
+  error?: string;
+  addedAt: number;
+}
+
+export const offlineDownloadsAtom = atom<OfflineDownload[]>([]);
+
+export const updateOfflineDownloadAtom = atom(
+  null,
+  (get, set, { id, ...changes }: Partial<OfflineDownload> & { id: string }) => {
+    set(
+      offlineDownloadsAtom,
+      get(offlineDownloadsAtom).map((download) =>
+        download.id === id ? { ...download, ...changes } : download
+      )
+    );
+  }
+);
+
+// Multi-select across library grids; the action bar works on whatever is selected
+export const isSelectionModeAtom = atom(false);
+export const selectedItemsAtom = atom<BaseItemDto[]>([]);
+// Last item clicked without shift, where a shift-click range starts
+export const selectionAnchorIdAtom = atom<string | null>(null);
+
+// Select or deselect one item, or with a range the items between the anchor and it
+export const toggleSelectionAtom = atom(
+  null,
+  (
+    get,
+    set,
+    { item, range }: { item: BaseItemDto; range?: BaseItemDto[] }
+  ) => {
+    const selected = get(selectedItemsAtom);
+    const anchorId = get(selectionAnchorIdAtom);
+    set(isSelectionModeAtom, true);
+
+    const anchorIndex = range?.findIndex((entry) => entry.Id === anchorId) ?? -1;
+    const itemIndex = range?.findIndex((entry) => entry.Id === item.Id) ?? -1;
+    if (range && anchorIndex >= 0 && itemIndex >= 0) {
+      const between = range.slice(
+        Math.min(anchorIndex, itemIndex),
+        Math.max(anchorIndex, itemIndex) + 1
+      );
+      set(selectedItemsAtom, [
+        ...selected,
+        ...between.filter((entry) => !selected.some((other) => other.Id === entry.Id)),
+      ]);
+      return;
+    }
+
+    set(
+      selectedItemsAtom,
+      selected.some((entry) => entry.Id === item.Id)
+        ? selected.filter((entry) => entry.Id !== item.Id)
+        : [...selected, item]
+    );
+    set(selectionAnchorIdAtom, item.Id ?? null);
+  }
+);
+
+export const selectAllAtom = atom(null, (get, set, items: BaseItemDto[]) => {
+  const selected = get(selectedItemsAtom);
+  set(isSelectionModeAtom, true);
+  set(selectedItemsAtom, [
+    ...selected,
+    ...items.filter((item) => !selected.some((entry) => entry.Id === item.Id)),
+  ]);
+});
+
+export const exitSelectionModeAtom = atom(null, (get, set) => {
+  set(isSelectionModeAtom, false);
+  set(selectedItemsAtom, []);
+  set(selectionAnchorIdAtom, null);
+});
+
 // Aurora background colors with transition support
 export const auroraColorsAtom = atom<string[]>([
   "#AA5CC3",
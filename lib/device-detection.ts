@@ -1,10 +1,7 @@
 /**
- * Device detection utilities for optimizing streaming parameters
- * based on device capabilities and limitations
+ * Device detection utilities based on the user agent and codec support
  */
 
-import { MediaSourceInfo } from "@/types/jellyfin";
-
 export interface DeviceInfo {
   isIOS: boolean;
   isIPad: boolean;
@@ -19,8 +16,6 @@ export interface DeviceInfo {
     vp9: boolean;
     av1: boolean;
   };
-  recommendedBitrate: number;
-  maxBitrate: number;
 }
 
 /**
@@ -43,8 +38,6 @@ export function detectDevice(): DeviceInfo {
         vp9: false,
         av1: false,
       },
-      recommendedBitrate: 3000000, // 3Mbps
-      maxBitrate: 6000000, // 6Mbps
     };
   }
 
@@ -66,32 +59,6 @@ export function detectDevice(): DeviceInfo {
     av1: video.canPlayType('video/mp4; codecs="av01.0.05M.08"') !== '',
   };
 
-  // Determine recommended bitrates based on device
-  let recommendedBitrate = 3000000; // Default 3Mbps
-  let maxBitrate = 6000000; // Default 6Mbps
-
-  if (isDesktop) {
-    recommendedBitrate = 8000000; // 8Mbps for desktop
-    maxBitrate = 20000000; // 20Mbps max for desktop
-  } else if (isTablet) {
-    recommendedBitrate = 5000000; // 5Mbps for tablets
-    maxBitrate = 10000000; // 10Mbps max for tablets
-  } else if (isMobile) {
-    recommendedBitrate = 2000000; // 2Mbps for mobile
-    maxBitrate = 4000000; // 4Mbps max for mobile
-  }
-
-  // iOS devices have specific limitations
-  if (isIOS) {
-    // iOS prefers H.264, limit bitrates for battery life
-    maxBitrate = Math.min(maxBitrate, 8000000); // Cap at 8Mbps for iOS
-
-    if (isIPhone) {
-      recommendedBitrate = 2000000; // 2Mbps for iPhone
-      maxBitrate = 4000000; // 4Mbps max for iPhone
-    }
-  }
-
   return {
     isIOS,
     isIPad,
@@ -101,92 +68,6 @@ export function detectDevice(): DeviceInfo {
     isTablet,
     isDesktop,
     supportedCodecs,
-    recommendedBitrate,
-    maxBitrate,
-  };
-}
-
-/**
- * Gets optimal streaming parameters based on device capabilities
- */
-export function getOptimalStreamingParams(deviceInfo?: DeviceInfo): {
-  videoCodec: string;
-  audioCodec: string;
-  container: string;
-  profile: string;
-  level: string;
-  videoBitrate: number;
-  maxVideoBitrate: number;
-  audioBitrate: number;
-  audioSampleRate: number;
-  audioChannels: number;
-  segmentContainer: string;
-  minSegments: number;
-  forceTranscode: boolean;
-  transcodingMaxAudioChannels: number;
-  requireAvc: boolean;
-  enableAudioVbrEncoding: boolean;
-  hevcLevel: number;
-  hevcVideoBitDepth: number;
-  hevcProfile: string;
-  hevcAudioChannels: number;
-  aacProfile: string;
-  av1Profile: string;
-  av1RangeType: string;
-  av1Level: number;
-  vp9RangeType: string;
-  hevcRangeType: string;
-  hevcDeinterlace: boolean;
-  h264Profile: string;
-  h264RangeType: string;
-  h264Level: number;
-  h264Deinterlace: boolean;
-} {
-  const device = deviceInfo || detectDevice();
-
-  let videoCodec = "av1,hevc,h264,vp9"; // Default to H.264 for maximum compatibility
-  let profile = 'high';
-  let level = '4.1';
-
-  // iOS-specific optimizations
-  if (device.isIOS) {
-    videoCodec = 'h264'; // Stick with H.264 for iOS
-    profile = 'high'; // High profile works well on modern iOS devices
-    level = '4.1'; // Level 4.1 is widely supported
-  }
-
-  return {
-    videoCodec,
-    audioCodec: "aac,opus,flac", // AAC is universally supported
-    container: "ts", // MPEG-TS for HLS
-    profile,
-    level,
-    videoBitrate: device.recommendedBitrate,
-    maxVideoBitrate: device.maxBitrate,
-    audioBitrate: device.isMobile ? 128000 : 384000, // Lower audio bitrate on mobile
-    audioSampleRate: 48000, // 48kHz is standard
-    audioChannels: 2, // Stereo
-    segmentContainer: "mp4", // Use MP4 segments for broader compatibility
-    minSegments: device.isMobile ? 2 : 1, // Fewer segments for mobile for faster startup
-    forceTranscode: false, // Let the server decide based on capabilities
-    transcodingMaxAudioChannels: 2,
-    requireAvc: false,
-    enableAudioVbrEncoding: true,
-    hevcLevel: 150,
-    hevcVideoBitDepth: 10,
-    hevcProfile: "main10",
-    hevcAudioChannels: 2,
-    aacProfile: "lc",
-    av1Profile: "main",
-    av1RangeType: "SDR,HDR10,HLG",
-    av1Level: 19,
-    vp9RangeType: "SDR,HDR10,HLG",
-    hevcRangeType: "SDR,HDR10,HLG",
-    hevcDeinterlace: true,
-    h264Profile: "high,main,baseline,constrainedbaseline,high10",
-    h264RangeType: "SDR",
-    h264Level: 52,
-    h264Deinterlace: true,
   };
 }
 
@@ -203,65 +84,6 @@ export function isHLSSupported(): boolean {
   );
 }
 
-/**
- * Checks if a media source can be direct played.
- * @param mediaSource The media source info from Jellyfin.
- * @returns True if the media can be direct played, false otherwise.
- */
-export function canDirectPlay(mediaSource: MediaSourceInfo): boolean {
-  if (typeof window === "undefined") {
-    // Assume no direct play on server
-    return false;
-  }
-
-  const video = document.createElement("video");
-
-  if (!mediaSource.MediaStreams) {
-    return false;
-  }
-
-  const videoStream = mediaSource.MediaStreams.find(
-    (stream) => stream.Type === "Video"
-  );
-  const audioStream = mediaSource.MediaStreams.find(
-    (stream) => stream.Type === "Audio"
-  );
-
-  if (!videoStream || !audioStream) {
-    // Cannot direct play without video or audio
-    return false;
-  }
-
-  const container = mediaSource.Container?.toLowerCase();
-  let mimeType = "";
-
-  switch (container) {
-    case "mkv":
-    case "webm":
-      mimeType = "video/webm";
-      break;
-    case "mp4":
-      mimeType = "video/mp4";
-      break;
-    default:
-      // Assume other containers are not supported for direct play for now
-      return false;
-  }
-
-  // Basic container check
-  if (video.canPlayType(mimeType) === "") {
-    return false;
-  }
-
-  // Check with codecs
-  const codecs = [videoStream.Codec, audioStream.Codec]
-    .filter(Boolean)
-    .join(",");
-  const fullMimeType = `${mimeType}; codecs="${codecs}"`;
-
-  return video.canPlayType(fullMimeType) !== "";
-}
-
 /**
  * Gets user-friendly device name for debugging
  */
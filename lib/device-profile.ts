@@ -0,0 +1,455 @@
+/**
+ * Builds a Jellyfin DeviceProfile from what this browser can actually decode,
+ * so the server can make the DirectPlay / DirectStream / Transcode decision
+ */
+
+import {
+  CodecProfile,
+  CodecType,
+  DeviceProfile,
+  DirectPlayProfile,
+  DlnaProfileType,
+  EncodingContext,
+  MediaStreamProtocol,
+  ProfileConditionType,
+  ProfileConditionValue,
+  SubtitleDeliveryMethod,
+  SubtitleProfile,
+  TranscodingProfile,
+} from "@jellyfin/sdk/lib/generated-client/models";
+
+// Vendor globals that some browsers expose on window
+type BrowserWindow = Window & {
+  webkitAudioContext?: typeof AudioContext;
+  chrome?: unknown;
+};
+
+export interface PlaybackCapabilities {
+  containers: {
+    mp4: boolean;
+    webm: boolean;
+    mkv: boolean;
+    mov: boolean;
+    ts: boolean;
+  };
+  videoCodecs: {
+    h264: boolean;
+    hevc: boolean;
+    hevc10Bit: boolean;
+    vp8: boolean;
+    vp9: boolean;
+    vp910Bit: boolean;
+    av1: boolean;
+    av110Bit: boolean;
+    dolbyVision: boolean;
+  };
+  audioCodecs: {
+    aac: boolean;
+    mp3: boolean;
+    opus: boolean;
+    flac: boolean;
+    vorbis: boolean;
+    alac: boolean;
+    ac3: boolean;
+    eac3: boolean;
+    dts: boolean;
+  };
+  hdrDisplay: boolean;
+  maxAudioChannels: number;
+}
+
+// Text formats are fetched and drawn by our own subtitle overlay
+const EXTERNAL_SUBTITLE_FORMATS = ["vtt", "webvtt", "srt", "subrip", "ass", "ssa", "ttml", "sub", "smi"];
+// Bitmap formats can only be shown burned into the video
+const BURN_IN_SUBTITLE_FORMATS = ["pgs", "pgssub", "dvdsub", "dvbsub", "vobsub"];
+
+let cachedCapabilities: PlaybackCapabilities | null = null;
+
+/**
+ * Checks a MIME type against the native element and, for hls.js, Media Source Extensions
+ */
+function canPlay(video: HTMLVideoElement, mimeType: string, includeMse = true): boolean {
+  if (video.canPlayType(mimeType) !== "") return true;
+  if (!includeMse) return false;
+  return typeof MediaSource !== "undefined" && MediaSource.isTypeSupported(mimeType);
+}
+
+/**
+ * Reads the channel count of the default audio output, falling back to stereo
+ */
+function getMaxAudioChannels(): number {
+  try {
+    const AudioContextClass =
+      window.AudioContext || (window as BrowserWindow).webkitAudioContext;
+    if (AudioContextClass) {
+      const context: AudioContext = new AudioContextClass();
+      const channels = context.destination.maxChannelCount;
+      context.close();
+      if (channels > 0) return Math.min(channels, 8);
+    }
+  } catch (error) {
+    console.warn("Failed to read audio output channels:", error);
+  }
+  return 2;
+}
+
+/**
+ * Probes container, codec, HDR and audio output support of the current browser
+ */
+export function probePlaybackCapabilities(): PlaybackCapabilities {
+  if (cachedCapabilities) return cachedCapabilities;
+
+  if (typeof window === "undefined") {
+    // Server-side fallback - the lowest common denominator
+    return {
+      containers: { mp4: true, webm: false, mkv: false, mov: false, ts: false },
+      videoCodecs: {
+        h264: true,
+        hevc: false,
+        hevc10Bit: false,
+        vp8: false,
+        vp9: false,
+        vp910Bit: false,
+        av1: false,
+        av110Bit: false,
+        dolbyVision: false,
+      },
+      audioCodecs: {
+        aac: true,
+        mp3: true,
+        opus: false,
+        flac: false,
+        vorbis: false,
+        alac: false,
+        ac3: false,
+        eac3: false,
+        dts: false,
+      },
+      hdrDisplay: false,
+      maxAudioChannels: 2,
+    };
+  }
+
+  const video = document.createElement("video");
+
+  cachedCapabilities = {
+    containers: {
+      mp4: canPlay(video, "video/mp4", false),
+      webm: canPlay(video, "video/webm", false),
+      // Chromium plays Matroska through its WebM demuxer without advertising it
+      mkv:
+        canPlay(video, "video/x-matroska", false) ||
+        (!!(window as BrowserWindow).chrome && canPlay(video, 'video/webm; codecs="vp9"', false)),
+      mov: canPlay(video, "video/quicktime", false),
+      ts: canPlay(video, "video/mp2t", false),
+    },
+    videoCodecs: {
+      h264: canPlay(video, 'video/mp4; codecs="avc1.640029"'),
+      hevc:
+        canPlay(video, 'video/mp4; codecs="hvc1.1.6.L120.90"') ||
+        canPlay(video, 'video/mp4; codecs="hev1.1.6.L120.90"'),
+      hevc10Bit:
+        canPlay(video, 'video/mp4; codecs="hvc1.2.4.L153.90"') ||
+        canPlay(video, 'video/mp4; codecs="hev1.2.4.L153.90"'),
+      vp8: canPlay(video, 'video/webm; codecs="vp8"'),
+      vp9: canPlay(video, 'video/webm; codecs="vp09.00.10.08"'),
+      vp910Bit: canPlay(video, 'video/webm; codecs="vp09.02.10.10"'),
+      av1: canPlay(video, 'video/mp4; codecs="av01.0.08M.08"'),
+      av110Bit: canPlay(video, 'video/mp4; codecs="av01.0.08M.10"'),
+      dolbyVision:
+        canPlay(video, 'video/mp4; codecs="dvh1.05.06"') ||
+        canPlay(video, 'video/mp4; codecs="dvhe.05.06"'),
+    },
+    audioCodecs: {
+      aac: canPlay(video, 'video/mp4; codecs="mp4a.40.2"'),
+      mp3: canPlay(video, 'video/mp4; codecs="mp4a.69"') || canPlay(video, "audio/mpeg"),
+      opus: canPlay(video, 'video/mp4; codecs="opus"') || canPlay(video, 'audio/webm; codecs="opus"'),
+      flac: canPlay(video, 'video/mp4; codecs="flac"') || canPlay(video, "audio/flac"),
+      vorbis: canPlay(video, 'video/webm; codecs="vorbis"'),
+      alac: canPlay(video, 'audio/mp4; codecs="alac"'),
+      ac3: canPlay(video, 'video/mp4; codecs="ac-3"') || canPlay(video, 'audio/mp4; codecs="ac-3"'),
+      eac3: canPlay(video, 'video/mp4; codecs="ec-3"') || canPlay(video, 'audio/mp4; codecs="ec-3"'),
+      dts: canPlay(video, 'video/mp4; codecs="dtsc"'),
+    },
+    hdrDisplay: window.matchMedia?.("(dynamic-range: high)").matches ?? false,
+    maxAudioChannels: getMaxAudioChannels(),
+  };
+
+  return cachedCapabilities;
+}
+
+/**
+ * Lists the VideoRangeType values a codec can display given its 10-bit support
+ */
+function getRangeTypes(capabilities: PlaybackCapabilities, supports10Bit: boolean): string[] {
+  // Dolby Vision with an SDR base layer always degrades gracefully
+  const rangeTypes = ["SDR", "DOVIWithSDR"];
+
+  if (supports10Bit && capabilities.hdrDisplay) {
+    // HDR10+ and DV profile 8.1 fall back to their HDR10 base layer
+    rangeTypes.push("HDR10", "HDR10Plus", "HLG", "DOVIWithHDR10", "DOVIWithHLG");
+    if (capabilities.videoCodecs.dolbyVision) {
+      rangeTypes.push("DOVI");
+    }
+  }
+
+  return rangeTypes;
+}
+
+function joinSupported(entries: Array<[string, boolean]>): string {
+  return entries
+    .filter(([, supported]) => supported)
+    .map(([codec]) => codec)
+    .join(",");
+}
+
+/**
+ * Builds the DeviceProfile sent with PlaybackInfo requests
+ * @param maxStreamingBitrate Bitrate cap in bps, 0 or undefined for uncapped.
+ */
+export function buildDeviceProfile(maxStreamingBitrate?: number): DeviceProfile {
+  const capabilities = probePlaybackCapabilities();
+  const { containers, videoCodecs, audioCodecs, maxAudioChannels } = capabilities;
+
+  const mp4VideoCodecs = joinSupported([
+    ["h264", videoCodecs.h264],
+    ["hevc", videoCodecs.hevc],
+    ["vp9", videoCodecs.vp9],
+    ["av1", videoCodecs.av1],
+  ]);
+  const mp4AudioCodecs = joinSupported([
+    ["aac", audioCodecs.aac],
+    ["mp3", audioCodecs.mp3],
+    ["opus", audioCodecs.opus],
+    ["flac", audioCodecs.flac],
+    ["alac", audioCodecs.alac],
+    ["ac3", audioCodecs.ac3],
+    ["eac3", audioCodecs.eac3],
+    ["dts", audioCodecs.dts],
+  ]);
+  const webmVideoCodecs = joinSupported([
+    ["vp8", videoCodecs.vp8],
+    ["vp9", videoCodecs.vp9],
+    ["av1", videoCodecs.av1],
+  ]);
+  const webmAudioCodecs = joinSupported([
+    ["vorbis", audioCodecs.vorbis],
+    ["opus", audioCodecs.opus],
+  ]);
+
+  const directPlayProfiles: DirectPlayProfile[] = [];
+  if (containers.mp4) {
+    directPlayProfiles.push({
+      Container: "mp4,m4v",
+      Type: DlnaProfileType.Video,
+      VideoCodec: mp4VideoCodecs,
+      AudioCodec: mp4AudioCodecs,
+    });
+  }
+  if (containers.webm) {
+    directPlayProfiles.push({
+      Container: "webm",
+      Type: DlnaProfileType.Video,
+      VideoCodec: webmVideoCodecs,
+      AudioCodec: webmAudioCodecs,
+    });
+  }
+  if (containers.mkv) {
+    directPlayProfiles.push({
+      Container: "mkv",
+      Type: DlnaProfileType.Video,
+      VideoCodec: joinSupported([
+        ["h264", videoCodecs.h264],
+        ["hevc", videoCodecs.hevc],
+        ["vp8", videoCodecs.vp8],
+        ["vp9", videoCodecs.vp9],
+        ["av1", videoCodecs.av1],
+      ]),
+      AudioCodec: joinSupported([
+        ["aac", audioCodecs.aac],
+        ["mp3", audioCodecs.mp3],
+        ["opus", audioCodecs.opus],
+        ["flac", audioCodecs.flac],
+        ["vorbis", audioCodecs.vorbis],
+        ["ac3", audioCodecs.ac3],
+        ["eac3", audioCodecs.eac3],
+      ]),
+    });
+  }
+  if (containers.mov) {
+    directPlayProfiles.push({
+      Container: "mov",
+      Type: DlnaProfileType.Video,
+      VideoCodec: joinSupported([
+        ["h264", videoCodecs.h264],
+        ["hevc", videoCodecs.hevc],
+      ]),
+      AudioCodec: mp4AudioCodecs,
+    });
+  }
+  if (containers.ts) {
+    directPlayProfiles.push({
+      Container: "ts,mpegts",
+      Type: DlnaProfileType.Video,
+      VideoCodec: joinSupported([
+        ["h264", videoCodecs.h264],
+        ["hevc", videoCodecs.hevc],
+      ]),
+      AudioCodec: joinSupported([
+        ["aac", audioCodecs.aac],
+        ["mp3", audioCodecs.mp3],
+        ["ac3", audioCodecs.ac3],
+        ["eac3", audioCodecs.eac3],
+      ]),
+    });
+  }
+  directPlayProfiles.push(
+    { Container: "mp3", Type: DlnaProfileType.Audio },
+    { Container: "aac", Type: DlnaProfileType.Audio },
+    { Container: "m4a,m4b", AudioCodec: "aac,alac", Type: DlnaProfileType.Audio },
+    { Container: "flac", Type: DlnaProfileType.Audio },
+    { Container: "opus", Type: DlnaProfileType.Audio },
+    { Container: "webm,webma", AudioCodec: "opus,vorbis", Type: DlnaProfileType.Audio },
+    { Container: "ogg", Type: DlnaProfileType.Audio },
+    { Container: "wav", Type: DlnaProfileType.Audio }
+  );
+
+  // hls.js plays fMP4 segments through MSE, with MPEG-TS/H.264 as the safe fallback
+  const hlsVideoCodecs = joinSupported([
+    ["hevc", videoCodecs.hevc],
+    ["av1", videoCodecs.av1],
+    ["h264", videoCodecs.h264],
+    ["vp9", videoCodecs.vp9],
+  ]) || "h264";
+  const hlsAudioCodecs = joinSupported([
+    ["aac", audioCodecs.aac],
+    ["opus", audioCodecs.opus],
+    ["flac", audioCodecs.flac],
+    ["ac3", audioCodecs.ac3],
+    ["eac3", audioCodecs.eac3],
+  ]) || "aac";
+
+  const transcodingProfiles: TranscodingProfile[] = [
+    {
+      Container: "mp4",
+      Type: DlnaProfileType.Video,
+      VideoCodec: hlsVideoCodecs,
+      AudioCodec: hlsAudioCodecs,
+      Context: EncodingContext.Streaming,
+      Protocol: MediaStreamProtocol.Hls,
+      MaxAudioChannels: maxAudioChannels.toString(),
+      MinSegments: 1,
+      BreakOnNonKeyFrames: true,
+    },
+    {
+      Container: "ts",
+      Type: DlnaProfileType.Video,
+      VideoCodec: "h264",
+      AudioCodec: "aac,mp3",
+      Context: EncodingContext.Streaming,
+      Protocol: MediaStreamProtocol.Hls,
+      MaxAudioChannels: maxAudioChannels.toString(),
+      MinSegments: 1,
+      BreakOnNonKeyFrames: true,
+    },
+    {
+      Container: "mp4",
+      Type: DlnaProfileType.Audio,
+      AudioCodec: "aac",
+      Context: EncodingContext.Streaming,
+      Protocol: MediaStreamProtocol.Hls,
+      MaxAudioChannels: "2",
+      MinSegments: 1,
+      BreakOnNonKeyFrames: true,
+      EnableAudioVbrEncoding: true,
+    },
+    {
+      Container: "aac",
+      Type: DlnaProfileType.Audio,
+      AudioCodec: "aac",
+      Context: EncodingContext.Streaming,
+      Protocol: MediaStreamProtocol.Http,
+      MaxAudioChannels: "2",
+    },
+    {
+      Container: "mp3",
+      Type: DlnaProfileType.Audio,
+      AudioCodec: "mp3",
+      Context: EncodingContext.Static,
+      Protocol: MediaStreamProtocol.Http,
+      MaxAudioChannels: "2",
+    },
+  ];
+
+  const codecProfiles: CodecProfile[] = [
+    {
+      Type: CodecType.VideoAudio,
+      Conditions: [
+        { Condition: ProfileConditionType.LessThanEqual, Property: ProfileConditionValue.AudioChannels, Value: maxAudioChannels.toString(), IsRequired: false },
+        { Condition: ProfileConditionType.Equals, Property: ProfileConditionValue.IsSecondaryAudio, Value: "false", IsRequired: false },
+      ],
+    },
+    {
+      Type: CodecType.Video,
+      Codec: "h264",
+      Conditions: [
+        { Condition: ProfileConditionType.NotEquals, Property: ProfileConditionValue.IsAnamorphic, Value: "true", IsRequired: false },
+        { Condition: ProfileConditionType.EqualsAny, Property: ProfileConditionValue.VideoProfile, Value: "high|main|baseline|constrained baseline", IsRequired: false },
+        { Condition: ProfileConditionType.EqualsAny, Property: ProfileConditionValue.VideoRangeType, Value: "SDR", IsRequired: false },
+        { Condition: ProfileConditionType.LessThanEqual, Property: ProfileConditionValue.VideoLevel, Value: "52", IsRequired: false },
+        { Condition: ProfileConditionType.NotEquals, Property: ProfileConditionValue.IsInterlaced, Value: "true", IsRequired: false },
+      ],
+    },
+    {
+      Type: CodecType.Video,
+      Codec: "hevc",
+      Conditions: [
+        { Condition: ProfileConditionType.NotEquals, Property: ProfileConditionValue.IsAnamorphic, Value: "true", IsRequired: false },
+        { Condition: ProfileConditionType.EqualsAny, Property: ProfileConditionValue.VideoProfile, Value: videoCodecs.hevc10Bit ? "main|main 10" : "main", IsRequired: false },
+        { Condition: ProfileConditionType.EqualsAny, Property: ProfileConditionValue.VideoRangeType, Value: getRangeTypes(capabilities, videoCodecs.hevc10Bit).join("|"), IsRequired: false },
+        { Condition: ProfileConditionType.LessThanEqual, Property: ProfileConditionValue.VideoLevel, Value: "183", IsRequired: false },
+        { Condition: ProfileConditionType.NotEquals, Property: ProfileConditionValue.IsInterlaced, Value: "true", IsRequired: false },
+      ],
+    },
+    {
+      Type: CodecType.Video,
+      Codec: "vp9",
+      Conditions: [
+        { Condition: ProfileConditionType.EqualsAny, Property: ProfileConditionValue.VideoRangeType, Value: getRangeTypes(capabilities, videoCodecs.vp910Bit).join("|"), IsRequired: false },
+      ],
+    },
+    {
+      Type: CodecType.Video,
+      Codec: "av1",
+      Conditions: [
+        { Condition: ProfileConditionType.NotEquals, Property: ProfileConditionValue.IsAnamorphic, Value: "true", IsRequired: false },
+        { Condition: ProfileConditionType.EqualsAny, Property: ProfileConditionValue.VideoProfile, Value: "main", IsRequired: false },
+        { Condition: ProfileConditionType.EqualsAny, Property: ProfileConditionValue.VideoRangeType, Value: getRangeTypes(capabilities, videoCodecs.av110Bit).join("|"), IsRequired: false },
+        { Condition: ProfileConditionType.LessThanEqual, Property: ProfileConditionValue.VideoLevel, Value: "19", IsRequired: false },
+      ],
+    },
+  ];
+
+  const subtitleProfiles: SubtitleProfile[] = [
+    ...EXTERNAL_SUBTITLE_FORMATS.map((format) => ({
+      Format: format,
+      Method: SubtitleDeliveryMethod.External,
+    })),
+    ...BURN_IN_SUBTITLE_FORMATS.map((format) => ({
+      Format: format,
+      Method: SubtitleDeliveryMethod.Encode,
+    })),
+  ];
+
+  return {
+    Name: "Finetic",
+    MaxStreamingBitrate: maxStreamingBitrate || 120000000,
+    MaxStaticBitrate: 100000000,
+    MusicStreamingTranscodingBitrate: 384000,
+    DirectPlayProfiles: directPlayProfiles,
+    TranscodingProfiles: transcodingProfiles,
+    ContainerProfiles: [],
+    CodecProfiles: codecProfiles,
+    SubtitleProfiles: subtitleProfiles,
+  };
+}
@@ -0,0 +1,132 @@
+// Library filters, kept in the URL query string so a filtered view can be shared
+
+export type VideoFeature = "4K" | "HD" | "HDR" | "3D" | "Subtitles" | "Trailer";
+export type PlayedFilter = "played" | "unplayed";
+
+export interface LibraryFilters {
+  genres: string[];
+  years: number[];
+  // First year of each decade, e.g. 1990 for the 1990s
+  decades: number[];
+  officialRatings: string[];
+  minCommunityRating?: number;
+  studios: string[];
+  tags: string[];
+  // Jellyfin VideoType values: VideoFile, Iso, Dvd, BluRay
+  videoTypes: string[];
+  features: VideoFeature[];
+  played?: PlayedFilter;
+  favorites: boolean;
+  resumable: boolean;
+}
+
+export interface LibraryFilterOptions {
+  genres: string[];
+  years: number[];
+  officialRatings: string[];
+  studios: string[];
+  tags: string[];
+}
+
+export const EMPTY_LIBRARY_FILTERS: LibraryFilters = {
+  genres: [],
+  years: [],
+  decades: [],
+  officialRatings: [],
+  studios: [],
+  tags: [],
+  videoTypes: [],
+  features: [],
+  favorites: false,
+  resumable: false,
+};
+
+export const VIDEO_FEATURES: VideoFeature[] = ["4K", "HD", "HDR", "3D", "Subtitles", "Trailer"];
+export const VIDEO_TYPES = ["VideoFile", "BluRay", "Dvd", "Iso"];
+
+type SearchParamsInput =
+  | URLSearchParams
+  | Record<string, string | string[] | undefined>;
+
+const getAll = (params: SearchParamsInput, key: string): string[] => {
+  if (params instanceof URLSearchParams) return params.getAll(key);
+  const value = params[key];
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+const toNumbers = (values: string[]) =>
+  values.map(Number).filter((value) => Number.isFinite(value));
+
+export function parseLibraryFilters(params: SearchParamsInput): LibraryFilters {
+  const minCommunityRating = Number(getAll(params, "rating")[0]);
+  const played = getAll(params, "played")[0];
+
+  return {
+    genres: getAll(params, "genre"),
+    years: toNumbers(getAll(params, "year")),
+    decades: toNumbers(getAll(params, "decade")),
+    officialRatings: getAll(params, "officialRating"),
+    minCommunityRating:
+      Number.isFinite(minCommunityRating) && minCommunityRating > 0
+        ? minCommunityRating
+        : undefined,
+    studios: getAll(params, "studio"),
+    tags: getAll(params, "tag"),
+    videoTypes: getAll(params, "videoType").filter((type) => VIDEO_TYPES.includes(type)),
+    features: getAll(params, "feature").filter((feature): feature is VideoFeature =>
+      VIDEO_FEATURES.includes(feature as VideoFeature)
+    ),
+    played: played === "played" || played === "unplayed" ? played : undefined,
+    favorites: getAll(params, "favorites")[0] === "true",
+    resumable: getAll(params, "resumable")[0] === "true",
+  };
+}
+
+export function serializeLibraryFilters(filters: LibraryFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  filters.genres.forEach((genre) => params.append("genre", genre));
+  filters.years.forEach((year) => params.append("year", String(year)));
+  filters.decades.forEach((decade) => params.append("decade", String(decade)));
+  filters.officialRatings.forEach((rating) => params.append("officialRating", rating));
+  if (filters.minCommunityRating) params.set("rating", String(filters.minCommunityRating));
+  filters.studios.forEach((studio) => params.append("studio", studio));
+  filters.tags.forEach((tag) => params.append("tag", tag));
+  filters.videoTypes.forEach((type) => params.append("videoType", type));
+  filters.features.forEach((feature) => params.append("feature", feature));
+  if (filters.played) params.set("played", filters.played);
+  if (filters.favorites) params.set("favorites", "true");
+  if (filters.resumable) params.set("resumable", "true");
+
+  return params;
+}
+
+export function countActiveFilters(filters: LibraryFilters): number {
+  return (
+    filters.genres.length +
+    filters.years.length +
+    filters.decades.length +
+    filters.officialRatings.length +
+    (filters.minCommunityRating ? 1 : 0) +
+    filters.studios.length +
+    filters.tags.length +
+    filters.videoTypes.length +
+    filters.features.length +
+    (filters.played ? 1 : 0) +
+    (filters.favorites ? 1 : 0) +
+    (filters.resumable ? 1 : 0)
+  );
+}
+
+// Selected years plus every year of the selected decades, as the server takes a flat list
+export function expandFilterYears(filters: LibraryFilters): number[] {
+  const years = new Set(filters.years);
+  filters.decades.forEach((decade) => {
+    for (let year = decade; year < decade + 10; year++) years.add(year);
+  });
+  return [...years].sort((a, b) => a - b);
+}
+
+// Letters of the A–Z jump rail; "#" covers names that sort before "A"
+export const LIBRARY_LETTERS = ["#", ..."ABCDEFGHIJKLMNOPQRSTUVWXYZ"];
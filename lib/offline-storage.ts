@@ -0,0 +1,233 @@
+import type { OfflineDownload } from "@/lib/atoms";
+
+// Files are written in fixed-size parts so an interrupted download can resume
+// from the last complete part without rewriting what is already on disk
+const PART_SIZE = 16 * 1024 * 1024;
+const DOWNLOADS_DIRECTORY = "downloads";
+const POSTER_FILE = "poster";
+
+const DOWNLOADS_KEY = "finetic-offline-downloads";
+const PLAYSTATE_KEY = "finetic-offline-playstate";
+
+export function isOfflineStorageSupported(): boolean {
+  return typeof navigator !== "undefined" && !!navigator.storage?.getDirectory;
+}
+
+async function getDownloadsDirectory() {
+  const root = await navigator.storage.getDirectory();
+  return root.getDirectoryHandle(DOWNLOADS_DIRECTORY, { create: true });
+}
+
+async function getItemDirectory(itemId: string) {
+  const downloads = await getDownloadsDirectory();
+  return downloads.getDirectoryHandle(itemId, { create: true });
+}
+
+const partName = (index: number) => `part-${String(index).padStart(5, "0")}`;
+
+// The DOM typings don't declare the async iterators on directory handles yet
+type IterableDirectoryHandle = FileSystemDirectoryHandle & {
+  keys(): AsyncIterableIterator<string>;
+};
+
+async function listParts(directory: FileSystemDirectoryHandle): Promise<string[]> {
+  const names: string[] = [];
+  for await (const name of (directory as IterableDirectoryHandle).keys()) {
+    if (name.startsWith("part-")) names.push(name);
+  }
+  return names.sort();
+}
+
+async function writeFile(
+  directory: FileSystemDirectoryHandle,
+  name: string,
+  data: Blob
+) {
+  const handle = await directory.getFileHandle(name, { create: true });
+  const writable = await handle.createWritable();
+  await writable.write(data);
+  await writable.close();
+}
+
+// Ask the browser not to evict downloads when storage runs low
+export async function requestPersistentStorage() {
+  try {
+    await navigator.storage.persist?.();
+  } catch (error) {
+    console.warn("Persistent storage was not granted:", error);
+  }
+}
+
+// The service worker keeps the Downloads page itself cached, so it opens offline too.
+// Development builds change on every edit, so it only runs in production.
+export async function registerDownloadsShell() {
+  if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+  try {
+    await navigator.serviceWorker.register("/sw.js");
+  } catch (error) {
+    console.warn("The Downloads page won't be available offline:", error);
+  }
+}
+
+// Bytes already on disk in complete parts, where a resumed download picks up
+async function getResumeOffset(directory: FileSystemDirectoryHandle) {
+  const parts = await listParts(directory);
+  return parts.length * PART_SIZE;
+}
+
+async function clearParts(directory: FileSystemDirectoryHandle) {
+  for (const name of await listParts(directory)) {
+    await directory.removeEntry(name);
+  }
+}
+
+// Total size from "Content-Range: bytes 0-99/1234", or the body length on a full response
+function getTotalBytes(response: Response, offset: number): number | null {
+  const range = response.headers.get("Content-Range");
+  const total = range?.split("/")[1];
+  if (total && total !== "*") return Number(total);
+
+  const length = response.headers.get("Content-Length");
+  return length ? offset + Number(length) : null;
+}
+
+// Stream a download into its parts, resuming from what is already saved.
+// Throws an AbortError when the signal fires.
+export async function downloadToStorage(
+  itemId: string,
+  url: string,
+  signal: AbortSignal,
+  onProgress: (bytesDownloaded: number, totalBytes: number | null) => void
+): Promise<number> {
+  const directory = await getItemDirectory(itemId);
+  let offset = await getResumeOffset(directory);
+
+  const response = await fetch(url, {
+    headers: offset > 0 ? { Range: `bytes=${offset}-` } : undefined,
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Server responded with ${response.status}`);
+  }
+
+  // Transcodes are produced on the fly and can't be resumed part-way
+  if (offset > 0 && response.status !== 206) {
+    await clearParts(directory);
+    offset = 0;
+  }
+
+  const totalBytes = getTotalBytes(response, offset);
+  let partIndex = offset / PART_SIZE;
+  let bytesDownloaded = offset;
+  let buffered: Blob[] = [];
+  let bufferedBytes = 0;
+
+  const reader = response.body.getReader();
+  onProgress(bytesDownloaded, totalBytes);
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffered.push(new Blob([value]));
+    bufferedBytes += value.byteLength;
+    bytesDownloaded += value.byteLength;
+
+    if (bufferedBytes >= PART_SIZE) {
+      const pending = new Blob(buffered);
+      await writeFile(directory, partName(partIndex++), pending.slice(0, PART_SIZE));
+      buffered = [pending.slice(PART_SIZE)];
+      bufferedBytes -= PART_SIZE;
+    }
+
+    onProgress(bytesDownloaded, totalBytes);
+  }
+
+  if (bufferedBytes > 0) {
+    await writeFile(directory, partName(partIndex), new Blob(buffered));
+  }
+
+  return bytesDownloaded;
+}
+
+export async function savePoster(itemId: string, url: string) {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return;
+    await writeFile(await getItemDirectory(itemId), POSTER_FILE, await response.blob());
+  } catch (error) {
+    console.warn("Failed to save poster for offline use:", error);
+  }
+}
+
+// The saved parts joined into one blob; the browser reads them from disk as the video plays
+export async function getDownloadedMedia(itemId: string): Promise<Blob> {
+  const directory = await getItemDirectory(itemId);
+  const parts = await listParts(directory);
+  const files = await Promise.all(
+    parts.map(async (name) => (await directory.getFileHandle(name)).getFile())
+  );
+  return new Blob(files);
+}
+
+export async function getDownloadedPoster(itemId: string): Promise<Blob | null> {
+  try {
+    const directory = await getItemDirectory(itemId);
+    return await (await directory.getFileHandle(POSTER_FILE)).getFile();
+  } catch {
+    return null;
+  }
+}
+
+export async function deleteDownloadedFiles(itemId: string) {
+  try {
+    const downloads = await getDownloadsDirectory();
+    await downloads.removeEntry(itemId, { recursive: true });
+  } catch (error: any) {
+    if (error?.name !== "NotFoundError") {
+      console.error("Failed to delete downloaded files:", error);
+    }
+  }
+}
+
+export function loadSavedDownloads(): OfflineDownload[] {
+  try {
+    return JSON.parse(localStorage.getItem(DOWNLOADS_KEY) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+export function saveDownloads(downloads: OfflineDownload[]) {
+  localStorage.setItem(DOWNLOADS_KEY, JSON.stringify(downloads));
+}
+
+// Watch state changed while offline, waiting to be sent to the server
+export interface PendingPlaystate {
+  itemId: string;
+  mediaSourceId: string;
+  positionTicks: number;
+  played: boolean;
+  updatedAt: number;
+}
+
+export function loadPendingPlaystates(): PendingPlaystate[] {
+  try {
+    return JSON.parse(localStorage.getItem(PLAYSTATE_KEY) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+export function savePendingPlaystates(playstates: PendingPlaystate[]) {
+  localStorage.setItem(PLAYSTATE_KEY, JSON.stringify(playstates));
+}
+
+// Only the latest state of each item matters
+export function queuePlaystate(playstate: PendingPlaystate) {
+  savePendingPlaystates([
+    ...loadPendingPlaystates().filter((entry) => entry.itemId !== playstate.itemId),
+    playstate,
+  ]);
+}
@@ -1,6 +1,8 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
 import { Jellyfin } from "@jellyfin/sdk";
+import type { BaseItemDto } from "@jellyfin/sdk/lib/generated-client/models";
+import type { AudioTrack } from "@/lib/atoms";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -111,6 +113,15 @@ export const convertTimestampToSeconds = (timestamp: string): number => {
   return isNaN(parsed) ? 0 : parsed;
 };
 
+export const formatBytes = (bytes: number, decimals = 2): string => {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const dm = decimals < 0 ? 0 : decimals;
+  const sizes = ["Bytes", "KB", "MB", "GB", "TB", "PB", "EB", "ZB", "YB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + " " + sizes[i];
+};
+
 // Convert ticks to formatted time string (HH:MM:SS or MM:SS)
 export const formatPlaybackPosition = (ticks: number): string => {
   const totalSeconds = Math.floor(ticks / 10000000);
@@ -123,3 +134,32 @@ export const formatPlaybackPosition = (ticks: number): string => {
   }
   return `${minutes}:${seconds.toString().padStart(2, '0')}`;
 };
+
+// Turn Jellyfin enum values like "VideoCodecNotSupported" into "Video codec not supported"
+export const formatEnumLabel = (value: string): string => {
+  const words = value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(' ');
+  return words
+    .map((word, index) => {
+      if (word.length > 1 && word === word.toUpperCase()) return word;
+      return index === 0 ? word : word.toLowerCase();
+    })
+    .join(' ');
+};
+
+// The subset of an Audio item the music player needs
+export const toAudioTrack = (item: BaseItemDto): AudioTrack => ({
+  id: item.Id!,
+  name: item.Name || "Unknown track",
+  album: item.Album || undefined,
+  albumId: item.AlbumId || undefined,
+  artists: item.Artists?.length
+    ? item.Artists
+    : item.AlbumArtist
+      ? [item.AlbumArtist]
+      : undefined,
+  artistId: item.ArtistItems?.[0]?.Id || item.AlbumArtists?.[0]?.Id || undefined,
+  runTimeTicks: item.RunTimeTicks || undefined,
+});
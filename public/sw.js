@@ -0,0 +1,77 @@
+/* global self, caches */
+
+// Keeps the Downloads page and the scripts and styles it loads in the Cache API, so
+// /downloads still opens when the browser is offline. Nothing else is cached: every
+// other page needs the server anyway. The downloaded media itself lives in OPFS.
+
+const CACHE_NAME = 'finetic-downloads-shell';
+const SHELL_URL = '/downloads';
+const ASSET_PATTERN = /\/_next\/static\/[^"'\\\s)]+/g;
+
+// Fetches the page and everything it references, and swaps them in for what was cached
+// before, so the cache only ever holds one build's files
+async function cacheShell() {
+  const response = await fetch(SHELL_URL, { credentials: 'same-origin' });
+  // Signed out, the page redirects to /login; keep whatever was cached instead
+  if (!response.ok || response.redirected) return;
+
+  const html = await response.clone().text();
+  const assetUrls = [...new Set(html.match(ASSET_PATTERN) ?? [])];
+
+  const cache = await caches.open(CACHE_NAME);
+  const assets = await Promise.all(
+    assetUrls.map(async (url) => {
+      const cached = await cache.match(url);
+      if (cached) return [url, cached];
+      const assetResponse = await fetch(url);
+      return [url, assetResponse.ok ? assetResponse : null];
+    })
+  );
+  if (assets.some(([, assetResponse]) => !assetResponse)) return;
+
+  const keep = new Set([SHELL_URL, ...assetUrls].map((url) => new URL(url, self.location.origin).href));
+  await Promise.all(assets.map(([url, assetResponse]) => cache.put(url, assetResponse)));
+  await cache.put(SHELL_URL, response);
+  for (const request of await cache.keys()) {
+    if (!keep.has(request.url)) await cache.delete(request);
+  }
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(cacheShell().catch(() => {}).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // The page from the network when it's reachable, from the cache when it isn't.
+  // Each online visit also re-caches it, which is how a new build's files get in.
+  if (request.mode === 'navigate' && url.pathname === SHELL_URL) {
+    event.respondWith(
+      fetch(request).then(
+        (response) => {
+          event.waitUntil(cacheShell().catch(() => {}));
+          return response;
+        },
+        async () => {
+          const cached = await caches.match(SHELL_URL);
+          return cached ?? Response.error();
+        }
+      )
+    );
+    return;
+  }
+
+  // Build files are content-hashed, so a cached copy is always the right one
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached ?? fetch(request))
+    );
+  }
+});